@@ -6,7 +6,7 @@ import chalk from 'chalk';
 import { getStorage, isStorageInitialized } from '../../utils/storage-integration.js';
 import { createBatchProgress, showOperationSummary } from '../utils/progress.js';
 import { formatOperationResultAsJson } from '../formatters/json.js';
-import { validateFrameworkSelection, getAxiosImplementation } from '../../utils/framework.js';
+import { validateFrameworkSelection, getAxiosImplementation, setConfiguredFramework } from '../../utils/framework.js';
 
 export interface RefreshCacheOptions {
   framework?: string;
@@ -36,7 +36,7 @@ export async function handleRefreshCache(options: RefreshCacheOptions = {}): Pro
   try {
     // Validate framework
     if (framework) {
-      process.env.FRAMEWORK = framework;
+      setConfiguredFramework(framework);
       validateFrameworkSelection();
     }
 
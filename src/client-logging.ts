@@ -0,0 +1,56 @@
+/**
+ * MCP logging capability for the Model Context Protocol (MCP) server.
+ *
+ * Each session forwards the log entries of its own requests, and server-wide events, to its
+ * client as notifications/message, from the level the client chose with logging/setLevel
+ * (warnings and errors until it does): rate-limit exhaustion, stale data being served,
+ * failed tool calls.
+ */
+
+import { type Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { type LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import { type LogEntry, type LogLevel } from './utils/logger.js';
+
+/**
+ * MCP levels in increasing severity (RFC 5424 syslog levels)
+ */
+const MCP_LOGGING_LEVELS: readonly LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+const MCP_LEVELS: Record<LogLevel, LoggingLevel> = {
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error'
+};
+
+export class ClientLogging {
+  private level: LoggingLevel = 'warning';
+
+  constructor(private server: Pick<Server, 'sendLoggingMessage'>) {}
+
+  setLevel(level: LoggingLevel): void {
+    this.level = level;
+  }
+
+  getLevel(): LoggingLevel {
+    return this.level;
+  }
+
+  /**
+   * Log sink: send entries at or above the session's level to the client
+   */
+  handleLogEntry(entry: LogEntry): void {
+    const level = MCP_LEVELS[entry.level];
+    if (MCP_LOGGING_LEVELS.indexOf(level) < MCP_LOGGING_LEVELS.indexOf(this.level)) {
+      return;
+    }
+
+    this.server.sendLoggingMessage({
+      level,
+      logger: 'shadcn-ui-mcp-server',
+      data: entry.error ? { message: entry.message, error: entry.error.message } : entry.message
+    }).catch(() => {
+      // Not logged: the failure would be forwarded to the same disconnected client
+    });
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Argument completion for the Model Context Protocol (MCP) server.
+ *
+ * Implements completion/complete for the prompt arguments and the resource template
+ * variables: component and block names come from the cached registry lists, package
+ * managers and build tools from the installation templates, and the enumerated prompt
+ * values from the prompt definitions. Values are prefix-matched, case-insensitively.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { promptArgumentCompletions, prompts } from './prompts.js';
+import { BUILD_TOOLS, PACKAGE_MANAGERS, resourceTemplates } from './resource-templates.js';
+import { listCatalogNames, type CatalogResourceKind } from './resources.js';
+import { FRAMEWORKS, getFramework, type Framework } from './utils/framework.js';
+import { logWarning } from './utils/logger.js';
+
+/**
+ * Maximum number of values of a completion result, as set by the protocol
+ */
+export const MAX_COMPLETION_VALUES = 100;
+
+export type CompletionReference = { type: 'ref/prompt'; name: string } | { type: 'ref/resource'; uri: string };
+
+export interface Completion {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+/**
+ * Catalog kind listed by each shadcn:// template
+ */
+const CATALOG_TEMPLATE_KINDS: Record<string, CatalogResourceKind> = {
+  component: 'components',
+  component_demo: 'demos',
+  block: 'blocks'
+};
+
+/**
+ * Registry names of one kind; an unreadable list completes to nothing
+ */
+async function listNames(framework: Framework, kind: CatalogResourceKind): Promise<string[]> {
+  try {
+    return await listCatalogNames(framework, kind);
+  } catch (error) {
+    logWarning(`Failed to list ${kind} for completion: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
+  }
+}
+
+function resolveFrameworkArgument(value?: string): Framework {
+  return FRAMEWORKS.includes(value as Framework) ? value as Framework : getFramework();
+}
+
+/**
+ * Candidate values of a resource template variable
+ */
+async function getTemplateCandidates(uri: string, argument: string, context: Record<string, string>): Promise<readonly string[]> {
+  const template = resourceTemplates.find(template => template.uriTemplate === uri);
+  if (!template) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource template: ${uri}`);
+  }
+
+  const catalogKind = CATALOG_TEMPLATE_KINDS[template.name];
+  switch (argument) {
+    case 'packageManager':
+      return PACKAGE_MANAGERS;
+    case 'buildTool':
+      return BUILD_TOOLS[getFramework()];
+    case 'component':
+      return listNames(getFramework(), 'components');
+    case 'framework':
+      return catalogKind ? FRAMEWORKS : [];
+    case 'name':
+      return catalogKind ? listNames(resolveFrameworkArgument(context.framework), catalogKind) : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Candidate values of a prompt argument
+ */
+async function getPromptCandidates(name: string, argument: string): Promise<{ candidates: readonly string[]; multiple: boolean }> {
+  if (!(name in prompts)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const completion = promptArgumentCompletions[name]?.[argument];
+  if (!completion) {
+    return { candidates: [], multiple: false };
+  }
+  const candidates = completion.values === 'components'
+    ? await listNames(getFramework(), 'components')
+    : completion.values;
+  return { candidates, multiple: completion.multiple ?? false };
+}
+
+/**
+ * Complete the value of a prompt argument or resource template variable
+ * @param ref Prompt or resource template the argument belongs to
+ * @param argument Argument name and the value typed so far
+ * @param context Arguments the client has already resolved
+ */
+export async function completeArgument(
+  ref: CompletionReference,
+  argument: { name: string; value: string },
+  context: Record<string, string> = {}
+): Promise<Completion> {
+  let candidates: readonly string[];
+  // Comma-separated lists complete their last entry, keeping the entries before it
+  let head = '';
+  let prefix = argument.value;
+
+  if (ref.type === 'ref/prompt') {
+    const prompt = await getPromptCandidates(ref.name, argument.name);
+    candidates = prompt.candidates;
+    if (prompt.multiple) {
+      const separator = prefix.lastIndexOf(',');
+      head = prefix.slice(0, separator + 1);
+      prefix = prefix.slice(separator + 1).trimStart();
+      if (head) {
+        head += ' ';
+      }
+    }
+  } else {
+    candidates = await getTemplateCandidates(ref.uri, argument.name, context);
+  }
+
+  const entered = new Set(head.split(',').map(entry => entry.trim()));
+  const matches = candidates
+    .filter(candidate => candidate.toLowerCase().startsWith(prefix.toLowerCase()) && !entered.has(candidate))
+    .map(candidate => head + candidate);
+
+  return {
+    values: matches.slice(0, MAX_COMPLETION_VALUES),
+    total: matches.length,
+    hasMore: matches.length > MAX_COMPLETION_VALUES
+  };
+}
@@ -14,6 +14,17 @@ export interface AlertConfig {
   enabled: boolean;
 }
 
+/**
+ * A named shadcn-compatible registry, as in the `registries` field of components.json.
+ * Either a URL template containing `{name}` or an object with headers and query params.
+ * `${VAR}` references in any value are expanded from the environment.
+ */
+export type RegistryConfig = string | {
+  url: string;
+  headers?: Record<string, string>;
+  params?: Record<string, string>;
+};
+
 /**
  * Comprehensive cache configuration interface
  */
@@ -143,6 +154,15 @@ export interface CacheConfiguration {
     autoSync: boolean;
     experimentalFeatures: string[];
   };
+  
+  // Named registries keyed by namespace (e.g. "@acme")
+  registries?: Record<string, RegistryConfig>;
+  
+  // Registry style, as in components.json (default: new-york-v4 for React)
+  style?: string;
+  
+  // Git branch, tag or commit SHA to read the GitHub registries from (default: main)
+  ref?: string;
 }
 
 /**
@@ -185,6 +205,19 @@ export const alertConfigSchema = z.object({
   enabled: z.boolean()
 });
 
+const registryUrlSchema = z.string().refine(url => url.includes('{name}'), {
+  message: 'Registry URL must contain a {name} placeholder'
+});
+
+export const registryConfigSchema = z.union([
+  registryUrlSchema,
+  z.object({
+    url: registryUrlSchema,
+    headers: z.record(z.string()).optional(),
+    params: z.record(z.string()).optional()
+  })
+]);
+
 export const cacheConfigurationSchema = z.object({
   storage: z.object({
     type: z.enum(['hybrid', 'memory-only', 'pglite-only']),
@@ -262,7 +295,16 @@ export const cacheConfigurationSchema = z.object({
     analytics: z.boolean(),
     autoSync: z.boolean(),
     experimentalFeatures: z.array(z.string())
-  })
+  }),
+  
+  registries: z.record(
+    z.string().regex(/^@[a-z0-9][\w.-]*$/i, 'Registry names must look like "@acme"'),
+    registryConfigSchema
+  ).optional(),
+  
+  style: z.string().regex(/^[a-z0-9][\w.-]*$/i, 'Invalid style name').max(50).optional(),
+  
+  ref: z.string().regex(/^[\w.][\w./-]*$/, 'Invalid git ref').max(100).optional()
 });
 
 /**
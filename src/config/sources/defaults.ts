@@ -118,7 +118,8 @@ export class DefaultConfigSource implements ConfigSource {
         analytics: true,
         autoSync: false,
         experimentalFeatures: []
-      }
+      },
+      registries: {}
     };
   }
 }
\ No newline at end of file
@@ -367,6 +367,25 @@ export class EnvironmentConfigSource implements ConfigSource {
       config.recovery = recoveryConfig;
     }
     
+    // Registry style
+    if (process.env.SHADCN_MCP_STYLE) {
+      config.style = process.env.SHADCN_MCP_STYLE;
+    }
+    
+    // Git ref to read the GitHub registries from
+    if (process.env.SHADCN_MCP_REF) {
+      config.ref = process.env.SHADCN_MCP_REF;
+    }
+    
+    // Named registries as a JSON object, e.g. {"@acme":"https://acme.com/r/{name}.json"}
+    if (process.env.SHADCN_MCP_REGISTRIES) {
+      try {
+        config.registries = JSON.parse(process.env.SHADCN_MCP_REGISTRIES);
+      } catch {
+        // Ignore malformed JSON; the remaining sources still apply
+      }
+    }
+    
     return config;
   }
   
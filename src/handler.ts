@@ -14,53 +14,86 @@ import {
   ListToolsRequestSchema,
   GetPromptRequestSchema,
   ListPromptsRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  CompleteRequestSchema,
+  SetLevelRequestSchema,
   ErrorCode,
-  McpError
+  McpError,
+  type ProgressToken,
+  type ServerNotification,
+  type ServerRequest
 } from "@modelcontextprotocol/sdk/types.js";
 import { type Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { resourceHandlers, resources } from "./resources.js";
+import { type RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { listResources, readCatalogResource, resourceHandlers } from "./resources.js";
 import { promptHandlers, prompts } from "./prompts.js";
-import { toolHandlers, tools } from "./tools/index.js";
+import { tools, getTool, validateToolArguments, type ToolContext } from "./tools/index.js";
 import {
   getResourceTemplate,
   resourceTemplates,
 } from "./resource-templates.js";
-import { z } from "zod";
+import { ResourceSubscriptions } from "./resource-subscriptions.js";
+import { completeArgument } from "./completions.js";
+import { ClientLogging } from "./client-logging.js";
 import { validateAndSanitizeParams } from './utils/validation.js';
+import { withResponseMeta } from './utils/response-meta.js';
+import { getStorage, isStorageInitialized } from './utils/storage-integration.js';
 import { circuitBreakers } from './utils/circuit-breaker.js';
-import { logError, logInfo } from './utils/logger.js';
-
-// Define basic component schemas here for tool validation
-const componentSchema = { componentName: z.string() };
-const searchSchema = { query: z.string() };
-const themesSchema = { query: z.string().optional() };
-const blocksSchema = { 
-  query: z.string().optional(), 
-  category: z.string().optional() 
-};
+import { ProgressReporter } from './utils/progress.js';
+import { addLogSink, logError, logInfo, runInLogSession } from './utils/logger.js';
 
 /**
  * Wrapper function to handle requests with simple error handling
+ * @param signal Aborted when the client cancels the request
  */
 async function handleRequest<T>(
   method: string,
   params: any,
-  handler: (validatedParams: any) => Promise<T>
+  handler: (validatedParams: any) => Promise<T>,
+  signal?: AbortSignal
 ): Promise<T> {
   try {
     // Validate and sanitize input parameters
     const validatedParams = validateAndSanitizeParams(method, params);
     
     // Execute the handler with circuit breaker protection for external calls
-    const result = await circuitBreakers.external.execute(() => handler(validatedParams));
+    const result = await circuitBreakers.external.execute(() => handler(validatedParams), signal);
     
     return result;
   } catch (error) {
-    logError(`Error in ${method}`, error);
+    if (signal?.aborted) {
+      logInfo(`Cancelled ${method}`);
+    } else {
+      logError(`Error in ${method}`, error);
+    }
     throw error;
   }
 }
 
+/**
+ * Expose the client features tools may use during a call, based on the client's capabilities
+ * and the call's progressToken, along with the call's cancellation
+ */
+function createToolContext(
+  server: Server,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  progressToken?: ProgressToken
+): ToolContext {
+  return {
+    signal: extra.signal,
+    ...(server.getClientCapabilities()?.roots && {
+      listRoots: async () => (await server.listRoots()).roots
+    }),
+    ...(progressToken !== undefined && {
+      progress: new ProgressReporter(update => extra.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, ...update }
+      }))
+    })
+  };
+}
+
 /**
  * Sets up all request handlers for the MCP server
  * Following MCP SDK 1.16.0 best practices for handler registration
@@ -69,159 +102,53 @@ async function handleRequest<T>(
 export const setupHandlers = (server: Server): void => {
   logInfo('Setting up request handlers...');
 
+  // Server log entries forwarded to the client as notifications/message: those logged while
+  // handling this session's requests, and server-wide events
+  const clientLogging = new ClientLogging(server);
+  const stopForwardingLogs = addLogSink(entry => clientLogging.handleLogEntry(entry), clientLogging);
+  const handleSessionRequest = <T>(method: string, params: any, handler: (validatedParams: any) => Promise<T>, signal?: AbortSignal) =>
+    runInLogSession(clientLogging, () => handleRequest(method, params, handler, signal));
+
+  // Resource subscriptions of this session, notified on every storage write
+  const subscriptions = new ResourceSubscriptions(server);
+
   // List available resources when clients request them
   server.setRequestHandler(
     ListResourcesRequestSchema,
     async (request) => {
-      return await handleRequest(
+      return await handleSessionRequest(
         'list_resources',
         request.params,
-        async () => ({ resources })
+        async (validatedParams: any) => {
+          const result = await listResources(validatedParams?.cursor);
+          subscriptions.markListed();
+          return result;
+        }
       );
     }
   );
   
   // Resource Templates
   server.setRequestHandler(ListResourceTemplatesRequestSchema, async (request) => {
-    return await handleRequest(
+    return await handleSessionRequest(
       'list_resource_templates',
       request.params,
       async () => ({ resourceTemplates })
     );
   });
 
-  // List available tools
+  // List available tools (generated from the tool registry)
   server.setRequestHandler(ListToolsRequestSchema, async (request) => {
-    return await handleRequest(
+    return await handleSessionRequest(
       'list_tools',
       request.params,
-      async () => {
-        // Return the tools that are registered with the server
-        const registeredTools = [
-          {
-            name: 'get_component',
-            description: 'Get the source code for a specific shadcn/ui v4 component',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                componentName: {
-                  type: 'string',
-                  description: 'Name of the shadcn/ui component (e.g., "accordion", "button")',
-                },
-              },
-              required: ['componentName'],
-            },
-          },
-          {
-            name: 'get_component_demo',
-            description: 'Get demo code illustrating how a shadcn/ui v4 component should be used',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                componentName: {
-                  type: 'string',
-                  description: 'Name of the shadcn/ui component (e.g., "accordion", "button")',
-                },
-              },
-              required: ['componentName'],
-            },
-          },
-          {
-            name: 'list_components',
-            description: 'Get all available shadcn/ui v4 components',
-            inputSchema: {
-              type: 'object',
-              properties: {},
-            },
-          },
-          {
-            name: 'get_component_metadata',
-            description: 'Get metadata for a specific shadcn/ui v4 component',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                componentName: {
-                  type: 'string',
-                  description: 'Name of the shadcn/ui component (e.g., "accordion", "button")',
-                },
-              },
-              required: ['componentName'],
-            },
-          },
-          {
-            name: 'get_directory_structure',
-            description: 'Get the directory structure of the shadcn-ui v4 repository',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                path: {
-                  type: 'string',
-                  description: 'Path within the repository (default: v4 registry)',
-                },
-                owner: {
-                  type: 'string',
-                  description: 'Repository owner (default: "shadcn-ui")',
-                },
-                repo: {
-                  type: 'string',
-                  description: 'Repository name (default: "ui")',
-                },
-                branch: {
-                  type: 'string',
-                  description: 'Branch name (default: "main")',
-                },
-              },
-            },
-          },
-          {
-            name: 'get_block',
-            description: 'Get source code for a specific shadcn/ui v4 block (e.g., calendar-01, dashboard-01)',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                blockName: {
-                  type: 'string',
-                  description: 'Name of the block (e.g., "calendar-01", "dashboard-01", "login-02")',
-                },
-                includeComponents: {
-                  type: 'boolean',
-                  description: 'Whether to include component files for complex blocks (default: true)',
-                },
-              },
-              required: ['blockName'],
-            },
-          },
-          {
-            name: 'list_blocks',
-            description: 'Get all available shadcn/ui v4 blocks with categorization',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                category: {
-                  type: 'string',
-                  description: 'Filter by category (calendar, dashboard, login, sidebar, products)',
-                },
-              },
-            },
-          },
-          {
-            name: 'get_storage_stats',
-            description: 'Get hybrid storage statistics and performance metrics',
-            inputSchema: {
-              type: 'object',
-              properties: {},
-            },
-          },
-        ];
-        
-        return { tools: registeredTools };
-      }
+      async () => ({ tools })
     );
   });
   
   // Return resource content when clients request it
   server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-    return await handleRequest(
+    return await handleSessionRequest(
       'read_resource',
       request.params,
       async (validatedParams: any) => {
@@ -240,6 +167,12 @@ export const setupHandlers = (server: Server): void => {
           };
         }
         
+        // Components, demos and blocks of the registry catalog
+        const catalogResource = await readCatalogResource(uri);
+        if (catalogResource) {
+          return catalogResource;
+        }
+        
         // Check if this is a generated resource from a template
         const resourceTemplateHandler = getResourceTemplate(uri);
         if (resourceTemplateHandler) {
@@ -258,9 +191,52 @@ export const setupHandlers = (server: Server): void => {
     );
   });
 
+  // Storage writes notify the subscriptions of this session
+  const stopWatchingStorage = isStorageInitialized()
+    ? getStorage().onChange((key, value) => subscriptions.handleStorageChange(key, value))
+    : undefined;
+
+  server.onclose = () => {
+    stopWatchingStorage?.();
+    stopForwardingLogs();
+  };
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    return await handleSessionRequest(
+      'subscribe_resource',
+      request.params,
+      async (validatedParams: any) => {
+        subscriptions.subscribe(validatedParams.uri);
+        return {};
+      }
+    );
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    return await handleSessionRequest(
+      'unsubscribe_resource',
+      request.params,
+      async (validatedParams: any) => {
+        subscriptions.unsubscribe(validatedParams.uri);
+        return {};
+      }
+    );
+  });
+
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    return await handleSessionRequest(
+      'set_log_level',
+      request.params,
+      async (validatedParams: any) => {
+        clientLogging.setLevel(validatedParams.level);
+        return {};
+      }
+    );
+  });
+
   // List available prompts
   server.setRequestHandler(ListPromptsRequestSchema, async (request) => {
-    return await handleRequest(
+    return await handleSessionRequest(
       'list_prompts',
       request.params,
       async () => ({ prompts: Object.values(prompts) })
@@ -269,7 +245,7 @@ export const setupHandlers = (server: Server): void => {
 
   // Get specific prompt content with optional arguments
   server.setRequestHandler(GetPromptRequestSchema, async (request) => {
-    return await handleRequest(
+    return await handleSessionRequest(
       'get_prompt',
       request.params,
       async (validatedParams: any) => {
@@ -280,80 +256,55 @@ export const setupHandlers = (server: Server): void => {
           throw new Error(`Prompt not found: ${name}`);
         }
         
+        const missing = prompts[name as keyof typeof prompts].arguments
+          .filter(argument => 'required' in argument && argument.required && !args?.[argument.name])
+          .map(argument => argument.name);
+        if (missing.length > 0) {
+          throw new McpError(ErrorCode.InvalidParams, `Missing required arguments for prompt ${name}: ${missing.join(', ')}`);
+        }
+        
         return promptHandler(args as any);
       }
     );
   });
 
-  // Tool request Handler - executes the requested tool with provided parameters
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    return await handleRequest(
-      'call_tool',
+  // Suggest values for prompt arguments and resource template variables
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    return await handleSessionRequest(
+      'complete',
       request.params,
       async (validatedParams: any) => {
-        const { name, arguments: params } = validatedParams;
-        
-        if (!name || typeof name !== 'string') {
-          throw new Error("Tool name is required");
-        }
-        
-        const handler = toolHandlers[name as keyof typeof toolHandlers];
+        const { ref, argument, context } = validatedParams;
+        return { completion: await completeArgument(ref, argument, context?.arguments) };
+      }
+    );
+  });
 
-        if (!handler) {
-          throw new Error(`Tool not found: ${name}`);
-        }
+  // Tool request Handler - validates arguments against the registry and dispatches to the tool
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
 
-        // Execute handler with circuit breaker protection
-        const result = await circuitBreakers.external.execute(() => 
-          Promise.resolve(handler(params || {}))
-        );
-        
-        return result;
-      }
+    // Validate before entering the circuit breaker so bad input never counts as a service failure
+    let params: Record<string, unknown>;
+    try {
+      params = validateToolArguments(name, args);
+    } catch (error) {
+      runInLogSession(clientLogging, () => logError(`Invalid call_tool request for ${name}`, error));
+      throw error;
+    }
+
+    return await handleSessionRequest(
+      'call_tool',
+      request.params,
+      async () => withResponseMeta(() => getTool(name).handler(params, createToolContext(server, extra, request.params._meta?.progressToken))),
+      extra.signal
     );
   });
   
   // Add global error handler
   server.onerror = (error) => {
-    logError('MCP server error', error);
+    runInLogSession(clientLogging, () => logError('MCP server error', error));
   };
 
   logInfo('Handlers setup complete');
 };
-
-/**
- * Get Zod schema for tool validation if available
- * Following MCP SDK 1.16.0 best practices for schema validation
- * @param toolName Name of the tool
- * @returns Zod schema or undefined
- */
-function getToolSchema(toolName: string): z.ZodType | undefined {
-  try {
-    switch(toolName) {
-      case 'get_component':
-      case 'get_component_details':
-        return z.object(componentSchema);
-        
-      case 'get_examples':
-        return z.object(componentSchema);
-        
-      case 'get_usage':
-        return z.object(componentSchema);
-        
-      case 'search_components':
-        return z.object(searchSchema);
-        
-      case 'get_themes':
-        return z.object(themesSchema);
-        
-      case 'get_blocks':
-        return z.object(blocksSchema);
-        
-      default:
-        return undefined;
-    }
-  } catch (error) {
-    logError('Schema error', error);
-    return undefined;
-  }
-}
\ No newline at end of file
@@ -9,19 +9,15 @@
  *   npx shadcn-ui-mcp-server
  *   npx shadcn-ui-mcp-server --github-api-key YOUR_TOKEN
  *   npx shadcn-ui-mcp-server -g YOUR_TOKEN
+ *   npx shadcn-ui-mcp-server --transport http --port 3000
  */
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { Command } from 'commander';
-import { setupHandlers } from './handler.js';
-import { validateFrameworkSelection, getAxiosImplementation } from './utils/framework.js';
+import { createServer } from './server.js';
+import { startHttpTransport } from './transports/http.js';
+import { validateFrameworkSelection, getAxiosImplementation, setConfiguredFramework } from './utils/framework.js';
 import { initializeStorage, disposeStorage } from './utils/storage-integration.js';
 import { setupCacheCommands, setupCacheFlags, handleCacheFlags, isCacheCommand, showCacheHelp, setupMonitoringCommands } from './cli/index.js';
-import { z } from 'zod';
-import { 
-  toolHandlers,
-  toolSchemas
-} from './tools/index.js';
 import { logError, logInfo, logWarning } from './utils/logger.js';
 
 
@@ -56,6 +52,11 @@ async function setupCommandLine() {
     .version(version, '-v, --version', 'Show version information')
     .option('-g, --github-api-key <token>', 'GitHub Personal Access Token for API access')
     .option('-f, --framework <framework>', 'Framework to use: react or svelte', 'react')
+    .option('--style <style>', 'Registry style to use, as in components.json (default: new-york-v4)')
+    .option('--ref <ref>', 'Git branch, tag or commit SHA to read components from (default: main)')
+    .option('-t, --transport <transport>', 'Transport to use: stdio or http')
+    .option('-p, --port <port>', 'Port for the HTTP transport (default: 3000)')
+    .option('--host <host>', 'Host interface for the HTTP transport (default: 127.0.0.1)')
     .helpOption('-h, --help', 'Show help information')
     .action(async (options) => {
       // Handle cache flags in the main action
@@ -81,12 +82,19 @@ async function setupCommandLine() {
 Environment Variables:
   GITHUB_PERSONAL_ACCESS_TOKEN    Alternative way to provide GitHub token
   FRAMEWORK                       Framework to use: 'react' or 'svelte' (default: react)
+  SHADCN_MCP_STYLE                Registry style, e.g. 'default' or 'new-york' (default: new-york-v4)
+  SHADCN_MCP_REF                  Git branch, tag or commit SHA to read components from (default: main)
   LOG_LEVEL                       Log level (debug, info, warn, error) - default: info
+  LOG_FILE                        Also append log entries to this file as JSON lines
+  MCP_TRANSPORT                   Transport to use: 'stdio' or 'http' (default: stdio)
+  MCP_PORT                        Port for the HTTP transport (default: 3000)
+  MCP_HOST                        Host interface for the HTTP transport (default: 127.0.0.1)
 
 Examples:
   npx shadcn-ui-mcp-server
   npx shadcn-ui-mcp-server --github-api-key ghp_your_token_here
   npx shadcn-ui-mcp-server --framework svelte
+  npx shadcn-ui-mcp-server --transport http --port 3000
   npx shadcn-ui-mcp-server cache stats
   npx shadcn-ui-mcp-server --cache-stats --format json
 
@@ -104,12 +112,33 @@ For more information:
 async function startMCPServer(options: any) {
   logInfo('Starting Shadcn UI v4 MCP Server...');
 
+  // Resolve transport selection before doing any expensive initialization
+  const transportType = (options.transport || process.env.MCP_TRANSPORT || 'stdio').toLowerCase();
+  if (transportType !== 'stdio' && transportType !== 'http') {
+    throw new Error(`Invalid transport '${transportType}'. Use 'stdio' or 'http'.`);
+  }
+
+  const port = parseInt(options.port || process.env.MCP_PORT || '3000', 10);
+  if (transportType === 'http' && (isNaN(port) || port < 0 || port > 65535)) {
+    throw new Error(`Invalid port '${options.port || process.env.MCP_PORT}'`);
+  }
+
   // Extract GitHub API key
   const githubApiKey = options.githubApiKey || process.env.GITHUB_PERSONAL_ACCESS_TOKEN;
 
   // Set framework from options
   if (options.framework) {
-    process.env.FRAMEWORK = options.framework;
+    setConfiguredFramework(options.framework);
+  }
+
+  // Set style from options; picked up by the configuration manager
+  if (options.style) {
+    process.env.SHADCN_MCP_STYLE = options.style;
+  }
+
+  // Set git ref from options; picked up by the configuration manager
+  if (options.ref) {
+    process.env.SHADCN_MCP_REF = options.ref;
   }
 
   // Validate and log framework selection
@@ -134,221 +163,48 @@ async function startMCPServer(options: any) {
     logError('Failed to initialize storage system, continuing without caching', error);
   }
 
-  // Initialize the MCP server with metadata and capabilities
-  // Following MCP SDK 1.16.0 best practices
-  const server = new Server(
-      {
-        name: "shadcn-ui-mcp-server",
-        version: "1.0.2",
-      },
-      {
-        capabilities: {
-          resources: {
-            "get_components": {
-              description: "List of available shadcn/ui components that can be used in the project",
-              uri: "resource:get_components",
-              contentType: "text/plain"
-            },
-            "get_install_script_for_component": {
-              description: "Generate installation script for a specific shadcn/ui component based on package manager",
-              uriTemplate: "resource-template:get_install_script_for_component?packageManager={packageManager}&component={component}",
-              contentType: "text/plain"
-            },
-            "get_installation_guide": {
-              description: "Get the installation guide for shadcn/ui based on build tool and package manager",
-              uriTemplate: "resource-template:get_installation_guide?buildTool={buildTool}&packageManager={packageManager}",
-              contentType: "text/plain"
-            }
-          },
-          prompts: {
-            "component_usage": {
-              description: "Get usage examples for a specific component",
-              arguments: {
-                componentName: {
-                  type: "string",
-                  description: "Name of the component to get usage for"
-                }
-              }
-            },
-            "component_search": {
-              description: "Search for components by name or description",
-              arguments: {
-                query: {
-                  type: "string",
-                  description: "Search query"
-                }
-              }
-            },
-            "component_comparison": {
-              description: "Compare two components side by side",
-              arguments: {
-                component1: {
-                  type: "string",
-                  description: "First component name"
-                },
-                component2: {
-                  type: "string",
-                  description: "Second component name"
-                }
-              }
-            },
-            "component_recommendation": {
-              description: "Get component recommendations based on use case",
-              arguments: {
-                useCase: {
-                  type: "string",
-                  description: "Use case description"
-                }
-              }
-            },
-            "component_tutorial": {
-              description: "Get a step-by-step tutorial for using a component",
-              arguments: {
-                componentName: {
-                  type: "string",
-                  description: "Name of the component for tutorial"
-                }
-              }
-            }
-          },
-          tools: {
-            "get_component": {
-              description: "Get the source code for a specific shadcn/ui v4 component",
-              inputSchema: {
-                type: "object",
-                properties: {
-                  componentName: {
-                    type: "string",
-                    description: "Name of the shadcn/ui component (e.g., \"accordion\", \"button\")"
-                  }
-                },
-                required: ["componentName"]
-              }
-            },
-            "get_component_demo": {
-              description: "Get demo code illustrating how a shadcn/ui v4 component should be used",
-              inputSchema: {
-                type: "object",
-                properties: {
-                  componentName: {
-                    type: "string",
-                    description: "Name of the shadcn/ui component (e.g., \"accordion\", \"button\")"
-                  }
-                },
-                required: ["componentName"]
-              }
-            },
-            "list_components": {
-              description: "Get all available shadcn/ui v4 components",
-              inputSchema: {
-                type: "object",
-                properties: {}
-              }
-            },
-            "get_component_metadata": {
-              description: "Get metadata for a specific shadcn/ui v4 component",
-              inputSchema: {
-                type: "object",
-                properties: {
-                  componentName: {
-                    type: "string",
-                    description: "Name of the shadcn/ui component (e.g., \"accordion\", \"button\")"
-                  }
-                },
-                required: ["componentName"]
-              }
-            },
-            "get_directory_structure": {
-              description: "Get the directory structure of the shadcn-ui v4 repository",
-              inputSchema: {
-                type: "object",
-                properties: {
-                  path: {
-                    type: "string",
-                    description: "Path within the repository (default: v4 registry)"
-                  },
-                  owner: {
-                    type: "string",
-                    description: "Repository owner (default: \"shadcn-ui\")"
-                  },
-                  repo: {
-                    type: "string",
-                    description: "Repository name (default: \"ui\")"
-                  },
-                  branch: {
-                    type: "string",
-                    description: "Branch name (default: \"main\")"
-                  }
-                }
-              }
-            },
-            "get_block": {
-              description: "Get source code for a specific shadcn/ui v4 block (e.g., calendar-01, dashboard-01)",
-              inputSchema: {
-                type: "object",
-                properties: {
-                  blockName: {
-                    type: "string",
-                    description: "Name of the block (e.g., \"calendar-01\", \"dashboard-01\", \"login-02\")"
-                  },
-                  includeComponents: {
-                    type: "boolean",
-                    description: "Whether to include component files for complex blocks (default: true)"
-                  }
-                },
-                required: ["blockName"]
-              }
-            },
-            "list_blocks": {
-              description: "Get all available shadcn/ui v4 blocks with categorization",
-              inputSchema: {
-                type: "object",
-                properties: {
-                  category: {
-                    type: "string",
-                    description: "Filter by category (calendar, dashboard, login, sidebar, products)"
-                  }
-                }
-              }
-            },
-            "get_storage_stats": {
-              description: "Get hybrid storage statistics and performance metrics",
-              inputSchema: {
-                type: "object",
-                properties: {}
-              }
-            }
-          }
-        }
-      }
-    );
-
-    // Set up request handlers and register components (tools, resources, etc.)
-    setupHandlers(server);
+  let closeTransport: () => Promise<void>;
 
+  if (transportType === 'http') {
+    // Start server using Streamable HTTP transport (one Server per session)
+    const httpTransport = await startHttpTransport({
+      port,
+      host: options.host || process.env.MCP_HOST,
+      createServer
+    });
+    closeTransport = () => httpTransport.close();
+  } else {
     // Start server using stdio transport
+    const server = createServer();
     const transport = new StdioServerTransport();
     
     logInfo('Transport initialized: stdio');
 
     await server.connect(transport);
+    closeTransport = () => server.close();
+  }
     
-    logInfo('Server started successfully');
-
-    // Handle graceful shutdown
-    const cleanup = async () => {
-      logInfo('Shutting down server...');
-      try {
-        await disposeStorage();
-        logInfo('Storage disposed successfully');
-      } catch (error) {
-        logError('Error disposing storage', error);
-      }
-      process.exit(0);
-    };
+  logInfo('Server started successfully');
+
+  // Handle graceful shutdown
+  const cleanup = async () => {
+    logInfo('Shutting down server...');
+    try {
+      await closeTransport();
+    } catch (error) {
+      logError('Error closing transport', error);
+    }
+    try {
+      await disposeStorage();
+      logInfo('Storage disposed successfully');
+    } catch (error) {
+      logError('Error disposing storage', error);
+    }
+    process.exit(0);
+  };
 
-    process.on('SIGINT', cleanup);
-    process.on('SIGTERM', cleanup);
+  process.on('SIGINT', cleanup);
+  process.on('SIGTERM', cleanup);
 }
 
 /**
@@ -6,6 +6,11 @@
  */
 
 import { getFramework } from './utils/framework.js';
+import { getCatalogResourceUri, getComponentMetadataUri, readCatalogResource } from './resources.js';
+import { listFrameworkComponents } from './tools/components/list-components.js';
+import { searchCachedItems } from './utils/storage-integration.js';
+import { tokenizeQuery } from './storage/search/search-document.js';
+import { logWarning } from './utils/logger.js';
 
 /**
  * List of prompts metadata available in this MCP server
@@ -111,7 +116,178 @@ export const prompts = {
           }
       ],
     },
+    "component_usage": {
+      name: "component_usage",
+      description: "Get usage examples for a specific component, with its source, demo and metadata attached",
+      arguments: [
+          {
+              name: "componentName",
+              description: "Name of the component to get usage for",
+              required: true,
+          }
+      ],
+    },
+    "component_search": {
+      name: "component_search",
+      description: "Search for components by name or description, with the metadata and demos of the best matches attached",
+      arguments: [
+          {
+              name: "query",
+              description: "Search query",
+              required: true,
+          }
+      ],
+    },
+    "component_comparison": {
+      name: "component_comparison",
+      description: "Compare two components side by side, with the source, demo and metadata of both attached",
+      arguments: [
+          {
+              name: "component1",
+              description: "First component name",
+              required: true,
+          },
+          {
+              name: "component2",
+              description: "Second component name",
+              required: true,
+          }
+      ],
+    },
+    "component_recommendation": {
+      name: "component_recommendation",
+      description: "Get component recommendations based on use case, with the metadata and demos of the candidates attached",
+      arguments: [
+          {
+              name: "useCase",
+              description: "Use case description",
+              required: true,
+          }
+      ],
+    },
+    "component_tutorial": {
+      name: "component_tutorial",
+      description: "Get a step-by-step tutorial for using a component, with its source, demo and metadata attached",
+      arguments: [
+          {
+              name: "componentName",
+              description: "Name of the component for tutorial",
+              required: true,
+          }
+      ],
+    },
   };
+
+/**
+ * Suggestions offered by completion/complete for prompt arguments: a fixed set of values,
+ * or 'components' for the component names of the registry. Arguments marked `multiple`
+ * take a comma-separated list and complete its last entry.
+ */
+export const promptArgumentCompletions: Record<string, Record<string, { values: readonly string[] | 'components', multiple?: boolean }>> = {
+    "build-shadcn-page": {
+      pageType: { values: ["dashboard", "login", "calendar", "sidebar", "products", "custom"] },
+      features: { values: "components", multiple: true },
+      layout: { values: ["sidebar", "header", "full-width", "centered"] },
+      style: { values: ["minimal", "modern", "enterprise", "creative"] }
+    },
+    "create-dashboard": {
+      dashboardType: { values: ["analytics", "admin", "user", "project", "sales"] },
+      widgets: { values: ["charts", "tables", "cards", "metrics"], multiple: true },
+      navigation: { values: ["sidebar", "top-nav", "breadcrumbs"] }
+    },
+    "create-auth-flow": {
+      authType: { values: ["login", "register", "forgot-password", "two-factor"] },
+      providers: { values: ["email", "google", "github", "apple"], multiple: true },
+      features: { values: ["remember-me", "social-login", "validation"], multiple: true }
+    },
+    "optimize-shadcn-component": {
+      component: { values: "components" },
+      optimization: { values: ["performance", "accessibility", "responsive", "animations"] }
+    },
+    "create-data-table": {
+      dataType: { values: ["users", "products", "orders", "analytics"] },
+      features: { values: ["sorting", "filtering", "pagination", "search", "selection"], multiple: true },
+      actions: { values: ["edit", "delete", "view", "custom"], multiple: true }
+    },
+    "component_usage": {
+      componentName: { values: "components" }
+    },
+    "component_comparison": {
+      component1: { values: "components" },
+      component2: { values: "components" }
+    },
+    "component_tutorial": {
+      componentName: { values: "components" }
+    }
+  };
+
+type PromptMessage = {
+    role: "user",
+    content: { type: "text", text: string } | { type: "resource", resource: { uri: string, mimeType: string, text: string } }
+  };
+
+type ComponentPart = 'source' | 'demo' | 'metadata';
+
+/**
+ * Embedded resources with parts of a component, read through the cache like resources/read.
+ * Parts that cannot be read (e.g. components without a demo) are left out.
+ */
+async function embedComponent(componentName: string, parts: ComponentPart[]): Promise<PromptMessage[]> {
+    const framework = getFramework();
+    const uris: Record<ComponentPart, string> = {
+      source: getCatalogResourceUri(framework, 'components', componentName),
+      demo: getCatalogResourceUri(framework, 'demos', componentName),
+      metadata: getComponentMetadataUri(framework, componentName)
+    };
+
+    const messages: PromptMessage[] = [];
+    for (const part of parts) {
+      try {
+        const resource = await readCatalogResource(uris[part]);
+        if (resource) {
+          messages.push({ role: "user", content: { type: "resource", resource: resource.contents[0] } });
+        }
+      } catch (error) {
+        logWarning(`Failed to embed the ${part} of component "${componentName}": ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (messages.length === 0) {
+      throw new Error(`Failed to read component "${componentName}"`);
+    }
+    return messages;
+}
+
+/**
+ * Components best matching a free-text query: the search index first, then the component
+ * names when nothing matching has been cached yet
+ */
+async function findComponents(query: string, limit = 3): Promise<string[]> {
+    const framework = getFramework();
+    const { hits } = await searchCachedItems(query, { framework, kind: 'component', limit });
+    if (hits.length > 0) {
+      return hits.map(hit => hit.name);
+    }
+
+    const terms = tokenizeQuery(query);
+    const { components } = await listFrameworkComponents(framework);
+    return components.filter(name => terms.some(term => name.includes(term))).slice(0, limit);
+}
+
+/**
+ * Embedded resources of the components matching a query, in match order
+ */
+async function embedMatches(components: string[], parts: ComponentPart[]): Promise<PromptMessage[]> {
+    const messages: PromptMessage[] = [];
+    for (const component of components) {
+      try {
+        messages.push(...await embedComponent(component, parts));
+      } catch (error) {
+        logWarning(error instanceof Error ? error.message : String(error));
+      }
+    }
+    return messages;
+}
   
 /**
  * Map of prompt names to their handler functions
@@ -424,6 +600,158 @@ Provide complete data table implementation with proper TypeScript types, mock da
         ],
       };
     },
+
+    "component_usage": async ({ componentName }: { componentName: string }) => {
+      const isSvelte = getFramework() === 'svelte';
+      const attachments = await embedComponent(componentName, ['source', 'demo', 'metadata']);
+
+      return {
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: `Show how to use the shadcn/ui ${componentName} component in a ${isSvelte ? 'Svelte' : 'React'} project.
+
+The component source, its official demo and its metadata (dependencies, props and variants) are attached below. Base every example on them.
+
+INSTRUCTIONS:
+1. Explain what ${componentName} is for and when to reach for it instead of a similar component
+2. Start from the official demo, then show:
+   - The basic usage with the required imports
+   - Each variant and size declared in the metadata
+   - Composition with its sub-components, if it exports any
+   - Controlled usage with ${isSvelte ? 'Svelte runes' : 'React state'}, where it applies
+3. List the dependencies from the metadata that must be installed
+4. Point out accessibility behavior (keyboard interaction, ARIA attributes) provided by the source
+
+Use only props and exports that appear in the attached source.`,
+            },
+          },
+          ...attachments,
+        ],
+      };
+    },
+
+    "component_search": async ({ query }: { query: string }) => {
+      const matches = await findComponents(query);
+      const attachments = await embedMatches(matches, ['metadata', 'demo']);
+
+      return {
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: `Find the shadcn/ui components that match "${query}".
+
+${matches.length > 0
+  ? `The best matches are ${matches.join(', ')}; their metadata and demos are attached below.`
+  : 'No component matched this query in the registry.'}
+
+INSTRUCTIONS:
+1. For each match, summarize what it does and how well it fits "${query}"
+2. Rank the matches from best to worst fit
+3. If none fits, use 'search_components' and 'list_components' to look further, and suggest a composition of existing components instead
+4. Show a minimal usage snippet for the best match, based on its demo`,
+            },
+          },
+          ...attachments,
+        ],
+      };
+    },
+
+    "component_comparison": async ({ component1, component2 }: { component1: string, component2: string }) => {
+      const attachments = [
+        ...await embedComponent(component1, ['source', 'demo', 'metadata']),
+        ...await embedComponent(component2, ['source', 'demo', 'metadata'])
+      ];
+
+      return {
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: `Compare the shadcn/ui ${component1} and ${component2} components side by side.
+
+The source, demo and metadata of both components are attached below.
+
+INSTRUCTIONS:
+1. Describe the purpose of each component
+2. Compare them in a table covering:
+   - Props and variants (from the metadata)
+   - Underlying primitives and dependencies
+   - Accessibility behavior
+   - Bundle impact (number of dependencies)
+3. Explain which use cases call for ${component1} and which for ${component2}
+4. Show how to migrate from one to the other where they overlap`,
+            },
+          },
+          ...attachments,
+        ],
+      };
+    },
+
+    "component_recommendation": async ({ useCase }: { useCase: string }) => {
+      const isSvelte = getFramework() === 'svelte';
+      const candidates = await findComponents(useCase, 5);
+      const attachments = await embedMatches(candidates, ['metadata', 'demo']);
+
+      return {
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: `Recommend shadcn/ui components for this use case: ${useCase}
+
+${candidates.length > 0
+  ? `Candidate components found in the registry: ${candidates.join(', ')}. Their metadata and demos are attached below.`
+  : 'No component of the registry matched the use case directly.'}
+
+INSTRUCTIONS:
+1. Pick the components that best serve the use case, from the candidates or from 'list_components'
+2. For each recommendation, explain why it fits and which variant to use
+3. Consider blocks ('list_blocks') when the use case is a whole page or section
+4. Sketch how the recommended components fit together in ${isSvelte ? 'a Svelte' : 'a React'} component`,
+            },
+          },
+          ...attachments,
+        ],
+      };
+    },
+
+    "component_tutorial": async ({ componentName }: { componentName: string }) => {
+      const framework = getFramework();
+      const cli = framework === 'svelte' ? 'shadcn-svelte@latest' : 'shadcn@latest';
+      const attachments = await embedComponent(componentName, ['source', 'demo', 'metadata']);
+
+      return {
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: `Write a step-by-step tutorial for the shadcn/ui ${componentName} component.
+
+The component source, its official demo and its metadata are attached below.
+
+TUTORIAL STRUCTURE:
+1. Installation: \`npx ${cli} add ${componentName}\` and the dependencies from the metadata
+2. First render: the smallest working example
+3. Building up: add one feature per step (variants, sub-components, state, events), each with the complete code so far
+4. Customization: changing styles through the cva variants and Tailwind classes of the source
+5. Accessibility: what the component handles and what remains the developer's job
+6. A final complete example based on the official demo
+
+Keep each step short and runnable on its own.`,
+            },
+          },
+          ...attachments,
+        ],
+      };
+    },
 };
 
 /**
@@ -0,0 +1,96 @@
+/**
+ * Resource subscriptions for the Model Context Protocol (MCP) server.
+ *
+ * Each session tracks the resources its client subscribed to. Every value written to the
+ * hybrid storage (tool calls, `cache refresh`, values fetched from GitHub into the caches)
+ * is matched against the cache keys behind those resources:
+ * - a subscribed resource whose content was replaced gets notifications/resources/updated
+ * - a component, demo or block list whose names changed sends notifications/resources/list_changed;
+ *   once the client has listed resources, a list written for the first time counts as changed
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { type Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CATALOG_RESOURCE_KINDS,
+  getCatalogListKey,
+  getCatalogNames,
+  getResourceCacheKey
+} from './resources.js';
+import { getFramework } from './utils/framework.js';
+import { logInfo, logWarning } from './utils/logger.js';
+
+export class ResourceSubscriptions {
+  /**
+   * Subscribed URIs and the cache key each one is read from
+   */
+  private subscriptions = new Map<string, string>();
+
+  /**
+   * Content of each subscribed URI as last written, to skip writes that change nothing
+   */
+  private contents = new Map<string, string>();
+
+  /**
+   * Names of each catalog list as last written
+   */
+  private catalogNames = new Map<string, string>();
+
+  /**
+   * Whether the client has listed resources, so it may hold names no written list was compared with
+   */
+  private listed = false;
+
+  constructor(private server: Pick<Server, 'sendResourceUpdated' | 'sendResourceListChanged'>) {}
+
+  subscribe(uri: string): void {
+    const key = getResourceCacheKey(uri);
+    if (!key) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource does not support subscriptions: ${uri}`);
+    }
+    this.subscriptions.set(uri, key);
+    logInfo(`Subscribed to ${uri}`);
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    this.contents.delete(uri);
+  }
+
+  /**
+   * Record that the client listed resources
+   */
+  markListed(): void {
+    this.listed = true;
+  }
+
+  /**
+   * Storage change listener: notify the client about the resources behind a written key
+   */
+  handleStorageChange(key: string, value: any): void {
+    const content = JSON.stringify(value ?? null);
+    for (const [uri, subscribedKey] of this.subscriptions) {
+      if (subscribedKey === key && this.contents.get(uri) !== content) {
+        this.contents.set(uri, content);
+        this.notify(`resources/updated for ${uri}`, () => this.server.sendResourceUpdated({ uri }));
+      }
+    }
+
+    // Only the server framework's catalog is listed
+    const kind = CATALOG_RESOURCE_KINDS.find(kind => getCatalogListKey(getFramework(), kind) === key);
+    if (kind) {
+      const names = getCatalogNames(kind, value).join('\n');
+      const previous = this.catalogNames.get(key);
+      this.catalogNames.set(key, names);
+      if (previous === undefined ? this.listed : previous !== names) {
+        this.notify('resources/list_changed', () => this.server.sendResourceListChanged());
+      }
+    }
+  }
+
+  private notify(notification: string, send: () => Promise<void>): void {
+    send().catch(error => {
+      logWarning(`Failed to send ${notification}: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+}
@@ -5,7 +5,20 @@
  * resources based on parameters in the URI.
  */
 
-import { getFramework } from './utils/framework.js';
+import { getFramework, type Framework } from './utils/framework.js';
+
+/**
+ * Package managers the installation templates generate commands for
+ */
+export const PACKAGE_MANAGERS = ['npm', 'pnpm', 'yarn', 'bun'] as const;
+
+/**
+ * Build tools with an installation guide, per framework
+ */
+export const BUILD_TOOLS: Record<Framework, readonly string[]> = {
+  react: ['next', 'vite', 'remix'],
+  svelte: ['vite']
+};
 
 /**
  * Resource template definitions exported to the MCP handler
@@ -24,6 +37,24 @@ export const resourceTemplates = [
     uriTemplate: 'resource-template:get_installation_guide?buildTool={buildTool}&packageManager={packageManager}',
     contentType: 'text/plain',
   },
+  {
+    name: 'component',
+    description: 'Source code of a component (framework: "react" or "svelte")',
+    uriTemplate: 'shadcn://{framework}/components/{name}',
+    contentType: 'text/plain',
+  },
+  {
+    name: 'component_demo',
+    description: 'Usage example of a component (framework: "react" or "svelte")',
+    uriTemplate: 'shadcn://{framework}/demos/{name}',
+    contentType: 'text/plain',
+  },
+  {
+    name: 'block',
+    description: 'Files of a block as JSON (framework: "react" or "svelte")',
+    uriTemplate: 'shadcn://{framework}/blocks/{name}',
+    contentType: 'application/json',
+  },
 ];
 
 // Create a map for easier access in getResourceTemplate
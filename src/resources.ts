@@ -1,11 +1,36 @@
 /**
  * Resources implementation for the Model Context Protocol (MCP) server.
- * 
+ *
  * This file defines the resources that can be returned by the server based on client requests.
  * Resources are static content or dynamically generated content referenced by URIs.
+ *
+ * Besides the static resources, every component, demo and block of the registry is a
+ * resource of its own, addressed as shadcn://{framework}/{components|demos|blocks}/{name}.
+ * The metadata of a component (shadcn://{framework}/components/{name}/metadata) can be
+ * read too, but is not listed.
+ * ListResources enumerates them from the cached registry lists, a page at a time.
+ * Each resource maps onto the cache key its content is read from, which is what resource
+ * subscriptions watch for changes.
  */
 
-import { logError } from './utils/logger.js';
+import { type Resource } from '@modelcontextprotocol/sdk/types.js';
+import { FRAMEWORKS, getFramework, type Framework } from './utils/framework.js';
+import { listFrameworkComponents } from './tools/components/list-components.js';
+import { listFrameworkRegistryItems } from './tools/registry-items/list-registry-items.js';
+import { listFrameworkBlocks } from './tools/blocks/list-blocks.js';
+import { fetchComponentSource } from './tools/components/get-component.js';
+import { fetchComponentDemo } from './tools/components/get-component-demo.js';
+import { fetchBlock } from './tools/blocks/get-block.js';
+import { fetchComponentMetadata } from './tools/components/get-component-metadata.js';
+import { logError, logWarning } from './utils/logger.js';
+import { decodeCursor, encodeCursor } from './utils/pagination.js';
+import {
+  generateBlockKey,
+  generateComponentDemoKey,
+  generateComponentKey,
+  generateComponentMetadataKey,
+  generateListKey
+} from './utils/storage-integration.js';
 
 /**
  * Resource definitions exported to the MCP handler
@@ -20,63 +45,25 @@ export const resources = [
   }
 ];
 
+/**
+ * Number of resources returned per ListResources page
+ */
+export const RESOURCE_PAGE_SIZE = 100;
+
+export type CatalogResourceKind = 'components' | 'demos' | 'blocks';
+
+export const CATALOG_RESOURCE_KINDS: readonly CatalogResourceKind[] = ['components', 'demos', 'blocks'];
+
+const CATALOG_RESOURCE_URI = /^shadcn:\/\/([a-z]+)\/([a-z]+)\/([\w.-]+)(\/metadata)?$/;
+
 /**
  * Handler for the get_components resource
  * @returns List of available shadcn/ui components
  */
 const getComponentsList = async () => {
   try {
-    // List of available components in shadcn/ui
-    // This hardcoded list can be updated in the future if needed
-    const components = [
-      "accordion",
-      "alert",
-      "alert-dialog",
-      "aspect-ratio",
-      "avatar",
-      "badge",
-      "breadcrumb",
-      "button",
-      "calendar",
-      "card",
-      "carousel",
-      "checkbox",
-      "collapsible",
-      "command",
-      "context-menu",
-      "data-table",
-      "date-picker",
-      "dialog",
-      "drawer",
-      "dropdown-menu",
-      "form",
-      "hover-card",
-      "input",
-      "label",
-      "menubar",
-      "navigation-menu",
-      "pagination",
-      "popover",
-      "progress",
-      "radio-group",
-      "resizable",
-      "scroll-area",
-      "select",
-      "separator",
-      "sheet",
-      "skeleton",
-      "slider",
-      "sonner",
-      "switch",
-      "table",
-      "tabs",
-      "textarea",
-      "toast",
-      "toggle",
-      "toggle-group",
-      "tooltip"
-    ];
-    
+    const { components } = await listFrameworkComponents(getFramework());
+
     return {
       content: JSON.stringify(components, null, 2),
       contentType: 'application/json',
@@ -99,4 +86,188 @@ const getComponentsList = async () => {
  */
 export const resourceHandlers = {
   'resource:get_components': getComponentsList,
-};
\ No newline at end of file
+};
+
+/**
+ * URI of a component, demo or block resource
+ */
+export function getCatalogResourceUri(framework: Framework, kind: CatalogResourceKind, name: string): string {
+  return `shadcn://${framework}/${kind}/${name}`;
+}
+
+/**
+ * URI of the metadata of a component
+ */
+export function getComponentMetadataUri(framework: Framework, name: string): string {
+  return `${getCatalogResourceUri(framework, 'components', name)}/metadata`;
+}
+
+/**
+ * Parse a component, demo or block resource URI
+ * @returns undefined for URIs outside the catalog
+ */
+export function parseCatalogResourceUri(uri: string): { framework: Framework; kind: CatalogResourceKind; name: string; metadata?: true } | undefined {
+  const match = uri.match(CATALOG_RESOURCE_URI);
+  if (!match || !FRAMEWORKS.includes(match[1] as Framework) || !CATALOG_RESOURCE_KINDS.includes(match[2] as CatalogResourceKind)) {
+    return undefined;
+  }
+  if (match[4] && match[2] !== 'components') {
+    return undefined;
+  }
+  return {
+    framework: match[1] as Framework,
+    kind: match[2] as CatalogResourceKind,
+    name: match[3],
+    ...(match[4] && { metadata: true as const })
+  };
+}
+
+function getSourceMimeType(framework: Framework): string {
+  return framework === 'svelte' ? 'text/x-svelte' : 'text/x-typescript';
+}
+
+/**
+ * Cache key of the registry list the items of one kind are enumerated from
+ */
+export function getCatalogListKey(framework: Framework, kind: CatalogResourceKind): string {
+  return generateListKey(({ components: 'components', demos: 'examples', blocks: 'blocks' } as const)[kind], framework);
+}
+
+/**
+ * Cache key the content of a resource is read from
+ * @returns undefined for URIs that are not backed by a single cache entry
+ */
+export function getResourceCacheKey(uri: string): string | undefined {
+  if (uri === 'resource:get_components') {
+    return getCatalogListKey(getFramework(), 'components');
+  }
+
+  const resource = parseCatalogResourceUri(uri);
+  if (!resource) {
+    return undefined;
+  }
+  const { framework, kind, name, metadata } = resource;
+  switch (kind) {
+    case 'components':
+      return metadata ? generateComponentMetadataKey(name, framework) : generateComponentKey(name, framework);
+    case 'demos':
+      return generateComponentDemoKey(name, framework);
+    case 'blocks':
+      return generateBlockKey(name, true, framework);
+  }
+}
+
+/**
+ * Names of the items of one kind in a registry list, as cached under getCatalogListKey()
+ */
+export function getCatalogNames(kind: CatalogResourceKind, list: any): string[] {
+  switch (kind) {
+    case 'components':
+      return list?.components ?? [];
+    case 'demos': {
+      // Demos are the "<component>-demo" examples
+      const items: string[] = list?.items ?? [];
+      return items.filter(name => name.endsWith('-demo')).map(name => name.slice(0, -'-demo'.length));
+    }
+    case 'blocks': {
+      const names = Object.values<Array<{ name: string }>>(list?.categories ?? {}).flat().map(block => block.name);
+      return [...new Set(names)].sort();
+    }
+  }
+}
+
+/**
+ * Names of the items of one kind, from the cached registry lists
+ */
+export async function listCatalogNames(framework: Framework, kind: CatalogResourceKind): Promise<string[]> {
+  switch (kind) {
+    case 'components':
+      return getCatalogNames(kind, await listFrameworkComponents(framework));
+    case 'demos':
+      return getCatalogNames(kind, await listFrameworkRegistryItems('registry:example', framework));
+    case 'blocks':
+      return getCatalogNames(kind, await listFrameworkBlocks(framework));
+  }
+}
+
+/**
+ * Every catalog resource of a framework. A list that cannot be read is left out rather
+ * than failing the whole listing.
+ */
+async function listCatalogResources(framework: Framework): Promise<Resource[]> {
+  const library = framework === 'svelte' ? 'shadcn-svelte' : 'shadcn/ui';
+  const catalog: Resource[] = [];
+
+  for (const kind of CATALOG_RESOURCE_KINDS) {
+    let names: string[];
+    try {
+      names = await listCatalogNames(framework, kind);
+    } catch (error) {
+      logWarning(`Failed to list ${kind} resources: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    for (const name of names) {
+      const [title, description, mimeType] = {
+        components: [`${name} component`, `Source code of the ${library} ${name} component`, getSourceMimeType(framework)],
+        demos: [`${name} demo`, `Usage example of the ${library} ${name} component`, getSourceMimeType(framework)],
+        blocks: [`${name} block`, `Files of the ${library} ${name} block`, 'application/json']
+      }[kind];
+      catalog.push({ uri: getCatalogResourceUri(framework, kind, name), name, title, description, mimeType });
+    }
+  }
+  return catalog;
+}
+
+/**
+ * A page of the static resources followed by the server framework's catalog
+ * @param cursor Cursor returned as `nextCursor` by the previous page
+ */
+export async function listResources(cursor?: string): Promise<{ resources: Resource[]; nextCursor?: string }> {
+  const offset = cursor ? decodeCursor(cursor) : 0;
+  const all: Resource[] = [
+    ...resources.map(({ contentType, ...resource }) => ({ ...resource, mimeType: contentType })),
+    ...await listCatalogResources(getFramework())
+  ];
+  const end = offset + RESOURCE_PAGE_SIZE;
+
+  return {
+    resources: all.slice(offset, end),
+    ...(end < all.length && { nextCursor: encodeCursor(end) })
+  };
+}
+
+/**
+ * Read a component, demo or block resource through the cache
+ * @returns undefined for URIs outside the catalog
+ */
+export async function readCatalogResource(uri: string): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> } | undefined> {
+  const resource = parseCatalogResourceUri(uri);
+  if (!resource) {
+    return undefined;
+  }
+
+  const { framework, kind, name, metadata } = resource;
+  if (metadata) {
+    return {
+      contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(await fetchComponentMetadata(name, framework), null, 2) }]
+    };
+  }
+
+  let text: string;
+  switch (kind) {
+    case 'components':
+      text = (await fetchComponentSource(name, framework)).sourceCode;
+      break;
+    case 'demos':
+      text = (await fetchComponentDemo(name, framework)).demoCode;
+      break;
+    case 'blocks':
+      text = JSON.stringify(await fetchBlock(name, true, framework), null, 2);
+      break;
+  }
+
+  return {
+    contents: [{ uri, mimeType: kind === 'blocks' ? 'application/json' : getSourceMimeType(framework), text }]
+  };
+}
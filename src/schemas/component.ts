@@ -11,6 +11,33 @@ export interface ComponentProp {
   description: string;
   required?: boolean;
   default?: string;
+  // Where an inherited prop comes from (e.g. "radix-ui:Switch.Root"); absent for props declared by the component
+  inheritedFrom?: string;
+}
+
+// One option group of a cva() call, e.g. variant: default | destructive | outline
+export interface ComponentVariant {
+  name: string;
+  options: string[];
+  default?: string;
+}
+
+// A cva() definition such as buttonVariants
+export interface VariantDefinition {
+  name: string;
+  variants: ComponentVariant[];
+}
+
+// A component exported by a source file, e.g. Card, CardHeader and CardTitle from card.tsx
+export interface ExportedComponent {
+  name: string;
+  props: ComponentProp[];
+  // Prop types the component spreads onto its element, e.g. React.ComponentProps<"button">
+  extends: string[];
+  // Primitive the props are forwarded to, e.g. "radix-ui:Switch.Root"
+  primitive?: string;
+  // Name of the cva() definition the component's variant props come from
+  variants?: string;
 }
 
 export interface ComponentInfo {
@@ -21,6 +48,8 @@ export interface ComponentInfo {
   examples?: ComponentExample[];
   source?: string;
   installation?: string;
+  components?: ExportedComponent[];
+  variants?: VariantDefinition[];
 }
 
 export interface Theme {
@@ -0,0 +1,33 @@
+// Schema definition for a project's components.json (written by `shadcn init` / `shadcn-svelte init`)
+// See https://ui.shadcn.com/docs/components-json
+import { z } from 'zod';
+
+export const componentsJsonAliasesSchema = z.object({
+  components: z.string().optional(),
+  utils: z.string().optional(),
+  ui: z.string().optional(),
+  lib: z.string().optional(),
+  hooks: z.string().optional()
+}).passthrough();
+
+export const componentsJsonSchema = z.object({
+  $schema: z.string().optional(),
+  style: z.string().optional(),
+  rsc: z.boolean().optional(),
+  tsx: z.boolean().optional(),
+  typescript: z.boolean().optional(),
+  tailwind: z.object({
+    config: z.string().optional(),
+    css: z.string().optional(),
+    baseColor: z.string().optional(),
+    cssVariables: z.boolean().optional(),
+    prefix: z.string().optional()
+  }).passthrough().optional(),
+  aliases: componentsJsonAliasesSchema.optional(),
+  iconLibrary: z.string().optional(),
+  registry: z.string().optional(),
+  registries: z.record(z.union([z.string(), z.record(z.any())])).optional()
+}).passthrough();
+
+export type ComponentsJson = z.infer<typeof componentsJsonSchema>;
+export type ComponentsJsonAliases = z.infer<typeof componentsJsonAliasesSchema>;
@@ -0,0 +1,65 @@
+// Schema definitions for the shadcn registry format (registry.json / registry-item.json)
+// See https://ui.shadcn.com/docs/registry/registry-item-json
+import { z } from 'zod';
+
+export const registryItemTypeSchema = z.enum([
+  'registry:lib',
+  'registry:block',
+  'registry:component',
+  'registry:ui',
+  'registry:hook',
+  'registry:chart',
+  'registry:page',
+  'registry:file',
+  'registry:theme',
+  'registry:style',
+  'registry:item',
+  'registry:example',
+  'registry:internal'
+]);
+
+export const registryItemFileSchema = z.object({
+  path: z.string(),
+  content: z.string().optional(),
+  type: registryItemTypeSchema,
+  target: z.string().optional()
+});
+
+export const cssVarsSchema = z.object({
+  theme: z.record(z.string()).optional(),
+  light: z.record(z.string()).optional(),
+  dark: z.record(z.string()).optional()
+});
+
+export const registryItemSchema = z.object({
+  $schema: z.string().optional(),
+  name: z.string(),
+  type: registryItemTypeSchema,
+  title: z.string().optional(),
+  description: z.string().optional(),
+  author: z.string().optional(),
+  dependencies: z.array(z.string()).optional(),
+  devDependencies: z.array(z.string()).optional(),
+  registryDependencies: z.array(z.string()).optional(),
+  files: z.array(registryItemFileSchema).optional(),
+  cssVars: cssVarsSchema.optional(),
+  css: z.record(z.any()).optional(),
+  tailwind: z.record(z.any()).optional(),
+  envVars: z.record(z.string()).optional(),
+  categories: z.array(z.string()).optional(),
+  docs: z.string().optional(),
+  meta: z.record(z.any()).optional()
+});
+
+export const registrySchema = z.object({
+  $schema: z.string().optional(),
+  name: z.string(),
+  homepage: z.string().optional(),
+  items: z.array(registryItemSchema)
+});
+
+export type RegistryItemType = z.infer<typeof registryItemTypeSchema>;
+export type RegistryItemFile = z.infer<typeof registryItemFileSchema>;
+export type RegistryItem = z.infer<typeof registryItemSchema>;
+export type Registry = z.infer<typeof registrySchema>;
+export type CssVars = z.infer<typeof cssVarsSchema>;
@@ -0,0 +1,15 @@
+// Schema definition for the base color files of the shadcn/ui and shadcn-svelte registries (colors/<name>.json)
+// See https://ui.shadcn.com/docs/theming
+import { z } from 'zod';
+import { cssVarsSchema } from './registry.js';
+
+export const baseColorSchema = z.object({
+  inlineColors: z.record(z.record(z.string())).optional(),
+  cssVars: cssVarsSchema,
+  // Tailwind v4 variables in oklch, published next to the v3 HSL ones
+  cssVarsV4: cssVarsSchema.optional(),
+  inlineColorsTemplate: z.string().optional(),
+  cssVarsTemplate: z.string().optional()
+}).passthrough();
+
+export type BaseColor = z.infer<typeof baseColorSchema>;
@@ -0,0 +1,71 @@
+/**
+ * MCP server factory
+ *
+ * Builds a fully configured Server instance (metadata, capabilities and request
+ * handlers). The stdio transport uses a single instance for the lifetime of the
+ * process, while the HTTP transport creates one instance per client session.
+ * All instances share the same global hybrid storage.
+ */
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { setupHandlers } from './handler.js';
+import { prompts } from './prompts.js';
+
+/**
+ * Prompt capabilities, generated from the registered prompts
+ */
+function getPromptCapabilities() {
+  return Object.fromEntries(Object.values(prompts).map(prompt => [prompt.name, {
+    description: prompt.description,
+    arguments: Object.fromEntries(prompt.arguments.map(argument => [argument.name, {
+      type: "string",
+      description: argument.description
+    }]))
+  }]));
+}
+
+/**
+ * Create a new MCP server with all tools, resources and prompts registered
+ * @returns Configured server instance, ready to be connected to a transport
+ */
+export function createServer(): Server {
+  // Initialize the MCP server with metadata and capabilities
+  // Following MCP SDK 1.16.0 best practices
+  const server = new Server(
+    {
+      name: "shadcn-ui-mcp-server",
+      version: "1.0.2",
+    },
+    {
+      capabilities: {
+        resources: {
+          subscribe: true,
+          listChanged: true,
+          "get_components": {
+            description: "List of available shadcn/ui components that can be used in the project",
+            uri: "resource:get_components",
+            contentType: "text/plain"
+          },
+          "get_install_script_for_component": {
+            description: "Generate installation script for a specific shadcn/ui component based on package manager",
+            uriTemplate: "resource-template:get_install_script_for_component?packageManager={packageManager}&component={component}",
+            contentType: "text/plain"
+          },
+          "get_installation_guide": {
+            description: "Get the installation guide for shadcn/ui based on build tool and package manager",
+            uriTemplate: "resource-template:get_installation_guide?buildTool={buildTool}&packageManager={packageManager}",
+            contentType: "text/plain"
+          }
+        },
+        prompts: getPromptCapabilities(),
+        tools: {},
+        completions: {},
+        logging: {}
+      }
+    }
+  );
+
+  // Set up request handlers and register components (tools, resources, etc.)
+  setupHandlers(server);
+
+  return server;
+}
@@ -99,7 +99,7 @@ export class PGLiteManager {
         -- Components table
         CREATE TABLE IF NOT EXISTS components (
           id SERIAL PRIMARY KEY,
-          framework VARCHAR(50) NOT NULL,
+          framework VARCHAR(100) NOT NULL,
           name VARCHAR(100) NOT NULL,
           source_code TEXT NOT NULL,
           demo_code TEXT,
@@ -123,7 +123,7 @@ export class PGLiteManager {
         -- Blocks table
         CREATE TABLE IF NOT EXISTS blocks (
           id SERIAL PRIMARY KEY,
-          framework VARCHAR(50) NOT NULL,
+          framework VARCHAR(100) NOT NULL,
           name VARCHAR(100) NOT NULL,
           category VARCHAR(50),
           type VARCHAR(20) CHECK (type IN ('simple', 'complex')),
@@ -144,6 +144,23 @@ export class PGLiteManager {
         CREATE INDEX IF NOT EXISTS idx_blocks_framework_name ON blocks(framework, name);
         CREATE INDEX IF NOT EXISTS idx_blocks_category ON blocks(category);
 
+        -- Full-text search vectors (maintained on every component/block write)
+        ALTER TABLE components ADD COLUMN IF NOT EXISTS search_vector tsvector;
+        ALTER TABLE blocks ADD COLUMN IF NOT EXISTS search_vector tsvector;
+        CREATE INDEX IF NOT EXISTS idx_components_search ON components USING GIN(search_vector);
+        CREATE INDEX IF NOT EXISTS idx_blocks_search ON blocks USING GIN(search_vector);
+
+        -- Backfill rows cached before search vectors existed
+        UPDATE components SET search_vector =
+          setweight(to_tsvector('simple', name || ' ' || replace(name, '-', ' ')), 'A') ||
+          setweight(to_tsvector('simple', coalesce(metadata->>'description', '')), 'C') ||
+          setweight(to_tsvector('simple', coalesce(demo_code, '')), 'D')
+        WHERE search_vector IS NULL;
+        UPDATE blocks SET search_vector =
+          setweight(to_tsvector('simple', name || ' ' || replace(name, '-', ' ')), 'A') ||
+          setweight(to_tsvector('simple', coalesce(description, '')), 'C')
+        WHERE search_vector IS NULL;
+
         -- Schema version tracking
         CREATE TABLE IF NOT EXISTS schema_migrations (
           version INTEGER PRIMARY KEY,
@@ -154,6 +171,7 @@ export class PGLiteManager {
       
       // Execute schema
       await this.db!.exec(schema);
+      await this.widenFrameworkColumns();
       
       logger.info('Initial schema created successfully');
     } catch (error) {
@@ -162,6 +180,25 @@ export class PGLiteManager {
     }
   }
   
+  /**
+   * Widen the framework columns of databases created before scopes pinned to a git ref
+   * ("react/new-york@<sha>") outgrew the original VARCHAR(50). Rewriting the tables is
+   * only done once, when a column is still narrower.
+   */
+  private async widenFrameworkColumns(): Promise<void> {
+    // pg_attribute rather than information_schema.columns, whose views are slow on a cold start;
+    // atttypmod of a VARCHAR(n) is n + 4
+    const result = await this.db!.query<{ table_name: string }>(`
+      SELECT c.relname AS table_name FROM pg_attribute a JOIN pg_class c ON c.oid = a.attrelid
+      WHERE c.relname IN ('components', 'blocks') AND a.attname = 'framework' AND a.atttypmod - 4 < 100
+    `);
+
+    for (const { table_name } of result.rows) {
+      await this.db!.exec(`ALTER TABLE ${table_name} ALTER COLUMN framework TYPE VARCHAR(100)`);
+      logger.info(`Widened ${table_name}.framework to VARCHAR(100)`);
+    }
+  }
+
   async close(): Promise<void> {
     if (this.db) {
       await this.db.close();
@@ -5,7 +5,7 @@
  * fallback chains, partial response handling, and degraded operation notifications.
  */
 
-import { HybridStorageProvider } from './hybrid-storage.js';
+import { HybridStorageProvider, type StorageEntry, type StorageTier } from './hybrid-storage.js';
 import { HybridStorageConfig } from './cache-strategies.js';
 import { ErrorRecoveryManager, RecoveryContext } from '../../utils/error-recovery-manager.js';
 import { RecoveryMonitor } from '../../utils/recovery-monitor.js';
@@ -140,6 +140,17 @@ export class HybridStorageWithRecovery extends HybridStorageProvider {
       return super.get(key);
     }
     
+    return (await this.getEntry(key))?.value;
+  }
+  
+  /**
+   * Read a value through the fallback chain, along with the tier that served it
+   */
+  async getEntry(key: string): Promise<StorageEntry | undefined> {
+    if (!this.recoveryConfig.enabled) {
+      return super.getEntry(key);
+    }
+    
     const startTime = Date.now();
     
     try {
@@ -154,7 +165,12 @@ export class HybridStorageWithRecovery extends HybridStorageProvider {
         Date.now() - startTime
       );
       
-      return result.data;
+      return {
+        value: result.data,
+        tier: result.tier as StorageTier,
+        ...(result.staleness !== undefined && { cachedAt: new Date(Date.now() - result.staleness) }),
+        ...(result.isPartial ? { degradation: 'partial-data' as const } : result.isStale && { degradation: 'serving-stale' as const })
+      };
       
     } catch (error) {
       // Record failed recovery
@@ -179,7 +195,7 @@ export class HybridStorageWithRecovery extends HybridStorageProvider {
       // Fall back to original implementation as last resort
       logger.warn(`Recovery chain failed for ${key}, falling back to original implementation`);
       try {
-        return await super.get(key);
+        return await super.getEntry(key);
       } catch (originalError) {
         logger.error(`All recovery methods failed for ${key}`, originalError);
         throw error;
@@ -13,6 +13,8 @@ import {
   calculateHitRate,
   calculateAverageResponseTime
 } from './cache-strategies.js';
+import { logWarning } from '../../utils/logger.js';
+import type { DataDegradation } from '../../utils/response-meta.js';
 
 /**
  * Storage provider configuration for each tier
@@ -23,6 +25,25 @@ interface TierProviders {
   github?: GitHubStorageProvider;   // L3 Source (source of truth)
 }
 
+/**
+ * Listener notified when a value is written to the cache tiers
+ */
+export type StorageChangeListener = (key: string, value: any) => void;
+
+export type StorageTier = 'memory' | 'pglite' | 'github';
+
+/**
+ * A value read through the tiers, with where it came from
+ */
+export interface StorageEntry {
+  value: any;
+  tier: StorageTier;
+  /** When the value was fetched from GitHub, if known */
+  cachedAt?: Date;
+  /** Set when a stale or fallback copy was served because GitHub was unavailable */
+  degradation?: DataDegradation;
+}
+
 /**
  * Hybrid storage orchestrator that coordinates between multiple storage tiers
  * Implements intelligent caching strategies with automatic promotion/demotion
@@ -35,6 +56,9 @@ export class HybridStorageProvider extends BaseStorageProvider {
   private stats: HybridStorageStats;
   private writeQueue: Array<{ key: string; value: any; ttl?: number; timestamp: number }> = [];
   private isProcessingQueue: boolean = false;
+  private changeListeners: StorageChangeListener[] = [];
+  /** When values were fetched from GitHub, kept across promotions between tiers */
+  private fetchedAt = new Map<string, Date>();
   
   constructor(config: HybridStorageConfig = {}) {
     // Merge with default configuration
@@ -166,12 +190,37 @@ export class HybridStorageProvider extends BaseStorageProvider {
     };
   }
   
+  /**
+   * Listen for values written by set/mset or fetched from GitHub into the caches
+   * @returns Function removing the listener
+   */
+  onChange(listener: StorageChangeListener): () => void {
+    this.changeListeners.push(listener);
+    return () => {
+      this.changeListeners = this.changeListeners.filter(l => l !== listener);
+    };
+  }
+  
+  /**
+   * Notify change listeners; a failing listener never fails the write
+   */
+  private notifyChange(key: string, value: any): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(key, value);
+      } catch (error) {
+        this.debug(`Change listener failed for ${key}: ${error}`);
+      }
+    }
+  }
+  
   /**
    * Promote a value to higher-level caches
    */
   private async promoteToHigherTiers(key: string, value: any, currentTier: 'pglite' | 'github'): Promise<void> {
     try {
       if (currentTier === 'github') {
+        this.fetchedAt.set(key, new Date());
         // Promote from L3 to L2 and L1
         if (this.providers.pglite) {
           await this.providers.pglite.set(key, value);
@@ -179,6 +228,7 @@ export class HybridStorageProvider extends BaseStorageProvider {
         if (this.providers.memory) {
           await this.providers.memory.set(key, value);
         }
+        this.notifyChange(key, value);
       } else if (currentTier === 'pglite') {
         // Promote from L2 to L1
         if (this.providers.memory) {
@@ -191,9 +241,24 @@ export class HybridStorageProvider extends BaseStorageProvider {
   }
   
   /**
-   * Multi-tier read strategy with automatic promotion
+   * Multi-tier read strategy with automatic promotion. Stale and fallback copies served
+   * while GitHub is unavailable are marked with _stale and _fallback.
    */
   async get(key: string): Promise<any> {
+    const entry = await this.getEntry(key);
+    if (entry?.degradation === 'serving-stale') {
+      return { ...entry.value, _stale: true };
+    }
+    if (entry?.degradation === 'circuit-breaker-open') {
+      return { ...entry.value, _fallback: true };
+    }
+    return entry?.value;
+  }
+
+  /**
+   * Read a value like get(), along with the tier that served it and when it was fetched
+   */
+  async getEntry(key: string): Promise<StorageEntry | undefined> {
     return this.wrapOperation(`get(${key})`, async () => {
       this.validateKey(key);
       const startTime = Date.now();
@@ -206,7 +271,7 @@ export class HybridStorageProvider extends BaseStorageProvider {
             if (value !== undefined) {
               this.recordHit('memory', Date.now() - startTime);
               this.debug(`L1 cache hit: ${key}`);
-              return value;
+              return { value, tier: 'memory' as const, cachedAt: this.fetchedAt.get(key) ?? await this.cachedAtOf(this.providers.memory, key) };
             }
           } catch (error) {
             this.stats.tierAvailability.memory = false;
@@ -222,10 +287,14 @@ export class HybridStorageProvider extends BaseStorageProvider {
               this.recordHit('pglite', Date.now() - startTime);
               this.debug(`L2 cache hit: ${key}`);
               
-              // Promote to L1
+              // Promote to L1, remembering when the value was fetched rather than promoted
+              const cachedAt = await this.cachedAtOf(this.providers.pglite, key);
               await this.promoteToHigherTiers(key, value, 'pglite');
+              if (cachedAt) {
+                this.fetchedAt.set(key, cachedAt);
+              }
               
-              return value;
+              return { value, tier: 'pglite' as const, cachedAt };
             }
           } catch (error) {
             this.stats.tierAvailability.pglite = false;
@@ -235,6 +304,7 @@ export class HybridStorageProvider extends BaseStorageProvider {
         
         // L3: GitHub API (source of truth)
         if (this.providers.github && this.stats.tierAvailability.github && this.circuitBreaker.allowsRequest()) {
+          const fallback: { stale?: any } = {};
           try {
             const value = await this.circuitBreaker.executeWithFallback(
               async () => await this.providers.github!.get(key),
@@ -243,25 +313,30 @@ export class HybridStorageProvider extends BaseStorageProvider {
                 if (this.providers.pglite) {
                   const staleData = await this.providers.pglite.get(key);
                   if (staleData) {
-                    this.debug(`Serving stale data for ${key} due to GitHub API failure`);
-                    return { ...staleData, _stale: true };
+                    logWarning(`Serving stale data for ${key} from the PGLite cache: GitHub API request failed`);
+                    fallback.stale = staleData;
                   }
                 }
                 return undefined;
               }
             );
             
-            if (value !== undefined && !value._stale) {
+            if (value !== undefined) {
               this.recordHit('github', Date.now() - startTime);
               this.debug(`L3 source hit: ${key}`);
               
               // Populate lower tiers
               await this.promoteToHigherTiers(key, value, 'github');
               
-              return value;
-            } else if (value?._stale) {
+              return { value, tier: 'github' as const, cachedAt: new Date() };
+            } else if (fallback.stale !== undefined) {
               this.debug(`Served stale data for ${key}`);
-              return value;
+              return {
+                value: fallback.stale,
+                tier: 'pglite' as const,
+                cachedAt: await this.cachedAtOf(this.providers.pglite!, key),
+                degradation: 'serving-stale' as const
+              };
             }
           } catch (error) {
             this.stats.tierAvailability.github = false;
@@ -279,8 +354,13 @@ export class HybridStorageProvider extends BaseStorageProvider {
           if (this.providers.pglite) {
             const cachedValue = await this.providers.pglite.get(key);
             if (cachedValue) {
-              this.debug(`Served fallback data for ${key}`);
-              return { ...cachedValue, _fallback: true };
+              logWarning(`Serving cached data for ${key}: GitHub API circuit breaker is open`);
+              return {
+                value: cachedValue,
+                tier: 'pglite' as const,
+                cachedAt: await this.cachedAtOf(this.providers.pglite, key),
+                degradation: 'circuit-breaker-open' as const
+              };
             }
           }
         }
@@ -296,6 +376,19 @@ export class HybridStorageProvider extends BaseStorageProvider {
       }
     });
   }
+
+  /**
+   * When a tier last stored a value, if it can tell
+   */
+  private async cachedAtOf(provider: StorageProvider, key: string): Promise<Date | undefined> {
+    try {
+      const updatedAt = (await provider.getMetadata(key))?.updatedAt;
+      return updatedAt ? new Date(updatedAt) : undefined;
+    } catch (error) {
+      this.debug(`Failed to read metadata of ${key}: ${error}`);
+      return undefined;
+    }
+  }
   
   /**
    * Multi-tier write strategy based on configuration
@@ -321,6 +414,9 @@ export class HybridStorageProvider extends BaseStorageProvider {
         default:
           throw new Error(`Unknown cache strategy: ${this.strategy}`);
       }
+      
+      this.fetchedAt.set(key, new Date());
+      this.notifyChange(key, value);
     });
   }
   
@@ -479,6 +575,7 @@ export class HybridStorageProvider extends BaseStorageProvider {
       this.validateKey(key);
       
       let deleted = false;
+      this.fetchedAt.delete(key);
       
       // Delete from all tiers
       if (this.providers.memory) {
@@ -514,6 +611,7 @@ export class HybridStorageProvider extends BaseStorageProvider {
       }
       
       await Promise.allSettled(promises);
+      this.fetchedAt.clear();
       
       // Clear statistics
       this.stats = createDefaultStats();
@@ -643,6 +741,10 @@ export class HybridStorageProvider extends BaseStorageProvider {
           await Promise.allSettled(cachePromises);
           break;
       }
+      
+      for (const [key, value] of entries) {
+        this.notifyChange(key, value);
+      }
     });
   }
   
@@ -748,6 +850,7 @@ export class HybridStorageProvider extends BaseStorageProvider {
     this.providers = {};
     this.writeQueue = [];
     
+    this.changeListeners = [];
     await super.dispose();
     this.debug('Hybrid storage disposed');
   }
@@ -776,6 +879,13 @@ export class HybridStorageProvider extends BaseStorageProvider {
     return { ...this.hybridConfig };
   }
   
+  /**
+   * Get the L2 PGLite provider, if it is enabled and currently available
+   */
+  getPGLiteProvider(): PGLiteStorageProvider | undefined {
+    return this.stats.tierAvailability.pglite ? this.providers.pglite : undefined;
+  }
+  
   /**
    * Get circuit breaker status
    */
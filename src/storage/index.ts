@@ -5,7 +5,8 @@ export type {
   Component, 
   ComponentMetadata, 
   Block, 
-  BlockMetadata 
+  BlockMetadata,
+  CatalogFilter
 } from './providers/pglite-storage-provider.js';
 
 // Base classes
@@ -17,7 +18,7 @@ export { PGLiteStorageProvider } from './providers/pglite-storage-provider.js';
 export { GitHubStorageProvider } from './providers/github-storage-provider.js';
 
 // Hybrid storage orchestrator
-export { HybridStorageProvider } from './hybrid/hybrid-storage.js';
+export { HybridStorageProvider, type StorageChangeListener, type StorageEntry, type StorageTier } from './hybrid/hybrid-storage.js';
 export { StorageCircuitBreaker } from './hybrid/storage-circuit-breaker.js';
 export { 
   CacheStrategy, 
@@ -29,6 +30,18 @@ export {
   calculateAverageResponseTime
 } from './hybrid/cache-strategies.js';
 
+// Full-text search
+export { MemorySearchIndex } from './search/memory-search-index.js';
+export {
+  type SearchDocument,
+  type SearchHit,
+  type SearchOptions,
+  type SearchItemKind,
+  componentToSearchDocument,
+  blockToSearchDocument,
+  extractExportedSymbols
+} from './search/search-document.js';
+
 // Database infrastructure
 export { PGLiteManager } from './database/manager.js';
 export { initializeDatabase, getDatabase, getDatabaseManager, closeDatabase } from './database/connection.js';
\ No newline at end of file
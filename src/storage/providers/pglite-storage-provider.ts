@@ -3,9 +3,22 @@ import { BaseStorageProvider } from './base-storage-provider.js';
 import { PGLiteManager } from '../database/manager.js';
 import { getDatabaseManager, executeQuery, executeTransaction } from '../database/connection.js';
 import { PGlite } from '@electric-sql/pglite';
+import {
+  SearchDocument,
+  SearchHit,
+  SearchOptions,
+  SNIPPET_START,
+  SNIPPET_STOP,
+  blockToSearchDocument,
+  componentToSearchDocument,
+  tokenizeQuery,
+  getCachedDemoCode,
+  getCachedDescription,
+  toSearchFields
+} from '../search/search-document.js';
 
 export interface ParsedKey {
-  type: 'component' | 'block' | 'metadata' | 'other';
+  type: 'component' | 'block' | 'component-demo' | 'component-metadata' | 'metadata' | 'other';
   framework?: string;
   name?: string;
   subkey?: string;
@@ -54,8 +67,61 @@ export interface BlockMetadata {
   type?: 'simple' | 'complex';
   description?: string;
   totalSize?: number;
+  dependencies?: string[];
+  componentsUsed?: string[];
+}
+
+/**
+ * Filters of a catalog page (see queryCatalog())
+ */
+export interface CatalogFilter {
+  namePattern?: string;
+  usesComponent?: string;
+  type?: 'simple' | 'complex';
 }
 
+/**
+ * SQL expression building the weighted full-text vector from four consecutive
+ * query parameters: names (A), exported symbols (B), description (C), demo/usage text (D)
+ * @param firstParam Index of the first of the four parameters
+ */
+function searchVectorSql(firstParam: number): string {
+  return `setweight(to_tsvector('simple', $${firstParam}), 'A') ||
+        setweight(to_tsvector('simple', $${firstParam + 1}), 'B') ||
+        setweight(to_tsvector('simple', $${firstParam + 2}), 'C') ||
+        setweight(to_tsvector('simple', $${firstParam + 3}), 'D')`;
+}
+
+/**
+ * Query parameters matching searchVectorSql()
+ */
+function searchVectorParams(document: SearchDocument): string[] {
+  const fields = toSearchFields(document);
+  return [fields.names, fields.symbols, fields.description, fields.body];
+}
+
+/**
+ * SQL condition matching rows fetched at the commit SHA their scope is pinned to
+ * ("react@<sha>"); such rows are immutable and never expire
+ */
+const PINNED_ROW_SQL = `(github_sha IS NOT NULL AND framework LIKE '%@' || github_sha)`;
+
+/**
+ * Runs a query and returns its rows, on the shared connection or within a transaction
+ */
+type QueryFn = <T>(query: string, params?: any[]) => Promise<T[]>;
+
+function transactionQuery(tx: any): QueryFn {
+  return async (query, params) => (await tx.query(query, params)).rows;
+}
+
+/**
+ * SQL expression of the framework of a row's scope ("react/new-york@v1.0.0" -> "react")
+ */
+const FRAMEWORK_SQL = `split_part(split_part(framework, '@', 1), '/', 1)`;
+
+const HEADLINE_OPTIONS =`StartSel=${SNIPPET_START}, StopSel=${SNIPPET_STOP}, MaxWords=25, MinWords=8, MaxFragments=1`;
+
 /**
  * PGLite-based storage provider that implements persistent storage
  * for components and blocks using the established database schema
@@ -109,6 +175,8 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
     switch (type) {
       case 'component':
       case 'block':
+      case 'component-demo':
+      case 'component-metadata':
         return {
           type,
           framework: parts[1],
@@ -180,6 +248,16 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
     return now > expireTime;
   }
   
+  /**
+   * Check if a row was fetched at the commit SHA its scope is pinned to
+   * ("react@<sha>"). Such rows are immutable and never expire.
+   * @param row Component or block row
+   * @returns True if pinned
+   */
+  private isPinnedRow(row: { framework: string; github_sha?: string | null }): boolean {
+    return !!row.github_sha && row.framework.endsWith(`@${row.github_sha}`);
+  }
+  
   // Abstract method implementations required by StorageProvider interface
   
   async get(key: string): Promise<any> {
@@ -211,6 +289,8 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
         await this.setComponent(value as Component);
       } else if (parsed.type === 'block' && parsed.framework && parsed.name) {
         await this.setBlock(value as Block);
+      } else if ((parsed.type === 'component-demo' || parsed.type === 'component-metadata') && parsed.framework && parsed.name) {
+        await this.setComponentSearchText(executeQuery, parsed.type, parsed.framework, parsed.name, value);
       } else {
         // Handle generic storage
         await this.setGeneric(key, value, ttl);
@@ -328,6 +408,8 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
             await this.setComponentInTransaction(tx, value as Component);
           } else if (parsed.type === 'block' && parsed.framework && parsed.name) {
             await this.setBlockInTransaction(tx, value as Block);
+          } else if ((parsed.type === 'component-demo' || parsed.type === 'component-metadata') && parsed.framework && parsed.name) {
+            await this.setComponentSearchText(transactionQuery(tx), parsed.type, parsed.framework, parsed.name, value);
           } else {
             // Handle generic storage - for now skip since it's not implemented
             // TODO: Implement generic storage in transaction
@@ -406,7 +488,7 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
     
     // Check if expired (using database-calculated age to avoid timezone issues)
     const ageSeconds = parseFloat(row.age_seconds || 0);
-    const isExpired = this.config.defaultTTL > 0 && ageSeconds > this.config.defaultTTL;
+    const isExpired = this.config.defaultTTL > 0 && ageSeconds > this.config.defaultTTL && !this.isPinnedRow(row);
     
     if (isExpired) {
       // Delete expired component
@@ -439,12 +521,13 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
   }
   
   async setComponent(component: Component): Promise<void> {
+    component = await this.withCachedSearchText(executeQuery, component);
     const query = `
       INSERT INTO components (
         framework, name, source_code, demo_code, metadata,
         dependencies, registry_dependencies, github_sha,
-        file_size, last_modified, cached_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, CURRENT_TIMESTAMP)
+        file_size, last_modified, cached_at, search_vector
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, CURRENT_TIMESTAMP, ${searchVectorSql(11)})
       ON CONFLICT (framework, name) 
       DO UPDATE SET
         source_code = EXCLUDED.source_code,
@@ -456,6 +539,7 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
         file_size = EXCLUDED.file_size,
         last_modified = EXCLUDED.last_modified,
         cached_at = CURRENT_TIMESTAMP,
+        search_vector = EXCLUDED.search_vector,
         access_count = components.access_count + 1
     `;
     
@@ -469,7 +553,8 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
       component.registryDependencies,
       component.githubSha,
       component.fileSize,
-      component.lastModified
+      component.lastModified,
+      ...searchVectorParams(componentToSearchDocument(component))
     ]);
     
     this.debug(`Stored component: ${component.framework}:${component.name}`);
@@ -481,12 +566,13 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
    * @param component Component to store
    */
   private async setComponentInTransaction(tx: any, component: Component): Promise<void> {
+    component = await this.withCachedSearchText(transactionQuery(tx), component);
     const query = `
       INSERT INTO components (
         framework, name, source_code, demo_code, metadata,
         dependencies, registry_dependencies, github_sha,
-        file_size, last_modified, cached_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, CURRENT_TIMESTAMP)
+        file_size, last_modified, cached_at, search_vector
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, CURRENT_TIMESTAMP, ${searchVectorSql(11)})
       ON CONFLICT (framework, name) 
       DO UPDATE SET
         source_code = EXCLUDED.source_code,
@@ -498,6 +584,7 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
         file_size = EXCLUDED.file_size,
         last_modified = EXCLUDED.last_modified,
         cached_at = CURRENT_TIMESTAMP,
+        search_vector = EXCLUDED.search_vector,
         access_count = components.access_count + 1
     `;
     
@@ -511,12 +598,87 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
       component.registryDependencies,
       component.githubSha,
       component.fileSize,
-      component.lastModified
+      component.lastModified,
+      ...searchVectorParams(componentToSearchDocument(component))
     ]);
     
     this.debug(`Stored component in transaction: ${component.framework}:${component.name}`);
   }
   
+  /**
+   * Keep the demo and description a component's row already has when the component is
+   * written without them, so they stay in its search vector
+   * @param query Query function of the connection or transaction the component is written in
+   */
+  private async withCachedSearchText(query: QueryFn, component: Component): Promise<Component> {
+    const hasDescription = typeof component.metadata?.description === 'string';
+    if (component.demoCode && hasDescription) {
+      return component;
+    }
+
+    const [row] = await query<{ demo_code: string | null; description: string | null }>(
+      `SELECT demo_code, metadata->>'description' AS description FROM components WHERE framework = $1 AND name = $2`,
+      [component.framework, component.name]
+    );
+    return {
+      ...component,
+      demoCode: component.demoCode || row?.demo_code || undefined,
+      metadata: !hasDescription && row?.description ? { ...component.metadata, description: row.description } : component.metadata
+    };
+  }
+
+  /**
+   * Write the demo (component-demo keys) or registry description (component-metadata keys)
+   * of a component into its cached rows and their search vectors. Descriptions are not
+   * style-specific, so they go to the rows of every style of the framework at the same ref.
+   * Components whose source is not cached yet have no row; their demo and description are
+   * searchable through the in-memory index, and kept once the source is written.
+   * @param query Query function of the connection or transaction to write in
+   * @param scope Cache scope of the key ("react/new-york-v4", "react@v1.0.0")
+   */
+  private async setComponentSearchText(
+    query: QueryFn,
+    type: 'component-demo' | 'component-metadata',
+    scope: string,
+    name: string,
+    value: unknown
+  ): Promise<void> {
+    const demoCode = type === 'component-demo' ? getCachedDemoCode(value) : undefined;
+    const description = type === 'component-metadata' ? getCachedDescription(value) : undefined;
+    if (demoCode === undefined && description === undefined) {
+      return;
+    }
+
+    const [styleScope, ref] = scope.split('@');
+    const framework = styleScope.split('/')[0];
+    const rows = await query<any>(
+      `SELECT framework, name, source_code, demo_code, metadata FROM components WHERE name = $1 AND (framework = $2 OR framework LIKE $3)`,
+      [name, scope, `${framework}/%`]
+    );
+    const matching = rows.filter(row => {
+      if (type === 'component-demo') {
+        return row.framework === scope;
+      }
+      const [rowScope, rowRef] = row.framework.split('@');
+      return rowScope.split('/')[0] === framework && rowRef === ref;
+    });
+
+    for (const row of matching) {
+      const component: Component = {
+        framework: row.framework,
+        name: row.name,
+        sourceCode: row.source_code,
+        demoCode: demoCode ?? row.demo_code ?? undefined,
+        metadata: description !== undefined ? { ...row.metadata, description } : row.metadata
+      };
+      await query(
+        `UPDATE components SET demo_code = $3, metadata = $4, search_vector = ${searchVectorSql(5)} WHERE framework = $1 AND name = $2`,
+        [component.framework, component.name, component.demoCode, component.metadata, ...searchVectorParams(componentToSearchDocument(component))]
+      );
+    }
+    this.debug(`Stored ${type === 'component-demo' ? 'demo' : 'description'} of ${matching.length} component row(s): ${scope}:${name}`);
+  }
+
   async listComponents(framework: string): Promise<ComponentMetadata[]> {
     const query = `
       SELECT framework, name, file_size, last_modified, dependencies, registry_dependencies
@@ -536,7 +698,28 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
       registryDependencies: row.registry_dependencies
     }));
   }
-  
+
+  /**
+   * List every cached revision of a component in a scope: the row for the configured ref
+   * and rows cached at specific git refs ("scope@ref"), newest first. Expired rows are included.
+   */
+  async listComponentVersions(framework: string, name: string): Promise<Array<Pick<Component, 'framework' | 'sourceCode' | 'githubSha'>>> {
+    const query = `
+      SELECT framework, source_code, github_sha
+      FROM components
+      WHERE name = $2 AND (framework = $1 OR framework LIKE $1 || '@%')
+      ORDER BY cached_at DESC
+    `;
+
+    const rows = await executeQuery<any>(query, [framework, name]);
+
+    return rows.map(row => ({
+      framework: row.framework,
+      sourceCode: row.source_code,
+      githubSha: row.github_sha ?? undefined
+    }));
+  }
+
   // Block-specific methods
   
   async getBlock(framework: string, name: string): Promise<Block | undefined> {
@@ -556,7 +739,7 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
     const row = checkRows[0];
     
     // Check if expired (using default TTL)
-    if (this.isExpiredByTTL(row.cached_at, this.config.defaultTTL)) {
+    if (this.isExpiredByTTL(row.cached_at, this.config.defaultTTL) && !this.isPinnedRow(row)) {
       // Delete expired block
       await this.deleteBlock(framework, name);
       return undefined;
@@ -592,8 +775,8 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
       INSERT INTO blocks (
         framework, name, category, type, description, files,
         structure, dependencies, components_used, total_size,
-        github_sha, cached_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, CURRENT_TIMESTAMP)
+        github_sha, cached_at, search_vector
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, CURRENT_TIMESTAMP, ${searchVectorSql(12)})
       ON CONFLICT (framework, name) 
       DO UPDATE SET
         category = EXCLUDED.category,
@@ -606,6 +789,7 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
         total_size = EXCLUDED.total_size,
         github_sha = EXCLUDED.github_sha,
         cached_at = CURRENT_TIMESTAMP,
+        search_vector = EXCLUDED.search_vector,
         access_count = blocks.access_count + 1
     `;
     
@@ -620,7 +804,8 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
       block.dependencies,
       block.componentsUsed,
       block.totalSize,
-      block.githubSha
+      block.githubSha,
+      ...searchVectorParams(blockToSearchDocument(block))
     ]);
     
     this.debug(`Stored block: ${block.framework}:${block.name}`);
@@ -636,8 +821,8 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
       INSERT INTO blocks (
         framework, name, category, type, description, files,
         structure, dependencies, components_used, total_size,
-        github_sha, cached_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, CURRENT_TIMESTAMP)
+        github_sha, cached_at, search_vector
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, CURRENT_TIMESTAMP, ${searchVectorSql(12)})
       ON CONFLICT (framework, name) 
       DO UPDATE SET
         category = EXCLUDED.category,
@@ -650,6 +835,7 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
         total_size = EXCLUDED.total_size,
         github_sha = EXCLUDED.github_sha,
         cached_at = CURRENT_TIMESTAMP,
+        search_vector = EXCLUDED.search_vector,
         access_count = blocks.access_count + 1
     `;
     
@@ -664,7 +850,8 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
       block.dependencies,
       block.componentsUsed,
       block.totalSize,
-      block.githubSha
+      block.githubSha,
+      ...searchVectorParams(blockToSearchDocument(block))
     ]);
     
     this.debug(`Stored block in transaction: ${block.framework}:${block.name}`);
@@ -697,6 +884,145 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
     }));
   }
   
+  /**
+   * Page through the rows of the listed components or blocks in a scope, filtered and
+   * ordered by name. Only answers when every listed item has a row, since the list is the
+   * source of truth for what exists, and that row records the components the item imports;
+   * otherwise returns undefined.
+   * @param table Table to page through
+   * @param framework Scope the rows are stored under
+   * @param names Names of the listed items
+   * @param filter Name ILIKE pattern, a component the items must use and (blocks only) the block type
+   * @param offset Number of matching rows to skip
+   * @param limit Maximum number of rows to return
+   */
+  async queryCatalog(
+    table: 'components' | 'blocks',
+    framework: string,
+    names: string[],
+    filter: CatalogFilter,
+    offset: number,
+    limit: number
+  ): Promise<{ entries: Array<ComponentMetadata | BlockMetadata>; total: number } | undefined> {
+    if (names.length === 0) {
+      return undefined;
+    }
+
+    const usesColumn = table === 'components' ? 'registry_dependencies' : 'components_used';
+    const params: any[] = [framework, names];
+    // Rows cached before their dependencies were recorded cannot answer usesComponent
+    const [cached] = await executeQuery<{ count: number }>(
+      `SELECT COUNT(DISTINCT name)::int AS count FROM ${table} WHERE framework = $1 AND name = ANY($2) AND ${usesColumn} IS NOT NULL`,
+      params
+    );
+    if (cached.count < new Set(names).size) {
+      return undefined;
+    }
+
+    let where = 'framework = $1 AND name = ANY($2)';
+    if (filter.namePattern) {
+      params.push(filter.namePattern);
+      where += ` AND name ILIKE $${params.length}`;
+    }
+    if (filter.usesComponent) {
+      params.push(filter.usesComponent);
+      where += ` AND $${params.length} = ANY(${usesColumn})`;
+    }
+    if (filter.type && table === 'blocks') {
+      params.push(filter.type);
+      where += ` AND type = $${params.length}`;
+    }
+
+    const [{ total }] = await executeQuery<{ total: number }>(`SELECT COUNT(*)::int AS total FROM ${table} WHERE ${where}`, params);
+    const columns = table === 'components'
+      ? 'name, dependencies, registry_dependencies'
+      : 'name, category, type, description, dependencies, components_used';
+    const rows = await executeQuery<any>(
+      `SELECT ${columns} FROM ${table} WHERE ${where} ORDER BY name ASC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+
+    return {
+      entries: rows.map(row => table === 'components'
+        ? { framework, name: row.name, dependencies: row.dependencies ?? undefined, registryDependencies: row.registry_dependencies }
+        : {
+          framework,
+          name: row.name,
+          category: row.category ?? undefined,
+          type: row.type ?? undefined,
+          description: row.description ?? undefined,
+          dependencies: row.dependencies ?? undefined,
+          componentsUsed: row.components_used
+        }),
+      total
+    };
+  }
+
+  // Full-text search
+
+  /**
+   * Ranked full-text search over cached components and blocks.
+   * Query terms are prefix-matched and OR-ed, so partial and multi-word queries still rank.
+   * @param query Free-text query
+   * @param options Framework/kind filters and result limit
+   * @returns Hits ordered by descending rank, with highlighted snippets
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+    const terms = tokenizeQuery(query);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const params: any[] = [terms.map(term => `${term}:*`).join(' | '), options.limit ?? 10];
+    // Search is style-agnostic, and rows pinned to a commit would shadow the current code
+    let filter = ` AND NOT ${PINNED_ROW_SQL}`;
+    if (options.framework) {
+      params.push(options.framework);
+      filter += ` AND ${FRAMEWORK_SQL} = $${params.length}`;
+    }
+
+    const selects: string[] = [];
+    if (options.kind !== 'block') {
+      selects.push(`
+        SELECT 'component' AS kind, ${FRAMEWORK_SQL} AS framework, name, metadata->>'description' AS description,
+               ts_rank(search_vector, q.query) AS score,
+               ts_headline('simple', concat_ws(' ', metadata->>'description', demo_code), q.query, '${HEADLINE_OPTIONS}') AS snippet
+        FROM components, q
+        WHERE search_vector @@ q.query${filter}`);
+    }
+    if (options.kind !== 'component') {
+      selects.push(`
+        SELECT 'block' AS kind, ${FRAMEWORK_SQL} AS framework, name, description,
+               ts_rank(search_vector, q.query) AS score,
+               ts_headline('simple', concat_ws(' ', description, array_to_string(components_used, ', ')), q.query, '${HEADLINE_OPTIONS}') AS snippet
+        FROM blocks, q
+        WHERE search_vector @@ q.query${filter}`);
+    }
+
+    // One hit per item: the best-scoring of the rows cached for its styles and refs
+    const sql = `
+      WITH q AS (SELECT to_tsquery('simple', $1) AS query)
+      SELECT * FROM (
+        SELECT DISTINCT ON (kind, framework, name) * FROM (${selects.join('\n        UNION ALL')}
+        ) hits
+        ORDER BY kind, framework, name, score DESC
+      ) items
+      ORDER BY score DESC, name ASC
+      LIMIT $2
+    `;
+
+    const rows = await executeQuery<any>(sql, params);
+
+    return rows.map(row => ({
+      kind: row.kind,
+      framework: row.framework,
+      name: row.name,
+      description: row.description ?? undefined,
+      score: Number(Number(row.score).toFixed(4)),
+      snippet: row.snippet || row.description || row.name
+    }));
+  }
+  
   // Private helper methods
   
   private async deleteComponent(framework: string, name: string): Promise<boolean> {
@@ -909,6 +1235,7 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
         const expiredComponentsQuery = `
           DELETE FROM components 
           WHERE EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - cached_at)) > $1
+            AND NOT ${PINNED_ROW_SQL}
         `;
         const componentResult = await tx.query(expiredComponentsQuery, [this.config.defaultTTL]);
         cleanedCount += componentResult.rowCount || 0;
@@ -917,6 +1244,7 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
         const expiredBlocksQuery = `
           DELETE FROM blocks 
           WHERE EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - cached_at)) > $1
+            AND NOT ${PINNED_ROW_SQL}
         `;
         const blockResult = await tx.query(expiredBlocksQuery, [this.config.defaultTTL]);
         cleanedCount += blockResult.rowCount || 0;
@@ -1013,7 +1341,7 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
       const componentStatsQuery = `
         SELECT 
           COUNT(*) as total,
-          COUNT(CASE WHEN EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - cached_at)) > $1 THEN 1 END) as expired,
+          COUNT(CASE WHEN EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - cached_at)) > $1 AND NOT ${PINNED_ROW_SQL} THEN 1 END) as expired,
           COALESCE(SUM(file_size), 0) as total_size,
           COALESCE(AVG(EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - cached_at))), 0) as avg_age
         FROM components
@@ -1032,7 +1360,7 @@ export class PGLiteStorageProvider extends BaseStorageProvider {
       const blockStatsQuery = `
         SELECT 
           COUNT(*) as total,
-          COUNT(CASE WHEN EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - cached_at)) > $1 THEN 1 END) as expired,
+          COUNT(CASE WHEN EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - cached_at)) > $1 AND NOT ${PINNED_ROW_SQL} THEN 1 END) as expired,
           COALESCE(SUM(total_size), 0) as total_size,
           COALESCE(AVG(EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - cached_at))), 0) as avg_age
         FROM blocks
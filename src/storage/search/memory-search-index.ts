@@ -0,0 +1,160 @@
+/**
+ * In-memory search index used when PGLite is disabled or unavailable
+ *
+ * Scores documents with the same field weighting as the PGLite tsvector
+ * (names > exported symbols > description > demo code) and prefix-matches
+ * query terms so partial words like "acc" still find "accordion".
+ */
+
+import {
+  SearchDocument,
+  SearchHit,
+  SearchOptions,
+  SNIPPET_START,
+  SNIPPET_STOP,
+  splitIdentifier,
+  tokenizeQuery,
+  toSearchFields
+} from './search-document.js';
+
+/**
+ * Relative weight of a term match in each field
+ */
+const FIELD_WEIGHTS = {
+  names: 1.0,
+  symbols: 0.4,
+  description: 0.2,
+  body: 0.1
+} as const;
+
+type FieldName = keyof typeof FIELD_WEIGHTS;
+
+interface IndexedDocument {
+  document: SearchDocument;
+  tokens: Record<FieldName, string[]>;
+}
+
+const SNIPPET_RADIUS = 60;
+
+export class MemorySearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+
+  private static keyFor(kind: string, framework: string, name: string): string {
+    return `${kind}:${framework}:${name}`;
+  }
+
+  /**
+   * Add or update a document. Fields missing from the update keep their indexed value.
+   */
+  upsert(update: Partial<SearchDocument> & Pick<SearchDocument, 'kind' | 'framework' | 'name'>): void {
+    const key = MemorySearchIndex.keyFor(update.kind, update.framework, update.name);
+    const existing = this.documents.get(key)?.document;
+
+    const document: SearchDocument = {
+      kind: update.kind,
+      framework: update.framework,
+      name: update.name,
+      description: update.description ?? existing?.description,
+      symbols: update.symbols?.length ? update.symbols : existing?.symbols ?? [],
+      demoCode: update.demoCode ?? existing?.demoCode
+    };
+
+    const fields = toSearchFields(document);
+    this.documents.set(key, {
+      document,
+      tokens: {
+        names: splitIdentifier(fields.names),
+        symbols: splitIdentifier(fields.symbols),
+        description: splitIdentifier(fields.description),
+        body: splitIdentifier(fields.body)
+      }
+    });
+  }
+
+  /**
+   * Remove a document from the index
+   */
+  remove(kind: string, framework: string, name: string): boolean {
+    return this.documents.delete(MemorySearchIndex.keyFor(kind, framework, name));
+  }
+
+  clear(): void {
+    this.documents.clear();
+  }
+
+  size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Search the index
+   * @param query Free-text query
+   * @param options Framework/kind filters and result limit
+   * @returns Hits ordered by descending score
+   */
+  search(query: string, options: SearchOptions = {}): SearchHit[] {
+    const terms = tokenizeQuery(query);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const hits: SearchHit[] = [];
+
+    for (const { document, tokens } of this.documents.values()) {
+      if (options.framework && document.framework !== options.framework) continue;
+      if (options.kind && document.kind !== options.kind) continue;
+
+      let score = 0;
+      for (const term of terms) {
+        for (const field of Object.keys(FIELD_WEIGHTS) as FieldName[]) {
+          const matches = tokens[field].filter(token => token.startsWith(term)).length;
+          if (matches > 0) {
+            // Exact name matches rank above prefix matches; repeated matches have diminishing returns
+            const exact = field === 'names' && tokens.names.includes(term) ? 2 : 1;
+            score += FIELD_WEIGHTS[field] * exact * Math.log2(1 + matches);
+          }
+        }
+      }
+
+      if (score > 0) {
+        hits.push({
+          kind: document.kind,
+          framework: document.framework,
+          name: document.name,
+          description: document.description,
+          score: Number(score.toFixed(4)),
+          snippet: buildSnippet(document, terms)
+        });
+      }
+    }
+
+    hits.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+    return hits.slice(0, options.limit ?? hits.length);
+  }
+}
+
+/**
+ * Build a short excerpt around the first matching term, highlighting matches
+ */
+function buildSnippet(document: SearchDocument, terms: string[]): string {
+  const candidates = [document.description, document.symbols.join(', '), document.demoCode]
+    .filter((text): text is string => !!text);
+  const pattern = new RegExp(`\\b(${terms.map(escapeRegExp).join('|')})\\w*`, 'gi');
+
+  for (const text of candidates) {
+    const match = new RegExp(pattern.source, 'i').exec(text);
+    if (!match) continue;
+
+    const start = Math.max(0, match.index - SNIPPET_RADIUS);
+    const end = Math.min(text.length, match.index + match[0].length + SNIPPET_RADIUS);
+    const excerpt = text.slice(start, end).replace(/\s+/g, ' ').trim();
+    const highlighted = excerpt.replace(pattern, word => `${SNIPPET_START}${word}${SNIPPET_STOP}`);
+    return `${start > 0 ? '…' : ''}${highlighted}${end < text.length ? '…' : ''}`;
+  }
+
+  return candidates[0]?.slice(0, SNIPPET_RADIUS * 2) ?? document.name;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
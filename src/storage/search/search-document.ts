@@ -0,0 +1,166 @@
+/**
+ * Search document model shared by the PGLite full-text index and the in-memory fallback
+ */
+
+import type { Component, Block } from '../providers/pglite-storage-provider.js';
+
+export type SearchItemKind = 'component' | 'block';
+
+/**
+ * Searchable view of a cached component or block
+ */
+export interface SearchDocument {
+  kind: SearchItemKind;
+  framework: string;
+  name: string;
+  description?: string;
+  symbols: string[];
+  demoCode?: string;
+}
+
+/**
+ * Text fields fed to the weighted full-text vector (A = highest weight)
+ */
+export interface SearchFields {
+  names: string;
+  symbols: string;
+  description: string;
+  body: string;
+}
+
+export interface SearchOptions {
+  framework?: string;
+  kind?: SearchItemKind;
+  limit?: number;
+}
+
+export interface SearchHit {
+  kind: SearchItemKind;
+  framework: string;
+  name: string;
+  description?: string;
+  score: number;
+  snippet: string;
+}
+
+/**
+ * Markers wrapped around matched terms in snippets
+ */
+export const SNIPPET_START = '**';
+export const SNIPPET_STOP = '**';
+
+/**
+ * Extract exported symbol names from TypeScript/Svelte source
+ * @param source Source code
+ * @returns Unique exported identifiers in order of appearance
+ */
+export function extractExportedSymbols(source: string | undefined | null): string[] {
+  if (!source) {
+    return [];
+  }
+
+  const symbols = new Set<string>();
+  const declaration = /export\s+(?:default\s+)?(?:declare\s+)?(?:async\s+)?(?:const|let|var|function\*?|class|interface|type|enum)\s+([A-Za-z_$][\w$]*)/g;
+  const exportList = /export\s+(?:type\s+)?\{([^}]*)\}/g;
+
+  for (const match of source.matchAll(declaration)) {
+    symbols.add(match[1]);
+  }
+
+  for (const match of source.matchAll(exportList)) {
+    for (const specifier of match[1].split(',')) {
+      // "Foo as Bar" exports Bar
+      const exported = specifier.trim().split(/\s+as\s+/).pop()?.replace(/^type\s+/, '').trim();
+      if (exported && /^[A-Za-z_$][\w$]*$/.test(exported)) {
+        symbols.add(exported);
+      }
+    }
+  }
+
+  return Array.from(symbols);
+}
+
+/**
+ * Split identifiers into searchable words ("AccordionTrigger" -> "accordion trigger", "date-picker" -> "date picker")
+ */
+export function splitIdentifier(identifier: string): string[] {
+  return identifier
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .map(part => part.toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Build a search document from a cached component
+ */
+export function componentToSearchDocument(component: Component): SearchDocument {
+  return {
+    kind: 'component',
+    framework: component.framework,
+    name: component.name,
+    description: typeof component.metadata?.description === 'string' ? component.metadata.description : undefined,
+    symbols: extractExportedSymbols(component.sourceCode),
+    demoCode: component.demoCode || undefined
+  };
+}
+
+/**
+ * Build a search document from a cached block
+ */
+export function blockToSearchDocument(block: Block): SearchDocument {
+  // Complex blocks carry a map of files, simple blocks a single `code` string
+  const files = block.files && typeof block.files === 'object' ? Object.values(block.files) : [];
+  const sources = [...files, (block as Block & { code?: unknown }).code]
+    .map((file: any) => typeof file === 'string' ? file : file?.content)
+    .filter((content): content is string => typeof content === 'string');
+
+  return {
+    kind: 'block',
+    framework: block.framework,
+    name: block.name,
+    description: block.description,
+    symbols: Array.from(new Set(sources.flatMap(extractExportedSymbols))),
+    demoCode: block.componentsUsed?.length ? `Uses components: ${block.componentsUsed.join(', ')}` : undefined
+  };
+}
+
+/**
+ * Flatten a search document into weighted text fields
+ */
+export function toSearchFields(document: SearchDocument): SearchFields {
+  return {
+    names: [document.name, ...splitIdentifier(document.name)].join(' '),
+    symbols: document.symbols.flatMap(symbol => [symbol, ...splitIdentifier(symbol)]).join(' '),
+    description: document.description || '',
+    body: document.demoCode || ''
+  };
+}
+
+/**
+ * Normalize a free-text query into lowercase search terms
+ */
+export function tokenizeQuery(query: string): string[] {
+  return Array.from(new Set(splitIdentifier(query)));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Demo source of a cached component-demo value: the demo itself, or an object carrying it
+ */
+export function getCachedDemoCode(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  return isRecord(value) && typeof value.demoCode === 'string' ? value.demoCode : undefined;
+}
+
+/**
+ * Description of a cached component-metadata value
+ */
+export function getCachedDescription(value: unknown): string | undefined {
+  return isRecord(value) && typeof value.description === 'string' ? value.description : undefined;
+}
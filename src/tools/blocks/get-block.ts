@@ -1,43 +1,187 @@
-import { getAxiosImplementation } from '../../utils/framework.js';
-import { getCachedData, generateBlockKey } from '../../utils/storage-integration.js';
+import { z } from 'zod';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getAxiosImplementation, resolveFramework, type Framework } from '../../utils/framework.js';
+import {
+  chunkCursorSchema,
+  chunkOutputShape,
+  frameworkSchema,
+  githubShaOutputSchema,
+  maxBytesSchema,
+  maxTokensSchema,
+  refSchema,
+  registrySchema,
+  structuredResult,
+  styleSchema,
+  withGitHubSha,
+  type ToolContext
+} from '../common.js';
+import { getCachedData, generateBlockKey, getKeyScope, type CachedDataOptions } from '../../utils/storage-integration.js';
+import { resolveStyle } from '../../utils/style.js';
+import { getCacheTTL, getRef, resolveCommit } from '../../utils/git-ref.js';
+import { fetchRegistryItem, getRegistryItemMetadata } from '../../utils/registry.js';
+import { chunkSourceFiles, type BudgetArgs, type SourceFile } from '../../utils/response-budget.js';
 import { logError } from '../../utils/logger.js';
 
+/**
+ * Source files of a block, keyed by path
+ */
+export type SourceFiles = Map<string, string>;
+
+/**
+ * Flatten a block into its source files (simple blocks have `code`, complex ones nested `files`)
+ */
+export function collectBlockFiles(block: any, framework: Framework): SourceFiles {
+  const files: SourceFiles = new Map();
+  if (typeof block?.code === 'string') {
+    files.set(`${block.name}${framework === 'svelte' ? '.svelte' : '.tsx'}`, block.code);
+  }
+
+  const visit = (value: any, key: string) => {
+    if (!value || typeof value !== 'object') {
+      return;
+    }
+    if (typeof value.content === 'string') {
+      files.set(value.path ?? key, value.content);
+      return;
+    }
+    // Nested component directories are stored as plain maps of files
+    for (const [nestedKey, nested] of Object.entries(value)) {
+      visit(nested, `${key}/${nestedKey}`);
+    }
+  };
+  for (const [key, value] of Object.entries(block?.files ?? {})) {
+    visit(value, key);
+  }
+
+  return new Map([...files].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Fetch a block through the cache; the result carries the commit it was read from as `githubSha`
+ * @param options Progress reporter told about the cache lookup and every file fetched, and the call's cancellation
+ */
+export async function fetchBlock(blockName: string, includeComponents: boolean, framework?: Framework, style?: string, ref?: string, options: CachedDataOptions = {}): Promise<any> {
+  const cacheKey = generateBlockKey(blockName, includeComponents, framework, style, ref);
+  const cachedTTL = getCacheTTL(24 * 60 * 60, ref); // 24 hours for blocks, no expiry when pinned to a commit
+  
+  return await getCachedData(
+    cacheKey,
+    async (signal) => {
+      const axios = await getAxiosImplementation(framework);
+      const resolvedStyle = await resolveStyle(style, framework);
+      const githubSha = await resolveCommit(ref, framework);
+      const block = await axios.getBlockCode(blockName, includeComponents, resolvedStyle, githubSha ?? getRef(ref), options.progress, signal);
+      // PGLite stores blocks under the key's scope
+      return { framework: getKeyScope(cacheKey), ...block, ...(githubSha && { githubSha }) };
+    },
+    cachedTTL,
+    options
+  );
+}
+
+/**
+ * Result of get_block within the call's context budget: the full result when it fits,
+ * otherwise the block's other fields with a chunk of its files
+ * @param block Full result
+ * @param files The block's files, as chunks of them are returned
+ */
+function budgetedBlockResult(block: Record<string, any>, files: SourceFile[], args: BudgetArgs) {
+  const result = structuredResult(block);
+  const { code: _code, files: _files, ...envelope } = block;
+  const chunk = chunkSourceFiles(files, args, {
+    fullBytes: Buffer.byteLength(result.content[0].text),
+    envelopeBytes: Buffer.byteLength(JSON.stringify(envelope, null, 2))
+  });
+  return chunk ? structuredResult({ ...envelope, ...chunk }) : result;
+}
+
 export async function handleGetBlock({ 
   blockName, 
-  includeComponents = true 
+  includeComponents = true,
+  framework,
+  style,
+  ref,
+  registry,
+  maxTokens,
+  maxBytes,
+  cursor
 }: { 
   blockName: string, 
-  includeComponents?: boolean 
-}) {
+  includeComponents?: boolean,
+  framework?: Framework,
+  style?: string,
+  ref?: string,
+  registry?: string,
+  maxTokens?: number,
+  maxBytes?: number,
+  cursor?: string
+}, context?: ToolContext) {
   try {
-    const cacheKey = generateBlockKey(blockName, includeComponents);
-    const cachedTTL = 24 * 60 * 60; // 24 hours for blocks
-    
-    const blockData = await getCachedData(
-      cacheKey,
-      async () => {
-        const axios = await getAxiosImplementation();
-        return await axios.getBlockCode(blockName, includeComponents);
-      },
-      cachedTTL
-    );
+    const budget = { maxTokens, maxBytes, cursor };
+    if (registry) {
+      const item = await fetchRegistryItem(registry, blockName, style, context);
+      const files = (item.files ?? [])
+        .filter(file => includeComponents || file.type !== 'registry:component')
+        .map(file => ({ path: file.path, type: file.type, target: file.target, content: file.content }));
+      return budgetedBlockResult(
+        { ...getRegistryItemMetadata(item, registry), files },
+        files.map(file => ({ ...file, content: file.content ?? '' })),
+        budget
+      );
+    }
+
+    const blockData = await fetchBlock(blockName, includeComponents, framework, style, ref, context);
+    const files = [...collectBlockFiles(blockData, resolveFramework(framework))].map(([path, content]) => ({ path, content }));
     
-    return {
-      content: [{ type: "text", text: JSON.stringify(blockData, null, 2) }]
-    };
+    return withGitHubSha(budgetedBlockResult(blockData, files, budget), blockData?.githubSha);
   } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
     logError(`Failed to get block "${blockName}"`, error);
     throw new Error(`Failed to get block "${blockName}": ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
-export const schema = {
-  blockName: {
-    type: 'string',
-    description: 'Name of the block (e.g., "calendar-01", "dashboard-01", "login-02")'
-  },
-  includeComponents: {
-    type: 'boolean',
-    description: 'Whether to include component files for complex blocks (default: true)'
-  }
-}; 
\ No newline at end of file
+export const schema = z.object({
+  blockName: z.string().min(1).max(200)
+    .describe('Name of the block (e.g., "calendar-01", "dashboard-01", "login-02")'),
+  includeComponents: z.boolean().optional()
+    .describe('Whether to include component files for complex blocks (default: true)'),
+  framework: frameworkSchema,
+  style: styleSchema,
+  ref: refSchema,
+  registry: registrySchema,
+  maxTokens: maxTokensSchema,
+  maxBytes: maxBytesSchema,
+  cursor: chunkCursorSchema
+});
+
+export const outputSchema = z.object({
+  name: z.string(),
+  type: z.string().optional()
+    .describe('"simple" (single file) or "complex" for blocks read from GitHub, the registry item type otherwise'),
+  description: z.string().optional(),
+  framework: z.string().optional()
+    .describe('Cache scope the block was read for (e.g., "react", "react/new-york@v1.0.0")'),
+  registry: z.string().optional(),
+  code: z.string().optional()
+    .describe('Source of a simple block'),
+  files: z.union([
+    z.array(z.object({
+      path: z.string(),
+      type: z.string().optional(),
+      target: z.string().optional(),
+      content: z.string().optional(),
+      offset: z.number().optional()
+        .describe('Character offset of the content in the file, when a chunk starts mid-file'),
+      truncated: z.boolean().optional()
+        .describe('Set when the rest of the file follows in the next chunk')
+    })),
+    z.record(z.unknown())
+  ]).optional()
+    .describe('Files of a complex block by path (nested for component directories), the files of a registry item, or the files of a chunk'),
+  dependencies: z.array(z.string()).optional(),
+  githubSha: githubShaOutputSchema,
+  ...chunkOutputShape
+}).passthrough();
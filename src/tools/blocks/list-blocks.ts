@@ -1,36 +1,199 @@
-import { getAxiosImplementation } from '../../utils/framework.js';
-import { getCachedData, generateListKey } from '../../utils/storage-integration.js';
+import { z } from 'zod';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getAxiosImplementation, resolveFramework, type Framework } from '../../utils/framework.js';
+import {
+  cursorSchema,
+  frameworkOutputSchema,
+  frameworkSchema,
+  githubShaOutputSchema,
+  limitSchema,
+  namePatternSchema,
+  pageOutputShape,
+  refSchema,
+  registrySchema,
+  structuredResult,
+  styleSchema,
+  usesComponentSchema,
+  withGitHubSha
+} from '../common.js';
+import { getCachedData, generateListKey, getCacheScope } from '../../utils/storage-integration.js';
+import { resolveStyle } from '../../utils/style.js';
+import { getCacheTTL, getRef, resolveCommit } from '../../utils/git-ref.js';
+import { fetchRegistryIndex, filterRegistryItems, normalizeRegistryName, BLOCK_ITEM_TYPES } from '../../utils/registry.js';
+import { isCatalogQuery, paginateCatalog, type CatalogEntry, type CatalogField, type CatalogQuery } from '../../utils/pagination.js';
+import { fetchBlock } from './get-block.js';
 import { logError } from '../../utils/logger.js';
 
-export async function handleListBlocks({ category }: { category?: string }) {
+/**
+ * Fields of each block on a page when the call selects none; descriptions are left out
+ * to keep pages small
+ */
+const DEFAULT_BLOCK_FIELDS: readonly CatalogField[] = ['name', 'category', 'type'];
+
+/**
+ * Group a registry's block items by category, mirroring the shape returned for the default registries
+ */
+async function listRegistryBlocks(registry: string, category?: string, style?: string) {
+  const index = await fetchRegistryIndex(registry, style);
+  const categories: Record<string, Array<{ name: string; description?: string }>> = {};
+
+  for (const item of filterRegistryItems(index, BLOCK_ITEM_TYPES)) {
+    for (const itemCategory of item.categories?.length ? item.categories : ['uncategorized']) {
+      (categories[itemCategory.toLowerCase()] ??= []).push({ name: item.name, description: item.description });
+    }
+  }
+
+  if (category) {
+    const blocks = categories[category.toLowerCase()] ?? [];
+    return { registry: normalizeRegistryName(registry), category, blocks, total: blocks.length };
+  }
+
+  return {
+    registry: normalizeRegistryName(registry),
+    categories,
+    totalBlocks: new Set(Object.values(categories).flat().map(block => block.name)).size,
+    availableCategories: Object.keys(categories).sort()
+  };
+}
+
+/**
+ * List the blocks of a framework's registry by category, cached under that framework's (and style's) namespace
+ */
+export async function listFrameworkBlocks(framework?: Framework, category?: string, style?: string, ref?: string) {
+  const cacheKey = generateListKey('blocks', framework, category, style, ref);
+  const cachedTTL = getCacheTTL(6 * 60 * 60, ref); // 6 hours for block lists, no expiry when pinned to a commit
+  
+  return await getCachedData(
+    cacheKey,
+    async () => {
+      const axios = await getAxiosImplementation(framework);
+      const resolvedStyle = await resolveStyle(style, framework);
+      const githubSha = await resolveCommit(ref, framework);
+      const result = await axios.getAvailableBlocks(category, resolvedStyle, githubSha ?? getRef(ref));
+      return githubSha ? { ...result, githubSha } : result;
+    },
+    cachedTTL
+  );
+}
+
+/**
+ * A page of a named registry's blocks; the components a block uses are its registry dependencies
+ */
+async function listRegistryBlockPage(registry: string, query: CatalogQuery, category?: string, style?: string) {
+  const index = await fetchRegistryIndex(registry, style);
+  const entries: CatalogEntry[] = filterRegistryItems(index, BLOCK_ITEM_TYPES)
+    .filter(item => !category || item.categories?.some(itemCategory => itemCategory.toLowerCase() === category.toLowerCase()))
+    .map(item => ({
+      name: item.name,
+      category: category?.toLowerCase() ?? item.categories?.[0]?.toLowerCase() ?? 'uncategorized',
+      type: (item.files?.length ?? 0) > 1 ? 'complex' as const : 'simple' as const,
+      description: item.description,
+      componentsUsed: item.registryDependencies ?? []
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const { items, ...page } = await paginateCatalog(entries, query, { kind: 'blocks', defaultFields: DEFAULT_BLOCK_FIELDS });
+  return { registry: normalizeRegistryName(registry), ...(category && { category }), blocks: items, ...page };
+}
+
+/**
+ * A page of a framework's blocks. The components each one uses are read from its files,
+ * through the block cache, when the PGLite rows cannot answer
+ */
+async function listFrameworkBlockPage(framework: Framework, query: CatalogQuery, category?: string, style?: string, ref?: string) {
+  const list = await listFrameworkBlocks(framework, category, style, ref);
+  const categories: Record<string, Array<{ name: string; type?: 'simple' | 'complex'; description?: string }>> =
+    list?.categories ?? { [category?.toLowerCase() ?? 'other']: list?.blocks ?? [] };
+  const entries = new Map<string, CatalogEntry>();
+  for (const [categoryName, blocks] of Object.entries(categories)) {
+    for (const block of blocks) {
+      if (!entries.has(block.name)) {
+        entries.set(block.name, { name: block.name, category: categoryName, type: block.type, description: block.description });
+      }
+    }
+  }
+
+  const { items, ...page } = await paginateCatalog([...entries.values()].sort((a, b) => a.name.localeCompare(b.name)), query, {
+    kind: 'blocks',
+    scope: getCacheScope(framework, style, ref),
+    defaultFields: DEFAULT_BLOCK_FIELDS,
+    loadDetails: async name => {
+      const block = await fetchBlock(name, true, framework, style, ref);
+      return { componentsUsed: block?.componentsUsed ?? [] };
+    }
+  });
+  return { framework, ...(category && { category }), blocks: items, ...page, ...(list?.githubSha && { githubSha: list.githubSha as string }) };
+}
+
+export async function handleListBlocks({
+  category,
+  framework,
+  style,
+  ref,
+  registry,
+  ...query
+}: { category?: string, framework?: Framework, style?: string, ref?: string, registry?: string } & CatalogQuery) {
   try {
-    const cacheKey = generateListKey('blocks', 'react', category);
-    const cachedTTL = 6 * 60 * 60; // 6 hours for block lists
-    
-    const blocks = await getCachedData(
-      cacheKey,
-      async () => {
-        const axios = await getAxiosImplementation();
-        return await axios.getAvailableBlocks(category);
-      },
-      cachedTTL
-    );
+    if (isCatalogQuery(query)) {
+      const page = registry
+        ? await listRegistryBlockPage(registry, query, category, style)
+        : await listFrameworkBlockPage(resolveFramework(framework), query, category, style, ref);
+      return withGitHubSha(structuredResult(page), 'githubSha' in page ? page.githubSha : undefined);
+    }
+
+    if (registry) {
+      return structuredResult(await listRegistryBlocks(registry, category, style));
+    }
+
+    const blocks = await listFrameworkBlocks(framework, category, style, ref);
     
-    return {
-      content: [{ 
-        type: "text", 
-        text: JSON.stringify(blocks, null, 2)
-      }]
-    };
+    return withGitHubSha(structuredResult(blocks), blocks?.githubSha);
   } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
     logError('Failed to list blocks', error);
     throw new Error(`Failed to list blocks: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
-export const schema = {
-  category: {
-    type: 'string',
-    description: 'Filter by category (calendar, dashboard, login, sidebar, products)'
-  }
-}; 
\ No newline at end of file
+export const schema = z.object({
+  category: z.string().max(100).optional()
+    .describe('Filter by category (calendar, dashboard, login, sidebar, products)'),
+  framework: frameworkSchema,
+  style: styleSchema,
+  ref: refSchema,
+  registry: registrySchema,
+  cursor: cursorSchema,
+  limit: limitSchema,
+  fields: z.array(z.enum(['name', 'category', 'type', 'description', 'componentsUsed'])).min(1).optional()
+    .describe('Fields of each block to return (default: name, category, type)'),
+  usesComponent: usesComponentSchema,
+  type: z.enum(['simple', 'complex']).optional()
+    .describe('Only single-file ("simple") or multi-file ("complex") blocks'),
+  name: namePatternSchema
+});
+
+const blockSummaryOutputSchema = z.object({
+  name: z.string(),
+  category: z.string().optional(),
+  type: z.string().optional(),
+  description: z.string().optional(),
+  componentsUsed: z.array(z.string()).optional()
+}).passthrough();
+
+export const outputSchema = z.object({
+  registry: z.string().optional(),
+  categories: z.record(z.array(blockSummaryOutputSchema)).optional()
+    .describe('Blocks by category'),
+  totalBlocks: z.number().int().optional(),
+  availableCategories: z.array(z.string()).optional(),
+  category: z.string().optional()
+    .describe('Requested category'),
+  blocks: z.array(blockSummaryOutputSchema).optional()
+    .describe('Blocks of the requested category, or the selected fields of each block on a page'),
+  total: z.number().int().optional()
+    .describe('Number of blocks in the requested category, or of blocks matching the filters on a page'),
+  ...pageOutputShape,
+  framework: frameworkOutputSchema.optional(),
+  githubSha: githubShaOutputSchema
+}).passthrough();
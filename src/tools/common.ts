@@ -0,0 +1,254 @@
+import { z } from 'zod';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ErrorCode, McpError, type Root } from '@modelcontextprotocol/sdk/types.js';
+import { COMPONENTS_JSON } from '../utils/project.js';
+import { logWarning } from '../utils/logger.js';
+import { DEFAULT_PAGE_SIZE } from '../utils/pagination.js';
+import type { ProgressReporter } from '../utils/progress.js';
+import { BYTES_PER_TOKEN, chunkSourceFiles, type BudgetArgs } from '../utils/response-budget.js';
+
+/**
+ * Per-request access to the connected client, passed to tool handlers as their second argument
+ */
+export interface ToolContext {
+  /** List the client's filesystem roots; only set when the client supports roots */
+  listRoots?: () => Promise<Root[]>;
+  /** Report progress of the call; only set when the client sent a progressToken */
+  progress?: ProgressReporter;
+  /** Aborted when the client cancels the call */
+  signal?: AbortSignal;
+}
+
+/**
+ * Optional per-call framework argument shared by component and block tools
+ */
+export const frameworkSchema = z.enum(['react', 'svelte']).optional()
+  .describe('Framework to use: "react" (shadcn/ui) or "svelte" (shadcn-svelte). Defaults to the server framework');
+
+/**
+ * Optional per-call style argument, validated against the styles published in the registry
+ */
+export const styleSchema = z.string().regex(/^[a-z0-9][\w.-]*$/i).max(50).optional()
+  .describe('Registry style matching the project\'s components.json (e.g., "new-york-v4", "default", "new-york"). Defaults to the configured style');
+
+/**
+ * Optional per-call registry argument; when set, items are read from that registry's
+ * registry-item JSON instead of the framework's GitHub repository
+ */
+export const registrySchema = z.string().regex(/^@?[a-z0-9][\w.-]*$/i).max(100).optional()
+  .describe('Named shadcn-compatible registry to read from (e.g., "@shadcn", "@acme"), as configured in "registries". Overrides framework');
+
+/**
+ * Optional per-call git ref argument for the GitHub-backed registries
+ */
+export const refSchema = z.string().regex(/^[\w.][\w./-]*$/).max(100).optional()
+  .describe('Git branch, tag or commit SHA to read from (e.g., "main", "v1.0.0"). Full commit SHAs give reproducible, never-expiring results. Defaults to the configured ref');
+
+/**
+ * Pagination and filter arguments of the list tools; setting any of them returns a page
+ * of items instead of the full list
+ */
+export const cursorSchema = z.string().max(100).optional()
+  .describe('Cursor returned as "nextCursor" by the previous page');
+
+export const limitSchema = z.number().int().min(1).max(500).optional()
+  .describe(`Maximum number of items per page (default: ${DEFAULT_PAGE_SIZE}). Setting any pagination, field or filter argument returns a page instead of the full list`);
+
+export const namePatternSchema = z.string().min(1).max(100).optional()
+  .describe('Only items whose name matches this glob ("*" matches any characters, "?" one character), e.g. "sidebar-*"');
+
+export const usesComponentSchema = z.string().regex(/^[a-z0-9][a-z0-9-]*$/).max(100).optional()
+  .describe('Only items that import this component (e.g., "button")');
+
+/**
+ * Context budget arguments of the source-returning tools; larger results are returned in
+ * chunks (see response-budget.ts)
+ */
+export const maxTokensSchema = z.number().int().min(256).max(1_000_000).optional()
+  .describe(`Approximate token budget of the response (${BYTES_PER_TOKEN} bytes per token). A larger result is returned in chunks: the first lists every file in "manifest", and each returns "nextCursor" to pass as "cursor" for the next`);
+
+export const maxBytesSchema = z.number().int().min(1024).max(4_000_000).optional()
+  .describe('Byte budget of the response, like maxTokens; the stricter of the two applies');
+
+export const chunkCursorSchema = z.string().max(200).optional()
+  .describe('Cursor returned as "nextCursor" by the previous chunk. The rest is read from the cache rather than fetched again, with the same budget unless maxTokens or maxBytes is set');
+
+/**
+ * Framework a result was read for, as reported in structured output
+ */
+export const frameworkOutputSchema = z.enum(['react', 'svelte']);
+
+/**
+ * Commit a result was read from, as reported in structured output
+ */
+export const githubShaOutputSchema = z.string().optional()
+  .describe('Commit SHA the result was read from, when known');
+
+/**
+ * Chunk fields of a budgeted result of a multi-file tool, as reported in structured output
+ */
+export const chunkOutputShape = {
+  manifest: z.array(z.object({ path: z.string(), bytes: z.number() })).optional()
+    .describe('Every file with its size, in the first chunk of a result split to fit maxTokens or maxBytes'),
+  nextCursor: z.string().optional()
+    .describe('Pass as "cursor" to get the next chunk; absent on the last chunk')
+};
+
+/**
+ * Chunk fields of a budgeted result of a single-source tool, as reported in structured output
+ */
+export const sourceChunkOutputShape = {
+  offset: z.number().optional()
+    .describe('Character offset of the returned source, when the result was split and this is not the first chunk'),
+  totalBytes: z.number().optional()
+    .describe('Size of the whole source, when the result was split to fit maxTokens or maxBytes'),
+  nextCursor: chunkOutputShape.nextCursor
+};
+
+/**
+ * Pagination fields of a page of a list, as reported in structured output
+ */
+export const pageOutputShape = {
+  nextCursor: z.string().optional()
+    .describe('Pass as "cursor" to get the next page; absent on the last page'),
+  backend: z.enum(['pglite', 'memory']).optional()
+    .describe('Whether the page was read from the PGLite tables or filtered from the cached list')
+};
+
+/**
+ * Tool result with structured content. The text block repeats it as JSON for clients that
+ * do not read structuredContent, unless the tool's text is something else (source code, CSS)
+ */
+export function structuredResult<T extends Record<string, unknown>>(structuredContent: T, text: string = JSON.stringify(structuredContent, null, 2)) {
+  return { content: [{ type: "text", text }], structuredContent };
+}
+
+/**
+ * Result of a single-source tool within the call's context budget: the full result when it
+ * fits, otherwise a chunk of the source and, unless it is the last, a text block telling
+ * text-only clients how to get the rest
+ * @param structuredContent Result fields other than the source
+ * @param sourceField Field the source is returned in
+ */
+export function budgetedSourceResult<T extends Record<string, unknown>>(structuredContent: T, sourceField: string, source: string, args: BudgetArgs) {
+  const totalBytes = Buffer.byteLength(source);
+  const chunk = chunkSourceFiles([{ path: sourceField, content: source }], args, {
+    fullBytes: totalBytes,
+    envelopeBytes: Buffer.byteLength(JSON.stringify(structuredContent))
+  });
+  if (!chunk) {
+    return structuredResult({ ...structuredContent, [sourceField]: source }, source);
+  }
+
+  const [{ content: part, offset }] = chunk.files;
+  const content = [{ type: 'text', text: part }];
+  if (chunk.nextCursor) {
+    content.push({ type: 'text', text: `[Truncated at character ${(offset ?? 0) + part.length} of the source; call again with cursor "${chunk.nextCursor}" for the rest]` });
+  }
+  return {
+    content,
+    structuredContent: {
+      ...structuredContent,
+      [sourceField]: part,
+      ...(offset !== undefined && { offset }),
+      totalBytes,
+      ...(chunk.nextCursor && { nextCursor: chunk.nextCursor })
+    }
+  };
+}
+
+/**
+ * Report the commit a result was read from in `_meta`, when it is known
+ */
+export function withGitHubSha<T extends object>(result: T, githubSha?: string | null): T & { _meta?: { githubSha: string } } {
+  return githubSha ? { ...result, _meta: { githubSha } } : result;
+}
+
+/**
+ * Directories of the client's file roots; empty when the client provides none
+ */
+export async function listClientRootDirectories(context?: ToolContext): Promise<string[]> {
+  if (!context?.listRoots) {
+    return [];
+  }
+
+  let roots: Root[] = [];
+  try {
+    roots = await context.listRoots();
+  } catch (error) {
+    logWarning(`Failed to list client roots: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return roots.filter(root => root.uri.startsWith('file://')).map(root => fileURLToPath(root.uri));
+}
+
+/**
+ * Find the project a tool works on: the given path, or the first client root holding a components.json
+ * @throws McpError (InvalidParams) if neither is available
+ */
+export async function resolveProjectRoot(projectPath: string | undefined, context?: ToolContext): Promise<string> {
+  if (projectPath) {
+    return projectPath;
+  }
+
+  if (context?.listRoots) {
+    for (const directory of await listClientRootDirectories(context)) {
+      if (await fs.stat(path.join(directory, COMPONENTS_JSON)).then(stats => stats.isFile(), () => false)) {
+        return directory;
+      }
+    }
+    throw new McpError(ErrorCode.InvalidParams, `None of the client's roots contains a ${COMPONENTS_JSON}; pass "projectPath"`);
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, '"projectPath" is required when the client does not provide roots');
+}
+
+function isWithin(directory: string, filePath: string): boolean {
+  const relative = path.relative(directory, filePath);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Resolve a local path a tool reads, following symlinks, and require it to lie under one of
+ * the allowed directories so tool calls cannot read arbitrary files of the machine
+ * @param filePath Absolute, or relative to the first allowed directory
+ * @returns The real path, or undefined when nothing exists at it
+ * @throws McpError (InvalidParams) if the path, or the file a symlink points to, lies outside every allowed directory
+ */
+export async function resolvePathWithinRoots(filePath: string, roots: string[]): Promise<string | undefined> {
+  const requested = path.resolve(roots[0], filePath);
+  const realRoots = await Promise.all(roots.map(root => fs.realpath(root).catch(() => path.resolve(root))));
+  const outside = () => new McpError(ErrorCode.InvalidParams, `"${filePath}" lies outside the project and the client's roots`);
+
+  let real: string;
+  try {
+    real = await fs.realpath(requested);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+    if (!roots.some(root => isWithin(path.resolve(root), requested))) {
+      throw outside();
+    }
+    return undefined;
+  }
+
+  if (!realRoots.some(root => isWithin(root, real))) {
+    throw outside();
+  }
+  return real;
+}
+
+/**
+ * Require a project root to lie under one of the client's roots, when the client provides any
+ * @param projectRoot Absolute, or relative to the first client root
+ * @returns The real path of the project root; the path unchanged when the client provides no roots
+ * @throws McpError (InvalidParams) if the project lies outside every client root
+ */
+export async function confineProjectRoot(projectRoot: string, clientRoots: string[]): Promise<string> {
+  if (clientRoots.length === 0) {
+    return projectRoot;
+  }
+  return await resolvePathWithinRoots(projectRoot, clientRoots) ?? path.resolve(clientRoots[0], projectRoot);
+}
@@ -0,0 +1,351 @@
+import { z } from 'zod';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { resolveFramework, type Framework } from '../../utils/framework.js';
+import {
+  frameworkOutputSchema,
+  frameworkSchema,
+  listClientRootDirectories,
+  refSchema,
+  resolvePathWithinRoots,
+  resolveProjectRoot,
+  styleSchema,
+  type ToolContext
+} from '../common.js';
+import { COMPONENTS_JSON } from '../../utils/project.js';
+import { fetchComponentSource } from './get-component.js';
+import { collectBlockFiles, fetchBlock, type SourceFiles } from '../blocks/get-block.js';
+import { getRef, getRefScope, isCommitSha } from '../../utils/git-ref.js';
+import { getStyleScope } from '../../utils/style.js';
+import { getCachedComponentVersions } from '../../utils/storage-integration.js';
+import { createUnifiedDiff } from '../../utils/diff.js';
+import { extractSourceDependencies } from '../../utils/dependency-resolver.js';
+import { extractExportedSymbols } from '../../storage/search/search-document.js';
+import { logError, logWarning } from '../../utils/logger.js';
+
+/**
+ * Largest local file read for comparison
+ */
+const MAX_LOCAL_FILE_BYTES = 1024 * 1024;
+
+interface DiffSide {
+  files: SourceFiles;
+  source: Record<string, string | undefined>;
+}
+
+/**
+ * Revision of a component held in persistent storage for a ref: the one cached under the ref
+ * itself, or for a commit SHA the one any branch or tag resolved to
+ */
+async function findCachedVersion(name: string, framework: Framework, style: string | undefined, ref: string): Promise<{ sourceCode: string; githubSha?: string } | undefined> {
+  const versions = await getCachedComponentVersions(name, framework, style);
+  const scope = getRefScope(getStyleScope(framework, style), ref);
+  return versions.find(version => version.scope === scope)
+    ?? (isCommitSha(ref) ? versions.find(version => version.githubSha === ref.toLowerCase()) : undefined);
+}
+
+/**
+ * Read the upstream component or block at a ref. A component revision cached for the ref
+ * answers a commit SHA without a fetch, and other refs when the fetch fails.
+ */
+async function loadUpstream(name: string, type: 'component' | 'block', framework: Framework, style?: string, ref?: string): Promise<DiffSide> {
+  const resolvedRef = getRef(ref);
+  if (type === 'component') {
+    const cached = resolvedRef ? await findCachedVersion(name, framework, style, resolvedRef) : undefined;
+    let upstream: { sourceCode: string; githubSha?: string };
+    if (cached && isCommitSha(resolvedRef)) {
+      upstream = cached;
+    } else {
+      try {
+        upstream = await fetchComponentSource(name, framework, style, ref);
+      } catch (error) {
+        if (!cached) {
+          throw error;
+        }
+        logWarning(`Failed to fetch component "${name}" at ${resolvedRef}, using the cached revision: ${error instanceof Error ? error.message : String(error)}`);
+        upstream = cached;
+      }
+    }
+    const { sourceCode, githubSha } = upstream;
+    return {
+      files: new Map([[`${name}${framework === 'svelte' ? '.svelte' : '.tsx'}`, sourceCode]]),
+      source: { ref: resolvedRef, githubSha }
+    };
+  }
+
+  const block = await fetchBlock(name, true, framework, style, ref);
+  return {
+    files: collectBlockFiles(block, framework),
+    source: { ref: resolvedRef, githubSha: block?.githubSha }
+  };
+}
+
+/**
+ * Directories a local copy may be read from: the client's roots, or else the project
+ * (which must be a shadcn project, so "/" cannot open up the whole machine)
+ */
+async function getLocalRoots(projectPath: string | undefined, context?: ToolContext): Promise<string[]> {
+  const roots = await listClientRootDirectories(context);
+  if (roots.length > 0) {
+    return roots;
+  }
+
+  const projectRoot = path.resolve(await resolveProjectRoot(projectPath, context));
+  if (!await fs.stat(path.join(projectRoot, COMPONENTS_JSON)).then(stats => stats.isFile(), () => false)) {
+    throw new McpError(ErrorCode.InvalidParams, `"${projectRoot}" has no ${COMPONENTS_JSON}; "projectPath" must be the project the local copy lies in`);
+  }
+  return [projectRoot];
+}
+
+/**
+ * @param filePath Path checked against roots before reading, so symlinks cannot lead out of them
+ */
+async function readLocalFile(filePath: string, roots: string[]): Promise<string | undefined> {
+  const resolved = await resolvePathWithinRoots(filePath, roots);
+  const stats = resolved && await fs.stat(resolved).catch(() => undefined);
+  if (!resolved || !stats) {
+    return undefined;
+  }
+  if (!stats.isFile()) {
+    throw new Error(`"${filePath}" is not a file`);
+  }
+  if (stats.size > MAX_LOCAL_FILE_BYTES) {
+    throw new Error(`"${filePath}" is larger than ${MAX_LOCAL_FILE_BYTES} bytes`);
+  }
+  return fs.readFile(resolved, 'utf8');
+}
+
+/**
+ * Pick the single upstream file a local file or inline source is compared with
+ */
+function pickSingleFile(upstream: SourceFiles, name: string): string {
+  if (upstream.size !== 1) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `"${name}" has ${upstream.size} files; pass "file" to choose one of: ${[...upstream.keys()].join(', ')}`
+    );
+  }
+  return [...upstream.keys()][0];
+}
+
+/**
+ * Read the local copy: a single file, or for blocks a directory laid out like the upstream block
+ */
+async function loadLocal(localPath: string, roots: string[], upstream: SourceFiles, name: string): Promise<DiffSide> {
+  const resolved = await resolvePathWithinRoots(localPath, roots);
+  const stats = resolved && await fs.stat(resolved).catch(() => undefined);
+  if (!resolved || !stats) {
+    throw new Error(`Local path "${localPath}" does not exist`);
+  }
+
+  const files: SourceFiles = new Map();
+  if (stats.isDirectory()) {
+    for (const file of upstream.keys()) {
+      const content = await readLocalFile(path.join(resolved, file), roots);
+      if (content !== undefined) {
+        files.set(file, content);
+      }
+    }
+  } else {
+    files.set(pickSingleFile(upstream, name), (await readLocalFile(resolved, roots)) ?? '');
+  }
+
+  return { files, source: { localPath: resolved } };
+}
+
+/**
+ * Names present on only one side
+ */
+function compareNames(before: string[], after: string[]) {
+  return {
+    added: after.filter(item => !before.includes(item)).sort(),
+    removed: before.filter(item => !after.includes(item)).sort()
+  };
+}
+
+export async function handleDiffComponent({
+  name,
+  type = 'component',
+  from,
+  to,
+  localPath,
+  localSource,
+  projectPath,
+  file,
+  framework,
+  style,
+  context = 3
+}: {
+  name: string,
+  type?: 'component' | 'block',
+  from?: string,
+  to?: string,
+  localPath?: string,
+  localSource?: string,
+  projectPath?: string,
+  file?: string,
+  framework?: Framework,
+  style?: string,
+  context?: number
+}, toolContext?: ToolContext) {
+  const targets = [to, localPath, localSource].filter(target => target !== undefined);
+  if (targets.length !== 1) {
+    throw new McpError(ErrorCode.InvalidParams, 'Provide exactly one of "to", "localPath" or "localSource" to compare against');
+  }
+
+  try {
+    const resolvedFramework = resolveFramework(framework);
+    const base = await loadUpstream(name, type, resolvedFramework, style, from);
+    if (base.files.size === 0) {
+      throw new Error(`${type === 'block' ? 'Block' : 'Component'} "${name}" has no source files`);
+    }
+    if (file !== undefined) {
+      if (!base.files.has(file)) {
+        throw new McpError(ErrorCode.InvalidParams, `"${name}" has no file "${file}". Files: ${[...base.files.keys()].join(', ')}`);
+      }
+      base.files = new Map([[file, base.files.get(file)!]]);
+    }
+
+    let target: DiffSide;
+    if (to !== undefined) {
+      target = await loadUpstream(name, type, resolvedFramework, style, to);
+      if (file !== undefined) {
+        target.files = new Map(target.files.has(file) ? [[file, target.files.get(file)!]] : []);
+      }
+    } else if (localPath !== undefined) {
+      target = await loadLocal(localPath, await getLocalRoots(projectPath, toolContext), base.files, name);
+    } else {
+      target = {
+        files: new Map([[pickSingleFile(base.files, name), localSource!]]),
+        source: { localSource: 'inline' }
+      };
+    }
+
+    const diffs: string[] = [];
+    const files = [];
+    let additions = 0;
+    let deletions = 0;
+    const paths = Array.from(new Set([...base.files.keys(), ...target.files.keys()])).sort();
+
+    for (const filePath of paths) {
+      const before = base.files.get(filePath);
+      const after = target.files.get(filePath);
+      const result = createUnifiedDiff(before ?? '', after ?? '', {
+        oldLabel: before === undefined ? '/dev/null' : `a/${filePath}`,
+        newLabel: after === undefined ? '/dev/null' : `b/${filePath}`,
+        context
+      });
+      if (before !== undefined && after !== undefined && result.diff === '') {
+        continue;
+      }
+
+      diffs.push(result.diff);
+      additions += result.additions;
+      deletions += result.deletions;
+      files.push({
+        path: filePath,
+        status: before === undefined ? 'added' : after === undefined ? 'removed' : 'modified',
+        additions: result.additions,
+        deletions: result.deletions
+      });
+    }
+
+    const beforeSources = [...base.files.values()];
+    const afterSources = [...target.files.values()];
+    const beforeDependencies = beforeSources.map(extractSourceDependencies);
+    const afterDependencies = afterSources.map(extractSourceDependencies);
+
+    const summary = {
+      name,
+      type,
+      framework: resolvedFramework,
+      from: base.source,
+      to: target.source,
+      identical: files.length === 0,
+      filesChanged: files.length,
+      additions,
+      deletions,
+      files,
+      exports: compareNames(
+        [...new Set(beforeSources.flatMap(extractExportedSymbols))],
+        [...new Set(afterSources.flatMap(extractExportedSymbols))]
+      ),
+      dependencies: compareNames(
+        [...new Set(beforeDependencies.flatMap(info => info.dependencies))],
+        [...new Set(afterDependencies.flatMap(info => info.dependencies))]
+      ),
+      registryDependencies: compareNames(
+        [...new Set(beforeDependencies.flatMap(info => info.registryDependencies))],
+        [...new Set(afterDependencies.flatMap(info => info.registryDependencies))]
+      )
+    };
+
+    return {
+      content: [
+        { type: "text", text: JSON.stringify(summary, null, 2) },
+        ...(diffs.length > 0 ? [{ type: "text", text: diffs.join('') }] : [])
+      ],
+      structuredContent: { ...summary, diff: diffs.join('') }
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    logError(`Failed to diff ${type} "${name}"`, error);
+    throw new Error(`Failed to diff ${type} "${name}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export const schema = z.object({
+  name: z.string().min(1).max(200)
+    .describe('Name of the component or block (e.g., "button", "dashboard-01")'),
+  type: z.enum(['component', 'block']).optional()
+    .describe('Whether "name" is a component or a block (default: component)'),
+  from: refSchema
+    .describe('Git branch, tag or commit SHA of the upstream version to compare from. Defaults to the configured ref'),
+  to: refSchema
+    .describe('Git branch, tag or commit SHA to compare to'),
+  localPath: z.string().min(1).max(1000).optional()
+    .describe('Path of a local copy to compare to: a file, or for blocks a directory laid out like the block. Must lie in one of the client\'s roots, or in "projectPath"'),
+  localSource: z.string().max(MAX_LOCAL_FILE_BYTES).optional()
+    .describe('Inline source of a local copy to compare to'),
+  projectPath: z.string().min(1).max(1000).optional()
+    .describe('Root of the project (with its components.json) that "localPath" lies in, when the client does not provide roots; relative local paths are resolved against it'),
+  file: z.string().min(1).max(300).optional()
+    .describe('Restrict the diff to one file of a multi-file block (e.g., "components/login-form.tsx")'),
+  framework: frameworkSchema,
+  style: styleSchema,
+  context: z.number().int().min(0).max(20).optional()
+    .describe('Unchanged lines shown around each change (default: 3)')
+});
+
+const nameChangesOutputSchema = z.object({
+  added: z.array(z.string()),
+  removed: z.array(z.string())
+});
+
+export const outputSchema = z.object({
+  name: z.string(),
+  type: z.enum(['component', 'block']),
+  framework: frameworkOutputSchema,
+  from: z.record(z.string().optional())
+    .describe('Upstream version compared from (ref and githubSha)'),
+  to: z.record(z.string().optional())
+    .describe('Version compared to: upstream ref and githubSha, localPath or localSource'),
+  identical: z.boolean(),
+  filesChanged: z.number().int(),
+  additions: z.number().int(),
+  deletions: z.number().int(),
+  files: z.array(z.object({
+    path: z.string(),
+    status: z.enum(['added', 'removed', 'modified']),
+    additions: z.number().int(),
+    deletions: z.number().int()
+  })),
+  exports: nameChangesOutputSchema,
+  dependencies: nameChangesOutputSchema,
+  registryDependencies: nameChangesOutputSchema,
+  diff: z.string()
+    .describe('Unified diff of every changed file; empty when identical')
+});
@@ -1,51 +1,113 @@
-import { getAxiosImplementation } from '../../utils/framework.js';
-import { getCachedData, generateComponentDemoKey } from '../../utils/storage-integration.js';
+import { z } from 'zod';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getAxiosImplementation, type Framework } from '../../utils/framework.js';
+import {
+  budgetedSourceResult,
+  chunkCursorSchema,
+  frameworkSchema,
+  githubShaOutputSchema,
+  maxBytesSchema,
+  maxTokensSchema,
+  refSchema,
+  registrySchema,
+  sourceChunkOutputShape,
+  styleSchema,
+  withGitHubSha,
+  type ToolContext
+} from '../common.js';
+import { getCachedData, generateComponentDemoKey, getKeyScope, type CachedDataOptions } from '../../utils/storage-integration.js';
+import { resolveStyle } from '../../utils/style.js';
+import { getCacheTTL, getRef, resolveCommit } from '../../utils/git-ref.js';
+import { fetchRegistryItem, formatRegistryItemSource, normalizeRegistryName } from '../../utils/registry.js';
 import { logError } from '../../utils/logger.js';
 
-export async function handleGetComponentDemo({ componentName }: { componentName: string }) {
-  try {
-    const cacheKey = generateComponentDemoKey(componentName);
-    const cachedTTL = 24 * 60 * 60; // 24 hours for demos
-    
-    const demoCode = await getCachedData(
-      cacheKey,
-      async () => {
-        const axios = await getAxiosImplementation();
-        return await axios.getComponentDemo(componentName);
-      },
-      cachedTTL
-    );
-    
-    // Handle both direct string response and structured Component object from storage
-    let componentDemo: string;
-    if (typeof demoCode === 'string') {
-      componentDemo = demoCode;
-    } else if (demoCode && typeof demoCode === 'object' && demoCode !== null) {
-      // Check if it looks like a Component object (has framework and name properties)
-      if ('framework' in demoCode && 'name' in demoCode) {
-        // Handle Component object from PGLite storage - use bracket notation for safe access
-        const demo = demoCode['demoCode'];
-        componentDemo = typeof demo === 'string' ? demo : '';
-      } else {
-        // Generic object - JSON stringify it
-        componentDemo = JSON.stringify(demoCode, null, 2);
-      }
+/**
+ * Fetch a component's demo through the cache, along with the commit it was read from
+ * @param options Progress reporter told whether the cache answered, and the call's cancellation
+ */
+export async function fetchComponentDemo(componentName: string, framework?: Framework, style?: string, ref?: string, options: CachedDataOptions = {}): Promise<{ demoCode: string, githubSha?: string }> {
+  const cacheKey = generateComponentDemoKey(componentName, framework, style, ref);
+  const cachedTTL = getCacheTTL(24 * 60 * 60, ref); // 24 hours for demos, no expiry when pinned to a commit
+  
+  const demoCode = await getCachedData(
+    cacheKey,
+    async (signal) => {
+      const axios = await getAxiosImplementation(framework);
+      const resolvedStyle = await resolveStyle(style, framework);
+      const githubSha = await resolveCommit(ref, framework);
+      return {
+        framework: getKeyScope(cacheKey),
+        name: componentName,
+        demoCode: await axios.getComponentDemo(componentName, resolvedStyle, githubSha ?? getRef(ref), signal),
+        githubSha: githubSha ?? undefined
+      };
+    },
+    cachedTTL,
+    options
+  );
+  
+  // Handle both direct string response and structured Component object from storage
+  let componentDemo: string;
+  let githubSha: string | undefined;
+  if (typeof demoCode === 'string') {
+    componentDemo = demoCode;
+  } else if (demoCode && typeof demoCode === 'object' && demoCode !== null) {
+    if (typeof demoCode.githubSha === 'string') {
+      githubSha = demoCode.githubSha;
+    }
+    // Check if it looks like a Component object (has framework and name properties)
+    if ('framework' in demoCode && 'name' in demoCode) {
+      // Handle Component object from PGLite storage - use bracket notation for safe access
+      const demo = demoCode['demoCode'];
+      componentDemo = typeof demo === 'string' ? demo : '';
     } else {
+      // Generic object - JSON stringify it
       componentDemo = JSON.stringify(demoCode, null, 2);
     }
+  } else {
+    componentDemo = JSON.stringify(demoCode, null, 2);
+  }
+
+  return { demoCode: componentDemo, githubSha };
+}
+
+export async function handleGetComponentDemo({ componentName, framework, style, ref, registry, maxTokens, maxBytes, cursor }: { componentName: string, framework?: Framework, style?: string, ref?: string, registry?: string, maxTokens?: number, maxBytes?: number, cursor?: string }, context?: ToolContext) {
+  try {
+    const budget = { maxTokens, maxBytes, cursor };
+    if (registry) {
+      // Registries publish demos as separate "<name>-demo" example items
+      const item = await fetchRegistryItem(registry, `${componentName}-demo`, style, context);
+      return budgetedSourceResult({ componentName, registry: normalizeRegistryName(registry) }, 'demoCode', formatRegistryItemSource(item), budget);
+    }
+
+    const { demoCode, githubSha } = await fetchComponentDemo(componentName, framework, style, ref, context);
     
-    return {
-      content: [{ type: "text", text: componentDemo }]
-    };
+    return withGitHubSha(budgetedSourceResult({ componentName, ...(githubSha && { githubSha }) }, 'demoCode', demoCode, budget), githubSha);
   } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
     logError(`Failed to get demo for component "${componentName}"`, error);
     throw new Error(`Failed to get demo for component "${componentName}": ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
-export const schema = {
-  componentName: {
-    type: 'string',
-    description: 'Name of the shadcn/ui component (e.g., "accordion", "button")'
-  }
-}; 
\ No newline at end of file
+export const schema = z.object({
+  componentName: z.string().min(1).max(100)
+    .describe('Name of the shadcn/ui component (e.g., "accordion", "button")'),
+  framework: frameworkSchema,
+  style: styleSchema,
+  ref: refSchema,
+  registry: registrySchema,
+  maxTokens: maxTokensSchema,
+  maxBytes: maxBytesSchema,
+  cursor: chunkCursorSchema
+});
+
+export const outputSchema = z.object({
+  componentName: z.string(),
+  registry: z.string().optional(),
+  demoCode: z.string(),
+  githubSha: githubShaOutputSchema,
+  ...sourceChunkOutputShape
+});
@@ -1,37 +1,116 @@
-import { getAxiosImplementation } from '../../utils/framework.js';
+import { z } from 'zod';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getAxiosImplementation, type Framework } from '../../utils/framework.js';
+import { frameworkSchema, githubShaOutputSchema, refSchema, registrySchema, structuredResult, styleSchema, withGitHubSha } from '../common.js';
 import { getCachedData, generateComponentMetadataKey } from '../../utils/storage-integration.js';
-import { logError } from '../../utils/logger.js';
+import { getCacheTTL, getRef, resolveCommit } from '../../utils/git-ref.js';
+import { fetchRegistryItem, getRegistryItemMetadata } from '../../utils/registry.js';
+import { analyzeComponentSource, fetchComponentSource } from './get-component.js';
+import { resolveStyle } from '../../utils/style.js';
+import { logError, logWarning } from '../../utils/logger.js';
 
-export async function handleGetComponentMetadata({ componentName }: { componentName: string }) {
+/**
+ * Props, exported components and cva variants extracted from the component's source
+ */
+async function getComponentInfo(componentName: string, framework?: Framework, style?: string, ref?: string) {
   try {
-    const cacheKey = generateComponentMetadataKey(componentName);
-    const cachedTTL = 24 * 60 * 60; // 24 hours for metadata
-    
-    const metadata = await getCachedData(
-      cacheKey,
-      async () => {
-        const axios = await getAxiosImplementation();
-        const result = await axios.getComponentMetadata(componentName);
-        if (!result) {
-          throw new Error(`Component metadata not found: ${componentName}`);
-        }
-        return result;
-      },
-      cachedTTL
-    );
+    const { sourceCode, metadata } = await fetchComponentSource(componentName, framework, style, ref);
+    return metadata ?? analyzeComponentSource(componentName, sourceCode, framework);
+  } catch (error) {
+    logWarning(`Failed to read the source of component "${componentName}" for its props: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Registry metadata of a component, merged with the props and variants of its source
+ */
+export async function fetchComponentMetadata(componentName: string, framework?: Framework, style?: string, ref?: string) {
+  const cacheKey = generateComponentMetadataKey(componentName, framework, style, ref);
+  const cachedTTL = getCacheTTL(24 * 60 * 60, ref); // 24 hours for metadata, no expiry when pinned to a commit
+  
+  const metadata = await getCachedData(
+    cacheKey,
+    async () => {
+      const axios = await getAxiosImplementation(framework);
+      // Unknown styles fail here, as they do for get_component
+      await resolveStyle(style, framework);
+      const githubSha = await resolveCommit(ref, framework);
+      const result = await axios.getComponentMetadata(componentName, githubSha ?? getRef(ref));
+      if (!result) {
+        throw new Error(`Component metadata not found: ${componentName}`);
+      }
+      return githubSha ? { ...result, githubSha } : result;
+    },
+    cachedTTL
+  );
+  const info = await getComponentInfo(componentName, framework, style, ref);
+  return info ? { ...metadata, ...info } : metadata;
+}
+
+export async function handleGetComponentMetadata({ componentName, framework, style, ref, registry }: { componentName: string, framework?: Framework, style?: string, ref?: string, registry?: string }) {
+  try {
+    if (registry) {
+      const item = await fetchRegistryItem(registry, componentName, style);
+      return structuredResult(getRegistryItemMetadata(item, registry));
+    }
+
+    const metadata = await fetchComponentMetadata(componentName, framework, style, ref);
     
-    return {
-      content: [{ type: "text", text: JSON.stringify(metadata, null, 2) }]
-    };
+    return withGitHubSha(structuredResult(metadata), metadata?.githubSha);
   } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
     logError(`Failed to get metadata for component "${componentName}"`, error);
     throw new Error(`Failed to get metadata for component "${componentName}": ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
-export const schema = {
-  componentName: {
-    type: 'string',
-    description: 'Name of the shadcn/ui component (e.g., "accordion", "button")'
-  }
-}; 
\ No newline at end of file
+export const schema = z.object({
+  componentName: z.string().min(1).max(100)
+    .describe('Name of the shadcn/ui component (e.g., "accordion", "button")'),
+  framework: frameworkSchema,
+  style: styleSchema,
+  ref: refSchema,
+  registry: registrySchema
+});
+
+const componentPropOutputSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  description: z.string(),
+  required: z.boolean().optional(),
+  default: z.string().optional(),
+  inheritedFrom: z.string().optional()
+});
+
+export const outputSchema = z.object({
+  name: z.string(),
+  type: z.string().optional(),
+  description: z.string().optional(),
+  registry: z.string().optional(),
+  dependencies: z.array(z.string()).optional(),
+  devDependencies: z.array(z.string()).optional(),
+  registryDependencies: z.array(z.string()).optional(),
+  props: z.array(componentPropOutputSchema).optional()
+    .describe('Props of the main component'),
+  components: z.array(z.object({
+    name: z.string(),
+    props: z.array(componentPropOutputSchema),
+    extends: z.array(z.string()),
+    primitive: z.string().optional(),
+    variants: z.string().optional()
+  })).optional()
+    .describe('Components exported by the source'),
+  variants: z.array(z.object({
+    name: z.string(),
+    variants: z.array(z.object({
+      name: z.string(),
+      options: z.array(z.string()),
+      default: z.string().optional()
+    }))
+  })).optional()
+    .describe('cva() variant definitions of the source'),
+  githubSha: githubShaOutputSchema
+}).passthrough();
@@ -1,44 +1,125 @@
-import { getAxiosImplementation } from '../../utils/framework.js';
-import { getCachedData, generateComponentKey } from '../../utils/storage-integration.js';
-import { logError } from '../../utils/logger.js';
+import { z } from 'zod';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getAxiosImplementation, resolveFramework, type Framework } from '../../utils/framework.js';
+import {
+  budgetedSourceResult,
+  chunkCursorSchema,
+  frameworkSchema,
+  githubShaOutputSchema,
+  maxBytesSchema,
+  maxTokensSchema,
+  refSchema,
+  registrySchema,
+  sourceChunkOutputShape,
+  styleSchema,
+  withGitHubSha,
+  type ToolContext
+} from '../common.js';
+import { getCachedData, generateComponentKey, getKeyScope, type CachedDataOptions } from '../../utils/storage-integration.js';
+import { resolveStyle } from '../../utils/style.js';
+import { getCacheTTL, getRef, resolveCommit } from '../../utils/git-ref.js';
+import { fetchRegistryItem, formatRegistryItemSource, normalizeRegistryName } from '../../utils/registry.js';
+import { extractComponentInfo, type ExtractedComponentInfo } from '../../utils/component-info.js';
+import { extractSourceDependencies } from '../../utils/dependency-resolver.js';
+import { logError, logWarning } from '../../utils/logger.js';
 
-export async function handleGetComponent({ componentName }: { componentName: string }) {
+/**
+ * Structured props and variants of a React component source; undefined for Svelte sources
+ * or when the source cannot be analyzed
+ */
+export function analyzeComponentSource(componentName: string, sourceCode: string, framework?: Framework): ExtractedComponentInfo | undefined {
+  if (resolveFramework(framework) !== 'react') {
+    return undefined;
+  }
   try {
-    const cacheKey = generateComponentKey(componentName);
-    const cachedTTL = 24 * 60 * 60; // 24 hours for components
-    
-    const sourceCode = await getCachedData(
-      cacheKey,
-      async () => {
-        const axios = await getAxiosImplementation();
-        return await axios.getComponentSource(componentName);
-      },
-      cachedTTL
-    );
-    
-    // Handle both direct string response and structured Component object from storage
-    let componentSource: string;
-    if (typeof sourceCode === 'string') {
-      componentSource = sourceCode;
-    } else if (sourceCode && typeof sourceCode === 'object' && sourceCode !== null && 'sourceCode' in sourceCode) {
-      // Handle Component object from PGLite storage - use bracket notation for safe access
-      componentSource = sourceCode['sourceCode'] as string;
-    } else {
-      componentSource = JSON.stringify(sourceCode, null, 2);
-    }
-    
+    return extractComponentInfo(sourceCode, { name: componentName });
+  } catch (error) {
+    logWarning(`Failed to analyze the source of component "${componentName}": ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Fetch a component's source through the cache, along with the commit it was read from and
+ * the props and variants extracted from it (stored in the component's metadata)
+ * @param options Progress reporter told whether the cache answered, and the call's cancellation
+ */
+export async function fetchComponentSource(componentName: string, framework?: Framework, style?: string, ref?: string, options: CachedDataOptions = {}): Promise<{ sourceCode: string, githubSha?: string, metadata?: ExtractedComponentInfo }> {
+  const cacheKey = generateComponentKey(componentName, framework, style, ref);
+  const cachedTTL = getCacheTTL(24 * 60 * 60, ref); // 24 hours for components, no expiry when pinned to a commit
+  
+  const sourceCode = await getCachedData(
+    cacheKey,
+    async (signal) => {
+      const axios = await getAxiosImplementation(framework);
+      const resolvedStyle = await resolveStyle(style, framework);
+      // Read at the resolved commit so the recorded SHA matches the code
+      const githubSha = await resolveCommit(ref, framework);
+      const source = await axios.getComponentSource(componentName, resolvedStyle, githubSha ?? getRef(ref), signal);
+      return {
+        framework: getKeyScope(cacheKey),
+        name: componentName,
+        sourceCode: source,
+        // Recorded so the cached rows can answer list_components' usesComponent filter
+        ...extractSourceDependencies(source),
+        githubSha: githubSha ?? undefined,
+        metadata: analyzeComponentSource(componentName, source, framework)
+      };
+    },
+    cachedTTL,
+    options
+  );
+  
+  // Handle both direct string response and structured Component object from storage
+  if (typeof sourceCode === 'string') {
+    return { sourceCode };
+  } else if (sourceCode && typeof sourceCode === 'object' && sourceCode !== null && 'sourceCode' in sourceCode) {
+    // Handle Component object from PGLite storage - use bracket notation for safe access
     return {
-      content: [{ type: "text", text: componentSource }]
+      sourceCode: sourceCode['sourceCode'] as string,
+      githubSha: sourceCode['githubSha'] ?? undefined,
+      metadata: Array.isArray(sourceCode['metadata']?.components) ? sourceCode['metadata'] : undefined
     };
+  }
+  return { sourceCode: JSON.stringify(sourceCode, null, 2) };
+}
+
+export async function handleGetComponent({ componentName, framework, style, ref, registry, maxTokens, maxBytes, cursor }: { componentName: string, framework?: Framework, style?: string, ref?: string, registry?: string, maxTokens?: number, maxBytes?: number, cursor?: string }, context?: ToolContext) {
+  try {
+    const budget = { maxTokens, maxBytes, cursor };
+    if (registry) {
+      const item = await fetchRegistryItem(registry, componentName, style, context);
+      return budgetedSourceResult({ componentName, registry: normalizeRegistryName(registry) }, 'sourceCode', formatRegistryItemSource(item), budget);
+    }
+
+    const { sourceCode, githubSha } = await fetchComponentSource(componentName, framework, style, ref, context);
+    
+    return withGitHubSha(budgetedSourceResult({ componentName, ...(githubSha && { githubSha }) }, 'sourceCode', sourceCode, budget), githubSha);
   } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
     logError(`Failed to get component "${componentName}"`, error);
     throw new Error(`Failed to get component "${componentName}": ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
-export const schema = {
-  componentName: {
-    type: 'string',
-    description: 'Name of the shadcn/ui component (e.g., "accordion", "button")'
-  }
-}; 
\ No newline at end of file
+export const schema = z.object({
+  componentName: z.string().min(1).max(100)
+    .describe('Name of the shadcn/ui component (e.g., "accordion", "button")'),
+  framework: frameworkSchema,
+  style: styleSchema,
+  ref: refSchema,
+  registry: registrySchema,
+  maxTokens: maxTokensSchema,
+  maxBytes: maxBytesSchema,
+  cursor: chunkCursorSchema
+});
+
+export const outputSchema = z.object({
+  componentName: z.string(),
+  registry: z.string().optional(),
+  sourceCode: z.string(),
+  githubSha: githubShaOutputSchema,
+  ...sourceChunkOutputShape
+});
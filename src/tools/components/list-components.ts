@@ -1,35 +1,177 @@
-import { getAxiosImplementation } from '../../utils/framework.js';
-import { getCachedData, generateListKey } from '../../utils/storage-integration.js';
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getAxiosImplementation, getFramework, resolveFramework, FRAMEWORKS, type Framework } from '../../utils/framework.js';
+import {
+  cursorSchema,
+  frameworkOutputSchema,
+  githubShaOutputSchema,
+  limitSchema,
+  namePatternSchema,
+  pageOutputShape,
+  refSchema,
+  registrySchema,
+  structuredResult,
+  styleSchema,
+  usesComponentSchema,
+  withGitHubSha
+} from '../common.js';
+import { getCachedData, generateListKey, getCacheScope } from '../../utils/storage-integration.js';
+import { resolveStyle } from '../../utils/style.js';
+import { getCacheTTL, getRef, resolveCommit } from '../../utils/git-ref.js';
+import { fetchRegistryIndex, filterRegistryItems, normalizeRegistryName, COMPONENT_ITEM_TYPES } from '../../utils/registry.js';
+import { extractSourceDependencies } from '../../utils/dependency-resolver.js';
+import { isCatalogQuery, paginateCatalog, type CatalogEntry, type CatalogQuery } from '../../utils/pagination.js';
+import { fetchComponentSource } from './get-component.js';
 import { logError } from '../../utils/logger.js';
 
-export async function handleListComponents() {
+/**
+ * List the components of a single framework, cached under that framework's (and style's) namespace
+ */
+export async function listFrameworkComponents(framework: Framework, style?: string, ref?: string) {
+  const cacheKey = generateListKey('components', framework, undefined, style, ref);
+  const cachedTTL = getCacheTTL(6 * 60 * 60, ref); // 6 hours for component lists (they change less frequently)
+
+  return await getCachedData(
+    cacheKey,
+    async () => {
+      const axios = await getAxiosImplementation(framework);
+      const resolvedStyle = await resolveStyle(style, framework);
+      const githubSha = await resolveCommit(ref, framework);
+      const components = await axios.getAvailableComponents(resolvedStyle, githubSha ?? getRef(ref));
+      return {
+        components: components.sort(),
+        total: components.length,
+        ...(githubSha && { githubSha })
+      };
+    },
+    cachedTTL
+  );
+}
+
+/**
+ * List the ui components published by a named registry
+ */
+async function listRegistryComponents(registry: string, style?: string) {
+  const index = await fetchRegistryIndex(registry, style);
+  const components = filterRegistryItems(index, COMPONENT_ITEM_TYPES).map(item => item.name);
+  return {
+    registry: normalizeRegistryName(registry),
+    components,
+    total: components.length
+  };
+}
+
+/**
+ * A page of a named registry's ui components; the index carries every field
+ */
+async function listRegistryComponentPage(registry: string, query: CatalogQuery, style?: string) {
+  const index = await fetchRegistryIndex(registry, style);
+  const entries: CatalogEntry[] = filterRegistryItems(index, COMPONENT_ITEM_TYPES)
+    .map(item => ({
+      name: item.name,
+      dependencies: item.dependencies ?? [],
+      registryDependencies: item.registryDependencies ?? []
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const { items, ...page } = await paginateCatalog(entries, query, { kind: 'components', defaultFields: ['name'] });
+  return { registry: normalizeRegistryName(registry), components: items, ...page };
+}
+
+/**
+ * A page of a framework's components. The components each one imports are read from its
+ * source, through the component cache, when the PGLite rows cannot answer
+ */
+async function listFrameworkComponentPage(framework: Framework, query: CatalogQuery, style?: string, ref?: string) {
+  const list = await listFrameworkComponents(framework, style, ref);
+  const { items, ...page } = await paginateCatalog(list.components.map((name: string) => ({ name })), query, {
+    kind: 'components',
+    scope: getCacheScope(framework, style, ref),
+    defaultFields: ['name'],
+    loadDetails: async name => extractSourceDependencies((await fetchComponentSource(name, framework, style, ref)).sourceCode)
+  });
+  return { framework, components: items, ...page, ...(list.githubSha && { githubSha: list.githubSha as string }) };
+}
+
+export async function handleListComponents({
+  framework,
+  style,
+  ref,
+  registry,
+  ...query
+}: { framework?: Framework | 'all', style?: string, ref?: string, registry?: string } & Omit<CatalogQuery, 'type'> = {}) {
+  const paged = isCatalogQuery(query);
+  if (paged && framework === 'all' && !registry) {
+    throw new McpError(ErrorCode.InvalidParams, 'Pagination, fields and filters apply to a single framework, not "all"');
+  }
+
   try {
-    const cacheKey = generateListKey('components');
-    const cachedTTL = 6 * 60 * 60; // 6 hours for component lists (they change less frequently)
-    
-    const result = await getCachedData(
-      cacheKey,
-      async () => {
-        const axios = await getAxiosImplementation();
-        const components = await axios.getAvailableComponents();
-        return { 
-          components: components.sort(),
-          total: components.length 
-        };
-      },
-      cachedTTL
-    );
-    
-    return {
-      content: [{ 
-        type: "text", 
-        text: JSON.stringify(result, null, 2) 
-      }]
-    };
+    let result;
+    let githubSha: string | undefined;
+    if (registry) {
+      result = paged ? await listRegistryComponentPage(registry, query, style) : await listRegistryComponents(registry, style);
+    } else if (framework === 'all') {
+      // Return every framework side by side; a requested style or ref applies to the server framework only
+      const lists = await Promise.all(
+        FRAMEWORKS.map(name => name === getFramework()
+          ? listFrameworkComponents(name, style, ref)
+          : listFrameworkComponents(name))
+      );
+      result = {
+        frameworks: Object.fromEntries(FRAMEWORKS.map((name, index) => [name, lists[index]]))
+      };
+    } else {
+      result = paged
+        ? await listFrameworkComponentPage(resolveFramework(framework), query, style, ref)
+        : await listFrameworkComponents(resolveFramework(framework), style, ref);
+      githubSha = result.githubSha;
+    }
+
+    return withGitHubSha(structuredResult(result), githubSha);
   } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
     logError('Failed to list components', error);
     throw new Error(`Failed to list components: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
-export const schema = {}; 
\ No newline at end of file
+export const schema = z.object({
+  framework: z.enum(['react', 'svelte', 'all']).optional()
+    .describe('Framework to list: "react", "svelte", or "all" to return both side by side. Defaults to the server framework'),
+  style: styleSchema,
+  ref: refSchema,
+  registry: registrySchema,
+  cursor: cursorSchema,
+  limit: limitSchema,
+  fields: z.array(z.enum(['name', 'dependencies', 'registryDependencies'])).min(1).optional()
+    .describe('Fields of each component to return (default: name). "registryDependencies" are the components it imports'),
+  usesComponent: usesComponentSchema,
+  name: namePatternSchema
+});
+
+const componentListOutputSchema = z.object({
+  components: z.array(z.string()),
+  total: z.number().int(),
+  githubSha: githubShaOutputSchema
+});
+
+export const outputSchema = componentListOutputSchema.partial().extend({
+  framework: frameworkOutputSchema.optional(),
+  registry: z.string().optional()
+    .describe('Registry the components were listed from'),
+  components: z.union([
+    z.array(z.string()),
+    z.array(z.object({
+      name: z.string(),
+      dependencies: z.array(z.string()).optional(),
+      registryDependencies: z.array(z.string()).optional()
+    }))
+  ]).optional()
+    .describe('Component names, or the selected fields of each component on a page'),
+  total: z.number().int().optional()
+    .describe('Number of components, or of components matching the filters on a page'),
+  ...pageOutputShape,
+  frameworks: z.record(componentListOutputSchema).optional()
+    .describe('Component list of each framework, when framework is "all"')
+});
@@ -0,0 +1,218 @@
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getAxiosImplementation, resolveFramework, type Framework } from '../../utils/framework.js';
+import { frameworkOutputSchema, frameworkSchema, githubShaOutputSchema, refSchema, registrySchema, structuredResult, styleSchema, withGitHubSha, type ToolContext } from '../common.js';
+import {
+  getCachedData,
+  generateBlockKey,
+  generateComponentMetadataKey,
+  getKeyScope,
+  type CachedDataOptions
+} from '../../utils/storage-integration.js';
+import {
+  extractSourceDependencies,
+  resolveDependencies,
+  type DependencyInfo,
+  type DependencyItemType
+} from '../../utils/dependency-resolver.js';
+import { resolveStyle } from '../../utils/style.js';
+import { getCacheTTL, getRef, resolveCommit } from '../../utils/git-ref.js';
+import { fetchRegistryItem, normalizeRegistryName, parseRegistryReference } from '../../utils/registry.js';
+import { logError } from '../../utils/logger.js';
+
+/**
+ * Collect every source file contained in a block (simple blocks have `code`, complex ones nested `files`)
+ */
+function collectBlockSources(value: any): string[] {
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+  const sources: string[] = [];
+  if (typeof value.code === 'string') {
+    sources.push(value.code);
+  }
+  if (typeof value.content === 'string') {
+    sources.push(value.content);
+  }
+  if (value.files && typeof value.files === 'object') {
+    for (const file of Object.values(value.files)) {
+      sources.push(...collectBlockSources(file));
+    }
+  }
+  // Nested component directories are stored as plain maps of files
+  if (!('files' in value) && !('content' in value) && !('code' in value)) {
+    for (const nested of Object.values(value)) {
+      sources.push(...collectBlockSources(nested));
+    }
+  }
+  return sources;
+}
+
+/**
+ * Load dependency information for a component (from registry metadata) or a block (from its imports).
+ * Namespaced names ("@acme/button") are read from that registry's item JSON.
+ * GitHub reads use the same cache keys and commit as get_component_metadata and get_block.
+ * Failed reads throw, so the resolver reports why an item is unresolved.
+ */
+export async function loadDependencies(
+  name: string,
+  type: DependencyItemType,
+  framework: Framework,
+  style?: string,
+  ref?: string,
+  githubSha?: string | null,
+  options: CachedDataOptions = {}
+): Promise<DependencyInfo | null> {
+  const ttl = getCacheTTL(24 * 60 * 60, ref);
+  const fetchRef = githubSha ?? getRef(ref);
+  const reference = parseRegistryReference(name);
+
+  if (reference) {
+    const item = await fetchRegistryItem(reference.registry, reference.name, style, options);
+    return {
+      dependencies: item.dependencies ?? [],
+      registryDependencies: item.registryDependencies ?? []
+    };
+  }
+
+  if (type === 'component') {
+    const metadata = await getCachedData(
+      generateComponentMetadataKey(name, framework, style, ref),
+      async (signal) => {
+        const axios = await getAxiosImplementation(framework);
+        const result = await axios.getComponentMetadata(name, fetchRef, signal);
+        if (!result) {
+          throw new Error(`Component metadata not found: ${name}`);
+        }
+        return githubSha ? { ...result, githubSha } : result;
+      },
+      ttl,
+      options
+    );
+
+    return {
+      dependencies: (metadata.dependencies || []).filter(Boolean),
+      registryDependencies: (metadata.registryDependencies || []).filter(Boolean)
+    };
+  }
+
+  const blockKey = generateBlockKey(name, true, framework, style, ref);
+  const block = await getCachedData(
+    blockKey,
+    async (signal) => {
+      const axios = await getAxiosImplementation(framework);
+      const result = await axios.getBlockCode(name, true, style, fetchRef, options.progress, signal);
+      return { framework: getKeyScope(blockKey), ...result, ...(githubSha && { githubSha }) };
+    },
+    ttl,
+    options
+  );
+
+  const registryDependencies = collectBlockSources(block)
+    .flatMap(source => extractSourceDependencies(source).registryDependencies);
+
+  return {
+    dependencies: Array.isArray(block.dependencies) ? block.dependencies : [],
+    registryDependencies: Array.from(new Set(registryDependencies)).sort()
+  };
+}
+
+export async function handleResolveDependencies({
+  components = [],
+  blocks = [],
+  framework,
+  style,
+  ref,
+  registry
+}: {
+  components?: string[],
+  blocks?: string[],
+  framework?: Framework,
+  style?: string,
+  ref?: string,
+  registry?: string
+}, context?: ToolContext) {
+  if (components.length === 0 && blocks.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'Provide at least one component or block to resolve');
+  }
+
+  const requested = [...blocks.map(name => `block:${name}`), ...components.map(name => `component:${name}`)].join(', ');
+
+  try {
+    const resolvedFramework = resolveFramework(framework);
+    // Named registries validate styles themselves; only check the GitHub registry's styles
+    const resolvedStyle = registry ? style : await resolveStyle(style, resolvedFramework);
+    // Resolve the commit once so every item is read from the same snapshot
+    const githubSha = registry ? null : await resolveCommit(ref, resolvedFramework);
+    // Items requested from a named registry are addressed the way the shadcn CLI does: "@acme/name"
+    const qualify = (name: string) => registry && !parseRegistryReference(name) ? `${normalizeRegistryName(registry)}/${name}` : name;
+    const resolution = await resolveDependencies(
+      [
+        ...blocks.map(name => ({ name: qualify(name), type: 'block' as const })),
+        ...components.map(name => ({ name: qualify(name), type: 'component' as const }))
+      ],
+      (name, type) => loadDependencies(name, type, resolvedFramework, resolvedStyle, ref, githubSha, context),
+      context?.signal
+    );
+
+    const cli = resolvedFramework === 'svelte' ? 'shadcn-svelte@latest' : 'shadcn@latest';
+    const items = [...resolution.installOrder.map(item => item.name), ...resolution.external];
+
+    const result = {
+      framework: resolvedFramework,
+      ...(resolvedStyle && { style: resolvedStyle }),
+      ...(registry && { registry: normalizeRegistryName(registry) }),
+      ...(githubSha && { githubSha }),
+      requested: { components, blocks },
+      installOrder: resolution.installOrder,
+      npmPackages: resolution.npmPackages,
+      cycles: resolution.cycles,
+      unresolved: resolution.unresolved,
+      command: items.length > 0 ? `npx ${cli} add ${items.join(' ')}` : null
+    };
+
+    return withGitHubSha(structuredResult(result), githubSha);
+  } catch (error) {
+    logError(`Failed to resolve dependencies for ${requested}`, error);
+    throw new Error(`Failed to resolve dependencies for ${requested}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export const schema = z.object({
+  components: z.array(z.string().min(1).max(100)).max(50).optional()
+    .describe('Component names to install (e.g., ["sidebar", "data-table"])'),
+  blocks: z.array(z.string().min(1).max(200)).max(20).optional()
+    .describe('Block names to install (e.g., ["dashboard-01"])'),
+  framework: frameworkSchema,
+  style: styleSchema,
+  ref: refSchema,
+  registry: registrySchema
+});
+
+const dependencyItemTypeOutputSchema = z.enum(['component', 'block']);
+
+export const outputSchema = z.object({
+  framework: frameworkOutputSchema,
+  style: z.string().optional(),
+  registry: z.string().optional(),
+  githubSha: githubShaOutputSchema,
+  requested: z.object({
+    components: z.array(z.string()),
+    blocks: z.array(z.string())
+  }),
+  installOrder: z.array(z.object({
+    name: z.string(),
+    type: dependencyItemTypeOutputSchema,
+    dependencies: z.array(z.string()),
+    registryDependencies: z.array(z.string())
+  })).describe('Registry items in install order, dependencies first'),
+  npmPackages: z.array(z.string()),
+  cycles: z.array(z.array(z.string())),
+  unresolved: z.array(z.object({
+    name: z.string(),
+    type: dependencyItemTypeOutputSchema,
+    reason: z.string()
+  })),
+  command: z.string().nullable()
+    .describe('shadcn add command installing every item')
+});
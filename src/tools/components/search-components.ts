@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { type Framework } from '../../utils/framework.js';
+import { frameworkSchema, registrySchema, structuredResult } from '../common.js';
+import { searchCachedItems } from '../../utils/storage-integration.js';
+import { MemorySearchIndex } from '../../storage/search/memory-search-index.js';
+import type { SearchHit, SearchOptions } from '../../storage/search/search-document.js';
+import { fetchRegistryIndex, normalizeRegistryName, BLOCK_ITEM_TYPES } from '../../utils/registry.js';
+import { logError } from '../../utils/logger.js';
+
+/**
+ * Search a named registry's index (names, titles, descriptions and categories)
+ */
+async function searchRegistry(registry: string, query: string, options: SearchOptions): Promise<SearchHit[]> {
+  const namespace = normalizeRegistryName(registry);
+  const index = new MemorySearchIndex();
+
+  for (const item of (await fetchRegistryIndex(namespace)).items) {
+    index.upsert({
+      kind: BLOCK_ITEM_TYPES.includes(item.type) ? 'block' : 'component',
+      framework: namespace,
+      name: item.name,
+      description: [item.title, item.description].filter(Boolean).join(' - ') || undefined,
+      symbols: item.categories ?? []
+    });
+  }
+
+  return index.search(query, { ...options, framework: undefined });
+}
+
+export async function handleSearchComponents({
+  query,
+  framework,
+  type = 'all',
+  limit = 10,
+  registry
+}: {
+  query: string,
+  framework?: Framework,
+  type?: 'component' | 'block' | 'all',
+  limit?: number,
+  registry?: string
+}) {
+  try {
+    const options: SearchOptions = {
+      framework,
+      kind: type === 'all' ? undefined : type,
+      limit
+    };
+    const { backend, hits } = registry
+      ? { backend: 'registry' as const, hits: await searchRegistry(registry, query, options) }
+      : await searchCachedItems(query, options);
+
+    const result = {
+      query,
+      backend,
+      total: hits.length,
+      results: hits.map(hit => ({
+        type: hit.kind,
+        framework: hit.framework,
+        name: hit.name,
+        score: hit.score,
+        description: hit.description,
+        snippet: hit.snippet
+      }))
+    };
+
+    return structuredResult(result);
+  } catch (error) {
+    logError(`Failed to search components for "${query}"`, error);
+    throw new Error(`Failed to search components for "${query}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export const schema = z.object({
+  query: z.string().min(1).max(500)
+    .describe('Search terms, matched against component names, registry descriptions, exported symbols and demo code (e.g., "date picker", "collapsible")'),
+  framework: frameworkSchema
+    .describe('Only return results for this framework: "react" or "svelte" (default: all cached frameworks)'),
+  type: z.enum(['component', 'block', 'all']).optional()
+    .describe('Restrict results to components or blocks (default: all)'),
+  limit: z.number().int().min(1).max(50).optional()
+    .describe('Maximum number of results (default: 10)'),
+  registry: registrySchema
+    .describe('Search a named registry\'s index (e.g., "@acme") instead of the cached shadcn/ui items')
+});
+
+export const outputSchema = z.object({
+  query: z.string(),
+  backend: z.enum(['pglite', 'memory', 'registry'])
+    .describe('Index the results come from'),
+  total: z.number().int(),
+  results: z.array(z.object({
+    type: z.enum(['component', 'block']),
+    framework: z.string(),
+    name: z.string(),
+    score: z.number(),
+    description: z.string().optional(),
+    snippet: z.string()
+  }))
+});
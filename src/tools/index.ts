@@ -1,110 +1,286 @@
-import { handleGetComponent } from './components/get-component.js';
-import { handleGetComponentDemo } from './components/get-component-demo.js';
-import { handleListComponents } from './components/list-components.js';
-import { handleGetComponentMetadata } from './components/get-component-metadata.js';
-import { handleGetDirectoryStructure } from './repository/get-directory-structure.js';
-import { handleGetBlock } from './blocks/get-block.js';
-import { handleListBlocks } from './blocks/list-blocks.js';
-import { handleGetStorageStats } from './storage/get-storage-stats.js';
-
-import { schema as getComponentSchema } from './components/get-component.js';
-import { schema as getComponentDemoSchema } from './components/get-component-demo.js';
-import { schema as listComponentsSchema } from './components/list-components.js';
-import { schema as getComponentMetadataSchema } from './components/get-component-metadata.js';
-import { schema as getDirectoryStructureSchema } from './repository/get-directory-structure.js';
-import { schema as getBlockSchema } from './blocks/get-block.js';
-import { schema as listBlocksSchema } from './blocks/list-blocks.js';
-import { schema as getStorageStatsSchema } from './storage/get-storage-stats.js';
-
-export const toolHandlers = {
-  get_component: handleGetComponent,
-  get_component_demo: handleGetComponentDemo,
-  list_components: handleListComponents,
-  get_component_metadata: handleGetComponentMetadata,
-  get_directory_structure: handleGetDirectoryStructure,
-  get_block: handleGetBlock,
-  list_blocks: handleListBlocks,
-  get_storage_stats: handleGetStorageStats
+/**
+ * Tool registry
+ *
+ * Single declarative source of truth for every MCP tool. Each entry declares its
+ * name, description, zod input and output schemas, annotations and handler; ListTools
+ * output, argument validation and CallTool dispatch are all derived from this registry.
+ */
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ErrorCode, McpError, type Tool, type ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+import { handleGetComponent, schema as getComponentSchema, outputSchema as getComponentOutputSchema } from './components/get-component.js';
+import { handleGetComponentDemo, schema as getComponentDemoSchema, outputSchema as getComponentDemoOutputSchema } from './components/get-component-demo.js';
+import { handleListComponents, schema as listComponentsSchema, outputSchema as listComponentsOutputSchema } from './components/list-components.js';
+import { handleGetComponentMetadata, schema as getComponentMetadataSchema, outputSchema as getComponentMetadataOutputSchema } from './components/get-component-metadata.js';
+import { handleSearchComponents, schema as searchComponentsSchema, outputSchema as searchComponentsOutputSchema } from './components/search-components.js';
+import { handleResolveDependencies, schema as resolveDependenciesSchema, outputSchema as resolveDependenciesOutputSchema } from './components/resolve-dependencies.js';
+import { handleDiffComponent, schema as diffComponentSchema, outputSchema as diffComponentOutputSchema } from './components/diff-component.js';
+import { handleAnalyzeProject, schema as analyzeProjectSchema, outputSchema as analyzeProjectOutputSchema } from './project/analyze-project.js';
+import { handlePlanInstall, schema as planInstallSchema, outputSchema as planInstallOutputSchema } from './project/plan-install.js';
+import { handleGetDirectoryStructure, schema as getDirectoryStructureSchema, outputSchema as getDirectoryStructureOutputSchema } from './repository/get-directory-structure.js';
+import { handleGetBlock, schema as getBlockSchema, outputSchema as getBlockOutputSchema } from './blocks/get-block.js';
+import { handleListBlocks, schema as listBlocksSchema, outputSchema as listBlocksOutputSchema } from './blocks/list-blocks.js';
+import { handleListRegistryItems, schema as listRegistryItemsSchema, outputSchema as listRegistryItemsOutputSchema } from './registry-items/list-registry-items.js';
+import { handleGetRegistryItem, schema as getRegistryItemSchema, outputSchema as getRegistryItemOutputSchema } from './registry-items/get-registry-item.js';
+import { handleListThemes, schema as listThemesSchema, outputSchema as listThemesOutputSchema } from './themes/list-themes.js';
+import { handleGetTheme, schema as getThemeSchema, outputSchema as getThemeOutputSchema } from './themes/get-theme.js';
+import { handleGetStorageStats, schema as getStorageStatsSchema, outputSchema as getStorageStatsOutputSchema } from './storage/get-storage-stats.js';
+import type { ToolContext } from './common.js';
+
+export type { ToolContext } from './common.js';
+
+/**
+ * Result returned by every tool handler
+ */
+export type ToolResult = {
+  content: Array<{ type: string; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  [key: string]: unknown;
 };
 
-export const toolSchemas = {
-  get_component: getComponentSchema,
-  get_component_demo: getComponentDemoSchema,
-  list_components: listComponentsSchema,
-  get_component_metadata: getComponentMetadataSchema,
-  get_directory_structure: getDirectoryStructureSchema,
-  get_block: getBlockSchema,
-  list_blocks: listBlocksSchema,
-  get_storage_stats: getStorageStatsSchema
+/**
+ * Declarative definition of a single tool
+ */
+export interface ToolDefinition<S extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  inputSchema: S;
+  outputSchema: z.AnyZodObject;
+  annotations?: ToolAnnotations;
+  handler: (params: z.infer<S>, context?: ToolContext) => Promise<ToolResult>;
+}
+
+/**
+ * Define a tool, inferring the handler parameter type from its input schema
+ */
+function defineTool<S extends z.AnyZodObject>(definition: ToolDefinition<S>): ToolDefinition {
+  return definition as unknown as ToolDefinition;
+}
+
+/**
+ * Annotations shared by tools that read from the upstream GitHub repository
+ */
+const upstreamReadAnnotations: ToolAnnotations = {
+  readOnlyHint: true,
+  openWorldHint: true
 };
 
-export const tools = {
-  'get_component': {
+export const toolRegistry: ToolDefinition[] = [
+  defineTool({
     name: 'get_component',
     description: 'Get the source code for a specific shadcn/ui v4 component',
-    inputSchema: {
-      type: 'object',
-      properties: getComponentSchema,
-      required: ['componentName']
-    }
-  },
-  'get_component_demo': {
+    inputSchema: getComponentSchema,
+    outputSchema: getComponentOutputSchema,
+    annotations: { title: 'Get Component Source', ...upstreamReadAnnotations },
+    handler: handleGetComponent
+  }),
+  defineTool({
     name: 'get_component_demo',
     description: 'Get demo code illustrating how a shadcn/ui v4 component should be used',
-    inputSchema: {
-      type: 'object',
-      properties: getComponentDemoSchema,
-      required: ['componentName']
-    }
-  },
-  'list_components': {
+    inputSchema: getComponentDemoSchema,
+    outputSchema: getComponentDemoOutputSchema,
+    annotations: { title: 'Get Component Demo', ...upstreamReadAnnotations },
+    handler: handleGetComponentDemo
+  }),
+  defineTool({
     name: 'list_components',
     description: 'Get all available shadcn/ui v4 components',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  },
-  'get_component_metadata': {
+    inputSchema: listComponentsSchema,
+    outputSchema: listComponentsOutputSchema,
+    annotations: { title: 'List Components', ...upstreamReadAnnotations },
+    handler: handleListComponents
+  }),
+  defineTool({
     name: 'get_component_metadata',
-    description: 'Get metadata for a specific shadcn/ui v4 component',
-    inputSchema: {
-      type: 'object',
-      properties: getComponentMetadataSchema,
-      required: ['componentName']
-    }
-  },
-  'get_directory_structure': {
+    description: 'Get metadata for a specific shadcn/ui v4 component, including its props, exported components and cva variants',
+    inputSchema: getComponentMetadataSchema,
+    outputSchema: getComponentMetadataOutputSchema,
+    annotations: { title: 'Get Component Metadata', ...upstreamReadAnnotations },
+    handler: handleGetComponentMetadata
+  }),
+  defineTool({
+    name: 'search_components',
+    description: 'Search cached shadcn/ui components and blocks by name, description, exported symbols and demo code. Returns ranked hits with highlighted snippets',
+    inputSchema: searchComponentsSchema,
+    outputSchema: searchComponentsOutputSchema,
+    annotations: { title: 'Search Components', readOnlyHint: true, openWorldHint: false },
+    handler: handleSearchComponents
+  }),
+  defineTool({
+    name: 'resolve_dependencies',
+    description: 'Resolve the transitive registry dependencies of components and/or blocks. Returns a topologically ordered install list, the merged npm package set, any dependency cycles, and a single shadcn add command that installs everything',
+    inputSchema: resolveDependenciesSchema,
+    outputSchema: resolveDependenciesOutputSchema,
+    annotations: { title: 'Resolve Dependencies', ...upstreamReadAnnotations },
+    handler: handleResolveDependencies
+  }),
+  defineTool({
+    name: 'diff_component',
+    description: 'Show what changed in a component or block: a unified diff between two upstream git refs, or between the upstream version and a local copy (file path or inline source). Includes a summary of changed exports and dependencies',
+    inputSchema: diffComponentSchema,
+    outputSchema: diffComponentOutputSchema,
+    annotations: { title: 'Diff Component', ...upstreamReadAnnotations },
+    handler: handleDiffComponent
+  }),
+  defineTool({
+    name: 'analyze_project',
+    description: 'Analyze a local shadcn project: read its components.json, find the components installed in the configured ui directory, and report whether each is unmodified, locally modified or behind upstream, plus the registry dependencies that are missing. Uses the client\'s roots when no path is given',
+    inputSchema: analyzeProjectSchema,
+    outputSchema: analyzeProjectOutputSchema,
+    annotations: { title: 'Analyze Project', ...upstreamReadAnnotations },
+    handler: handleAnalyzeProject
+  }),
+  defineTool({
+    name: 'plan_install',
+    description: 'Plan the installation of components and/or blocks into a project described by its components.json (path or inline). Returns the exact files to write with target paths and imports rewritten to the project\'s aliases, the npm packages to add, and the CSS variable changes to make. Registry dependencies are included transitively',
+    inputSchema: planInstallSchema,
+    outputSchema: planInstallOutputSchema,
+    annotations: { title: 'Plan Install', ...upstreamReadAnnotations },
+    handler: handlePlanInstall
+  }),
+  defineTool({
     name: 'get_directory_structure',
-    description: 'Get the directory structure of the shadcn-ui v4 repository',
-    inputSchema: {
-      type: 'object',
-      properties: getDirectoryStructureSchema
-    }
-  },
-  'get_block': {
+    description: 'Get the directory structure of the shadcn-ui v4 repository. Chart, hook, lib and example directories are tagged with the registryItemType that get_registry_item reads',
+    inputSchema: getDirectoryStructureSchema,
+    outputSchema: getDirectoryStructureOutputSchema,
+    annotations: { title: 'Get Directory Structure', ...upstreamReadAnnotations },
+    handler: handleGetDirectoryStructure
+  }),
+  defineTool({
     name: 'get_block',
-    description: 'Get source code for a specific shadcn/ui v4 block (e.g., calendar-01, dashboard-01)',
-    inputSchema: {
-      type: 'object',
-      properties: getBlockSchema,
-      required: ['blockName']
-    }
-  },
-  'list_blocks': {
+    description: 'Get source code for a specific shadcn/ui v4 block (e.g., calendar-01, dashboard-01). Complex blocks with their components can be large: set maxTokens to receive them in chunks',
+    inputSchema: getBlockSchema,
+    outputSchema: getBlockOutputSchema,
+    annotations: { title: 'Get Block Source', ...upstreamReadAnnotations },
+    handler: handleGetBlock
+  }),
+  defineTool({
     name: 'list_blocks',
     description: 'Get all available shadcn/ui v4 blocks with categorization',
-    inputSchema: {
-      type: 'object',
-      properties: listBlocksSchema
-    }
-  },
-  'get_storage_stats': {
+    inputSchema: listBlocksSchema,
+    outputSchema: listBlocksOutputSchema,
+    annotations: { title: 'List Blocks', ...upstreamReadAnnotations },
+    handler: handleListBlocks
+  }),
+  defineTool({
+    name: 'list_registry_items',
+    description: 'List the chart, hook, lib and example items of the shadcn/ui v4 registry (e.g., use-mobile, utils), optionally filtered by item type',
+    inputSchema: listRegistryItemsSchema,
+    outputSchema: listRegistryItemsOutputSchema,
+    annotations: { title: 'List Registry Items', ...upstreamReadAnnotations },
+    handler: handleListRegistryItems
+  }),
+  defineTool({
+    name: 'get_registry_item',
+    description: 'Get source code for a chart, hook, lib or example item of the shadcn/ui v4 registry (e.g., the use-mobile hook that components import)',
+    inputSchema: getRegistryItemSchema,
+    outputSchema: getRegistryItemOutputSchema,
+    annotations: { title: 'Get Registry Item Source', ...upstreamReadAnnotations },
+    handler: handleGetRegistryItem
+  }),
+  defineTool({
+    name: 'list_themes',
+    description: 'List the base color themes published by the shadcn/ui or shadcn-svelte registry',
+    inputSchema: listThemesSchema,
+    outputSchema: listThemesOutputSchema,
+    annotations: { title: 'List Themes', ...upstreamReadAnnotations },
+    handler: handleListThemes
+  }),
+  defineTool({
+    name: 'get_theme',
+    description: 'Get a base color theme as ready-to-paste Tailwind v4 CSS: an @theme inline block plus :root and .dark variables in oklch, laid out for the framework\'s global stylesheet',
+    inputSchema: getThemeSchema,
+    outputSchema: getThemeOutputSchema,
+    annotations: { title: 'Get Theme', ...upstreamReadAnnotations },
+    handler: handleGetTheme
+  }),
+  defineTool({
     name: 'get_storage_stats',
     description: 'Get hybrid storage statistics and performance metrics',
-    inputSchema: {
-      type: 'object',
-      properties: getStorageStatsSchema
-    }
+    inputSchema: getStorageStatsSchema,
+    outputSchema: getStorageStatsOutputSchema,
+    annotations: { title: 'Get Storage Statistics', readOnlyHint: true, openWorldHint: false },
+    handler: handleGetStorageStats
+  })
+];
+
+const registryByName = new Map(toolRegistry.map(tool => [tool.name, tool]));
+
+/**
+ * Convert a tool's zod input or output schema into the JSON Schema advertised over MCP.
+ * Output schemas only forbid additional properties where the zod object is strict,
+ * so results can grow new fields without breaking clients that validate them.
+ */
+function toJsonSchema(schema: z.AnyZodObject, output = false): Tool['inputSchema'] {
+  const { $schema: _ignored, ...jsonSchema } = zodToJsonSchema(schema, {
+    $refStrategy: 'none',
+    ...(output && { removeAdditionalStrategy: 'strict' as const })
+  }) as Record<string, unknown>;
+  return jsonSchema as Tool['inputSchema'];
+}
+
+/**
+ * Tool list as advertised in ListTools responses
+ */
+export const tools: Tool[] = toolRegistry.map(tool => ({
+  name: tool.name,
+  description: tool.description,
+  inputSchema: toJsonSchema(tool.inputSchema),
+  outputSchema: toJsonSchema(tool.outputSchema, true),
+  ...(tool.annotations ? { annotations: tool.annotations } : {})
+}));
+
+/**
+ * Handlers keyed by tool name (used by the CLI to call tools directly)
+ */
+export const toolHandlers = Object.fromEntries(
+  toolRegistry.map(tool => [tool.name, tool.handler])
+) as Record<string, (params: any, context?: ToolContext) => Promise<ToolResult>>;
+
+/**
+ * Input schemas keyed by tool name
+ */
+export const toolSchemas = Object.fromEntries(
+  toolRegistry.map(tool => [tool.name, tool.inputSchema])
+) as Record<string, z.AnyZodObject>;
+
+/**
+ * Look up a tool definition by name
+ * @throws McpError (InvalidParams) if the tool is not registered
+ */
+export function getTool(name: string): ToolDefinition {
+  const tool = registryByName.get(name);
+  if (!tool) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+  }
+  return tool;
+}
+
+/**
+ * Validate tool arguments against the tool's input schema. Unknown arguments are rejected.
+ * @returns Parsed arguments with defaults applied
+ * @throws McpError (InvalidParams) if the tool is unknown or the arguments are invalid
+ */
+export function validateToolArguments(name: string, args: unknown): Record<string, unknown> {
+  const tool = getTool(name);
+  const result = tool.inputSchema.strict().safeParse(args ?? {});
+
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => {
+      const path = issue.path.join('.');
+      return path ? `${path}: ${issue.message}` : issue.message;
+    }).join('; ');
+    throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for tool ${name}: ${issues}`);
   }
-}; 
\ No newline at end of file
+
+  return result.data;
+}
+
+/**
+ * Validate arguments and invoke a registered tool
+ */
+export async function callTool(name: string, args: unknown, context?: ToolContext): Promise<ToolResult> {
+  const params = validateToolArguments(name, args);
+  return getTool(name).handler(params, context);
+}
@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import type { Framework } from '../../utils/framework.js';
+import {
+  confineProjectRoot,
+  frameworkOutputSchema,
+  frameworkSchema,
+  githubShaOutputSchema,
+  listClientRootDirectories,
+  refSchema,
+  resolveProjectRoot,
+  structuredResult,
+  withGitHubSha,
+  type ToolContext
+} from '../common.js';
+import { fetchComponentSource } from '../components/get-component.js';
+import { listFrameworkComponents } from '../components/list-components.js';
+import { getCachedComponentVersions } from '../../utils/storage-integration.js';
+import { extractSourceDependencies } from '../../utils/dependency-resolver.js';
+import {
+  extractProjectRegistryDependencies,
+  hashSource,
+  listInstalledComponents,
+  loadProject,
+  type InstalledComponent,
+  type ShadcnProject
+} from '../../utils/project.js';
+import { mapWithConcurrency } from '../../utils/concurrency.js';
+import { logError } from '../../utils/logger.js';
+
+type ComponentStatus = 'unmodified' | 'modified' | 'behind' | 'unknown';
+
+interface ComponentAnalysis {
+  name: string;
+  file?: string;
+  status: ComponentStatus;
+  localHash?: string;
+  upstreamHash?: string;
+  /** Cached upstream revision an outdated copy matches */
+  matches?: { ref?: string; githubSha?: string };
+  /** Registry components the installed copy imports */
+  registryDependencies: string[];
+  error?: string;
+}
+
+/**
+ * Characters of a content hash shown in results
+ */
+const HASH_LENGTH = 12;
+
+/**
+ * Installed components compared with upstream at once, each fetching its source
+ */
+const ANALYSIS_CONCURRENCY = 6;
+
+/**
+ * Compare an installed component with the current upstream source and older cached revisions
+ */
+async function analyzeComponent(component: InstalledComponent, project: ShadcnProject, ref?: string): Promise<ComponentAnalysis> {
+  if (component.source === undefined) {
+    return { name: component.name, status: 'unknown', registryDependencies: [], error: 'Main source file not found' };
+  }
+
+  const localHash = hashSource(component.source, project.aliases);
+  const registryDependencies = [...new Set([
+    ...extractProjectRegistryDependencies(component.source, project.aliases),
+    ...extractSourceDependencies(component.source).registryDependencies
+  ])].filter(name => name !== component.name).sort();
+  const base = { name: component.name, file: component.file, localHash: localHash.slice(0, HASH_LENGTH), registryDependencies };
+
+  let upstream;
+  try {
+    upstream = await fetchComponentSource(component.name, project.framework, project.style, ref);
+  } catch (error) {
+    return { ...base, status: 'unknown', error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const upstreamHash = hashSource(upstream.sourceCode, project.aliases);
+  if (upstreamHash === localHash) {
+    return { ...base, status: 'unmodified', upstreamHash: upstreamHash.slice(0, HASH_LENGTH) };
+  }
+
+  // A copy matching an older cached revision was installed from upstream and not edited since
+  const versions = await getCachedComponentVersions(component.name, project.framework, project.style);
+  const match = versions.find(version =>
+    version.sourceCode !== upstream.sourceCode && hashSource(version.sourceCode, project.aliases) === localHash
+  );
+
+  return {
+    ...base,
+    status: match ? 'behind' : 'modified',
+    upstreamHash: upstreamHash.slice(0, HASH_LENGTH),
+    ...(match && {
+      matches: {
+        ...(match.scope.includes('@') && { ref: match.scope.slice(match.scope.indexOf('@') + 1) }),
+        ...(match.githubSha && { githubSha: match.githubSha })
+      }
+    })
+  };
+}
+
+export async function handleAnalyzeProject(
+  { projectPath, framework, ref }: { projectPath?: string, framework?: Framework, ref?: string },
+  context?: ToolContext
+) {
+  const resolvedPath = await confineProjectRoot(await resolveProjectRoot(projectPath, context), await listClientRootDirectories(context));
+
+  try {
+    const project = await loadProject(resolvedPath, framework);
+    const available = await listFrameworkComponents(project.framework, project.style, ref);
+    const installed = await listInstalledComponents(project, available.components);
+    const components = await mapWithConcurrency(installed, ANALYSIS_CONCURRENCY, component => analyzeComponent(component, project, ref));
+
+    const installedNames = new Set(installed.map(component => component.name));
+    const missing = [...new Set(components.flatMap(component => component.registryDependencies))]
+      .filter(name => !installedNames.has(name))
+      .sort();
+    const count = (status: ComponentStatus) => components.filter(component => component.status === status).length;
+    const cli = project.framework === 'svelte' ? 'shadcn-svelte@latest' : 'shadcn@latest';
+
+    const result = {
+      projectRoot: project.root,
+      framework: project.framework,
+      ...(project.style && { style: project.style }),
+      ...(available.githubSha && { githubSha: available.githubSha }),
+      aliases: project.aliases,
+      uiDirectory: project.directories.ui,
+      summary: {
+        installed: components.length,
+        unmodified: count('unmodified'),
+        modified: count('modified'),
+        behind: count('behind'),
+        unknown: count('unknown')
+      },
+      components,
+      missingRegistryDependencies: missing,
+      command: missing.length > 0 ? `npx ${cli} add ${missing.join(' ')}` : null
+    };
+
+    return withGitHubSha(structuredResult(result), available.githubSha);
+  } catch (error) {
+    logError(`Failed to analyze project "${resolvedPath}"`, error);
+    throw new Error(`Failed to analyze project "${resolvedPath}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export const schema = z.object({
+  projectPath: z.string().min(1).max(1000).optional()
+    .describe('Path of the project root (the directory holding components.json). Defaults to the first client root that has one'),
+  framework: frameworkSchema
+    .describe('Framework of the project. Detected from components.json by default'),
+  ref: refSchema
+    .describe('Git branch, tag or commit SHA to compare installed components against. Defaults to the configured ref')
+});
+
+export const outputSchema = z.object({
+  projectRoot: z.string().optional(),
+  framework: frameworkOutputSchema,
+  style: z.string().optional(),
+  githubSha: githubShaOutputSchema,
+  aliases: z.record(z.string())
+    .describe('Import aliases of the project (components, utils, ui, lib, hooks)'),
+  uiDirectory: z.string(),
+  summary: z.object({
+    installed: z.number().int(),
+    unmodified: z.number().int(),
+    modified: z.number().int(),
+    behind: z.number().int(),
+    unknown: z.number().int()
+  }),
+  components: z.array(z.object({
+    name: z.string(),
+    file: z.string().optional(),
+    status: z.enum(['unmodified', 'modified', 'behind', 'unknown']),
+    localHash: z.string().optional(),
+    upstreamHash: z.string().optional(),
+    matches: z.object({
+      ref: z.string().optional(),
+      githubSha: z.string().optional()
+    }).optional()
+      .describe('Cached upstream revision an outdated copy matches'),
+    registryDependencies: z.array(z.string()),
+    error: z.string().optional()
+  })),
+  missingRegistryDependencies: z.array(z.string()),
+  command: z.string().nullable()
+    .describe('shadcn add command installing the missing registry dependencies')
+});
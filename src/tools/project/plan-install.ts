@@ -0,0 +1,367 @@
+import { z } from 'zod';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { Framework } from '../../utils/framework.js';
+import {
+  confineProjectRoot,
+  frameworkOutputSchema,
+  frameworkSchema,
+  githubShaOutputSchema,
+  listClientRootDirectories,
+  refSchema,
+  resolvePathWithinRoots,
+  resolveProjectRoot,
+  structuredResult,
+  styleSchema,
+  withGitHubSha,
+  type ToolContext
+} from '../common.js';
+import { fetchComponentSource } from '../components/get-component.js';
+import { loadDependencies } from '../components/resolve-dependencies.js';
+import { collectBlockFiles, fetchBlock } from '../blocks/get-block.js';
+import { extractSourceDependencies, resolveDependencies, toPackageName, type DependencyItemType } from '../../utils/dependency-resolver.js';
+import { resolveCommit } from '../../utils/git-ref.js';
+import { fetchRegistryItem } from '../../utils/registry.js';
+import {
+  CSS_VARIABLE_SELECTORS,
+  createProject,
+  detectPackageManager,
+  loadProject,
+  readCssVariables,
+  readInstalledPackages,
+  rewriteRegistryImports,
+  type CssVariableScope,
+  type ShadcnProject
+} from '../../utils/project.js';
+import { logError } from '../../utils/logger.js';
+
+interface PlannedFile {
+  /** Registry item the file belongs to */
+  item: string;
+  /** Path in the upstream item */
+  source: string;
+  /** Path to write, relative to the project root */
+  target: string;
+  /** Whether the target already exists (only known when the project root is) */
+  exists?: boolean;
+  content: string;
+}
+
+interface CssVariableChange {
+  scope: CssVariableScope;
+  selector: string;
+  variable: string;
+  value: string;
+  /** Value currently declared in the project's stylesheet */
+  current?: string;
+}
+
+const INSTALL_COMMANDS = {
+  npm: 'npm install',
+  pnpm: 'pnpm add',
+  yarn: 'yarn add',
+  bun: 'bun add'
+} as const;
+
+/**
+ * @param filePath Relative to the project root, checked against roots so symlinks cannot lead out of them
+ */
+async function pathExists(filePath: string, roots: string[]): Promise<boolean> {
+  return await resolvePathWithinRoots(filePath, roots) !== undefined;
+}
+
+/**
+ * Directory that page files of blocks go to: the Next.js app router (React) or SvelteKit routes
+ */
+async function getPageDirectory(project: ShadcnProject, roots: string[]): Promise<string | undefined> {
+  if (project.framework === 'svelte') {
+    return 'src/routes';
+  }
+  for (const directory of ['src/app', 'app']) {
+    if (project.root && await pathExists(directory, roots)) {
+      return directory;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Target path of a block file. Files under components/, hooks/ and lib/ go to the matching
+ * alias directory; page files go to a route named after the block.
+ */
+function getBlockFileTarget(project: ShadcnProject, blockName: string, file: string, pageDirectory?: string): string {
+  const [directory, ...rest] = file.split('/');
+  if (rest.length > 0 && (directory === 'components' || directory === 'hooks' || directory === 'lib')) {
+    return `${project.directories[directory]}/${rest.join('/')}`;
+  }
+  if (pageDirectory && /^page\.(tsx|jsx|svelte)$/.test(file)) {
+    return `${pageDirectory}/${blockName}/${project.framework === 'svelte' ? '+page.svelte' : file}`;
+  }
+  // Single-file blocks are components in their own right
+  return path.posix.parse(file).name === blockName
+    ? `${project.directories.components}/${file}`
+    : `${project.directories.components}/${blockName}/${file}`;
+}
+
+/**
+ * Adapt an upstream source to the project: rewrite registry imports to its aliases and drop
+ * the "use client" directive when React Server Components are disabled
+ */
+function transformSource(source: string, project: ShadcnProject): string {
+  const rewritten = rewriteRegistryImports(source, project.aliases);
+  return project.framework === 'react' && project.config.rsc === false
+    ? rewritten.replace(/^['"]use client['"];?\r?\n(\r?\n)?/m, '')
+    : rewritten;
+}
+
+/**
+ * Read the files of one registry item, with target paths in the project
+ */
+async function planItemFiles(
+  name: string,
+  type: DependencyItemType,
+  project: ShadcnProject,
+  style?: string,
+  ref?: string,
+  pageDirectory?: string
+): Promise<Array<Omit<PlannedFile, 'exists'>>> {
+  if (type === 'component') {
+    const { sourceCode } = await fetchComponentSource(name, project.framework, style, ref);
+    const target = project.framework === 'svelte'
+      ? `${project.directories.ui}/${name}/${name}.svelte`
+      : `${project.directories.ui}/${name}.${project.config.tsx === false ? 'jsx' : 'tsx'}`;
+    return [{ item: name, source: path.posix.basename(target), target, content: transformSource(sourceCode, project) }];
+  }
+
+  const block = await fetchBlock(name, true, project.framework, style, ref);
+  return [...collectBlockFiles(block, project.framework)].map(([file, content]) => ({
+    item: name,
+    source: file,
+    target: getBlockFileTarget(project, name, file, pageDirectory),
+    content: transformSource(content, project)
+  }));
+}
+
+/**
+ * CSS variables the items declare (React only: read from the published shadcn/ui registry items),
+ * compared with the project's stylesheet when it can be read
+ */
+async function planCssVariables(items: string[], project: ShadcnProject, roots: string[], style?: string): Promise<CssVariableChange[]> {
+  if (project.framework !== 'react') {
+    return [];
+  }
+
+  const declared: Record<CssVariableScope, Record<string, string>> = { theme: {}, light: {}, dark: {} };
+  const registryItems = await Promise.all(items.map(name => fetchRegistryItem('@shadcn', name, style).catch(() => undefined)));
+  for (const item of registryItems) {
+    for (const scope of Object.keys(declared) as CssVariableScope[]) {
+      for (const [variable, value] of Object.entries(item?.cssVars?.[scope] ?? {})) {
+        declared[scope][variable.startsWith('--') ? variable : `--${variable}`] = value;
+      }
+    }
+  }
+
+  const stylesheetPath = project.root && project.config.tailwind?.css
+    ? await resolvePathWithinRoots(project.config.tailwind.css, roots)
+    : undefined;
+  const stylesheet = stylesheetPath && await fs.readFile(stylesheetPath, 'utf8').catch(() => undefined);
+  const current = readCssVariables(stylesheet ?? '');
+
+  return (Object.keys(declared) as CssVariableScope[]).flatMap(scope =>
+    Object.entries(declared[scope])
+      .filter(([variable, value]) => current[scope][variable] !== value)
+      .map(([variable, value]) => ({
+        scope,
+        selector: CSS_VARIABLE_SELECTORS[scope],
+        variable,
+        value,
+        ...(current[scope][variable] !== undefined && { current: current[scope][variable] })
+      }))
+  );
+}
+
+export async function handlePlanInstall(
+  {
+    components = [],
+    blocks = [],
+    projectPath,
+    componentsJson,
+    framework,
+    style,
+    ref,
+    includeDependencies = true
+  }: {
+    components?: string[],
+    blocks?: string[],
+    projectPath?: string,
+    componentsJson?: string,
+    framework?: Framework,
+    style?: string,
+    ref?: string,
+    includeDependencies?: boolean
+  },
+  context?: ToolContext
+) {
+  if (components.length === 0 && blocks.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'Provide at least one component or block to install');
+  }
+
+  let inlineConfig: unknown;
+  if (componentsJson !== undefined) {
+    try {
+      inlineConfig = JSON.parse(componentsJson);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, `"componentsJson" is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  // An inline components.json does not need a project root; a path is only used to resolve tsconfig paths
+  const clientRoots = await listClientRootDirectories(context);
+  const requestedRoot = inlineConfig === undefined ? await resolveProjectRoot(projectPath, context) : projectPath;
+  const root = requestedRoot && await confineProjectRoot(requestedRoot, clientRoots);
+  const requested = [...blocks.map(name => `block:${name}`), ...components.map(name => `component:${name}`)].join(', ');
+
+  try {
+    const project = inlineConfig === undefined
+      ? await loadProject(root!, framework)
+      : await createProject(inlineConfig, root && path.resolve(root), framework);
+    const resolvedStyle = style ?? project.style;
+    // Paths read from the project must stay in it, or in the client's roots (e.g., a monorepo's shared stylesheet)
+    const readableRoots = project.root ? [project.root, ...clientRoots] : [];
+    // Resolve the commit once so every file is read from the same snapshot
+    const githubSha = await resolveCommit(ref, project.framework);
+    const roots = [
+      ...blocks.map(name => ({ name, type: 'block' as const })),
+      ...components.map(name => ({ name, type: 'component' as const }))
+    ];
+
+    const resolution = includeDependencies
+      ? await resolveDependencies(roots, (name, type) => loadDependencies(name, type, project.framework, resolvedStyle, ref, githubSha, context), context?.signal)
+      : { installOrder: roots, npmPackages: [], unresolved: [], external: [] };
+
+    const pageDirectory = await getPageDirectory(project, readableRoots);
+    const files: PlannedFile[] = [];
+    const errors: Array<{ name: string; type: DependencyItemType; reason: string }> = [...resolution.unresolved];
+    for (const item of resolution.installOrder) {
+      try {
+        for (const file of await planItemFiles(item.name, item.type, project, resolvedStyle, ref, pageDirectory)) {
+          files.push(project.root
+            ? { ...file, exists: await pathExists(file.target, readableRoots) }
+            : file);
+        }
+      } catch (error) {
+        errors.push({ name: item.name, type: item.type, reason: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    const installed = project.root ? await readInstalledPackages(project.root) : new Set<string>();
+    const packages = new Set([
+      ...resolution.npmPackages,
+      ...files.flatMap(file => extractSourceDependencies(file.content).dependencies)
+    ]);
+    const missingPackages = [...packages].filter(name => !installed.has(toPackageName(name))).sort();
+    const packageManager = await detectPackageManager(project.root);
+
+    const warnings: string[] = [];
+    if (!project.root) {
+      warnings.push('Target paths assume "@/" points at the project root; pass "projectPath" to resolve tsconfig paths');
+    }
+    if (project.framework === 'svelte' && resolution.installOrder.some(item => item.type === 'component')) {
+      warnings.push('Only the main .svelte file of each shadcn-svelte component is included; run the command to install the remaining files');
+    }
+    if (project.framework === 'react' && project.config.tsx === false) {
+      warnings.push('Sources are TypeScript; strip the types from the .jsx files or run the command, which does');
+    }
+    if (resolution.external.length > 0) {
+      warnings.push(`Dependencies from other registries are not planned: ${resolution.external.join(', ')}`);
+    }
+
+    const cli = project.framework === 'svelte' ? 'shadcn-svelte@latest' : 'shadcn@latest';
+    const result = {
+      framework: project.framework,
+      ...(resolvedStyle && { style: resolvedStyle }),
+      ...(githubSha && { githubSha }),
+      ...(project.root && { projectRoot: project.root }),
+      aliases: project.aliases,
+      items: resolution.installOrder.map(item => ({ name: item.name, type: item.type })),
+      files,
+      npmPackages: missingPackages,
+      installCommand: missingPackages.length > 0 ? `${INSTALL_COMMANDS[packageManager]} ${missingPackages.join(' ')}` : null,
+      cssVariables: {
+        file: project.config.tailwind?.css ?? null,
+        changes: await planCssVariables(resolution.installOrder.map(item => item.name), project, readableRoots, resolvedStyle)
+      },
+      ...(errors.length > 0 && { unresolved: errors }),
+      ...(warnings.length > 0 && { warnings }),
+      command: `npx ${cli} add ${roots.map(item => item.name).join(' ')}`
+    };
+
+    return withGitHubSha(structuredResult(result), githubSha);
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    logError(`Failed to plan install of ${requested}`, error);
+    throw new Error(`Failed to plan install of ${requested}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export const schema = z.object({
+  components: z.array(z.string().min(1).max(100)).max(50).optional()
+    .describe('Names of the components to install (e.g., ["button", "dialog"])'),
+  blocks: z.array(z.string().min(1).max(100)).max(20).optional()
+    .describe('Names of the blocks to install (e.g., ["dashboard-01"])'),
+  projectPath: z.string().min(1).max(1000).optional()
+    .describe('Path of the project root (the directory holding components.json). Defaults to the first client root that has one'),
+  componentsJson: z.string().max(100_000).optional()
+    .describe('Contents of components.json, for projects the server cannot read. "projectPath" is then optional'),
+  framework: frameworkSchema
+    .describe('Framework of the project. Detected from components.json by default'),
+  style: styleSchema
+    .describe('Registry style to install from. Defaults to the style components.json selects'),
+  ref: refSchema,
+  includeDependencies: z.boolean().optional()
+    .describe('Also plan the registry dependencies of the requested items, transitively (default: true)')
+});
+
+const dependencyItemTypeOutputSchema = z.enum(['component', 'block']);
+
+export const outputSchema = z.object({
+  framework: frameworkOutputSchema,
+  style: z.string().optional(),
+  githubSha: githubShaOutputSchema,
+  projectRoot: z.string().optional(),
+  aliases: z.record(z.string()),
+  items: z.array(z.object({
+    name: z.string(),
+    type: dependencyItemTypeOutputSchema
+  })).describe('Registry items to install, dependencies first'),
+  files: z.array(z.object({
+    item: z.string(),
+    source: z.string()
+      .describe('Path in the upstream item'),
+    target: z.string()
+      .describe('Path to write, relative to the project root'),
+    exists: z.boolean().optional(),
+    content: z.string()
+  })),
+  npmPackages: z.array(z.string()),
+  installCommand: z.string().nullable(),
+  cssVariables: z.object({
+    file: z.string().nullable(),
+    changes: z.array(z.object({
+      scope: z.enum(['theme', 'light', 'dark']),
+      selector: z.string(),
+      variable: z.string(),
+      value: z.string(),
+      current: z.string().optional()
+    }))
+  }),
+  unresolved: z.array(z.object({
+    name: z.string(),
+    type: dependencyItemTypeOutputSchema,
+    reason: z.string()
+  })).optional(),
+  warnings: z.array(z.string()).optional(),
+  command: z.string()
+});
@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getAxiosImplementation, type Framework } from '../../utils/framework.js';
+import {
+  budgetedSourceResult,
+  chunkCursorSchema,
+  frameworkSchema,
+  githubShaOutputSchema,
+  maxBytesSchema,
+  maxTokensSchema,
+  refSchema,
+  registrySchema,
+  sourceChunkOutputShape,
+  styleSchema,
+  withGitHubSha
+} from '../common.js';
+import { getCachedData, generateRegistryItemTypeKey } from '../../utils/storage-integration.js';
+import { resolveStyle } from '../../utils/style.js';
+import { getCacheTTL, getRef, resolveCommit } from '../../utils/git-ref.js';
+import {
+  fetchRegistryItem,
+  formatRegistryItemSource,
+  normalizeRegistryName,
+  REGISTRY_ITEM_DIRECTORIES,
+  type RegistryItemDirectoryType
+} from '../../utils/registry.js';
+import { registryItemTypeSchema } from './list-registry-items.js';
+import { logError } from '../../utils/logger.js';
+
+/**
+ * Fetch the source of a chart, hook, lib or example item through the cache, along with the commit it was read from
+ */
+export async function fetchRegistryItemSource(itemName: string, type: RegistryItemDirectoryType, framework?: Framework, style?: string, ref?: string): Promise<{ sourceCode: string, githubSha?: string }> {
+  const cacheKey = generateRegistryItemTypeKey(type, itemName, framework, style, ref);
+  const cachedTTL = getCacheTTL(24 * 60 * 60, ref); // 24 hours, same as components
+
+  const item = await getCachedData(
+    cacheKey,
+    async () => {
+      const axios = await getAxiosImplementation(framework);
+      const resolvedStyle = await resolveStyle(style, framework);
+      const githubSha = await resolveCommit(ref, framework);
+      return {
+        name: itemName,
+        type,
+        sourceCode: await axios.getRegistryItemSource(REGISTRY_ITEM_DIRECTORIES[type], itemName, resolvedStyle, githubSha ?? getRef(ref)),
+        ...(githubSha && { githubSha })
+      };
+    },
+    cachedTTL
+  );
+
+  return { sourceCode: item.sourceCode, githubSha: item.githubSha };
+}
+
+export async function handleGetRegistryItem({ itemName, type, framework, style, ref, registry, maxTokens, maxBytes, cursor }: { itemName: string, type: RegistryItemDirectoryType, framework?: Framework, style?: string, ref?: string, registry?: string, maxTokens?: number, maxBytes?: number, cursor?: string }) {
+  try {
+    const budget = { maxTokens, maxBytes, cursor };
+    if (registry) {
+      const item = await fetchRegistryItem(registry, itemName, style);
+      return budgetedSourceResult({ itemName, type, registry: normalizeRegistryName(registry) }, 'sourceCode', formatRegistryItemSource(item), budget);
+    }
+
+    const { sourceCode, githubSha } = await fetchRegistryItemSource(itemName, type, framework, style, ref);
+
+    return withGitHubSha(budgetedSourceResult({ itemName, type, ...(githubSha && { githubSha }) }, 'sourceCode', sourceCode, budget), githubSha);
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    logError(`Failed to get ${type} item "${itemName}"`, error);
+    throw new Error(`Failed to get ${type} item "${itemName}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export const schema = z.object({
+  itemName: z.string().min(1).max(100)
+    .describe('Name of the item (e.g., "use-mobile", "utils", "chart-area-default", "button-demo")'),
+  type: registryItemTypeSchema
+    .describe('Item type: "registry:chart", "registry:hook", "registry:lib" or "registry:example"'),
+  framework: frameworkSchema,
+  style: styleSchema,
+  ref: refSchema,
+  registry: registrySchema,
+  maxTokens: maxTokensSchema,
+  maxBytes: maxBytesSchema,
+  cursor: chunkCursorSchema
+});
+
+export const outputSchema = z.object({
+  itemName: z.string(),
+  type: registryItemTypeSchema,
+  registry: z.string().optional(),
+  sourceCode: z.string(),
+  githubSha: githubShaOutputSchema,
+  ...sourceChunkOutputShape
+});
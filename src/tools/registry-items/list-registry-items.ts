@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import { getAxiosImplementation, resolveFramework, type Framework } from '../../utils/framework.js';
+import { frameworkOutputSchema, frameworkSchema, githubShaOutputSchema, refSchema, registrySchema, structuredResult, styleSchema, withGitHubSha } from '../common.js';
+import { getCachedData, generateListKey } from '../../utils/storage-integration.js';
+import { resolveStyle } from '../../utils/style.js';
+import { getCacheTTL, getRef, resolveCommit } from '../../utils/git-ref.js';
+import {
+  fetchRegistryIndex,
+  filterRegistryItems,
+  normalizeRegistryName,
+  REGISTRY_ITEM_DIRECTORIES,
+  REGISTRY_ITEM_TYPES,
+  type RegistryItemDirectoryType
+} from '../../utils/registry.js';
+import { logError } from '../../utils/logger.js';
+
+/**
+ * Item type argument shared by list_registry_items and get_registry_item
+ */
+export const registryItemTypeSchema = z.enum(REGISTRY_ITEM_TYPES as [RegistryItemDirectoryType, ...RegistryItemDirectoryType[]]);
+
+/**
+ * List the items of one type in a framework's registry, cached under that type's list key
+ */
+export async function listFrameworkRegistryItems(type: RegistryItemDirectoryType, framework: Framework, style?: string, ref?: string) {
+  const directory = REGISTRY_ITEM_DIRECTORIES[type];
+  const cacheKey = generateListKey(directory, framework, undefined, style, ref);
+  const cachedTTL = getCacheTTL(6 * 60 * 60, ref); // 6 hours, same as component lists
+
+  return await getCachedData(
+    cacheKey,
+    async () => {
+      const axios = await getAxiosImplementation(framework);
+      const resolvedStyle = await resolveStyle(style, framework);
+      const githubSha = await resolveCommit(ref, framework);
+      const items: Array<{ name: string }> = await axios.getRegistryItems(directory, resolvedStyle, githubSha ?? getRef(ref));
+      return {
+        items: items.map(item => item.name).sort(),
+        ...(githubSha && { githubSha })
+      };
+    },
+    cachedTTL
+  );
+}
+
+export async function handleListRegistryItems({ type, framework, style, ref, registry }: { type?: RegistryItemDirectoryType, framework?: Framework, style?: string, ref?: string, registry?: string } = {}) {
+  const types = type ? [type] : REGISTRY_ITEM_TYPES;
+
+  try {
+    if (registry) {
+      const index = await fetchRegistryIndex(registry, style);
+      const items = Object.fromEntries(types.map(itemType => [itemType, filterRegistryItems(index, [itemType]).map(item => item.name)]));
+      return structuredResult({
+        registry: normalizeRegistryName(registry),
+        types: items,
+        total: Object.values(items).flat().length
+      });
+    }
+
+    const resolvedFramework = resolveFramework(framework);
+    // A style or framework may not publish every directory (e.g. charts); report those instead of failing
+    const settled = await Promise.allSettled(types.map(itemType => listFrameworkRegistryItems(itemType, resolvedFramework, style, ref)));
+    if (settled.every(list => list.status === 'rejected')) {
+      throw (settled[0] as PromiseRejectedResult).reason;
+    }
+    const lists = settled.map(list => list.status === 'fulfilled' ? list.value : { items: [] as string[], githubSha: undefined });
+    const unavailable = types.filter((_, index) => settled[index].status === 'rejected');
+    const githubSha = lists.find(list => list.githubSha)?.githubSha;
+    const result = {
+      framework: resolvedFramework,
+      types: Object.fromEntries(types.map((itemType, index) => [itemType, lists[index].items])),
+      total: lists.reduce((total, list) => total + list.items.length, 0),
+      ...(unavailable.length > 0 && { unavailable }),
+      ...(githubSha && { githubSha })
+    };
+
+    return withGitHubSha(structuredResult(result), githubSha);
+  } catch (error) {
+    logError('Failed to list registry items', error);
+    throw new Error(`Failed to list registry items: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export const schema = z.object({
+  type: registryItemTypeSchema.optional()
+    .describe('Item type to list: "registry:chart", "registry:hook", "registry:lib" or "registry:example". Defaults to all of them'),
+  framework: frameworkSchema,
+  style: styleSchema,
+  ref: refSchema,
+  registry: registrySchema
+});
+
+export const outputSchema = z.object({
+  registry: z.string().optional(),
+  framework: frameworkOutputSchema.optional(),
+  types: z.record(z.array(z.string()))
+    .describe('Item names by item type'),
+  total: z.number().int(),
+  unavailable: z.array(registryItemTypeSchema).optional()
+    .describe('Item types the registry does not publish for this style'),
+  githubSha: githubShaOutputSchema
+});
@@ -1,20 +1,63 @@
-import { getAxiosImplementation } from '../../utils/framework.js';
+import { z } from 'zod';
+import { getAxiosImplementation, type Framework } from '../../utils/framework.js';
+import { frameworkSchema, registrySchema, structuredResult, type ToolContext } from '../common.js';
 import { getCachedData, generateDirectoryKey } from '../../utils/storage-integration.js';
+import { fetchRegistryIndex, normalizeRegistryName, REGISTRY_ITEM_DIRECTORIES } from '../../utils/registry.js';
 import { logError } from '../../utils/logger.js';
 
+const DIRECTORY_ITEM_TYPES = new Map(Object.entries(REGISTRY_ITEM_DIRECTORIES).map(([type, directory]) => [directory as string, type]));
+
+/**
+ * Mark the style directories get_registry_item reads from (charts, hooks, lib, examples)
+ * with their item type, so consumers of the tree know which tool serves their files
+ */
+function annotateRegistryDirectories(node: any, registryPath: string): void {
+  for (const [name, child] of Object.entries<any>(node?.children ?? {})) {
+    if (child?.type !== 'directory') {
+      continue;
+    }
+    const type = DIRECTORY_ITEM_TYPES.get(name);
+    // Directly under the registry (shadcn-svelte) or under one of its styles (shadcn/ui)
+    if (type && typeof child.path === 'string' && child.path.startsWith(`${registryPath}/`)
+      && child.path.slice(registryPath.length + 1).split('/').length <= 2) {
+      child.registryItemType = type;
+    }
+    annotateRegistryDirectories(child, registryPath);
+  }
+}
+
 export async function handleGetDirectoryStructure({ 
   path, 
   owner, 
   repo, 
-  branch 
+  branch,
+  framework,
+  registry
 }: { 
   path?: string, 
   owner?: string, 
   repo?: string, 
-  branch?: string 
-}) {
+  branch?: string,
+  framework?: Framework,
+  registry?: string
+}, context?: ToolContext) {
   try {
-    const axios = await getAxiosImplementation();
+    if (registry) {
+      // Registries have no repository tree; group their items and files by item type instead
+      const index = await fetchRegistryIndex(registry, undefined, context);
+      const types: Record<string, Array<{ name: string; files: string[] }>> = {};
+      for (const item of index.items) {
+        (types[item.type] ??= []).push({ name: item.name, files: (item.files ?? []).map(file => file.path) });
+      }
+      return structuredResult({
+        registry: normalizeRegistryName(registry),
+        name: index.name,
+        homepage: index.homepage,
+        types
+      });
+    }
+
+    const axios = await getAxiosImplementation(framework);
     // Get the default path based on available properties
     const defaultPath = 'BLOCKS' in axios.paths ? axios.paths.BLOCKS : axios.paths.NEW_YORK_V4_PATH;
     
@@ -28,44 +71,55 @@ export async function handleGetDirectoryStructure({
     
     const directoryTree = await getCachedData(
       cacheKey,
-      async () => {
+      async (signal) => {
         return await axios.buildDirectoryTree(
           resolvedOwner,
           resolvedRepo,
           resolvedPath,
-          resolvedBranch
+          resolvedBranch,
+          context?.progress,
+          signal
         );
       },
-      cachedTTL
+      cachedTTL,
+      context
     );
+    if (resolvedOwner === axios.paths.REPO_OWNER && resolvedRepo === axios.paths.REPO_NAME) {
+      annotateRegistryDirectories(directoryTree, axios.paths.REGISTRY_PATH);
+    }
     
-    return {
-      content: [{ 
-        type: "text", 
-        text: JSON.stringify(directoryTree, null, 2)
-      }]
-    };
+    return structuredResult(directoryTree);
   } catch (error) {
     logError('Failed to get directory structure', error);
     throw new Error(`Failed to get directory structure: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
-export const schema = {
-  path: {
-    type: 'string',
-    description: 'Path within the repository (default: v4 registry)'
-  },
-  owner: {
-    type: 'string',
-    description: 'Repository owner (default: "shadcn-ui")'
-  },
-  repo: {
-    type: 'string',
-    description: 'Repository name (default: "ui")'
-  },
-  branch: {
-    type: 'string',
-    description: 'Branch name (default: "main")'
-  }
-}; 
\ No newline at end of file
+export const schema = z.object({
+  path: z.string().max(500).optional()
+    .describe('Path within the repository (default: v4 registry)'),
+  owner: z.string().max(100).optional()
+    .describe('Repository owner (default: "shadcn-ui")'),
+  repo: z.string().max(100).optional()
+    .describe('Repository name (default: "ui")'),
+  branch: z.string().max(100).optional()
+    .describe('Branch name (default: "main")'),
+  framework: frameworkSchema,
+  registry: registrySchema
+});
+
+export const outputSchema = z.object({
+  path: z.string().optional(),
+  type: z.string().optional()
+    .describe('"directory" or "file"'),
+  children: z.record(z.unknown()).optional()
+    .describe('Entries of the directory by name, each with path, type and (for directories) children'),
+  registry: z.string().optional(),
+  name: z.string().optional(),
+  homepage: z.string().optional(),
+  types: z.record(z.array(z.object({
+    name: z.string(),
+    files: z.array(z.string())
+  }))).optional()
+    .describe('Items of a named registry and their files, by item type')
+}).passthrough();
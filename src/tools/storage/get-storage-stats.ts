@@ -1,5 +1,7 @@
+import { z } from 'zod';
 import { getStorageStats, getCircuitBreakerStatus } from '../../utils/storage-integration.js';
 import { logError } from '../../utils/logger.js';
+import { structuredResult } from '../common.js';
 
 export async function handleGetStorageStats() {
   try {
@@ -7,15 +9,10 @@ export async function handleGetStorageStats() {
     const circuitBreakerStatus = getCircuitBreakerStatus();
     
     if (!stats) {
-      return {
-        content: [{ 
-          type: "text", 
-          text: JSON.stringify({
-            error: "Storage not initialized",
-            message: "Hybrid storage system is not available. Operating in direct fetch mode."
-          }, null, 2)
-        }]
-      };
+      return structuredResult({
+        error: "Storage not initialized",
+        message: "Hybrid storage system is not available. Operating in direct fetch mode."
+      });
     }
     
     const result = {
@@ -37,16 +34,41 @@ export async function handleGetStorageStats() {
       }
     };
     
-    return {
-      content: [{ 
-        type: "text", 
-        text: JSON.stringify(result, null, 2)
-      }]
-    };
+    return structuredResult(result);
   } catch (error) {
     logError('Failed to get storage stats', error);
     throw new Error(`Failed to get storage stats: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
-export const schema = {};
\ No newline at end of file
+export const schema = z.object({});
+
+const tierNumbersOutputSchema = z.object({
+  memory: z.number(),
+  pglite: z.number(),
+  github: z.number()
+});
+
+export const outputSchema = z.object({
+  storage: z.object({
+    hits: tierNumbersOutputSchema,
+    misses: z.number(),
+    totalOperations: z.number(),
+    hitRate: z.number(),
+    tierAvailability: z.record(z.boolean()),
+    deduplication: z.object({}).passthrough(),
+    timestamp: z.string()
+  }).passthrough().optional()
+    .describe('Hybrid storage statistics'),
+  circuitBreaker: z.object({}).passthrough().nullable().optional(),
+  summary: z.object({
+    totalRequests: z.number(),
+    overallHitRate: z.string(),
+    tierHitRates: tierNumbersOutputSchema,
+    tierAvailability: z.record(z.boolean()),
+    averageResponseTimes: z.record(z.number())
+  }).optional(),
+  error: z.string().optional()
+    .describe('Set when storage is not initialized'),
+  message: z.string().optional()
+});
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { getAxiosImplementation, resolveFramework, type Framework } from '../../utils/framework.js';
+import { frameworkOutputSchema, frameworkSchema, githubShaOutputSchema, refSchema, structuredResult, withGitHubSha } from '../common.js';
+import { getCachedData, generateThemeKey } from '../../utils/storage-integration.js';
+import { getCacheTTL, getRef, resolveCommit } from '../../utils/git-ref.js';
+import { baseColorSchema } from '../../schemas/theme.js';
+import { formatThemeCss, getThemeVariables, THEME_CSS_FILES, type ThemeVariables } from '../../utils/themes.js';
+import { logError } from '../../utils/logger.js';
+
+/**
+ * Fetch a theme's CSS variables through the cache
+ */
+export async function fetchThemeVariables(themeName: string, framework: Framework, ref?: string): Promise<{ variables: ThemeVariables, githubSha?: string }> {
+  const cacheKey = generateThemeKey(themeName, framework, ref);
+  const cachedTTL = getCacheTTL(24 * 60 * 60, ref); // 24 hours for themes, no expiry when pinned to a commit
+
+  return await getCachedData(
+    cacheKey,
+    async () => {
+      const axios = await getAxiosImplementation(framework);
+      const githubSha = await resolveCommit(ref, framework);
+      const baseColor = baseColorSchema.parse(await axios.getBaseColor(themeName, githubSha ?? getRef(ref)));
+      return {
+        variables: getThemeVariables(baseColor),
+        ...(githubSha && { githubSha })
+      };
+    },
+    cachedTTL
+  );
+}
+
+export async function handleGetTheme({ themeName, framework, ref }: { themeName: string, framework?: Framework, ref?: string }) {
+  const resolvedFramework = resolveFramework(framework);
+
+  try {
+    const { variables, githubSha } = await fetchThemeVariables(themeName, resolvedFramework, ref);
+
+    const css = formatThemeCss(themeName, variables, resolvedFramework);
+
+    return withGitHubSha(structuredResult({
+      name: themeName,
+      framework: resolvedFramework,
+      file: THEME_CSS_FILES[resolvedFramework],
+      css,
+      variables,
+      ...(githubSha && { githubSha })
+    }, css), githubSha);
+  } catch (error) {
+    logError(`Failed to get theme "${themeName}"`, error);
+    throw new Error(`Failed to get theme "${themeName}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export const schema = z.object({
+  themeName: z.string().regex(/^[a-z0-9][\w-]*$/i).max(50)
+    .describe('Name of the base color theme (e.g., "neutral", "zinc", "slate"). Use list_themes to see what is available'),
+  framework: frameworkSchema
+    .describe('Framework whose registry and stylesheet layout to use: "react" (app/globals.css) or "svelte" (src/app.css). Defaults to the server framework'),
+  ref: refSchema
+});
+
+const themeVariablesOutputSchema = z.record(z.string())
+  .describe('CSS variables without the "--" prefix');
+
+export const outputSchema = z.object({
+  name: z.string(),
+  framework: frameworkOutputSchema,
+  file: z.string()
+    .describe('Stylesheet the CSS replaces'),
+  css: z.string(),
+  variables: z.object({
+    theme: themeVariablesOutputSchema,
+    light: themeVariablesOutputSchema,
+    dark: themeVariablesOutputSchema
+  }),
+  githubSha: githubShaOutputSchema
+});
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { getAxiosImplementation, resolveFramework, type Framework } from '../../utils/framework.js';
+import { frameworkOutputSchema, frameworkSchema, githubShaOutputSchema, refSchema, structuredResult, withGitHubSha } from '../common.js';
+import { getCachedData, generateListKey } from '../../utils/storage-integration.js';
+import { getCacheTTL, getRef, resolveCommit } from '../../utils/git-ref.js';
+import { THEME_DOCS_URLS } from '../../utils/themes.js';
+import type { Theme } from '../../utils/api.js';
+import { logError } from '../../utils/logger.js';
+
+export async function handleListThemes({ framework, ref }: { framework?: Framework, ref?: string } = {}) {
+  const resolvedFramework = resolveFramework(framework);
+
+  try {
+    const cacheKey = generateListKey('themes', resolvedFramework, undefined, undefined, ref);
+    const cachedTTL = getCacheTTL(24 * 60 * 60, ref); // 24 hours for themes, no expiry when pinned to a commit
+
+    const result = await getCachedData(
+      cacheKey,
+      async () => {
+        const axios = await getAxiosImplementation(resolvedFramework);
+        const githubSha = await resolveCommit(ref, resolvedFramework);
+        const names: string[] = await axios.getBaseColors(githubSha ?? getRef(ref));
+        const themes: Theme[] = names.map(name => ({
+          name,
+          description: `${name.charAt(0).toUpperCase()}${name.slice(1)} base color with light and dark variables`,
+          url: THEME_DOCS_URLS[resolvedFramework]
+        }));
+        return {
+          framework: resolvedFramework,
+          themes,
+          total: themes.length,
+          ...(githubSha && { githubSha })
+        };
+      },
+      cachedTTL
+    );
+
+    return withGitHubSha(structuredResult(result), result.githubSha);
+  } catch (error) {
+    logError('Failed to list themes', error);
+    throw new Error(`Failed to list themes: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export const schema = z.object({
+  framework: frameworkSchema,
+  ref: refSchema
+});
+
+export const outputSchema = z.object({
+  framework: frameworkOutputSchema,
+  themes: z.array(z.object({
+    name: z.string(),
+    description: z.string(),
+    url: z.string().optional()
+  })),
+  total: z.number().int(),
+  githubSha: githubShaOutputSchema
+});
@@ -0,0 +1,278 @@
+/**
+ * Streamable HTTP transport for the MCP server
+ *
+ * Serves the MCP Streamable HTTP protocol on a single endpoint (default: /mcp)
+ * so that many clients can share one long-lived server process and one warm
+ * hybrid storage instance. Every client session gets its own Server instance
+ * (the SDK binds a Server to exactly one transport), created through the
+ * shared server factory.
+ *
+ * Requests must address the server by the host it is bound to, and browser requests must
+ * come from a local origin, so web pages cannot reach it through DNS rebinding.
+ */
+import http, { type IncomingMessage, type ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { networkInterfaces } from 'node:os';
+import { type Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logError, logInfo, logWarning } from '../utils/logger.js';
+
+/**
+ * Options for the HTTP transport
+ */
+export interface HttpTransportOptions {
+  port: number;
+  host?: string;
+  path?: string;
+  createServer: () => Server;
+}
+
+/**
+ * Handle to a running HTTP transport
+ */
+export interface HttpTransportHandle {
+  port: number;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+/**
+ * Active MCP session bound to one HTTP client
+ */
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+}
+
+/**
+ * Maximum accepted request body size (4MB)
+ */
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw.length > 0 ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Write a JSON-RPC error response
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null
+  }));
+}
+
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '::1'];
+
+/**
+ * Host names requests may address the server by: the bound host, the loopback names when it
+ * is bound to loopback, and every interface address when it is bound to all interfaces
+ */
+function getAllowedHostnames(host: string): string[] {
+  const hostname = host.replace(/^\[|\]$/g, '');
+  if (hostname === '0.0.0.0' || hostname === '::') {
+    const addresses = Object.values(networkInterfaces()).flatMap(entries => (entries ?? []).map(entry => entry.address));
+    return [...new Set([...LOOPBACK_HOSTNAMES, ...addresses])];
+  }
+  return LOOPBACK_HOSTNAMES.includes(hostname) ? LOOPBACK_HOSTNAMES : [hostname];
+}
+
+/**
+ * Host header values of the allowed host names on a port
+ */
+function toHostHeaders(hostnames: string[], port: number): string[] {
+  return hostnames.flatMap(hostname => {
+    const name = hostname.includes(':') ? `[${hostname}]` : hostname;
+    return port === 80 ? [`${name}:${port}`, name] : [`${name}:${port}`];
+  });
+}
+
+/**
+ * Whether a request's Origin, when it has one, is served from an allowed host name.
+ * Clients other than browsers send no Origin.
+ */
+function isAllowedOrigin(origin: string | undefined, hostnames: string[]): boolean {
+  if (origin === undefined) {
+    return true;
+  }
+  try {
+    return hostnames.includes(new URL(origin).hostname.replace(/^\[|\]$/g, ''));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Start serving MCP over Streamable HTTP
+ * @param options Port, host, endpoint path and server factory
+ * @returns Handle used to inspect and shut down the transport
+ */
+export async function startHttpTransport(options: HttpTransportOptions): Promise<HttpTransportHandle> {
+  const host = options.host || '127.0.0.1';
+  const endpoint = options.path || '/mcp';
+  const sessions = new Map<string, Session>();
+  const allowedHostnames = getAllowedHostnames(host);
+  // Set once listening, when the port is known
+  let allowedHosts: string[] = [];
+
+  /**
+   * Create a new session for an initialize request. A request rejected before the session
+   * is registered closes its server again, so its storage listener and log sink do not leak.
+   */
+  async function initializeSession(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const server = options.createServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, { server, transport });
+        logInfo(`HTTP session initialized: ${sessionId} (${sessions.size} active)`);
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        logInfo(`HTTP session closed: ${transport.sessionId} (${sessions.size} active)`);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+        await server.close().catch(error => logError('Failed to close an uninitialized HTTP session', error));
+      }
+    }
+  }
+
+  /**
+   * Route a single HTTP request to the matching session transport
+   */
+  async function handleMcpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
+
+      if (session) {
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (!sessionId && isInitializeRequest(body)) {
+        await initializeSession(req, res, body);
+        return;
+      }
+
+      sendJsonRpcError(res, sessionId ? 404 : 400, -32000, sessionId
+        ? `Session not found: ${sessionId}`
+        : 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!session) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, -32000, sessionId
+          ? `Session not found: ${sessionId}`
+          : 'Bad Request: No valid session ID provided');
+        return;
+      }
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+  }
+
+  const httpServer = http.createServer((req, res) => {
+    if (!allowedHosts.includes(req.headers.host ?? '') || !isAllowedOrigin(req.headers.origin, allowedHostnames)) {
+      logWarning(`Rejected HTTP request with Host "${req.headers.host}" and Origin "${req.headers.origin}"`);
+      sendJsonRpcError(res, 403, -32000, 'Forbidden: Host or Origin not allowed');
+      return;
+    }
+
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+      return;
+    }
+
+    if (url.pathname !== endpoint) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not Found');
+      return;
+    }
+
+    handleMcpRequest(req, res).catch((error) => {
+      logError('Error handling MCP HTTP request', error);
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  allowedHosts = toHostHeaders(allowedHostnames, port);
+  logInfo(`Transport initialized: streamable HTTP on http://${host}:${port}${endpoint}`);
+
+  return {
+    port,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      const open = Array.from(sessions.values());
+      sessions.clear();
+      await Promise.allSettled(open.map(({ server }) => server.close()));
+
+      await new Promise<void>((resolve) => {
+        httpServer.close((error) => {
+          if (error) {
+            logWarning(`Error closing HTTP server: ${error.message}`);
+          }
+          resolve();
+        });
+        httpServer.closeAllConnections();
+      });
+      logInfo('HTTP transport closed');
+    }
+  };
+}
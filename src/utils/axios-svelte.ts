@@ -1,5 +1,8 @@
 import { Axios } from "axios";
 import { logError, logWarning, logInfo } from './logger.js';
+import type { ProgressReporter } from './progress.js';
+import { warnIfRateLimited } from './rate-limit.js';
+import { reportDegradation } from './response-meta.js';
 
 // Constants for the v4 repository structure
 const REPO_OWNER = 'huntabyte';
@@ -7,6 +10,10 @@ const REPO_NAME = 'shadcn-svelte';
 const REPO_BRANCH = 'main';
 const REGISTRY_PATH = `docs/src/lib/registry`;
 const BLOCKS = `${REGISTRY_PATH}/blocks`;
+// Base colors are read from the built registry JSON served by the docs site
+const COLORS_PATH = 'docs/static/registry/colors';
+// shadcn-svelte 1.x dropped the new-york style; everything lives under one registry
+const DEFAULT_STYLE = 'default';
 
 // GitHub API for accessing repository structure and metadata
 const githubApi = new Axios({
@@ -29,9 +36,21 @@ const githubApi = new Axios({
     }],
 });
 
+// Warn when a response reports the rate limit exhausted
+githubApi.interceptors.response.use(
+    (response) => {
+        warnIfRateLimited(response.headers);
+        return response;
+    },
+    (error) => {
+        warnIfRateLimited(error.response?.headers);
+        return Promise.reject(error);
+    }
+);
+
 // GitHub Raw for directly fetching file contents
 const githubRaw = new Axios({
-    baseURL: `https://raw.githubusercontent.com/${REPO_OWNER}/${REPO_NAME}/${REPO_BRANCH}`,
+    baseURL: `https://raw.githubusercontent.com/${REPO_OWNER}/${REPO_NAME}`, // Paths are prefixed with a git ref
     headers: {
         "User-Agent": "Mozilla/5.0 (compatible; ShadcnUiMcpServer/1.0.0)",
     },
@@ -39,18 +58,95 @@ const githubRaw = new Axios({
     transformResponse: [(data) => data], // Return raw data
 });
 
+/**
+ * List the items of a registry directory other than ui and blocks (charts, hooks, lib, examples)
+ * @param directory Registry directory (e.g., "hooks")
+ * @param _style Ignored: shadcn-svelte publishes a single style
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
+ * @returns Promise with item names and repository paths
+ */
+async function getRegistryItems(directory: string, _style?: string, ref: string = REPO_BRANCH): Promise<Array<{ name: string; path: string }>> {
+    const response = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${REGISTRY_PATH}/${directory}?ref=${ref}`);
+    if (!Array.isArray(response.data)) {
+        throw new Error(`Directory "${directory}" not found in v4 registry`);
+    }
+    return response.data
+        .filter((item: any) => item.type === 'file' && /\.(svelte(\.ts)?|ts)$/.test(item.name) && !item.name.startsWith('_'))
+        .map((item: any) => ({ name: item.name.replace(/\.(svelte(\.ts)?|ts)$/, ''), path: item.path }));
+}
+
+/**
+ * Fetch the source of a chart, hook, lib or example item
+ * @param directory Registry directory (e.g., "hooks")
+ * @param name Item name (e.g., "use-mobile")
+ * @param _style Ignored: shadcn-svelte publishes a single style
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
+ * @returns Promise with the item source code
+ */
+async function getRegistryItemSource(directory: string, name: string, _style?: string, ref: string = REPO_BRANCH): Promise<string> {
+    // The extension is not part of the item name; try each one the registry uses
+    for (const extension of ['.svelte', '.svelte.ts', '.ts']) {
+        const response = await githubRaw.get(`/${ref}/${REGISTRY_PATH}/${directory}/${name.toLowerCase()}${extension}`);
+        if (response.status === 200) {
+            return response.data;
+        }
+    }
+    throw new Error(`Item "${name}" not found in ${directory} of v4 registry`);
+}
+
+/**
+ * List the base colors published in the shadcn-svelte registry
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
+ * @returns Promise with base color names
+ */
+async function getBaseColors(ref: string = REPO_BRANCH): Promise<string[]> {
+    const response = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${COLORS_PATH}?ref=${ref}`);
+    if (!Array.isArray(response.data)) {
+        throw new Error('No base colors found in the registry');
+    }
+    return response.data
+        .filter((item: any) => item.type === 'file' && item.name.endsWith('.json') && item.name !== 'index.json')
+        .map((item: any) => item.name.replace(/\.json$/, ''))
+        .sort();
+}
+
+/**
+ * Fetch a base color's theme definition (the registry's colors/<name>.json)
+ * @param name Base color name (e.g., "neutral", "zinc")
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
+ * @returns Promise with the parsed base color JSON
+ */
+async function getBaseColor(name: string, ref: string = REPO_BRANCH): Promise<unknown> {
+    let response;
+    try {
+        response = await githubRaw.get(`/${ref}/${COLORS_PATH}/${name.toLowerCase()}.json`);
+    } catch (error) {
+        throw new Error(`Base color "${name}" not found in shadcn-svelte registry`);
+    }
+    if (response.status !== 200) {
+        throw new Error(`Base color "${name}" not found in shadcn-svelte registry`);
+    }
+    return JSON.parse(response.data);
+}
+
 /**
  * Fetch component source code from the v4 registry
  * @param componentName Name of the component
+ * @param _style Ignored: shadcn-svelte publishes a single style
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
+ * @param signal Aborts the request
  * @returns Promise with component source code
  */
-async function getComponentSource(componentName: string): Promise<string> {
+async function getComponentSource(componentName: string, _style?: string, ref: string = REPO_BRANCH, signal?: AbortSignal): Promise<string> {
     const componentPath = `${REGISTRY_PATH}/ui/${componentName.toLowerCase()}/${componentName.toLowerCase()}.svelte`;
 
     try {
-        const response = await githubRaw.get(`/${componentPath}`);
+        const response = await githubRaw.get(`/${ref}/${componentPath}`, { signal });
         return response.data;
     } catch (error) {
+        if (signal?.aborted) {
+            throw error;
+        }
         throw new Error(`Component "${componentName}" not found in v4 registry`);
     }
 }
@@ -58,27 +154,56 @@ async function getComponentSource(componentName: string): Promise<string> {
 /**
  * Fetch component demo/example from the v4 registry
  * @param componentName Name of the component
+ * @param _style Ignored: shadcn-svelte publishes a single style
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
+ * @param signal Aborts the request
  * @returns Promise with component demo code
  */
-async function getComponentDemo(componentName: string): Promise<string> {
+async function getComponentDemo(componentName: string, _style?: string, ref: string = REPO_BRANCH, signal?: AbortSignal): Promise<string> {
     const demoPath = `${REGISTRY_PATH}/examples/${componentName.toLowerCase()}-demo.svelte`;
 
     try {
-        const response = await githubRaw.get(`/${demoPath}`);
+        const response = await githubRaw.get(`/${ref}/${demoPath}`, { signal });
         return response.data;
     } catch (error) {
+        if (signal?.aborted) {
+            throw error;
+        }
         throw new Error(`Demo for component "${componentName}" not found in v4 registry`);
     }
 }
 
+/**
+ * Resolve a git ref to the commit SHA it currently points at
+ * @param ref Branch, tag or commit SHA (default: main)
+ * @returns Promise with the full commit SHA
+ */
+async function resolveRef(ref: string = REPO_BRANCH): Promise<string> {
+    const response = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/commits/${encodeURIComponent(ref)}`);
+    if (response.status !== 200 || typeof response.data?.sha !== 'string') {
+        throw new Error(`Git ref "${ref}" not found in ${REPO_OWNER}/${REPO_NAME}`);
+    }
+    return response.data.sha;
+}
+
+/**
+ * List the styles published in the repository
+ * @returns Promise with style names
+ */
+async function getAvailableStyles(): Promise<string[]> {
+    return [DEFAULT_STYLE];
+}
+
 /**
  * Fetch all available components from the registry
+ * @param _style Ignored: shadcn-svelte publishes a single style
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
  * @returns Promise with list of component names
  */
-async function getAvailableComponents(): Promise<string[]> {
+async function getAvailableComponents(_style?: string, ref: string = REPO_BRANCH): Promise<string[]> {
     try {
         // First try the GitHub API
-        const response = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${REGISTRY_PATH}/ui`);
+        const response = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${REGISTRY_PATH}/ui?ref=${ref}`);
 
         if (!response.data || !Array.isArray(response.data)) {
             throw new Error('Invalid response from GitHub API');
@@ -117,6 +242,7 @@ async function getAvailableComponents(): Promise<string[]> {
 
         // If all else fails, provide a fallback list of known components
         logWarning('Using fallback component list due to API issues');
+        reportDegradation('partial-data');
         return getFallbackComponents();
     }
 }
@@ -179,17 +305,20 @@ function getFallbackComponents(): string[] {
 /**
  * Fetch component metadata from the registry
  * @param componentName Name of the component
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
+ * @param signal Aborts the request
  * @returns Promise with component metadata
  */
-async function getComponentMetadata(componentName: string): Promise<any> {
+async function getComponentMetadata(componentName: string, ref: string = REPO_BRANCH, signal?: AbortSignal): Promise<any> {
     try {
-        const response = await githubRaw.get(`/docs/registry.json`);
+        const response = await githubRaw.get(`/${ref}/docs/registry.json`, { signal });
         const registryContent = JSON.parse(response.data);
 
         const metadata = registryContent.items.map((item: any) => {
             return {
                 name: item.name,
                 type: item.type,
+                description: item.description,
                 dependencies: item.dependencies,
                 registryDependencies: item.registryDependencies
             }
@@ -203,10 +332,14 @@ async function getComponentMetadata(componentName: string): Promise<any> {
         return {
             name: component.name,
             type: component.type,
+            description: component.description,
             dependencies: component.dependencies,
             registryDependencies: component.registryDependencies
         };
     } catch (error) {
+        if (signal?.aborted) {
+            throw error;
+        }
         logError(`Error getting metadata for ${componentName}`, error);
         return null;
     }
@@ -218,16 +351,21 @@ async function getComponentMetadata(componentName: string): Promise<any> {
  * @param repo Repository name  
  * @param path Path within the repository to start building the tree from
  * @param branch Branch name
+ * @param progress Reporter told about every directory listed
+ * @param signal Aborts the remaining requests
  * @returns Promise resolving to the directory tree structure
  */
 async function buildDirectoryTree(
     owner: string = REPO_OWNER,
     repo: string = REPO_NAME,
     path: string = BLOCKS,
-    branch: string = REPO_BRANCH
+    branch: string = REPO_BRANCH,
+    progress?: ProgressReporter,
+    signal?: AbortSignal
 ): Promise<any> {
     try {
-        const response = await githubApi.get(`/repos/${owner}/${repo}/contents/${path}?ref=${branch}`);
+        const response = await githubApi.get(`/repos/${owner}/${repo}/contents/${path}?ref=${branch}`, { signal });
+        progress?.step(`Listed ${path}`);
 
         if (!response.data) {
             throw new Error('No data received from GitHub API');
@@ -270,6 +408,11 @@ async function buildDirectoryTree(
             children: {},
         };
 
+        // Every subdirectory within the depth limit is listed in turn
+        if (path.split('/').length < 8) {
+            progress?.expect(contents.filter((item: any) => item.type === 'dir').length);
+        }
+
         // Process each item
         for (const item of contents) {
             if (item.type === 'file') {
@@ -285,9 +428,12 @@ async function buildDirectoryTree(
                 // Recursively process subdirectory (limit depth to avoid infinite recursion)
                 if (path.split('/').length < 8) {
                     try {
-                        const subTree = await buildDirectoryTree(owner, repo, item.path, branch);
+                        const subTree = await buildDirectoryTree(owner, repo, item.path, branch, progress, signal);
                         result.children[item.name] = subTree;
                     } catch (error) {
+                        if (signal?.aborted) {
+                            throw error;
+                        }
                         logWarning(`Failed to fetch subdirectory ${item.path}: ${error instanceof Error ? error.message : String(error)}`);
                         result.children[item.name] = {
                             path: item.path,
@@ -495,14 +641,17 @@ async function buildDirectoryTreeWithFallback(
     owner: string = REPO_OWNER,
     repo: string = REPO_NAME,
     path: string = BLOCKS,
-    branch: string = REPO_BRANCH
+    branch: string = REPO_BRANCH,
+    progress?: ProgressReporter,
+    signal?: AbortSignal
 ): Promise<any> {
     try {
-        return await buildDirectoryTree(owner, repo, path, branch);
+        return await buildDirectoryTree(owner, repo, path, branch, progress, signal);
     } catch (error: any) {
         // If it's a rate limit error and we're asking for the default v4 path, provide fallback
         if (error.message && error.message.includes('rate limit') && path === BLOCKS) {
             logWarning('Using fallback directory structure due to rate limit');
+            reportDegradation('partial-data');
             return getBasicV4Structure();
         }
         // Re-throw other errors
@@ -514,17 +663,22 @@ async function buildDirectoryTreeWithFallback(
  * Fetch block code from the v4 blocks directory
  * @param blockName Name of the block (e.g., "calendar-01", "dashboard-01")
  * @param includeComponents Whether to include component files for complex blocks
+ * @param _style Ignored: shadcn-svelte publishes a single style
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
+ * @param progress Reporter told about every file fetched
+ * @param signal Aborts the remaining requests
  * @returns Promise with block code and structure
  */
-async function getBlockCode(blockName: string, includeComponents: boolean = true): Promise<any> {
+async function getBlockCode(blockName: string, includeComponents: boolean = true, _style?: string, ref: string = REPO_BRANCH, progress?: ProgressReporter, signal?: AbortSignal): Promise<any> {
     const blocksPath = `${BLOCKS}`;
 
     try {
         // First, check if it's a simple block file (.tsx)
         try {
-            const simpleBlockResponse = await githubRaw.get(`/${blocksPath}/${blockName}.svelte`);
+            const simpleBlockResponse = await githubRaw.get(`/${ref}/${blocksPath}/${blockName}.svelte`, { signal });
             if (simpleBlockResponse.status === 200) {
                 const code = simpleBlockResponse.data;
+                progress?.step(`Fetched ${blocksPath}/${blockName}.svelte`);
 
                 // Extract useful information from the code
                 const description = extractBlockDescription(code);
@@ -548,7 +702,8 @@ async function getBlockCode(blockName: string, includeComponents: boolean = true
         }
 
         // Check if it's a complex block directory
-        const directoryResponse = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${blocksPath}/${blockName}?ref=${REPO_BRANCH}`);
+        const directoryResponse = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${blocksPath}/${blockName}?ref=${ref}`, { signal });
+        progress?.step(`Listed ${blocksPath}/${blockName}`);
 
         if (!directoryResponse.data) {
             throw new Error(`Block "${blockName}" not found`);
@@ -568,12 +723,14 @@ async function getBlockCode(blockName: string, includeComponents: boolean = true
         // Process the directory contents
         if (Array.isArray(directoryResponse.data)) {
             blockStructure.totalFiles = directoryResponse.data.length;
+            progress?.expect(directoryResponse.data.filter((item: any) => item.type === 'file' || (item.type === 'dir' && item.name === 'components' && includeComponents)).length);
 
             for (const item of directoryResponse.data) {
                 if (item.type === 'file') {
                     // Get the main page file
-                    const fileResponse = await githubRaw.get(`/${item.path}`);
+                    const fileResponse = await githubRaw.get(`/${ref}/${item.path}`, { signal });
                     const content = fileResponse.data;
+                    progress?.step(`Fetched ${item.path}`);
 
                     // Extract information from the file
                     const description = extractBlockDescription(content);
@@ -607,16 +764,19 @@ async function getBlockCode(blockName: string, includeComponents: boolean = true
                     }
                 } else if (item.type === 'dir' && item.name === 'components' && includeComponents) {
                     // Get component files
-                    const componentsResponse = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${item.path}?ref=${REPO_BRANCH}`);
+                    const componentsResponse = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${item.path}?ref=${ref}`, { signal });
+                    progress?.step(`Listed ${item.path}`);
 
                     if (Array.isArray(componentsResponse.data)) {
+                        progress?.expect(componentsResponse.data.filter((componentItem: any) => componentItem.type === 'file').length);
                         blockStructure.files.components = {};
                         const componentStructure: any[] = [];
 
                         for (const componentItem of componentsResponse.data) {
                             if (componentItem.type === 'file') {
-                                const componentResponse = await githubRaw.get(`/${componentItem.path}`);
+                                const componentResponse = await githubRaw.get(`/${ref}/${componentItem.path}`, { signal });
                                 const content = componentResponse.data;
+                                progress?.step(`Fetched ${componentItem.path}`);
 
                                 const dependencies = extractDependencies(content);
                                 const components = extractComponentUsage(content);
@@ -673,13 +833,15 @@ async function getBlockCode(blockName: string, includeComponents: boolean = true
 /**
  * Get all available blocks with categorization
  * @param category Optional category filter
+ * @param _style Ignored: shadcn-svelte publishes a single style
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
  * @returns Promise with categorized block list
  */
-async function getAvailableBlocks(category?: string): Promise<any> {
+async function getAvailableBlocks(category?: string, _style?: string, ref: string = REPO_BRANCH): Promise<any> {
     const blocksPath = `${BLOCKS}`;
 
     try {
-        const response = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${blocksPath}?ref=${REPO_BRANCH}`);
+        const response = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${blocksPath}?ref=${ref}`);
 
         if (!Array.isArray(response.data)) {
             throw new Error('Unexpected response from GitHub API');
@@ -838,6 +1000,12 @@ export const axios = {
     getComponentMetadata,
     getBlockCode,
     getAvailableBlocks,
+    getAvailableStyles,
+    getBaseColors,
+    getBaseColor,
+    getRegistryItems,
+    getRegistryItemSource,
+    resolveRef,
     setGitHubApiKey,
     getGitHubRateLimit,
     // Path constants for easy access
@@ -846,6 +1014,8 @@ export const axios = {
         REPO_NAME,
         REPO_BRANCH,
         REGISTRY_PATH,
-        BLOCKS
+        BLOCKS,
+        COLORS_PATH,
+        DEFAULT_STYLE
     }
 }
\ No newline at end of file
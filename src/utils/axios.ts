@@ -1,5 +1,8 @@
 import { Axios } from "axios";
 import { logError, logWarning, logInfo } from './logger.js';
+import type { ProgressReporter } from './progress.js';
+import { warnIfRateLimited } from './rate-limit.js';
+import { reportDegradation } from './response-meta.js';
 
 // Constants for the v4 repository structure
 const REPO_OWNER = 'shadcn-ui';
@@ -8,6 +11,11 @@ const REPO_BRANCH = 'main';
 const V4_BASE_PATH = 'apps/v4';
 const REGISTRY_PATH = `${V4_BASE_PATH}/registry`;
 const NEW_YORK_V4_PATH = `${REGISTRY_PATH}/new-york-v4`;
+// Base colors are read from the built registry JSON
+const COLORS_PATH = `${V4_BASE_PATH}/public/r/colors`;
+// Pre-v4 styles ("default", "new-york") live in the legacy www app
+const LEGACY_REGISTRY_PATH = 'apps/www/registry';
+const DEFAULT_STYLE = 'new-york-v4';
 
 // GitHub API for accessing repository structure and metadata
 const githubApi = new Axios({
@@ -30,9 +38,21 @@ const githubApi = new Axios({
     }],
 });
 
+// Warn when a response reports the rate limit exhausted
+githubApi.interceptors.response.use(
+    (response) => {
+        warnIfRateLimited(response.headers);
+        return response;
+    },
+    (error) => {
+        warnIfRateLimited(error.response?.headers);
+        return Promise.reject(error);
+    }
+);
+
 // GitHub Raw for directly fetching file contents
 const githubRaw = new Axios({
-    baseURL: `https://raw.githubusercontent.com/${REPO_OWNER}/${REPO_NAME}/${REPO_BRANCH}`,
+    baseURL: `https://raw.githubusercontent.com/${REPO_OWNER}/${REPO_NAME}`, // Paths are prefixed with a git ref
     headers: {
         "User-Agent": "Mozilla/5.0 (compatible; ShadcnUiMcpServer/1.0.0)",
     },
@@ -40,46 +60,178 @@ const githubRaw = new Axios({
     transformResponse: [(data) => data], // Return raw data
 });
 
+/**
+ * Repository path of a style's registry directory
+ * @param style Style name (e.g., "new-york-v4", "default")
+ */
+function getStylePath(style: string = DEFAULT_STYLE): string {
+    return style.endsWith('-v4') ? `${REGISTRY_PATH}/${style}` : `${LEGACY_REGISTRY_PATH}/${style}`;
+}
+
+/**
+ * Resolve a git ref to the commit SHA it currently points at
+ * @param ref Branch, tag or commit SHA (default: main)
+ * @returns Promise with the full commit SHA
+ */
+async function resolveRef(ref: string = REPO_BRANCH): Promise<string> {
+    const response = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/commits/${encodeURIComponent(ref)}`);
+    if (response.status !== 200 || typeof response.data?.sha !== 'string') {
+        throw new Error(`Git ref "${ref}" not found in ${REPO_OWNER}/${REPO_NAME}`);
+    }
+    return response.data.sha;
+}
+
+/**
+ * List the styles published in the repository (v4 styles and legacy www styles)
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
+ * @returns Promise with style names
+ */
+async function getAvailableStyles(ref: string = REPO_BRANCH): Promise<string[]> {
+    const listDirectories = async (path: string): Promise<string[]> => {
+        const response = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${path}?ref=${ref}`);
+        if (!Array.isArray(response.data)) {
+            return [];
+        }
+        return response.data.filter((item: any) => item.type === 'dir').map((item: any) => item.name);
+    };
+
+    const [v4, legacy] = await Promise.all([
+        listDirectories(REGISTRY_PATH),
+        listDirectories(LEGACY_REGISTRY_PATH).catch(() => [])
+    ]);
+    const styles = [...v4.filter(name => name.endsWith('-v4')), ...legacy.filter(name => !name.startsWith('_'))];
+
+    if (styles.length === 0) {
+        throw new Error('No styles found in the registry');
+    }
+    return styles;
+}
+
+/**
+ * List the items of a registry directory other than ui and blocks (charts, hooks, lib, examples)
+ * @param directory Registry directory (e.g., "hooks")
+ * @param style Registry style (default: new-york-v4)
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
+ * @returns Promise with item names and repository paths
+ */
+async function getRegistryItems(directory: string, style: string = DEFAULT_STYLE, ref: string = REPO_BRANCH): Promise<Array<{ name: string; path: string }>> {
+    const response = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${getStylePath(style)}/${directory}?ref=${ref}`);
+    if (!Array.isArray(response.data)) {
+        throw new Error(`Directory "${directory}" not found in ${style} registry`);
+    }
+    return response.data
+        .filter((item: any) => item.type === 'file' && /\.tsx?$/.test(item.name) && !item.name.startsWith('_'))
+        .map((item: any) => ({ name: item.name.replace(/\.tsx?$/, ''), path: item.path }));
+}
+
+/**
+ * Fetch the source of a chart, hook, lib or example item
+ * @param directory Registry directory (e.g., "hooks")
+ * @param name Item name (e.g., "use-mobile")
+ * @param style Registry style (default: new-york-v4)
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
+ * @returns Promise with the item source code
+ */
+async function getRegistryItemSource(directory: string, name: string, style: string = DEFAULT_STYLE, ref: string = REPO_BRANCH): Promise<string> {
+    // The extension is not part of the item name; try each one the registry uses
+    for (const extension of ['.tsx', '.ts']) {
+        const response = await githubRaw.get(`/${ref}/${getStylePath(style)}/${directory}/${name.toLowerCase()}${extension}`);
+        if (response.status === 200) {
+            return response.data;
+        }
+    }
+    throw new Error(`Item "${name}" not found in ${directory} of ${style} registry`);
+}
+
+/**
+ * List the base colors published in the shadcn/ui registry
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
+ * @returns Promise with base color names
+ */
+async function getBaseColors(ref: string = REPO_BRANCH): Promise<string[]> {
+    const response = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${COLORS_PATH}?ref=${ref}`);
+    if (!Array.isArray(response.data)) {
+        throw new Error('No base colors found in the registry');
+    }
+    return response.data
+        .filter((item: any) => item.type === 'file' && item.name.endsWith('.json') && item.name !== 'index.json')
+        .map((item: any) => item.name.replace(/\.json$/, ''))
+        .sort();
+}
+
+/**
+ * Fetch a base color's theme definition (the registry's colors/<name>.json)
+ * @param name Base color name (e.g., "neutral", "zinc")
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
+ * @returns Promise with the parsed base color JSON
+ */
+async function getBaseColor(name: string, ref: string = REPO_BRANCH): Promise<unknown> {
+    let response;
+    try {
+        response = await githubRaw.get(`/${ref}/${COLORS_PATH}/${name.toLowerCase()}.json`);
+    } catch (error) {
+        throw new Error(`Base color "${name}" not found in shadcn/ui registry`);
+    }
+    if (response.status !== 200) {
+        throw new Error(`Base color "${name}" not found in shadcn/ui registry`);
+    }
+    return JSON.parse(response.data);
+}
+
 /**
  * Fetch component source code from the v4 registry
  * @param componentName Name of the component
+ * @param style Registry style (default: new-york-v4)
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
+ * @param signal Aborts the request
  * @returns Promise with component source code
  */
-async function getComponentSource(componentName: string): Promise<string> {
-    const componentPath = `${NEW_YORK_V4_PATH}/ui/${componentName.toLowerCase()}.tsx`;
+async function getComponentSource(componentName: string, style: string = DEFAULT_STYLE, ref: string = REPO_BRANCH, signal?: AbortSignal): Promise<string> {
+    const componentPath = `${getStylePath(style)}/ui/${componentName.toLowerCase()}.tsx`;
     
     try {
-        const response = await githubRaw.get(`/${componentPath}`);
+        const response = await githubRaw.get(`/${ref}/${componentPath}`, { signal });
         return response.data;
     } catch (error) {
-        throw new Error(`Component "${componentName}" not found in v4 registry`);
+        if (signal?.aborted) {
+            throw error;
+        }
+        throw new Error(`Component "${componentName}" not found in ${style} registry`);
     }
 }
 
 /**
  * Fetch component demo/example from the v4 registry
  * @param componentName Name of the component
+ * @param style Registry style (default: new-york-v4)
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
+ * @param signal Aborts the request
  * @returns Promise with component demo code
  */
-async function getComponentDemo(componentName: string): Promise<string> {
-    const demoPath = `${NEW_YORK_V4_PATH}/examples/${componentName.toLowerCase()}-demo.tsx`;
+async function getComponentDemo(componentName: string, style: string = DEFAULT_STYLE, ref: string = REPO_BRANCH, signal?: AbortSignal): Promise<string> {
+    const demoPath = `${getStylePath(style)}/examples/${componentName.toLowerCase()}-demo.tsx`;
     
     try {
-        const response = await githubRaw.get(`/${demoPath}`);
+        const response = await githubRaw.get(`/${ref}/${demoPath}`, { signal });
         return response.data;
     } catch (error) {
-        throw new Error(`Demo for component "${componentName}" not found in v4 registry`);
+        if (signal?.aborted) {
+            throw error;
+        }
+        throw new Error(`Demo for component "${componentName}" not found in ${style} registry`);
     }
 }
 
 /**
  * Fetch all available components from the registry
+ * @param style Registry style (default: new-york-v4)
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
  * @returns Promise with list of component names
  */
-async function getAvailableComponents(): Promise<string[]> {
+async function getAvailableComponents(style: string = DEFAULT_STYLE, ref: string = REPO_BRANCH): Promise<string[]> {
     try {
         // First try the GitHub API
-        const response = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${NEW_YORK_V4_PATH}/ui`);
+        const response = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${getStylePath(style)}/ui?ref=${ref}`);
         
         if (!response.data || !Array.isArray(response.data)) {
             throw new Error('Invalid response from GitHub API');
@@ -105,7 +257,7 @@ async function getAvailableComponents(): Promise<string[]> {
             if (status === 403 && message.includes('rate limit')) {
                 throw new Error(`GitHub API rate limit exceeded. Please set GITHUB_PERSONAL_ACCESS_TOKEN environment variable for higher limits. Error: ${message}`);
             } else if (status === 404) {
-                throw new Error(`Components directory not found. The path ${NEW_YORK_V4_PATH}/ui may not exist in the repository.`);
+                throw new Error(`Components directory not found. The path ${getStylePath(style)}/ui may not exist in the repository.`);
             } else if (status === 401) {
                 throw new Error(`Authentication failed. Please check your GITHUB_PERSONAL_ACCESS_TOKEN if provided.`);
             } else {
@@ -120,6 +272,7 @@ async function getAvailableComponents(): Promise<string[]> {
         
         // If all else fails, provide a fallback list of known components
         logWarning('Using fallback component list due to API issues');
+        reportDegradation('partial-data');
         return getFallbackComponents();
     }
 }
@@ -182,11 +335,13 @@ function getFallbackComponents(): string[] {
 /**
  * Fetch component metadata from the registry
  * @param componentName Name of the component
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
+ * @param signal Aborts the request
  * @returns Promise with component metadata
  */
-async function getComponentMetadata(componentName: string): Promise<any> {
+async function getComponentMetadata(componentName: string, ref: string = REPO_BRANCH, signal?: AbortSignal): Promise<any> {
     try {
-        const response = await githubRaw.get(`/${REGISTRY_PATH}/registry-ui.ts`);
+        const response = await githubRaw.get(`/${ref}/${REGISTRY_PATH}/registry-ui.ts`, { signal });
         const registryContent = response.data;
         
         // Parse component metadata using a more robust approach
@@ -202,12 +357,14 @@ async function getComponentMetadata(componentName: string): Promise<any> {
         // Extract metadata
         const nameMatch = componentData.match(/name:\s*["']([^"']+)["']/);
         const typeMatch = componentData.match(/type:\s*["']([^"']+)["']/);
+        const descriptionMatch = componentData.match(/description:\s*["']([^"']+)["']/);
         const dependenciesMatch = componentData.match(/dependencies:\s*\[([^\]]*)\]/s);
         const registryDepsMatch = componentData.match(/registryDependencies:\s*\[([^\]]*)\]/s);
         
         return {
             name: nameMatch?.[1] || componentName,
             type: typeMatch?.[1] || 'registry:ui',
+            description: descriptionMatch?.[1],
             dependencies: dependenciesMatch?.[1] 
                 ? dependenciesMatch[1].split(',').map((dep: string) => dep.trim().replace(/["']/g, ''))
                 : [],
@@ -216,6 +373,9 @@ async function getComponentMetadata(componentName: string): Promise<any> {
                 : [],
         };
     } catch (error) {
+        if (signal?.aborted) {
+            throw error;
+        }
         logError(`Error getting metadata for ${componentName}`, error);
         return null;
     }
@@ -227,16 +387,21 @@ async function getComponentMetadata(componentName: string): Promise<any> {
  * @param repo Repository name  
  * @param path Path within the repository to start building the tree from
  * @param branch Branch name
+ * @param progress Reporter told about every directory listed
+ * @param signal Aborts the remaining requests
  * @returns Promise resolving to the directory tree structure
  */
 async function buildDirectoryTree(
     owner: string = REPO_OWNER,
     repo: string = REPO_NAME,
     path: string = NEW_YORK_V4_PATH,
-    branch: string = REPO_BRANCH
+    branch: string = REPO_BRANCH,
+    progress?: ProgressReporter,
+    signal?: AbortSignal
 ): Promise<any> {
     try {
-        const response = await githubApi.get(`/repos/${owner}/${repo}/contents/${path}?ref=${branch}`);
+        const response = await githubApi.get(`/repos/${owner}/${repo}/contents/${path}?ref=${branch}`, { signal });
+        progress?.step(`Listed ${path}`);
         
         if (!response.data) {
             throw new Error('No data received from GitHub API');
@@ -279,6 +444,11 @@ async function buildDirectoryTree(
             children: {},
         };
 
+        // Every subdirectory within the depth limit is listed in turn
+        if (path.split('/').length < 8) {
+            progress?.expect(contents.filter((item: any) => item.type === 'dir').length);
+        }
+
         // Process each item
         for (const item of contents) {
             if (item.type === 'file') {
@@ -294,9 +464,12 @@ async function buildDirectoryTree(
                 // Recursively process subdirectory (limit depth to avoid infinite recursion)
                 if (path.split('/').length < 8) {
                     try {
-                        const subTree = await buildDirectoryTree(owner, repo, item.path, branch);
+                        const subTree = await buildDirectoryTree(owner, repo, item.path, branch, progress, signal);
                         result.children[item.name] = subTree;
                     } catch (error) {
+                        if (signal?.aborted) {
+                            throw error;
+                        }
                         logWarning(`Failed to fetch subdirectory ${item.path}: ${error instanceof Error ? error.message : String(error)}`);
                         result.children[item.name] = {
                             path: item.path,
@@ -373,6 +546,11 @@ function getBasicV4Structure(): any {
                 path: `${NEW_YORK_V4_PATH}/lib`,
                 type: 'directory',
                 description: 'Contains utility libraries and functions'
+            },
+            'charts': {
+                path: `${NEW_YORK_V4_PATH}/charts`,
+                type: 'directory',
+                description: 'Contains chart examples built on Recharts'
             }
         }
     };
@@ -504,14 +682,17 @@ async function buildDirectoryTreeWithFallback(
     owner: string = REPO_OWNER,
     repo: string = REPO_NAME,
     path: string = NEW_YORK_V4_PATH,
-    branch: string = REPO_BRANCH
+    branch: string = REPO_BRANCH,
+    progress?: ProgressReporter,
+    signal?: AbortSignal
 ): Promise<any> {
     try {
-        return await buildDirectoryTree(owner, repo, path, branch);
+        return await buildDirectoryTree(owner, repo, path, branch, progress, signal);
     } catch (error: any) {
         // If it's a rate limit error and we're asking for the default v4 path, provide fallback
         if (error.message && error.message.includes('rate limit') && path === NEW_YORK_V4_PATH) {
                     logWarning('Using fallback directory structure due to rate limit');
+        reportDegradation('partial-data');
         return getBasicV4Structure();
         }
         // Re-throw other errors
@@ -523,17 +704,22 @@ async function buildDirectoryTreeWithFallback(
  * Fetch block code from the v4 blocks directory
  * @param blockName Name of the block (e.g., "calendar-01", "dashboard-01")
  * @param includeComponents Whether to include component files for complex blocks
+ * @param style Registry style (default: new-york-v4)
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
+ * @param progress Reporter told about every file fetched
+ * @param signal Aborts the remaining requests
  * @returns Promise with block code and structure
  */
-async function getBlockCode(blockName: string, includeComponents: boolean = true): Promise<any> {
-    const blocksPath = `${NEW_YORK_V4_PATH}/blocks`;
+async function getBlockCode(blockName: string, includeComponents: boolean = true, style: string = DEFAULT_STYLE, ref: string = REPO_BRANCH, progress?: ProgressReporter, signal?: AbortSignal): Promise<any> {
+    const blocksPath = `${getStylePath(style)}/blocks`;
     
     try {
         // First, check if it's a simple block file (.tsx)
         try {
-            const simpleBlockResponse = await githubRaw.get(`/${blocksPath}/${blockName}.tsx`);
+            const simpleBlockResponse = await githubRaw.get(`/${ref}/${blocksPath}/${blockName}.tsx`, { signal });
             if (simpleBlockResponse.status === 200) {
                 const code = simpleBlockResponse.data;
+                progress?.step(`Fetched ${blocksPath}/${blockName}.tsx`);
                 
                 // Extract useful information from the code
                 const description = extractBlockDescription(code);
@@ -557,7 +743,8 @@ async function getBlockCode(blockName: string, includeComponents: boolean = true
         }
         
         // Check if it's a complex block directory
-        const directoryResponse = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${blocksPath}/${blockName}?ref=${REPO_BRANCH}`);
+        const directoryResponse = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${blocksPath}/${blockName}?ref=${ref}`, { signal });
+        progress?.step(`Listed ${blocksPath}/${blockName}`);
         
         if (!directoryResponse.data) {
             throw new Error(`Block "${blockName}" not found`);
@@ -577,12 +764,14 @@ async function getBlockCode(blockName: string, includeComponents: boolean = true
         // Process the directory contents
         if (Array.isArray(directoryResponse.data)) {
             blockStructure.totalFiles = directoryResponse.data.length;
+            progress?.expect(directoryResponse.data.filter((item: any) => item.type === 'file' || (item.type === 'dir' && item.name === 'components' && includeComponents)).length);
             
             for (const item of directoryResponse.data) {
                 if (item.type === 'file') {
                     // Get the main page file
-                    const fileResponse = await githubRaw.get(`/${item.path}`);
+                    const fileResponse = await githubRaw.get(`/${ref}/${item.path}`, { signal });
                     const content = fileResponse.data;
+                    progress?.step(`Fetched ${item.path}`);
                     
                     // Extract information from the file
                     const description = extractBlockDescription(content);
@@ -616,16 +805,19 @@ async function getBlockCode(blockName: string, includeComponents: boolean = true
                     }
                 } else if (item.type === 'dir' && item.name === 'components' && includeComponents) {
                     // Get component files
-                    const componentsResponse = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${item.path}?ref=${REPO_BRANCH}`);
-                    
+                    const componentsResponse = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${item.path}?ref=${ref}`, { signal });
+                    progress?.step(`Listed ${item.path}`);
+
                     if (Array.isArray(componentsResponse.data)) {
+                        progress?.expect(componentsResponse.data.filter((componentItem: any) => componentItem.type === 'file').length);
                         blockStructure.files.components = {};
                         const componentStructure: any[] = [];
                         
                         for (const componentItem of componentsResponse.data) {
                             if (componentItem.type === 'file') {
-                                const componentResponse = await githubRaw.get(`/${componentItem.path}`);
+                                const componentResponse = await githubRaw.get(`/${ref}/${componentItem.path}`, { signal });
                                 const content = componentResponse.data;
+                                progress?.step(`Fetched ${componentItem.path}`);
                                 
                                 const dependencies = extractDependencies(content);
                                 const components = extractComponentUsage(content);
@@ -682,13 +874,15 @@ async function getBlockCode(blockName: string, includeComponents: boolean = true
 /**
  * Get all available blocks with categorization
  * @param category Optional category filter
+ * @param style Registry style (default: new-york-v4)
+ * @param ref Git ref (branch, tag or commit SHA) to read from (default: main)
  * @returns Promise with categorized block list
  */
-async function getAvailableBlocks(category?: string): Promise<any> {
-    const blocksPath = `${NEW_YORK_V4_PATH}/blocks`;
+async function getAvailableBlocks(category?: string, style: string = DEFAULT_STYLE, ref: string = REPO_BRANCH): Promise<any> {
+    const blocksPath = `${getStylePath(style)}/blocks`;
     
     try {
-        const response = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${blocksPath}?ref=${REPO_BRANCH}`);
+        const response = await githubApi.get(`/repos/${REPO_OWNER}/${REPO_NAME}/contents/${blocksPath}?ref=${ref}`);
         
         if (!Array.isArray(response.data)) {
             throw new Error('Unexpected response from GitHub API');
@@ -847,6 +1041,12 @@ export const axios = {
     getComponentMetadata,
     getBlockCode,
     getAvailableBlocks,
+    getAvailableStyles,
+    getBaseColors,
+    getBaseColor,
+    getRegistryItems,
+    getRegistryItemSource,
+    resolveRef,
     setGitHubApiKey,
     getGitHubRateLimit,
     // Path constants for easy access
@@ -856,6 +1056,8 @@ export const axios = {
         REPO_BRANCH,
         V4_BASE_PATH,
         REGISTRY_PATH,
-        NEW_YORK_V4_PATH
+        NEW_YORK_V4_PATH,
+        COLORS_PATH,
+        DEFAULT_STYLE
     }
 }
\ No newline at end of file
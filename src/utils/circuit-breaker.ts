@@ -38,18 +38,23 @@ export class CircuitBreaker {
 
   /**
    * Execute a function with circuit breaker protection
+   * @param signal Cancellation of the caller's request, passed on to fn; a cancelled call
+   * is not counted as a failure of the service
    */
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
+  async execute<T>(fn: (signal?: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
     if (this.isOpen()) {
       throw new Error('Service temporarily unavailable due to previous failures');
     }
+    signal?.throwIfAborted();
 
     try {
-      const result = await fn();
+      const result = await fn(signal);
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      if (!signal?.aborted) {
+        this.onFailure();
+      }
       throw error;
     }
   }
@@ -0,0 +1,498 @@
+/**
+ * Structured component information extracted from source code
+ *
+ * Parses a React component source with the TypeScript compiler API to find the exported
+ * components, the props each one declares (with defaults taken from destructuring), the
+ * prop types it extends and the options of its cva() variant definitions. Props inherited
+ * from primitives such as Radix are resolved with a type checker when the primitive's
+ * package can be found in node_modules; otherwise only the primitive is named.
+ */
+
+import ts from 'typescript';
+import path from 'node:path';
+import type { ComponentInfo, ComponentProp, ComponentVariant, ExportedComponent, VariantDefinition } from '../schemas/component.js';
+import { logWarning } from './logger.js';
+
+export type ExtractedComponentInfo = Required<Pick<ComponentInfo, 'props' | 'components' | 'variants'>>;
+
+/**
+ * Type helpers whose props a component spreads onto its element
+ */
+const COMPONENT_PROPS_TYPES = /^(React\.)?(ComponentProps|ComponentPropsWithoutRef|ComponentPropsWithRef)$/;
+
+/**
+ * Declarations from these files are DOM/React attributes, not primitive-specific props
+ */
+const GENERIC_PROP_SOURCES = /[\\/](@types[\\/]react|typescript[\\/]lib)[\\/]/;
+
+/**
+ * Nesting limit when following local type aliases and interfaces
+ */
+const MAX_TYPE_DEPTH = 5;
+
+/**
+ * Resolved primitive props, by resolution directory, module and export path
+ */
+const primitivePropsCache = new Map<string, ComponentProp[] | undefined>();
+
+interface ImportBinding {
+  module: string;
+  /** Imported name; undefined for namespace imports */
+  imported?: string;
+}
+
+interface PropsAnalysis {
+  props: ComponentProp[];
+  extends: string[];
+  primitive?: { module: string; exportPath: string };
+  variants?: string;
+  omitted: Set<string>;
+}
+
+/**
+ * Per-source parsing context
+ */
+interface SourceContext {
+  sourceFile: ts.SourceFile;
+  imports: Map<string, ImportBinding>;
+  types: Map<string, ts.InterfaceDeclaration | ts.TypeAliasDeclaration>;
+  variants: Map<string, { definition: VariantDefinition; defaults: Record<string, string> }>;
+}
+
+function getPropertyName(name: ts.PropertyName | ts.BindingName): string | undefined {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) || ts.isPrivateIdentifier(name)) {
+    return name.text;
+  }
+  return undefined;
+}
+
+/**
+ * Literal value of an expression: string contents for string literals, source text otherwise
+ */
+function getLiteralText(node: ts.Node, sourceFile: ts.SourceFile): string {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+  return node.getText(sourceFile);
+}
+
+function getDocumentation(node: ts.Node): string {
+  const comments = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+  return comments.map(comment => ts.getTextOfJSDocComment(comment.comment) ?? '').join('\n').trim();
+}
+
+function collectImports(sourceFile: ts.SourceFile): Map<string, ImportBinding> {
+  const imports = new Map<string, ImportBinding>();
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier) || !statement.importClause) {
+      continue;
+    }
+    const module = statement.moduleSpecifier.text;
+    const bindings = statement.importClause.namedBindings;
+    if (statement.importClause.name) {
+      imports.set(statement.importClause.name.text, { module, imported: 'default' });
+    }
+    if (bindings && ts.isNamespaceImport(bindings)) {
+      imports.set(bindings.name.text, { module });
+    } else if (bindings && ts.isNamedImports(bindings)) {
+      for (const element of bindings.elements) {
+        imports.set(element.name.text, { module, imported: (element.propertyName ?? element.name).text });
+      }
+    }
+  }
+  return imports;
+}
+
+/**
+ * Read a cva("base", { variants, defaultVariants }) call
+ */
+function readVariantDefinition(name: string, call: ts.CallExpression, sourceFile: ts.SourceFile) {
+  const config = call.arguments[1];
+  const variants: ComponentVariant[] = [];
+  const defaults: Record<string, string> = {};
+  if (!config || !ts.isObjectLiteralExpression(config)) {
+    return { definition: { name, variants }, defaults };
+  }
+
+  for (const property of config.properties) {
+    if (!ts.isPropertyAssignment(property) || !ts.isObjectLiteralExpression(property.initializer)) {
+      continue;
+    }
+    const key = getPropertyName(property.name);
+    if (key === 'defaultVariants') {
+      for (const entry of property.initializer.properties) {
+        const group = ts.isPropertyAssignment(entry) ? getPropertyName(entry.name) : undefined;
+        if (group && ts.isPropertyAssignment(entry)) {
+          defaults[group] = getLiteralText(entry.initializer, sourceFile);
+        }
+      }
+    } else if (key === 'variants') {
+      for (const group of property.initializer.properties) {
+        const groupName = getPropertyName(group.name!);
+        if (!groupName || !ts.isPropertyAssignment(group) || !ts.isObjectLiteralExpression(group.initializer)) {
+          continue;
+        }
+        variants.push({
+          name: groupName,
+          options: group.initializer.properties
+            .map(option => option.name && getPropertyName(option.name))
+            .filter((option): option is string => Boolean(option))
+        });
+      }
+    }
+  }
+
+  for (const variant of variants) {
+    if (defaults[variant.name] !== undefined) {
+      variant.default = defaults[variant.name];
+    }
+  }
+  return { definition: { name, variants }, defaults };
+}
+
+function isCvaCall(node: ts.Expression, imports: Map<string, ImportBinding>): node is ts.CallExpression {
+  if (!ts.isCallExpression(node) || !ts.isIdentifier(node.expression)) {
+    return false;
+  }
+  const binding = imports.get(node.expression.text);
+  return binding?.module === 'class-variance-authority' && binding.imported === 'cva';
+}
+
+/**
+ * Describe the module export an expression such as `SwitchPrimitive.Root` refers to
+ */
+function resolveImportedExpression(expression: ts.Node, imports: Map<string, ImportBinding>): { module: string; exportPath: string } | undefined {
+  const parts: string[] = [];
+  let current: ts.Node = expression;
+  while (ts.isPropertyAccessExpression(current) || ts.isQualifiedName(current)) {
+    parts.unshift(ts.isPropertyAccessExpression(current) ? current.name.text : current.right.text);
+    current = ts.isPropertyAccessExpression(current) ? current.expression : current.left;
+  }
+  if (!ts.isIdentifier(current)) {
+    return undefined;
+  }
+  const binding = imports.get(current.text);
+  if (!binding) {
+    return undefined;
+  }
+  const exportPath = [...(binding.imported ? [binding.imported] : []), ...parts].join('.');
+  return exportPath ? { module: binding.module, exportPath } : undefined;
+}
+
+/**
+ * Resolve the props of a primitive with a type checker, if its package is installed
+ * under `resolveFrom`. Only props declared by the primitive's own package are returned.
+ */
+export function resolvePrimitiveProps(module: string, exportPath: string, resolveFrom: string = process.cwd()): ComponentProp[] | undefined {
+  const cacheKey = `${resolveFrom}|${module}|${exportPath}`;
+  if (primitivePropsCache.has(cacheKey)) {
+    return primitivePropsCache.get(cacheKey);
+  }
+
+  let props: ComponentProp[] | undefined;
+  try {
+    props = checkPrimitiveProps(module, exportPath, resolveFrom);
+  } catch (error) {
+    logWarning(`Failed to resolve props of ${module}:${exportPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  primitivePropsCache.set(cacheKey, props);
+  return props;
+}
+
+function checkPrimitiveProps(module: string, exportPath: string, resolveFrom: string): ComponentProp[] | undefined {
+  const options: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.Preserve,
+    skipLibCheck: true,
+    noEmit: true,
+    types: []
+  };
+  const probePath = path.join(resolveFrom, '__shadcn_mcp_probe__.ts');
+  const probeSource = `import * as primitive from ${JSON.stringify(module)};\nexport const probe = primitive.${exportPath};\n`;
+
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile.bind(host);
+  host.getSourceFile = (fileName, languageVersion, ...rest) => fileName === probePath
+    ? ts.createSourceFile(fileName, probeSource, languageVersion, true)
+    : getSourceFile(fileName, languageVersion, ...rest);
+  const fileExists = host.fileExists.bind(host);
+  host.fileExists = fileName => fileName === probePath || fileExists(fileName);
+
+  // Skip building a program when the package is not installed
+  if (!ts.resolveModuleName(module, probePath, options, host).resolvedModule) {
+    return undefined;
+  }
+
+  const program = ts.createProgram([probePath], options, host);
+  const checker = program.getTypeChecker();
+  const probe = program.getSourceFile(probePath)!;
+  const declaration = probe.statements.find(ts.isVariableStatement)?.declarationList.declarations[0];
+  if (!declaration) {
+    return undefined;
+  }
+
+  const type = checker.getTypeAtLocation(declaration.name);
+  const propsType = type.getCallSignatures()[0]?.getParameters()[0];
+  if (!propsType) {
+    return undefined;
+  }
+
+  return checker.getPropertiesOfType(checker.getTypeOfSymbolAtLocation(propsType, declaration))
+    .filter(property => {
+      const source = property.declarations?.[0]?.getSourceFile().fileName;
+      return source !== undefined && !GENERIC_PROP_SOURCES.test(source);
+    })
+    .map(property => ({
+      name: property.getName(),
+      type: checker.typeToString(checker.getTypeOfSymbolAtLocation(property, declaration)),
+      description: ts.displayPartsToString(property.getDocumentationComment(checker)),
+      required: (property.flags & ts.SymbolFlags.Optional) === 0,
+      inheritedFrom: `${module}:${exportPath}`
+    }));
+}
+
+/**
+ * Collect the props described by a type node, following local interfaces and type aliases
+ */
+function analyzeType(node: ts.TypeNode | ts.ExpressionWithTypeArguments, context: SourceContext, analysis: PropsAnalysis, depth = 0): void {
+  const { sourceFile } = context;
+  if (depth > MAX_TYPE_DEPTH) {
+    return;
+  }
+
+  if (ts.isParenthesizedTypeNode(node)) {
+    analyzeType(node.type, context, analysis, depth);
+  } else if (ts.isIntersectionTypeNode(node)) {
+    node.types.forEach(type => analyzeType(type, context, analysis, depth));
+  } else if (ts.isTypeLiteralNode(node)) {
+    analyzeMembers(node.members, context, analysis);
+  } else if (ts.isTypeReferenceNode(node) || ts.isExpressionWithTypeArguments(node)) {
+    const name = ts.isTypeReferenceNode(node) ? node.typeName.getText(sourceFile) : node.expression.getText(sourceFile);
+    const typeArguments = node.typeArguments ?? ts.factory.createNodeArray<ts.TypeNode>();
+    const local = context.types.get(name);
+
+    if (name === 'VariantProps' && typeArguments[0] && ts.isTypeQueryNode(typeArguments[0])) {
+      const variants = context.variants.get(typeArguments[0].exprName.getText(sourceFile));
+      if (variants) {
+        analysis.variants = variants.definition.name;
+        for (const variant of variants.definition.variants) {
+          analysis.props.push({
+            name: variant.name,
+            type: variant.options.map(option => JSON.stringify(option)).join(' | '),
+            description: '',
+            required: false,
+            ...(variant.default !== undefined && { default: variant.default })
+          });
+        }
+      }
+    } else if (COMPONENT_PROPS_TYPES.test(name)) {
+      analysis.extends.push(node.getText(sourceFile));
+      const target = typeArguments[0];
+      if (target && ts.isTypeQueryNode(target)) {
+        analysis.primitive ??= resolveImportedExpression(target.exprName, context.imports);
+      }
+    } else if (name === 'Omit' && typeArguments[0]) {
+      analyzeType(typeArguments[0], context, analysis, depth + 1);
+      const keys: readonly ts.TypeNode[] = typeArguments[1] && ts.isUnionTypeNode(typeArguments[1])
+        ? typeArguments[1].types
+        : typeArguments.slice(1, 2);
+      for (const key of keys) {
+        if (ts.isLiteralTypeNode(key)) {
+          analysis.omitted.add(getLiteralText(key.literal, sourceFile));
+        }
+      }
+    } else if (local && ts.isInterfaceDeclaration(local)) {
+      for (const clause of local.heritageClauses ?? []) {
+        clause.types.forEach(type => analyzeType(type, context, analysis, depth + 1));
+      }
+      analyzeMembers(local.members, context, analysis);
+    } else if (local && ts.isTypeAliasDeclaration(local)) {
+      analyzeType(local.type, context, analysis, depth + 1);
+    } else {
+      analysis.extends.push(node.getText(sourceFile));
+    }
+  }
+}
+
+function analyzeMembers(members: ts.NodeArray<ts.TypeElement>, context: SourceContext, analysis: PropsAnalysis): void {
+  for (const member of members) {
+    const name = member.name && getPropertyName(member.name);
+    if (!name || !(ts.isPropertySignature(member) || ts.isMethodSignature(member))) {
+      continue;
+    }
+    analysis.props.push({
+      name,
+      type: ts.isPropertySignature(member) ? member.type?.getText(context.sourceFile) ?? 'any' : member.getText(context.sourceFile).replace(/;$/, ''),
+      description: getDocumentation(member),
+      required: !member.questionToken
+    });
+  }
+}
+
+/**
+ * Find the props parameter and type of a component declaration
+ */
+function getPropsSource(initializer: ts.Node): { parameter?: ts.ParameterDeclaration; type?: ts.TypeNode } | undefined {
+  if (ts.isFunctionDeclaration(initializer) || ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+    const parameter = initializer.parameters[0];
+    return { parameter, type: parameter?.type };
+  }
+  // React.forwardRef<Element, Props>((props, ref) => ...)
+  if (ts.isCallExpression(initializer) && /(^|\.)forwardRef$/.test(initializer.expression.getText())) {
+    const render = initializer.arguments[0];
+    const inner = render && getPropsSource(render);
+    return { parameter: inner?.parameter, type: initializer.typeArguments?.[1] ?? inner?.type };
+  }
+  return undefined;
+}
+
+function analyzeComponent(name: string, declaration: ts.Node, context: SourceContext, resolveFrom?: string): ExportedComponent | undefined {
+  const analysis: PropsAnalysis = { props: [], extends: [], omitted: new Set() };
+
+  // const Dialog = DialogPrimitive.Root
+  if (ts.isPropertyAccessExpression(declaration)) {
+    analysis.primitive = resolveImportedExpression(declaration, context.imports);
+    if (!analysis.primitive) {
+      return undefined;
+    }
+  } else {
+    const source = getPropsSource(declaration);
+    if (!source) {
+      return undefined;
+    }
+    if (source.type) {
+      analyzeType(source.type, context, analysis);
+    }
+
+    // Destructuring defaults: ({ variant = "default", asChild = false, ...props })
+    if (source.parameter && ts.isObjectBindingPattern(source.parameter.name)) {
+      for (const element of source.parameter.name.elements) {
+        const propName = element.dotDotDotToken ? undefined : getPropertyName(element.propertyName ?? element.name);
+        if (!propName || !element.initializer) {
+          continue;
+        }
+        const value = getLiteralText(element.initializer, context.sourceFile);
+        const prop = analysis.props.find(candidate => candidate.name === propName);
+        if (prop) {
+          prop.default = value;
+        } else {
+          analysis.props.push({ name: propName, type: 'unknown', description: '', required: false, default: value });
+        }
+      }
+    }
+  }
+
+  const primitive = analysis.primitive && `${analysis.primitive.module}:${analysis.primitive.exportPath}`;
+  if (analysis.primitive) {
+    const inherited = resolvePrimitiveProps(analysis.primitive.module, analysis.primitive.exportPath, resolveFrom) ?? [];
+    for (const prop of inherited) {
+      const declared = analysis.props.find(candidate => candidate.name === prop.name);
+      if (!declared) {
+        analysis.props.push({ ...prop });
+      } else if (declared.type === 'unknown') {
+        // A default given in destructuring for an inherited prop
+        Object.assign(declared, { ...prop, default: declared.default });
+      }
+    }
+  }
+
+  const seen = new Set<string>();
+  return {
+    name,
+    props: analysis.props.filter(prop => !analysis.omitted.has(prop.name) && !seen.has(prop.name) && seen.add(prop.name)),
+    extends: analysis.extends,
+    ...(primitive && { primitive }),
+    ...(analysis.variants && { variants: analysis.variants })
+  };
+}
+
+/**
+ * PascalCase component name for a registry name ("alert-dialog" -> "AlertDialog")
+ */
+function toComponentName(name: string): string {
+  return name.split(/[-_]/).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('');
+}
+
+/**
+ * Extract exported components, their props and cva variants from a React component source
+ * @param source Component source (TSX)
+ * @param options.name Registry name of the component; its props become the top-level `props`
+ * @param options.resolveFrom Directory whose node_modules primitive packages are resolved from
+ */
+export function extractComponentInfo(source: string, options: { name?: string; resolveFrom?: string } = {}): ExtractedComponentInfo {
+  const sourceFile = ts.createSourceFile('component.tsx', source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+  const context: SourceContext = {
+    sourceFile,
+    imports: collectImports(sourceFile),
+    types: new Map(),
+    variants: new Map()
+  };
+
+  const declarations = new Map<string, ts.Node>();
+  const exported = new Map<string, string>(); // exported name -> local name
+  const isExported = (node: ts.Node) => ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) {
+      context.types.set(statement.name.text, statement);
+    } else if (ts.isFunctionDeclaration(statement) && statement.name) {
+      declarations.set(statement.name.text, statement);
+      if (isExported(statement)) exported.set(statement.name.text, statement.name.text);
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name) || !declaration.initializer) {
+          continue;
+        }
+        const name = declaration.name.text;
+        if (isCvaCall(declaration.initializer, context.imports)) {
+          context.variants.set(name, readVariantDefinition(name, declaration.initializer, sourceFile));
+        } else {
+          declarations.set(name, declaration.initializer);
+        }
+        if (isExported(statement)) exported.set(name, name);
+      }
+    } else if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const element of statement.exportClause.elements) {
+        exported.set(element.name.text, (element.propertyName ?? element.name).text);
+      }
+    }
+  }
+
+  const components: ExportedComponent[] = [];
+  for (const [exportedName, localName] of exported) {
+    const declaration = declarations.get(localName);
+    if (!declaration || !/^[A-Z]/.test(exportedName)) {
+      continue;
+    }
+    const component = analyzeComponent(exportedName, declaration, context, options.resolveFrom);
+    if (component) {
+      components.push(component);
+    }
+  }
+
+  const variants = [...exported.values()]
+    .map(name => context.variants.get(name)?.definition)
+    .filter((definition): definition is VariantDefinition => definition !== undefined);
+  // Variant definitions used internally still describe the component's options
+  for (const [name, { definition }] of context.variants) {
+    if (!variants.some(variant => variant.name === name)) {
+      variants.push(definition);
+    }
+  }
+
+  const main = components.find(component => options.name && component.name === toComponentName(options.name)) ?? components[0];
+  return {
+    props: main?.props ?? [],
+    components,
+    variants
+  };
+}
+
+/**
+ * Reset the primitive props cache (testing only)
+ */
+export function __resetComponentInfoForTesting(): void {
+  primitivePropsCache.clear();
+}
@@ -0,0 +1,29 @@
+/**
+ * Bounded concurrency for fan-out over many items, so a long list does not fire a request
+ * per item at once
+ */
+
+/**
+ * Map items with at most `limit` calls of fn in flight, keeping the order of the items
+ * @throws The first error of fn; items not started yet are skipped
+ */
+export async function mapWithConcurrency<T, R>(items: readonly T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+}
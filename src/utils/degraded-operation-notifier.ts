@@ -137,8 +137,8 @@ export class DegradedOperationNotifier {
       type: 'serving-stale',
       tier,
       key,
-      message: `Serving stale data (${Math.round(age / 1000)}s old)`,
-      severity: 'info',
+      message: `Serving stale data for ${key} (${Math.round(age / 1000)}s old)`,
+      severity: 'warning',
       timestamp: Date.now(),
       context: { key, age }
     });
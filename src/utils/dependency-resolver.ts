@@ -0,0 +1,191 @@
+/**
+ * Transitive dependency resolution for shadcn components and blocks
+ *
+ * Walks `registryDependencies` depth-first from the requested items, producing
+ * an install order in which every item appears after its dependencies. Cycles
+ * are reported rather than treated as fatal: the back edge is skipped so the
+ * remaining graph can still be ordered.
+ */
+
+export type DependencyItemType = 'component' | 'block';
+
+/**
+ * Dependency information for a single registry item
+ */
+export interface DependencyInfo {
+  dependencies: string[];
+  registryDependencies: string[];
+}
+
+/**
+ * Loads dependency information for an item, or returns null if it does not exist.
+ * Errors are reported as unresolved items with their message.
+ */
+export type DependencyLoader = (name: string, type: DependencyItemType) => Promise<DependencyInfo | null>;
+
+export interface ResolvedItem {
+  name: string;
+  type: DependencyItemType;
+  dependencies: string[];
+  registryDependencies: string[];
+}
+
+export interface DependencyResolution {
+  installOrder: ResolvedItem[];
+  npmPackages: string[];
+  cycles: string[][];
+  unresolved: Array<{ name: string; type: DependencyItemType; reason: string }>;
+  external: string[];
+}
+
+/**
+ * Packages every shadcn project already has; never worth adding explicitly
+ */
+const FRAMEWORK_PACKAGES = new Set(['react', 'react-dom', 'next', 'svelte', '@sveltejs/kit']);
+
+/**
+ * Reduce an import specifier or versioned dependency to its npm package name
+ * ("next/link" -> "next", "@radix-ui/react-slot@1.1.0" -> "@radix-ui/react-slot")
+ */
+export function toPackageName(specifier: string): string {
+  const parts = specifier.trim().split('/');
+  const name = specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+  return name.replace(/(.)@[^@/]*$/, '$1');
+}
+
+/**
+ * Registry UI imports, e.g. "@/registry/new-york-v4/ui/button", "@/components/ui/button"
+ * or "$lib/components/ui/button/index.js"
+ */
+const UI_IMPORT_REGEX = /from\s+['"](?:@|\$lib)\/[^'"]*?\bui\/([a-z0-9-]+)/g;
+
+/**
+ * Module specifiers of static imports and re-exports
+ */
+const IMPORT_REGEX = /(?:import|export)\s+(?:[^'";]*?\s+from\s+)?['"]([^'"]+)['"]/g;
+
+/**
+ * Derive dependencies from a source file's imports: npm packages from bare specifiers,
+ * registry dependencies from imports of registry UI components
+ */
+export function extractSourceDependencies(source: string): DependencyInfo {
+  const dependencies = new Set<string>();
+  const registryDependencies = new Set<string>();
+
+  for (const match of source.matchAll(IMPORT_REGEX)) {
+    const specifier = match[1];
+    // Relative paths and project aliases ("@/", "$lib/", "~/") are not packages
+    if (!/^(\.|@\/|\$|~\/)/.test(specifier)) {
+      const name = toPackageName(specifier);
+      if (!FRAMEWORK_PACKAGES.has(name)) {
+        dependencies.add(name);
+      }
+    }
+  }
+  for (const match of source.matchAll(UI_IMPORT_REGEX)) {
+    registryDependencies.add(match[1]);
+  }
+
+  return {
+    dependencies: Array.from(dependencies).sort(),
+    registryDependencies: Array.from(registryDependencies).sort()
+  };
+}
+
+/**
+ * Bare names ("button") and namespaced items ("@acme/button") are walked through the loader;
+ * anything else (URLs, local paths) is passed through to the install command as-is
+ */
+function isExternalDependency(dependency: string): boolean {
+  return !/^(@[\w.-]+\/)?[\w.-]+$/.test(dependency);
+}
+
+/**
+ * Resolve the transitive dependency graph of the requested items
+ * @param roots Requested components and blocks
+ * @param load Dependency loader
+ * @param signal Aborted when the caller cancels; loader errors after that are rethrown instead of reported
+ * @returns Install order, merged npm packages, detected cycles and unresolved items
+ */
+export async function resolveDependencies(
+  roots: Array<{ name: string; type: DependencyItemType }>,
+  load: DependencyLoader,
+  signal?: AbortSignal
+): Promise<DependencyResolution> {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const installOrder: ResolvedItem[] = [];
+  const cycles: string[][] = [];
+  const unresolved: DependencyResolution['unresolved'] = [];
+  const external = new Set<string>();
+  const path: string[] = [];
+
+  async function visit(name: string, type: DependencyItemType): Promise<void> {
+    const id = `${type}:${name}`;
+    const current = state.get(id);
+
+    if (current === 'done') {
+      return;
+    }
+    if (current === 'visiting') {
+      cycles.push([...path.slice(path.indexOf(name)), name]);
+      return;
+    }
+
+    state.set(id, 'visiting');
+    path.push(name);
+
+    try {
+      const info = await load(name, type);
+      if (!info) {
+        unresolved.push({ name, type, reason: `${type === 'block' ? 'Block' : 'Component'} not found` });
+        return;
+      }
+
+      for (const dependency of info.registryDependencies) {
+        if (isExternalDependency(dependency)) {
+          external.add(dependency);
+        } else {
+          await visit(dependency, 'component');
+        }
+      }
+
+      installOrder.push({
+        name,
+        type,
+        dependencies: info.dependencies,
+        registryDependencies: info.registryDependencies
+      });
+    } catch (error) {
+      // A cancelled call wants no result at all
+      if (signal?.aborted) {
+        throw error;
+      }
+      unresolved.push({ name, type, reason: error instanceof Error ? error.message : String(error) });
+    } finally {
+      path.pop();
+      state.set(id, 'done');
+    }
+  }
+
+  for (const root of roots) {
+    await visit(root.name, root.type);
+  }
+
+  const npmPackages = new Set<string>();
+  for (const item of installOrder) {
+    for (const dependency of item.dependencies) {
+      const name = toPackageName(dependency);
+      if (name && !FRAMEWORK_PACKAGES.has(name)) {
+        npmPackages.add(name);
+      }
+    }
+  }
+
+  return {
+    installOrder,
+    npmPackages: Array.from(npmPackages).sort(),
+    cycles,
+    unresolved,
+    external: Array.from(external)
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * Line-based unified diffs
+ *
+ * Uses Myers' O(ND) algorithm, so the cost grows with the size of the change rather
+ * than the size of the files. Line endings are normalized to "\n" and a missing final
+ * newline is not reported as a change.
+ */
+
+export interface DiffOperation {
+  type: 'equal' | 'insert' | 'delete';
+  line: string;
+}
+
+export interface UnifiedDiff {
+  /** Unified diff text, empty when the inputs are identical */
+  diff: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface UnifiedDiffOptions {
+  /** Label of the old side ("--- " header); "/dev/null" for added files */
+  oldLabel: string;
+  /** Label of the new side ("+++ " header); "/dev/null" for removed files */
+  newLabel: string;
+  /** Unchanged lines shown around each change (default: 3) */
+  context?: number;
+}
+
+/**
+ * Edit distance beyond which the diff degrades to replacing the whole middle section
+ */
+const MAX_EDIT_DISTANCE = 4000;
+
+/**
+ * Split text into lines, ignoring the final newline
+ */
+export function splitLines(text: string): string[] {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  if (normalized === '') {
+    return [];
+  }
+  return (normalized.endsWith('\n') ? normalized.slice(0, -1) : normalized).split('\n');
+}
+
+/**
+ * Compute the shortest edit script between two lists of lines
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffOperation[] {
+  // Common prefix and suffix never take part in the edit script
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const equal = (lines: string[]) => lines.map(line => ({ type: 'equal' as const, line }));
+  return [
+    ...equal(oldLines.slice(0, prefix)),
+    ...myers(oldLines.slice(prefix, oldLines.length - suffix), newLines.slice(prefix, newLines.length - suffix)),
+    ...equal(oldLines.slice(oldLines.length - suffix))
+  ];
+}
+
+function myers(a: string[], b: string[]): DiffOperation[] {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the furthest x reached on diagonals -d..d after step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(a, b, trace);
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  // Too different to be worth aligning: replace everything
+  return [
+    ...a.map(line => ({ type: 'delete' as const, line })),
+    ...b.map(line => ({ type: 'insert' as const, line }))
+  ];
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffOperation[] {
+  const operations: DiffOperation[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      operations.push({ type: 'equal', line: a[--x] });
+      y--;
+    }
+    if (previousK === k + 1) {
+      operations.push({ type: 'insert', line: b[--y] });
+    } else {
+      operations.push({ type: 'delete', line: a[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    operations.push({ type: 'equal', line: a[--x] });
+    y--;
+  }
+
+  return operations.reverse();
+}
+
+/**
+ * Create a unified diff between two texts
+ */
+export function createUnifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions): UnifiedDiff {
+  const context = options.context ?? 3;
+  const operations = diffLines(splitLines(oldText), splitLines(newText));
+  const changes = operations
+    .map((operation, index) => operation.type === 'equal' ? -1 : index)
+    .filter(index => index >= 0);
+
+  if (changes.length === 0) {
+    return { diff: '', additions: 0, deletions: 0 };
+  }
+
+  // Line counts before each operation, for hunk headers
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  for (const operation of operations) {
+    oldBefore.push(oldCount);
+    newBefore.push(newCount);
+    if (operation.type !== 'insert') oldCount++;
+    if (operation.type !== 'delete') newCount++;
+  }
+
+  const lines = [`--- ${options.oldLabel}`, `+++ ${options.newLabel}`];
+  let additions = 0;
+  let deletions = 0;
+  let groupStart = 0;
+
+  // Changes separated by at most 2 * context unchanged lines share a hunk
+  for (let i = 1; i <= changes.length; i++) {
+    if (i < changes.length && changes[i] - changes[i - 1] - 1 <= 2 * context) {
+      continue;
+    }
+
+    const start = Math.max(0, changes[groupStart] - context);
+    const end = Math.min(operations.length, changes[i - 1] + context + 1);
+    const hunk = operations.slice(start, end);
+    const oldLength = hunk.filter(operation => operation.type !== 'insert').length;
+    const newLength = hunk.filter(operation => operation.type !== 'delete').length;
+
+    lines.push(`@@ -${formatRange(oldBefore[start], oldLength)} +${formatRange(newBefore[start], newLength)} @@`);
+    for (const operation of hunk) {
+      if (operation.type === 'insert') {
+        additions++;
+        lines.push(`+${operation.line}`);
+      } else if (operation.type === 'delete') {
+        deletions++;
+        lines.push(`-${operation.line}`);
+      } else {
+        lines.push(` ${operation.line}`);
+      }
+    }
+    groupStart = i;
+  }
+
+  return { diff: `${lines.join('\n')}\n`, additions, deletions };
+}
+
+/**
+ * Hunk range: empty ranges start at the line before the hunk, single lines omit the count
+ */
+function formatRange(linesBefore: number, length: number): string {
+  if (length === 0) {
+    return `${linesBefore},0`;
+  }
+  return length === 1 ? `${linesBefore + 1}` : `${linesBefore + 1},${length}`;
+}
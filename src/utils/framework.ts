@@ -8,6 +8,7 @@
  * - Set FRAMEWORK environment variable to 'react' or 'svelte'
  * - Or use --framework command line argument
  * - Defaults to 'react' if not specified
+ * - Tools may override the server framework per call with a `framework` argument
  */
 
 import { logInfo, logWarning } from './logger.js';
@@ -15,14 +16,22 @@ import { logInfo, logWarning } from './logger.js';
 // Framework types
 export type Framework = 'react' | 'svelte';
 
+// Supported frameworks
+export const FRAMEWORKS: readonly Framework[] = ['react', 'svelte'];
+
 // Default framework
 const DEFAULT_FRAMEWORK: Framework = 'react';
 
 /**
- * Get the current framework from environment or command line arguments
- * @returns The selected framework ('react' or 'svelte')
+ * Server framework, resolved on first use: the command line and environment do not change
+ * while the server runs, and it is read on every call that does not pass a framework
  */
-export function getFramework(): Framework {
+let serverFramework: Framework | undefined;
+
+/**
+ * Read the framework from command line arguments or the environment
+ */
+function detectFramework(): Framework {
   // Check command line arguments first
   const args = process.argv.slice(2);
   const frameworkIndex = args.findIndex(arg => arg === '--framework' || arg === '-f');
@@ -30,7 +39,6 @@ export function getFramework(): Framework {
   if (frameworkIndex !== -1 && args[frameworkIndex + 1]) {
     const framework = args[frameworkIndex + 1].toLowerCase() as Framework;
     if (framework === 'react' || framework === 'svelte') {
-      logInfo(`Framework set to '${framework}' via command line argument`);
       return framework;
     } else {
       logWarning(`Invalid framework '${framework}' specified. Using default '${DEFAULT_FRAMEWORK}'`);
@@ -40,21 +48,45 @@ export function getFramework(): Framework {
   // Check environment variable
   const envFramework = process.env.FRAMEWORK?.toLowerCase() as Framework;
   if (envFramework === 'react' || envFramework === 'svelte') {
-    logInfo(`Framework set to '${envFramework}' via environment variable`);
     return envFramework;
   }
   
   // Return default
-  logInfo(`Using default framework: '${DEFAULT_FRAMEWORK}'`);
   return DEFAULT_FRAMEWORK;
 }
 
 /**
- * Get the axios implementation based on the current framework
+ * Get the current framework from environment or command line arguments
+ * @returns The selected framework ('react' or 'svelte')
+ */
+export function getFramework(): Framework {
+  return serverFramework ??= detectFramework();
+}
+
+/**
+ * Set the server framework from configuration, as the FRAMEWORK environment variable does
+ */
+export function setConfiguredFramework(framework: string): void {
+  process.env.FRAMEWORK = framework;
+  serverFramework = undefined;
+}
+
+/**
+ * Resolve the framework for a single call
+ * @param framework Framework requested by the caller, if any
+ * @returns The requested framework, or the server framework when none was given
+ */
+export function resolveFramework(framework?: Framework): Framework {
+  return framework ?? getFramework();
+}
+
+/**
+ * Get the axios implementation for a framework
+ * @param framework Framework to use (defaults to the server framework)
  * @returns The appropriate axios implementation
  */
-export async function getAxiosImplementation() {
-  const framework = getFramework();
+export async function getAxiosImplementation(framework?: Framework) {
+  framework = resolveFramework(framework);
   
   if (framework === 'svelte') {
     // Dynamic import for Svelte implementation
@@ -102,4 +134,11 @@ export function validateFrameworkSelection() {
   } else {
     logInfo('To switch to React: set FRAMEWORK=react or use --framework react');
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Reset the server framework so the next call reads it again (for testing)
+ */
+export function __resetFrameworkForTesting(): void {
+  serverFramework = undefined;
+}
@@ -0,0 +1,109 @@
+/**
+ * Git ref pinning for the GitHub-backed registries
+ *
+ * By default every fetch reads the repository's default branch, so the same request can
+ * return different code from one day to the next. A ref (branch, tag or commit SHA) can be
+ * configured for the server with the `ref` configuration option (SHADCN_MCP_REF / --ref),
+ * and tools may override it per call. Each fetch records the commit SHA it read from;
+ * entries fetched at a full commit SHA are immutable and cached without expiry.
+ */
+
+import { getAxiosImplementation, getFramework, type Framework } from './framework.js';
+
+const COMMIT_SHA_REGEX = /^[0-9a-f]{40}$/i;
+
+/**
+ * How long a branch or tag keeps resolving to the same commit before it is looked up again
+ */
+const REF_RESOLUTION_TTL_MS = 5 * 60 * 1000;
+
+let configuredRef: string | undefined;
+
+/**
+ * Resolved commits per framework and ref
+ */
+const resolvedRefs = new Map<string, { sha: Promise<string | null>; expiresAt: number }>();
+
+/**
+ * Set the server ref from configuration
+ */
+export function setConfiguredRef(ref?: string): void {
+  configuredRef = ref || undefined;
+}
+
+/**
+ * Get the ref to fetch from
+ * @param ref Requested ref (defaults to the configured ref)
+ * @returns The ref, or undefined for the repository's default branch
+ */
+export function getRef(ref?: string): string | undefined {
+  return ref || configuredRef;
+}
+
+/**
+ * Whether a ref is a full commit SHA
+ */
+export function isCommitSha(ref: string | undefined): ref is string {
+  return ref !== undefined && COMMIT_SHA_REGEX.test(ref);
+}
+
+/**
+ * Cache-key scope for a ref. Unpinned fetches keep the plain scope so existing cache
+ * entries stay valid; pinned fetches get their own "scope@ref" scope. Commit SHAs are
+ * lowercased, like the SHAs recorded with the entries, so either case shares one scope.
+ * @param scope Framework or style scope (e.g. "react", "react/default")
+ * @param ref Requested ref (defaults to the configured ref)
+ */
+export function getRefScope(scope: string, ref?: string): string {
+  const resolved = getRef(ref);
+  if (!resolved) {
+    return scope;
+  }
+  return `${scope}@${isCommitSha(resolved) ? resolved.toLowerCase() : resolved}`;
+}
+
+/**
+ * Cache TTL for an entry fetched at a ref: entries pinned to a commit SHA never expire
+ * @param ttl TTL in seconds for unpinned entries
+ * @param ref Requested ref (defaults to the configured ref)
+ */
+export function getCacheTTL(ttl: number, ref?: string): number {
+  return isCommitSha(getRef(ref)) ? 0 : ttl;
+}
+
+/**
+ * Resolve a ref to the commit SHA it points at
+ * @param ref Requested ref (defaults to the configured ref, then the default branch)
+ * @param framework Framework whose repository the ref belongs to
+ * @returns The commit SHA, or null when it cannot be looked up (e.g. rate limited)
+ */
+export async function resolveCommit(ref: string | undefined, framework: Framework = getFramework()): Promise<string | null> {
+  const resolved = getRef(ref);
+  if (isCommitSha(resolved)) {
+    return resolved.toLowerCase();
+  }
+
+  const cacheKey = `${framework}@${resolved ?? ''}`;
+  const cached = resolvedRefs.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.sha;
+  }
+
+  const sha = getAxiosImplementation(framework)
+    .then(axios => axios.resolveRef(resolved))
+    .catch(() => {
+      // Do not remember failures; the next call retries
+      resolvedRefs.delete(cacheKey);
+      return null;
+    });
+  resolvedRefs.set(cacheKey, { sha, expiresAt: Date.now() + REF_RESOLUTION_TTL_MS });
+  return sha;
+}
+
+/**
+ * Reset ref state (for testing)
+ */
+export function __resetRefsForTesting(): void {
+  configuredRef = undefined;
+  resolvedRefs.clear();
+}
@@ -1,32 +1,177 @@
 /**
- * Simple console logging wrapper
- * All logging goes to stderr to avoid interfering with JSON-RPC stdout communication
- * All methods use console.error under the hood
+ * Leveled logging
+ * Console output goes to stderr to avoid interfering with JSON-RPC stdout communication,
+ * filtered by LOG_LEVEL (debug, info, warn, error; default: info). LOG_FILE additionally
+ * appends every entry at that level as a JSON line. Sinks receive entries regardless of
+ * level; MCP sessions use one to forward entries to their client as notifications/message.
+ * A session's sink only receives what was logged while handling that session's requests
+ * (see runInLogSession()), and server-wide events such as rate-limit exhaustion.
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { appendFileSync } from 'node:fs';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  error?: {
+    message: string;
+    stack?: string;
+  };
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+const CONSOLE_PREFIXES: Record<LogLevel, string> = {
+  debug: 'DEBUG',
+  info: 'INFO',
+  warn: 'WARN',
+  error: 'ERR'
+};
+
+/**
+ * Parse a level name; "warning" is accepted for warn
+ */
+export function parseLogLevel(value: string | undefined): LogLevel | undefined {
+  const level = value?.trim().toLowerCase();
+  if (level === 'warning') {
+    return 'warn';
+  }
+  return LOG_LEVELS.find(candidate => candidate === level);
+}
+
+/**
+ * Whether an entry at level passes a threshold level
+ */
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+let consoleLevel: LogLevel = parseLogLevel(process.env.LOG_LEVEL) ?? 'info';
+let logFile: string | undefined = process.env.LOG_FILE || undefined;
+/**
+ * Sinks, with the session each is scoped to (undefined for sinks receiving every entry)
+ */
+const sinks = new Map<LogSink, object | undefined>();
+const currentSession = new AsyncLocalStorage<object>();
+
+/**
+ * Override the level and log file read from LOG_LEVEL and LOG_FILE
+ */
+export function configureLogger(options: { level?: LogLevel; file?: string | null }): void {
+  if (options.level) {
+    consoleLevel = options.level;
+  }
+  if (options.file !== undefined) {
+    logFile = options.file ?? undefined;
+  }
+}
+
+export function getLogLevel(): LogLevel {
+  return consoleLevel;
+}
+
+/**
+ * Receive log entries until the returned function is called
+ * @param session Only receive the entries logged in this session (see runInLogSession())
+ *   and server-wide ones; every entry when omitted
+ */
+export function addLogSink(sink: LogSink, session?: object): () => void {
+  sinks.set(sink, session);
+  return () => {
+    sinks.delete(sink);
+  };
+}
+
+/**
+ * Run fn with the entries it logs, including those of the async work it starts, attributed
+ * to a session
+ */
+export function runInLogSession<T>(session: object, fn: () => T): T {
+  return currentSession.run(session, fn);
+}
+
+function log(level: LogLevel, message: string, error?: unknown, serverWide = false): void {
+  const entry: LogEntry = {
+    timestamp: new Date().toISOString(),
+    level,
+    message,
+    ...(error !== undefined && {
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        ...(error instanceof Error && error.stack && { stack: error.stack })
+      }
+    })
+  };
+
+  if (isLevelEnabled(level, consoleLevel)) {
+    console.error(`${CONSOLE_PREFIXES[level]}: ${message}${entry.error ? ` - ${entry.error.message}` : ''}`);
+    if (entry.error?.stack) {
+      console.error(`Stack: ${entry.error.stack}`);
+    }
+
+    if (logFile) {
+      try {
+        appendFileSync(logFile, `${JSON.stringify(entry)}\n`);
+      } catch (fileError) {
+        // Keep logging to the console rather than failing on every entry
+        console.error(`ERR: Failed to write log file ${logFile} - ${fileError instanceof Error ? fileError.message : String(fileError)}`);
+        logFile = undefined;
+      }
+    }
+  }
+
+  const session = currentSession.getStore();
+  for (const [sink, sinkSession] of sinks) {
+    if (sinkSession && !serverWide && sinkSession !== session) {
+      continue;
+    }
+    try {
+      sink(entry);
+    } catch {
+      // A failing sink must not break the caller or the other sinks
+    }
+  }
+}
+
 /**
  * Simple error logging function
  */
 export function logError(message: string, error?: any): void {
-  const errorMessage = error instanceof Error ? error.message : String(error);
-  console.error(`ERR: ${message} - ${errorMessage}`);
-  if (error instanceof Error && error.stack) {
-    console.error(`Stack: ${error.stack}`);
-  }
+  log('error', message, error);
 }
 
 /**
  * Simple warning logging function
  */
 export function logWarning(message: string): void {
-  console.error(`WARN: ${message}`);
+  log('warn', message);
+}
+
+/**
+ * Warning about the server as a whole, sent to the sinks of every session
+ */
+export function logServerWarning(message: string): void {
+  log('warn', message, undefined, true);
 }
 
 /**
  * Simple info logging function
  */
 export function logInfo(message: string): void {
-  console.error(`INFO: ${message}`);
+  log('info', message);
+}
+
+/**
+ * Debug logging function, only written when LOG_LEVEL is debug
+ */
+export function logDebug(message: string): void {
+  log('debug', message);
 }
 
 /**
@@ -35,5 +180,6 @@ export function logInfo(message: string): void {
 export const logger = {
   error: (message: string, error?: any) => logError(message, error),
   warn: (message: string) => logWarning(message),
-  info: (message: string) => logInfo(message)
-}; 
\ No newline at end of file
+  info: (message: string) => logInfo(message),
+  debug: (message: string) => logDebug(message)
+};
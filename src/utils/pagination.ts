@@ -0,0 +1,182 @@
+/**
+ * Cursor pagination and filtering of the component and block lists
+ *
+ * Cursors are opaque to clients: the base64url-encoded offset of the next page. Lists are
+ * paged from the PGLite components/blocks tables when they hold a row for every listed
+ * item; otherwise the cached list itself is filtered, loading the details a filter or
+ * field needs through the item caches (which fills the tables for the next call).
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { queryCachedCatalog } from './storage-integration.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { logWarning } from './logger.js';
+
+/**
+ * Page size when a paged list call sets no limit
+ */
+export const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Items whose details are loaded at once; a usesComponent filter may need every item's
+ */
+const DETAILS_CONCURRENCY = 6;
+
+export function encodeCursor(offset: number): string {
+  return Buffer.from(String(offset)).toString('base64url');
+}
+
+/**
+ * @throws McpError (InvalidParams) for cursors this server did not issue
+ */
+export function decodeCursor(cursor: string): number {
+  const offset = Number(Buffer.from(cursor, 'base64url').toString());
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+  }
+  return offset;
+}
+
+/**
+ * Item of a component or block list, with every field a `fields` projection can select
+ */
+export interface CatalogEntry {
+  name: string;
+  category?: string;
+  type?: 'simple' | 'complex';
+  description?: string;
+  dependencies?: string[];
+  /** Components a component imports */
+  registryDependencies?: string[];
+  /** Components a block imports */
+  componentsUsed?: string[];
+}
+
+export type CatalogField = keyof CatalogEntry;
+
+/**
+ * Pagination, projection and filter arguments of list_components and list_blocks
+ */
+export interface CatalogQuery {
+  cursor?: string;
+  limit?: number;
+  fields?: CatalogField[];
+  usesComponent?: string;
+  type?: 'simple' | 'complex';
+  name?: string;
+}
+
+export interface CatalogPage {
+  items: Array<Partial<CatalogEntry>>;
+  /** Number of items matching the filters, across all pages */
+  total: number;
+  nextCursor?: string;
+  backend: 'pglite' | 'memory';
+}
+
+/**
+ * Whether a list call asked for a page rather than the full list
+ */
+export function isCatalogQuery(query: CatalogQuery): boolean {
+  return [query.cursor, query.limit, query.fields, query.usesComponent, query.type, query.name].some(value => value !== undefined);
+}
+
+/**
+ * Case-insensitive matcher for a name glob ("*" any run of characters, "?" one character)
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${pattern}$`, 'i');
+}
+
+/**
+ * SQL ILIKE pattern for a name glob
+ */
+export function globToLikePattern(glob: string): string {
+  return glob.replace(/[\\%_]/g, '\\$&').replace(/\*/g, '%').replace(/\?/g, '_');
+}
+
+/**
+ * Fields read from an item's source rather than from the list
+ */
+const DETAIL_FIELDS: readonly CatalogField[] = ['dependencies', 'registryDependencies', 'componentsUsed'];
+
+function usedComponents(entry: CatalogEntry): string[] | undefined {
+  return entry.componentsUsed ?? entry.registryDependencies;
+}
+
+function project(entry: CatalogEntry, fields: readonly CatalogField[]): Partial<CatalogEntry> {
+  return Object.fromEntries(fields.filter(field => entry[field] !== undefined).map(field => [field, entry[field]]));
+}
+
+/**
+ * Filter, page and project a component or block list
+ * @param entries Every item of the list, sorted by name
+ * @param query Pagination, projection and filter arguments
+ * @param options.kind Table the list's items are cached in
+ * @param options.scope Cache scope of the list's items (see getCacheScope()); unset for named registries
+ * @param options.defaultFields Fields returned when the query selects none
+ * @param options.loadDetails Load the fields a list entry lacks (dependencies, components used)
+ */
+export async function paginateCatalog(
+  entries: CatalogEntry[],
+  query: CatalogQuery,
+  options: {
+    kind: 'components' | 'blocks';
+    scope?: string;
+    defaultFields: readonly CatalogField[];
+    loadDetails?: (name: string) => Promise<Partial<CatalogEntry>>;
+  }
+): Promise<CatalogPage> {
+  const offset = query.cursor ? decodeCursor(query.cursor) : 0;
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const fields: CatalogField[] = ['name', ...(query.fields ?? options.defaultFields).filter(field => field !== 'name')];
+  const page = (items: CatalogEntry[], total: number, backend: CatalogPage['backend']): CatalogPage => ({
+    items: items.map(entry => project(entry, fields)),
+    total,
+    ...(offset + limit < total && { nextCursor: encodeCursor(offset + limit) }),
+    backend
+  });
+
+  if (options.scope) {
+    const cached = await queryCachedCatalog(options.kind, options.scope, entries.map(entry => entry.name), {
+      namePattern: query.name && globToLikePattern(query.name),
+      usesComponent: query.usesComponent,
+      type: query.type
+    }, offset, limit);
+    if (cached) {
+      const listed = new Map(entries.map(entry => [entry.name, entry]));
+      // The list knows the category; the rows know what was read from the item's source
+      const items = cached.entries.map(row => ({
+        ...listed.get(row.name),
+        ...Object.fromEntries(Object.entries(row).filter(([, value]) => value !== undefined))
+      } as CatalogEntry));
+      return page(items, cached.total, 'pglite');
+    }
+  }
+
+  const namePattern = query.name ? globToRegExp(query.name) : undefined;
+  let matches = entries.filter(entry => (!namePattern || namePattern.test(entry.name)) && (!query.type || entry.type === query.type));
+
+  // Entries keep what the list says; details only fill in what it lacks
+  const withDetails = (items: CatalogEntry[]) => mapWithConcurrency(items, DETAILS_CONCURRENCY, async entry => {
+    if (!options.loadDetails || !needsDetails(entry)) {
+      return entry;
+    }
+    try {
+      return { ...await options.loadDetails(entry.name), ...entry };
+    } catch (error) {
+      logWarning(`Failed to load the details of ${entry.name}: ${error instanceof Error ? error.message : String(error)}`);
+      return entry;
+    }
+  });
+  const needsDetails = (entry: CatalogEntry) => (query.usesComponent !== undefined && !usedComponents(entry))
+    || fields.some(field => DETAIL_FIELDS.includes(field) && entry[field] === undefined);
+
+  if (query.usesComponent) {
+    matches = (await withDetails(matches)).filter(entry => usedComponents(entry)?.includes(query.usesComponent!));
+  }
+
+  const items = await withDetails(matches.slice(offset, offset + limit));
+  return page(items, matches.length, 'memory');
+}
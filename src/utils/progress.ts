@@ -0,0 +1,52 @@
+/**
+ * Progress reporting for long-running tool calls
+ *
+ * A reporter is created per tool call when the client sends a progressToken, and passed down
+ * to getCachedData() and the axios helpers, which report a step for every cache lookup, file
+ * and directory they read. Steps only ever advance the progress, so a tool may report from
+ * several helpers in turn; helpers that know how many reads remain announce them, which gives
+ * the client a total until they are done.
+ */
+
+import { logWarning } from './logger.js';
+
+/**
+ * Params of a notifications/progress message, without the progress token
+ */
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export class ProgressReporter {
+  private progress = 0;
+  private remaining = 0;
+
+  constructor(private readonly send: (update: ProgressUpdate) => Promise<void> | void) {}
+
+  /**
+   * Announce steps about to be reported, adding them to the total
+   */
+  expect(steps: number): void {
+    this.remaining += Math.max(0, steps);
+  }
+
+  /**
+   * Report one completed step
+   */
+  step(message: string): void {
+    this.progress++;
+    this.remaining = Math.max(0, this.remaining - 1);
+
+    const update: ProgressUpdate = {
+      progress: this.progress,
+      ...(this.remaining > 0 && { total: this.progress + this.remaining }),
+      message
+    };
+    // Progress is advisory: a failed notification never fails the call
+    Promise.resolve()
+      .then(() => this.send(update))
+      .catch(error => logWarning(`Failed to send progress notification: ${error instanceof Error ? error.message : String(error)}`));
+  }
+}
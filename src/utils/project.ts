@@ -0,0 +1,382 @@
+/**
+ * Local shadcn project inspection
+ *
+ * Reads a project's components.json, resolves its import aliases to directories (through
+ * the "paths" of tsconfig.json / jsconfig.json, or SvelteKit's $lib) and maps the imports
+ * used in upstream registry sources onto the project's aliases, so that installed copies
+ * can be compared with upstream content.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { componentsJsonSchema, type ComponentsJson } from '../schemas/components-json.js';
+import type { Framework } from './framework.js';
+
+export const COMPONENTS_JSON = 'components.json';
+
+/**
+ * Import aliases of a project, with the shadcn defaults filled in
+ */
+export interface ProjectAliases {
+  components: string;
+  utils: string;
+  ui: string;
+  lib: string;
+  hooks: string;
+}
+
+export interface ShadcnProject {
+  /** Absolute project root (the directory holding components.json); unknown for an inline components.json */
+  root?: string;
+  config: ComponentsJson;
+  framework: Framework;
+  /** Registry style the project installs from; undefined for frameworks with a single style */
+  style?: string;
+  aliases: ProjectAliases;
+  /** Paths the aliases point at, relative to the project root */
+  directories: ProjectAliases;
+}
+
+export interface InstalledComponent {
+  name: string;
+  /** Main source file relative to the project root, when present */
+  file?: string;
+  source?: string;
+}
+
+const DEFAULT_ALIASES: Record<Framework, ProjectAliases> = {
+  react: { components: '@/components', utils: '@/lib/utils', ui: '@/components/ui', lib: '@/lib', hooks: '@/hooks' },
+  svelte: { components: '$lib/components', utils: '$lib/utils', ui: '$lib/components/ui', lib: '$lib', hooks: '$lib/hooks' }
+};
+
+/**
+ * Config files whose compilerOptions.paths define import aliases, in lookup order
+ */
+const TSCONFIG_FILES = ['tsconfig.json', 'tsconfig.app.json', 'jsconfig.json'];
+
+const REACT_SOURCE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+
+/**
+ * Remove comments and trailing commas from JSONC (tsconfig files allow both)
+ */
+export function stripJsonComments(text: string): string {
+  let output = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      output += char;
+      if (char === '\\') {
+        output += text[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      output += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      output += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      i = text.indexOf('*/', i + 2);
+      if (i === -1) break;
+      i++;
+    } else {
+      output += char;
+    }
+  }
+
+  return output.replace(/,(\s*[}\]])/g, '$1');
+}
+
+async function readJsonFile(filePath: string, jsonc = false): Promise<any | undefined> {
+  const text = await fs.readFile(filePath, 'utf8').catch(() => undefined);
+  if (text === undefined) {
+    return undefined;
+  }
+  return JSON.parse(jsonc ? stripJsonComments(text) : text);
+}
+
+/**
+ * Detect the framework a components.json was written for
+ */
+function detectFramework(config: ComponentsJson): Framework {
+  const aliases = Object.values(config.aliases ?? {});
+  if (config.$schema?.includes('shadcn-svelte') || aliases.some(alias => typeof alias === 'string' && alias.startsWith('$lib'))) {
+    return 'svelte';
+  }
+  return 'react';
+}
+
+/**
+ * Registry style the shadcn CLI installs from: Tailwind v4 projects (no tailwind.config)
+ * read the "new-york-v4" registry whatever style components.json names
+ */
+function detectStyle(config: ComponentsJson, framework: Framework): string | undefined {
+  if (framework === 'svelte') {
+    return undefined;
+  }
+  if (!config.tailwind?.config) {
+    return 'new-york-v4';
+  }
+  return config.style;
+}
+
+/**
+ * Alias patterns ("@/*") and their target directories, from the project's tsconfig files
+ */
+async function readPathMappings(root: string): Promise<Array<{ pattern: string; target: string }>> {
+  const mappings: Array<{ pattern: string; target: string }> = [];
+
+  for (const file of TSCONFIG_FILES) {
+    let tsconfig;
+    try {
+      tsconfig = await readJsonFile(path.join(root, file), true);
+    } catch {
+      continue; // Unparseable config files do not prevent the fallbacks below
+    }
+    const options = tsconfig?.compilerOptions;
+    if (!options?.paths) {
+      continue;
+    }
+    const baseUrl = path.resolve(root, options.baseUrl ?? '.');
+    for (const [pattern, targets] of Object.entries(options.paths)) {
+      if (Array.isArray(targets) && typeof targets[0] === 'string' && !mappings.some(mapping => mapping.pattern === pattern)) {
+        mappings.push({ pattern, target: path.resolve(baseUrl, targets[0]) });
+      }
+    }
+  }
+
+  return mappings;
+}
+
+/**
+ * Resolve an import alias (e.g., "@/components/ui") to a path relative to the project root.
+ * Without a root, tsconfig paths cannot be read and "@/" is assumed to map to the root.
+ */
+export async function resolveAliasPath(root: string | undefined, alias: string): Promise<string> {
+  const mappings = root ? await readPathMappings(root) : [];
+
+  // The most specific pattern wins, as in TypeScript
+  const matches = mappings
+    .map(({ pattern, target }) => {
+      if (pattern.endsWith('*')) {
+        const prefix = pattern.slice(0, -1);
+        return alias.startsWith(prefix) ? { length: prefix.length, path: target.replace('*', alias.slice(prefix.length)) } : undefined;
+      }
+      return alias === pattern ? { length: pattern.length, path: target } : undefined;
+    })
+    .filter((match): match is { length: number; path: string } => match !== undefined)
+    .sort((a, b) => b.length - a.length);
+
+  let resolved: string;
+  if (root && matches.length > 0) {
+    resolved = path.relative(root, matches[0].path);
+  } else if (alias === '$lib' || alias.startsWith('$lib/')) {
+    // SvelteKit provides $lib without a paths entry
+    resolved = path.join('src/lib', alias.slice('$lib'.length));
+  } else if (alias.startsWith('@/') || alias.startsWith('~/')) {
+    // "@/" and "~/" conventionally point at src/ when the project has one
+    const hasSourceDir = root !== undefined && await fs.stat(path.join(root, 'src')).then(stats => stats.isDirectory(), () => false);
+    resolved = path.join(hasSourceDir ? 'src' : '', alias.slice(2));
+  } else {
+    resolved = path.normalize(alias);
+  }
+  return resolved.split(path.sep).join('/');
+}
+
+/**
+ * Build a project from a parsed components.json
+ * @param raw components.json contents
+ * @param root Project root, when known
+ * @param framework Override the framework detected from components.json
+ * @throws If the configuration is invalid
+ */
+export async function createProject(raw: unknown, root?: string, framework?: Framework): Promise<ShadcnProject> {
+  const parsed = componentsJsonSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${COMPONENTS_JSON}${root ? ` in ${root}` : ''}: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+  }
+
+  const config = parsed.data;
+  const resolvedFramework = framework ?? detectFramework(config);
+  const defaults = DEFAULT_ALIASES[resolvedFramework];
+  const components = config.aliases?.components ?? defaults.components;
+  const aliases: ProjectAliases = {
+    components,
+    utils: config.aliases?.utils ?? defaults.utils,
+    ui: config.aliases?.ui ?? `${components}/ui`,
+    lib: config.aliases?.lib ?? defaults.lib,
+    hooks: config.aliases?.hooks ?? defaults.hooks
+  };
+
+  const directories = {} as ProjectAliases;
+  for (const [kind, alias] of Object.entries(aliases) as Array<[keyof ProjectAliases, string]>) {
+    directories[kind] = await resolveAliasPath(root, alias);
+  }
+
+  return {
+    ...(root && { root }),
+    config,
+    framework: resolvedFramework,
+    style: detectStyle(config, resolvedFramework),
+    aliases,
+    directories
+  };
+}
+
+/**
+ * Load the shadcn project rooted at a directory
+ * @param projectPath Project root, or the path of its components.json
+ * @param framework Override the framework detected from components.json
+ * @throws If components.json is missing or invalid
+ */
+export async function loadProject(projectPath: string, framework?: Framework): Promise<ShadcnProject & { root: string }> {
+  const resolved = path.resolve(projectPath);
+  const root = path.basename(resolved) === COMPONENTS_JSON ? path.dirname(resolved) : resolved;
+
+  let raw;
+  try {
+    raw = await readJsonFile(path.join(root, COMPONENTS_JSON));
+  } catch (error) {
+    throw new Error(`Invalid ${COMPONENTS_JSON} in ${root}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (raw === undefined) {
+    throw new Error(`No ${COMPONENTS_JSON} found in ${root}`);
+  }
+
+  return { ...await createProject(raw, root, framework), root };
+}
+
+/**
+ * npm packages the project already depends on (dependencies and devDependencies)
+ */
+export async function readInstalledPackages(root: string): Promise<Set<string>> {
+  const packageJson = await readJsonFile(path.join(root, 'package.json')).catch(() => undefined);
+  return new Set([
+    ...Object.keys(packageJson?.dependencies ?? {}),
+    ...Object.keys(packageJson?.devDependencies ?? {})
+  ]);
+}
+
+/**
+ * Package manager used by the project, from its lockfile (npm when unknown)
+ */
+export async function detectPackageManager(root?: string): Promise<'npm' | 'pnpm' | 'yarn' | 'bun'> {
+  const lockfiles = [['pnpm-lock.yaml', 'pnpm'], ['yarn.lock', 'yarn'], ['bun.lock', 'bun'], ['bun.lockb', 'bun']] as const;
+  for (const [file, manager] of root ? lockfiles : []) {
+    if (await fs.stat(path.join(root!, file)).then(() => true, () => false)) {
+      return manager;
+    }
+  }
+  return 'npm';
+}
+
+/**
+ * Find the installed copies of known components in the project's ui directory.
+ * React components are single files ("button.tsx"); Svelte components are directories
+ * whose main file is "<name>/<name>.svelte".
+ * @param known Component names published upstream; other files are ignored
+ */
+export async function listInstalledComponents(project: ShadcnProject & { root: string }, known: Iterable<string>): Promise<InstalledComponent[]> {
+  const names = new Set(known);
+  const uiDir = path.join(project.root, project.directories.ui);
+  const entries = await fs.readdir(uiDir, { withFileTypes: true }).catch(() => []);
+  const installed: InstalledComponent[] = [];
+
+  for (const entry of entries) {
+    let name: string;
+    let file: string;
+    if (project.framework === 'svelte') {
+      if (!entry.isDirectory()) continue;
+      name = entry.name;
+      file = path.join(uiDir, name, `${name}.svelte`);
+    } else {
+      const extension = path.extname(entry.name);
+      if (!entry.isFile() || !REACT_SOURCE_EXTENSIONS.includes(extension)) continue;
+      name = entry.name.slice(0, -extension.length);
+      file = path.join(uiDir, entry.name);
+    }
+    if (!names.has(name)) {
+      continue;
+    }
+
+    const source = await fs.readFile(file, 'utf8').catch(() => undefined);
+    installed.push({
+      name,
+      ...(source !== undefined && { file: path.relative(project.root, file).split(path.sep).join('/'), source })
+    });
+  }
+
+  return installed.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Rewrite the imports of an upstream registry source to a project's aliases, as the
+ * shadcn CLI does on install ("@/registry/new-york-v4/ui/button" -> "@/components/ui/button")
+ */
+export function rewriteRegistryImports(source: string, aliases: ProjectAliases): string {
+  return source
+    .replace(
+      /(['"])(?:@\/registry\/[^/'"]+|\$lib\/registry)\/(?:blocks\/[^/'"]+\/)?(ui|hooks|lib|components)\//g,
+      (_match, quote: string, kind: keyof ProjectAliases) => `${quote}${aliases[kind]}/`
+    )
+    .replace(/(['"])(?:@\/lib\/utils|\$lib\/utils)(?=(?:\.js)?['"])/g, (_match, quote: string) => `${quote}${aliases.utils}`);
+}
+
+/**
+ * Normalize a source for comparison: map registry imports to the project's aliases and
+ * ignore line endings, trailing whitespace, blank lines and the "use client" directive
+ */
+export function normalizeSource(source: string, aliases: ProjectAliases): string {
+  return rewriteRegistryImports(source, aliases)
+    .split(/\r\n?|\n/)
+    .map(line => line.trimEnd())
+    .filter(line => line !== '' && !/^['"]use client['"];?$/.test(line))
+    .join('\n');
+}
+
+/**
+ * Content hash of a normalized source
+ */
+export function hashSource(source: string, aliases: ProjectAliases): string {
+  return createHash('sha256').update(normalizeSource(source, aliases)).digest('hex');
+}
+
+/**
+ * Registry components a local source imports through the project's ui alias
+ */
+export function extractProjectRegistryDependencies(source: string, aliases: ProjectAliases): string[] {
+  const prefix = aliases.ui.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`from\\s+['"]${prefix}/([a-z0-9-]+)`, 'g');
+  return [...new Set(Array.from(source.matchAll(pattern), match => match[1]))].sort();
+}
+
+/**
+ * Blocks of a stylesheet that hold theme variables, keyed the way registry items key `cssVars`
+ */
+export type CssVariableScope = 'theme' | 'light' | 'dark';
+
+export const CSS_VARIABLE_SELECTORS: Record<CssVariableScope, string> = {
+  theme: '@theme inline',
+  light: ':root',
+  dark: '.dark'
+};
+
+/**
+ * Read the custom properties declared in a stylesheet's `@theme`, `:root` and `.dark` blocks
+ */
+export function readCssVariables(css: string): Record<CssVariableScope, Record<string, string>> {
+  const variables: Record<CssVariableScope, Record<string, string>> = { theme: {}, light: {}, dark: {} };
+
+  for (const block of css.matchAll(/(@theme(?:\s+inline)?|:root|\.dark)\s*\{([^}]*)\}/g)) {
+    const scope: CssVariableScope = block[1] === ':root' ? 'light' : block[1] === '.dark' ? 'dark' : 'theme';
+    for (const declaration of block[2].matchAll(/(--[\w-]+)\s*:\s*([^;]+);/g)) {
+      variables[scope][declaration[1]] = declaration[2].trim();
+    }
+  }
+
+  return variables;
+}
@@ -0,0 +1,30 @@
+/**
+ * GitHub API rate limit warnings
+ */
+
+import { logServerWarning } from './logger.js';
+
+/**
+ * Reset time of the last rate limit window warned about, so each window warns once
+ */
+let warnedReset: string | undefined;
+
+/**
+ * Warn when a GitHub API response reports the rate limit exhausted
+ * @param headers Response headers (x-ratelimit-remaining, x-ratelimit-reset)
+ */
+export function warnIfRateLimited(headers: Record<string, any> | undefined): void {
+  if (String(headers?.['x-ratelimit-remaining']) !== '0') {
+    return;
+  }
+
+  const reset = headers?.['x-ratelimit-reset'] !== undefined ? String(headers['x-ratelimit-reset']) : undefined;
+  if (reset !== undefined && reset === warnedReset) {
+    return;
+  }
+  warnedReset = reset;
+
+  const until = reset ? ` until ${new Date(Number(reset) * 1000).toISOString()}` : '';
+  const hint = process.env.GITHUB_PERSONAL_ACCESS_TOKEN ? '' : ' Set GITHUB_PERSONAL_ACCESS_TOKEN for higher rate limits.';
+  logServerWarning(`GitHub API rate limit exhausted${until}; cached data is served where available.${hint}`);
+}
@@ -0,0 +1,286 @@
+/**
+ * Registry abstraction for shadcn-compatible registries
+ *
+ * Any registry publishing the standard registry.json / registry-item.json format can
+ * be configured by namespace (the same shape as the `registries` field of components.json):
+ *
+ *   "registries": {
+ *     "@acme": "https://acme.com/r/{style}/{name}.json",
+ *     "@internal": {
+ *       "url": "https://registry.internal/{name}.json",
+ *       "headers": { "Authorization": "Bearer ${REGISTRY_TOKEN}" }
+ *     }
+ *   }
+ *
+ * `{style}` is replaced with the requested (or configured) style.
+ * Tools that receive a `registry` argument read items through this module instead of
+ * the GitHub source paths used for the default shadcn/ui and shadcn-svelte repositories.
+ */
+
+import { Axios } from 'axios';
+import type { RegistryConfig } from '../config/schemas.js';
+import {
+  registryItemSchema,
+  registrySchema,
+  type Registry,
+  type RegistryItem,
+  type RegistryItemType
+} from '../schemas/registry.js';
+import {
+  getCachedData,
+  getConfigurationManager,
+  generateRegistryItemKey,
+  generateRegistryIndexKey,
+  type CachedDataOptions
+} from './storage-integration.js';
+import { getStyle } from './style.js';
+
+/**
+ * Registries available without any configuration
+ */
+export const BUILTIN_REGISTRIES: Record<string, RegistryConfig> = {
+  '@shadcn': 'https://ui.shadcn.com/r/styles/{style}/{name}.json'
+};
+
+/**
+ * Item types listed by list_components and list_blocks
+ */
+export const COMPONENT_ITEM_TYPES: readonly RegistryItemType[] = ['registry:ui', 'registry:component'];
+export const BLOCK_ITEM_TYPES: readonly RegistryItemType[] = ['registry:block'];
+
+/**
+ * Item types listed by list_registry_items, with the directory of a style they are read
+ * from in the GitHub-backed registries
+ */
+export const REGISTRY_ITEM_DIRECTORIES = {
+  'registry:chart': 'charts',
+  'registry:hook': 'hooks',
+  'registry:lib': 'lib',
+  'registry:example': 'examples'
+} as const;
+
+export type RegistryItemDirectoryType = keyof typeof REGISTRY_ITEM_DIRECTORIES;
+
+export const REGISTRY_ITEM_TYPES = Object.keys(REGISTRY_ITEM_DIRECTORIES) as RegistryItemDirectoryType[];
+
+/**
+ * Expand `${VAR}` references from the environment; unset variables expand to ""
+ */
+function expandEnvVars(value: string): string {
+  return value.replace(/\$\{(\w+)\}/g, (_, name) => process.env[name] ?? '');
+}
+
+/**
+ * Normalize a registry name to its namespace form ("acme" -> "@acme")
+ */
+export function normalizeRegistryName(registry: string): string {
+  return registry.startsWith('@') ? registry : `@${registry}`;
+}
+
+/**
+ * Split a namespaced item reference ("@acme/button") into registry and item name
+ * @returns null for bare names and URLs
+ */
+export function parseRegistryReference(reference: string): { registry: string; name: string } | null {
+  const match = reference.match(/^(@[a-z0-9][\w.-]*)\/(.+)$/i);
+  return match ? { registry: match[1], name: match[2] } : null;
+}
+
+/**
+ * Client for a single registry
+ */
+export class RegistryClient {
+  private readonly http: Axios;
+  private readonly template: string;
+  private readonly params: Record<string, string>;
+
+  constructor(readonly namespace: string, config: RegistryConfig) {
+    const options = typeof config === 'string' ? { url: config } : config;
+
+    this.template = options.url;
+    this.params = Object.fromEntries(
+      Object.entries(options.params ?? {}).map(([key, value]) => [key, expandEnvVars(value)])
+    );
+    this.http = new Axios({
+      headers: {
+        "Accept": "application/json",
+        "User-Agent": "Mozilla/5.0 (compatible; ShadcnUiMcpServer/1.0.0)",
+        ...Object.fromEntries(
+          Object.entries(options.headers ?? {}).map(([key, value]) => [key, expandEnvVars(value)])
+        )
+      },
+      timeout: 30000,
+      transformResponse: [(data) => data], // Parsed and validated below
+    });
+  }
+
+  /**
+   * Whether the URL template varies by style
+   */
+  get usesStyle(): boolean {
+    return this.template.includes('{style}');
+  }
+
+  /**
+   * Build the URL of an item from the registry's URL template
+   */
+  buildUrl(name: string, style: string = getStyle()): string {
+    const url = new URL(
+      expandEnvVars(this.template)
+        .replace('{name}', encodeURIComponent(name))
+        .replace('{style}', encodeURIComponent(style))
+    );
+    for (const [key, value] of Object.entries(this.params)) {
+      url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+
+  /**
+   * Fetch and validate a registry item
+   */
+  async getItem(name: string, style?: string, signal?: AbortSignal): Promise<RegistryItem> {
+    const data = await this.fetchJson(this.buildUrl(name, style), `Item "${this.namespace}/${name}"`, signal);
+    const parsed = registryItemSchema.safeParse(data);
+    if (!parsed.success) {
+      throw new Error(`Item "${this.namespace}/${name}" is not a valid registry item: ${formatIssues(parsed.error.issues)}`);
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Fetch and validate the registry index (the template with name "registry")
+   */
+  async getIndex(style?: string, signal?: AbortSignal): Promise<Registry> {
+    const data = await this.fetchJson(this.buildUrl('registry', style), `Registry index for ${this.namespace}`, signal);
+    const parsed = registrySchema.safeParse(data);
+    if (!parsed.success) {
+      throw new Error(`Registry index for ${this.namespace} is not a valid registry.json: ${formatIssues(parsed.error.issues)}`);
+    }
+    return parsed.data;
+  }
+
+  private async fetchJson(url: string, label: string, signal?: AbortSignal): Promise<unknown> {
+    const response = await this.http.get(url, { signal });
+
+    if (response.status === 404) {
+      throw new Error(`${label} not found (${url})`);
+    }
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`${label} request failed with status ${response.status}`);
+    }
+
+    try {
+      return JSON.parse(response.data);
+    } catch {
+      throw new Error(`${label} did not return JSON`);
+    }
+  }
+}
+
+function formatIssues(issues: Array<{ path: (string | number)[]; message: string }>): string {
+  return issues
+    .map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+    .join('; ');
+}
+
+/**
+ * Built-in registries merged with the ones from configuration
+ */
+export function getRegistryConfigs(): Record<string, RegistryConfig> {
+  const configured = getConfigurationManager().get<Record<string, RegistryConfig>>('registries', {});
+  return { ...BUILTIN_REGISTRIES, ...configured };
+}
+
+/**
+ * Get a client for a configured registry
+ * @throws If the registry is not configured
+ */
+export function getRegistryClient(registry: string): RegistryClient {
+  const namespace = normalizeRegistryName(registry);
+  const configs = getRegistryConfigs();
+  const config = configs[namespace];
+
+  if (!config) {
+    throw new Error(`Unknown registry "${namespace}". Configured registries: ${Object.keys(configs).join(', ')}`);
+  }
+  return new RegistryClient(namespace, config);
+}
+
+/**
+ * Cache scope of a registry; styled registries get a "namespace/style" scope like framework keys
+ */
+function getRegistryScope(client: RegistryClient, style?: string): string {
+  return client.usesStyle ? `${client.namespace}/${style ?? getStyle()}` : client.namespace;
+}
+
+/**
+ * Fetch a registry item through the cache
+ * @param options Progress reporter told whether the cache answered, and the call's cancellation
+ */
+export async function fetchRegistryItem(registry: string, name: string, style?: string, options: CachedDataOptions = {}): Promise<RegistryItem> {
+  const client = getRegistryClient(registry);
+  return await getCachedData(
+    generateRegistryItemKey(getRegistryScope(client, style), name),
+    signal => client.getItem(name, style, signal),
+    24 * 60 * 60, // 24 hours, same as components
+    options
+  );
+}
+
+/**
+ * Fetch a registry index through the cache
+ * @param options Progress reporter told whether the cache answered, and the call's cancellation
+ */
+export async function fetchRegistryIndex(registry: string, style?: string, options: CachedDataOptions = {}): Promise<Registry> {
+  const client = getRegistryClient(registry);
+  return await getCachedData(
+    generateRegistryIndexKey(getRegistryScope(client, style)),
+    signal => client.getIndex(style, signal),
+    6 * 60 * 60, // 6 hours, same as lists
+    options
+  );
+}
+
+/**
+ * Concatenate the file contents of an item; multi-file items get a header per file
+ */
+export function formatRegistryItemSource(item: RegistryItem): string {
+  const files = (item.files ?? []).filter(file => typeof file.content === 'string');
+
+  if (files.length === 0) {
+    throw new Error(`Item "${item.name}" has no inline file contents`);
+  }
+  if (files.length === 1) {
+    return files[0].content as string;
+  }
+  return files.map(file => `// File: ${file.target || file.path}\n${file.content}`).join('\n\n');
+}
+
+/**
+ * Metadata view of an item, matching the shape returned for the default registries
+ */
+export function getRegistryItemMetadata(item: RegistryItem, registry: string) {
+  return {
+    name: item.name,
+    registry: normalizeRegistryName(registry),
+    type: item.type,
+    title: item.title,
+    description: item.description,
+    dependencies: item.dependencies ?? [],
+    devDependencies: item.devDependencies ?? [],
+    registryDependencies: item.registryDependencies ?? [],
+    files: (item.files ?? []).map(file => ({ path: file.path, type: file.type, target: file.target })),
+    categories: item.categories ?? [],
+    docs: item.docs
+  };
+}
+
+/**
+ * Index items of the given types, sorted by name
+ */
+export function filterRegistryItems(index: Registry, types: readonly RegistryItemType[]): RegistryItem[] {
+  return index.items
+    .filter(item => types.includes(item.type))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -7,33 +7,79 @@ export interface DeduplicationStats {
   deduplicationRate: number;
 }
 
+/**
+ * A shared fetch, aborted through its controller once every waiter has cancelled
+ */
+interface InFlightRequest {
+  promise: Promise<any>;
+  controller: AbortController;
+  waiters: number;
+}
+
 export class RequestDeduplicator {
-  private inFlightRequests = new Map<string, Promise<any>>();
+  private inFlightRequests = new Map<string, InFlightRequest>();
   private stats = {
     totalRequests: 0,
     deduplicatedRequests: 0,
   };
 
+  /**
+   * Run factory once for concurrent requests of the same key
+   * @param factory Fetch shared by every waiter; its signal aborts once all of them have cancelled
+   * @param signal Cancels this waiter only: it rejects with the signal's reason right away,
+   * while the shared fetch keeps running for the others
+   */
   async deduplicate<T>(
     key: string,
-    factory: () => Promise<T>
+    factory: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
   ): Promise<T> {
+    signal?.throwIfAborted();
     this.stats.totalRequests++;
 
-    if (this.inFlightRequests.has(key)) {
+    let request = this.inFlightRequests.get(key);
+    if (request) {
       this.stats.deduplicatedRequests++;
       logInfo(`Deduplicating request for key: ${key}`);
-      return this.inFlightRequests.get(key)!;
+    } else {
+      const controller = new AbortController();
+      const promise = factory(controller.signal)
+        .finally(() => {
+          if (this.inFlightRequests.get(key) === request) {
+            this.inFlightRequests.delete(key);
+          }
+        });
+      request = { promise, controller, waiters: 0 };
+      this.inFlightRequests.set(key, request);
     }
 
-    const promise = factory()
-      .finally(() => {
-        this.inFlightRequests.delete(key);
-      });
+    return this.wait(key, request, signal);
+  }
 
-    this.inFlightRequests.set(key, promise);
+  private wait<T>(key: string, request: InFlightRequest, signal?: AbortSignal): Promise<T> {
+    // Waiters without a signal never leave, so their fetch is never aborted
+    request.waiters++;
+    if (!signal) {
+      return request.promise;
+    }
 
-    return promise;
+    return new Promise<T>((resolve, reject) => {
+      const leave = () => {
+        request.waiters--;
+        reject(signal.reason);
+        if (request.waiters === 0) {
+          logInfo(`Cancelling request for key: ${key}`);
+          if (this.inFlightRequests.get(key) === request) {
+            this.inFlightRequests.delete(key);
+          }
+          request.controller.abort(signal.reason);
+        }
+      };
+      signal.addEventListener('abort', leave, { once: true });
+      request.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', leave));
+    });
   }
 
   getInFlightCount(): number {
@@ -0,0 +1,209 @@
+/**
+ * Context budgets of the source-returning tools
+ *
+ * A call that sets maxTokens or maxBytes and would exceed them gets its files in chunks
+ * that fit: the first chunk lists every file in a manifest, and every chunk but the last
+ * returns a cursor for the next. Files are kept whole where they fit and otherwise split at
+ * line boundaries. Follow-up calls read the item through the cache again, so they cost no
+ * GitHub requests while it is cached. Cursors carry a hash of the files and are rejected if
+ * the item changed in between. Tokens are estimated at 4 bytes each.
+ */
+
+import { createHash } from 'node:crypto';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+export const BYTES_PER_TOKEN = 4;
+
+/**
+ * Least source a chunk returns, however little of the budget the rest of the response leaves
+ */
+const MIN_CHUNK_BYTES = 1024;
+
+/**
+ * Allowance for the JSON around each file of a chunk (path, offset and truncated keys, indentation)
+ */
+const FILE_OVERHEAD_BYTES = 80;
+
+/**
+ * Budget and continuation arguments of the source-returning tools
+ */
+export interface BudgetArgs {
+  maxTokens?: number;
+  maxBytes?: number;
+  cursor?: string;
+}
+
+/**
+ * A source file; other fields (type, target) are passed through to its chunks
+ */
+export interface SourceFile {
+  path: string;
+  content: string;
+  [key: string]: unknown;
+}
+
+export interface SourceFileChunk extends SourceFile {
+  /** Character offset of the chunk in the file, when it does not start at the beginning */
+  offset?: number;
+  /** Set when the rest of the file follows in the next chunk */
+  truncated?: boolean;
+}
+
+export interface ManifestEntry {
+  path: string;
+  bytes: number;
+}
+
+export interface SourceChunk {
+  files: SourceFileChunk[];
+  /** Every file of the item; only in the first chunk */
+  manifest?: ManifestEntry[];
+  nextCursor?: string;
+}
+
+interface ContinuationCursor {
+  /** Index of the next file */
+  file: number;
+  /** Character offset in that file */
+  offset: number;
+  /** Byte budget of the call that started the sequence */
+  budget: number;
+  /** Hash of the files the sequence was started on */
+  hash: string;
+}
+
+/**
+ * Byte budget of a call, the stricter of maxTokens and maxBytes
+ */
+export function getByteBudget({ maxTokens, maxBytes }: BudgetArgs): number | undefined {
+  const budgets = [maxTokens !== undefined ? maxTokens * BYTES_PER_TOKEN : undefined, maxBytes]
+    .filter((budget): budget is number => budget !== undefined);
+  return budgets.length > 0 ? Math.min(...budgets) : undefined;
+}
+
+function encodeContinuationCursor(cursor: ContinuationCursor): string {
+  return Buffer.from(JSON.stringify([cursor.file, cursor.offset, cursor.budget, cursor.hash])).toString('base64url');
+}
+
+/**
+ * @throws McpError (InvalidParams) for cursors this server did not issue
+ */
+function decodeContinuationCursor(cursor: string): ContinuationCursor {
+  try {
+    const [file, offset, budget, hash] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if ([file, offset, budget].every(value => Number.isInteger(value) && value >= 0) && typeof hash === 'string') {
+      return { file, offset, budget, hash };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+}
+
+function hashFiles(files: SourceFile[]): string {
+  const hash = createHash('sha256');
+  for (const file of files) {
+    hash.update(`${file.path}\0${file.content}\0`);
+  }
+  return hash.digest('hex').slice(0, 16);
+}
+
+/**
+ * Size of a string once escaped in the JSON text of a response
+ */
+function escapedBytes(value: string): number {
+  return Buffer.byteLength(JSON.stringify(value)) - 2;
+}
+
+/**
+ * Length of the longest run of whole lines at the start of text that fits in limit bytes;
+ * part of the first line when not even that fits, so every chunk makes progress
+ */
+function fittingPrefixLength(text: string, limit: number): number {
+  let length = 0;
+  let bytes = 0;
+  for (const line of text.match(/[^\n]*\n|[^\n]+$/g) ?? []) {
+    const lineBytes = escapedBytes(line);
+    if (bytes + lineBytes > limit) {
+      break;
+    }
+    length += line.length;
+    bytes += lineBytes;
+  }
+  if (length > 0) {
+    return length;
+  }
+
+  for (const char of text) {
+    bytes += escapedBytes(char);
+    if (bytes > limit && length > 0) {
+      break;
+    }
+    length += char.length;
+  }
+  return length;
+}
+
+/**
+ * Select the chunk of files a call returns
+ * @param files Every file of the item, in a stable order
+ * @param args Budget and cursor arguments of the call
+ * @param sizes.fullBytes Size of the response without a budget
+ * @param sizes.envelopeBytes Size of the rest of a chunked response, taken off the budget
+ * @returns undefined when the call set no budget, or the full response fits in it
+ * @throws McpError (InvalidParams) for invalid cursors, or cursors from before the item changed
+ */
+export function chunkSourceFiles(
+  files: SourceFile[],
+  args: BudgetArgs,
+  sizes: { fullBytes: number; envelopeBytes: number }
+): SourceChunk | undefined {
+  const start = args.cursor ? decodeContinuationCursor(args.cursor) : undefined;
+  const budget = getByteBudget(args) ?? start?.budget;
+  if (budget === undefined || (!start && sizes.fullBytes <= budget)) {
+    return undefined;
+  }
+
+  const hash = hashFiles(files);
+  if (start && (start.hash !== hash || start.file >= files.length)) {
+    throw new McpError(ErrorCode.InvalidParams, 'The files changed since the cursor was issued; call again without a cursor');
+  }
+
+  const manifest = start ? undefined : files.map(file => ({ path: file.path, bytes: Buffer.byteLength(file.content) }));
+  const envelopeBytes = sizes.envelopeBytes
+    + (manifest ? Buffer.byteLength(JSON.stringify(manifest, null, 2)) : 0)
+    + 100; // nextCursor
+  let available = Math.max(budget - envelopeBytes, MIN_CHUNK_BYTES);
+
+  const chunk: SourceFileChunk[] = [];
+  let file = start?.file ?? 0;
+  let offset = start?.offset ?? 0;
+  while (file < files.length) {
+    const source = files[file];
+    const rest = source.content.slice(offset);
+    const fileOverhead = escapedBytes(source.path) + FILE_OVERHEAD_BYTES;
+    const bytes = escapedBytes(rest) + fileOverhead;
+
+    if (bytes <= available) {
+      chunk.push({ ...source, content: rest, ...(offset > 0 && { offset }) });
+      available -= bytes;
+      file++;
+      offset = 0;
+      continue;
+    }
+
+    // Whole files go in the next chunk; a file only starts split when it is too big for one
+    if (chunk.length === 0) {
+      const length = fittingPrefixLength(rest, available - fileOverhead);
+      chunk.push({ ...source, content: rest.slice(0, length), ...(offset > 0 && { offset }), truncated: true });
+      offset += length;
+    }
+    break;
+  }
+
+  return {
+    files: chunk,
+    ...(manifest && { manifest }),
+    ...(file < files.length && { nextCursor: encodeContinuationCursor({ file, offset, budget, hash }) })
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Provenance of tool results
+ *
+ * Each tool call runs in withResponseMeta(), which collects the reads getCachedData() makes
+ * on its behalf (the tier that served them, when they were fetched from GitHub, the commit
+ * they came from) and any degradation reported along the way. The result then carries them
+ * in `_meta`, with a short notice appended to its content when the data is degraded.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { StorageTier } from '../storage/index.js';
+
+/**
+ * Ways the data of a result can be worse than a fresh read
+ */
+export type DataDegradation = 'serving-stale' | 'partial-data' | 'circuit-breaker-open';
+
+/**
+ * A value read on behalf of a tool call
+ */
+export interface DataRead {
+  tier: StorageTier;
+  /** When the value was fetched from GitHub, if known */
+  cachedAt?: Date;
+  degradation?: DataDegradation;
+  /** The value itself; its githubSha, if any, is reported */
+  value?: unknown;
+}
+
+/**
+ * Provenance fields added to a result's `_meta`
+ */
+export interface ResponseMeta {
+  /** Tier that served the data, or "mixed" when several did */
+  tier?: StorageTier | 'mixed';
+  /** Age of the oldest value read, in seconds */
+  cacheAgeSeconds?: number;
+  githubSha?: string;
+  degradation?: DataDegradation[];
+}
+
+interface CallProvenance {
+  reads: DataRead[];
+  degradations: Set<DataDegradation>;
+}
+
+const NOTICES: Record<DataDegradation, string> = {
+  'serving-stale': 'GitHub could not be reached, so this was served from an older cached copy',
+  'circuit-breaker-open': 'GitHub requests are paused after repeated failures, so this was served from the cache',
+  'partial-data': 'part of this could not be fetched from GitHub, so it may be incomplete'
+};
+
+const currentCall = new AsyncLocalStorage<CallProvenance>();
+
+/**
+ * Record a read for the tool call in progress, if any
+ */
+export function recordRead(read: DataRead): void {
+  const call = currentCall.getStore();
+  if (!call) {
+    return;
+  }
+  call.reads.push(read);
+  if (read.degradation) {
+    call.degradations.add(read.degradation);
+  }
+}
+
+/**
+ * Report degraded data for the tool call in progress, if any. A fetch shared by concurrent
+ * calls of the same key reports to the call that started it.
+ */
+export function reportDegradation(degradation: DataDegradation): void {
+  currentCall.getStore()?.degradations.add(degradation);
+}
+
+/**
+ * Run a tool call and add the provenance of its data to the result's `_meta`
+ */
+export async function withResponseMeta<R extends { content: Array<{ type: string; text: string }>; _meta?: unknown }>(
+  call: () => Promise<R>
+): Promise<R> {
+  const provenance: CallProvenance = { reads: [], degradations: new Set() };
+  const result = await currentCall.run(provenance, call);
+
+  const meta = summarizeProvenance(provenance);
+  if (Object.keys(meta).length === 0) {
+    return result;
+  }
+
+  const existing = (result._meta ?? {}) as Record<string, unknown>;
+  return {
+    ...result,
+    // A commit the tool reported itself wins over the one read from cached values
+    _meta: { ...meta, ...existing },
+    ...(meta.degradation && {
+      content: [...result.content, { type: 'text', text: formatNotice(meta) }]
+    })
+  };
+}
+
+function summarizeProvenance({ reads, degradations }: CallProvenance): ResponseMeta {
+  const meta: ResponseMeta = {};
+
+  const tiers = new Set(reads.map(read => read.tier));
+  if (tiers.size > 0) {
+    meta.tier = tiers.size === 1 ? [...tiers][0] : 'mixed';
+  }
+
+  const cachedAt = reads.flatMap(read => read.cachedAt ? [read.cachedAt.getTime()] : []);
+  if (cachedAt.length > 0) {
+    meta.cacheAgeSeconds = Math.max(0, Math.round((Date.now() - Math.min(...cachedAt)) / 1000));
+  }
+
+  const shas = new Set(reads.flatMap(read => {
+    const sha = (read.value as { githubSha?: unknown } | null | undefined)?.githubSha;
+    return typeof sha === 'string' ? [sha] : [];
+  }));
+  if (shas.size === 1) {
+    meta.githubSha = [...shas][0];
+  }
+
+  if (degradations.size > 0) {
+    meta.degradation = [...degradations];
+  }
+  return meta;
+}
+
+function formatNotice({ degradation = [], cacheAgeSeconds }: ResponseMeta): string {
+  const age = cacheAgeSeconds !== undefined ? ` Cached data is ${formatAge(cacheAgeSeconds)} old.` : '';
+  const reasons = degradation.map(type => NOTICES[type]).join('; ');
+  return `Notice: ${reasons.charAt(0).toUpperCase()}${reasons.slice(1)}.${age}`;
+}
+
+function formatAge(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  if (seconds < 3600) {
+    return `${Math.round(seconds / 60)} min`;
+  }
+  if (seconds < 86400) {
+    return `${Math.round(seconds / 3600)} h`;
+  }
+  return `${Math.round(seconds / 86400)} d`;
+}
@@ -6,12 +6,32 @@
 import { 
   HybridStorageProvider, 
   CacheStrategy, 
+  type Block,
+  type BlockMetadata,
+  type CatalogFilter,
+  type Component,
+  type ComponentMetadata,
   type HybridStorageConfig 
 } from '../storage/index.js';
 import { ConfigurationManager, CacheConfiguration } from '../config/index.js';
 import { logError, logInfo, logWarning } from './logger.js';
 import { RequestDeduplicator } from './request-deduplicator.js';
+import type { ProgressReporter } from './progress.js';
+import { recordRead, type DataRead } from './response-meta.js';
+import { getFramework, type Framework } from './framework.js';
+import { getStyleScope, setConfiguredStyle } from './style.js';
+import { getRefScope, setConfiguredRef } from './git-ref.js';
 import { initializeDatabase } from '../storage/database/connection.js';
+import { MemorySearchIndex } from '../storage/search/memory-search-index.js';
+import {
+  componentToSearchDocument,
+  blockToSearchDocument,
+  extractExportedSymbols,
+  getCachedDemoCode,
+  getCachedDescription,
+  type SearchHit,
+  type SearchOptions
+} from '../storage/search/search-document.js';
 
 /**
  * Global storage instance for the MCP server
@@ -28,6 +48,12 @@ let globalConfigManager: ConfigurationManager | null = null;
  */
 const globalRequestDeduplicator = new RequestDeduplicator();
 
+/**
+ * Global in-memory search index, fed by every getCachedData() result.
+ * Used when PGLite full-text search is disabled or unavailable.
+ */
+const globalSearchIndex = new MemorySearchIndex();
+
 /**
  * Get or create the configuration manager instance
  */
@@ -144,6 +170,8 @@ export async function initializeStorage(): Promise<void> {
     // Initialize configuration manager first
     const configManager = getConfigurationManager();
     await configManager.load();
+    setConfiguredStyle(configManager.get<string>('style', ''));
+    setConfiguredRef(configManager.get<string>('ref', ''));
     
     // Initialize PGLite database if PGLite storage is enabled
     const config = await getStorageConfig();
@@ -221,58 +249,300 @@ export function __resetStorageForTesting(): void {
   globalStorage = null;
   globalConfigManager = null;
   globalRequestDeduplicator.clear();
+  globalSearchIndex.clear();
+}
+
+/**
+ * Per-call options of getCachedData()
+ */
+export interface CachedDataOptions {
+  /** Reporter of the calling tool, told whether the cache answered */
+  progress?: ProgressReporter;
+  /**
+   * Cancels the caller's wait; the fetch itself, shared with concurrent callers of the
+   * same key, is aborted once every one of them has cancelled
+   */
+  signal?: AbortSignal;
 }
 
 /**
  * Get cached data with automatic fallback to provided fetch function
  * This is the main interface for tool handlers to use caching
+ * @param fetchFunction Fetch on a cache miss, given the signal to abort its requests with
  */
 export async function getCachedData<T>(
   key: string,
-  fetchFunction: () => Promise<T>,
-  ttl?: number
+  fetchFunction: (signal?: AbortSignal) => Promise<T>,
+  ttl?: number,
+  { progress, signal }: CachedDataOptions = {}
 ): Promise<T> {
+  signal?.throwIfAborted();
+
   if (!isStorageInitialized()) {
     logWarning('Storage not initialized, using direct fetch');
-    return await fetchFunction();
+    progress?.step(`Fetching ${key}`);
+    return indexForSearch(key, fetched(await fetchFunction(signal)));
   }
 
   const storage = getStorage();
   
   try {
     // Try to get from cache first
-    const cached = await storage.get(key);
+    const cached = await storage.getEntry(key);
     if (cached !== undefined) {
       logInfo(`Cache hit for key: ${key}`);
-      return cached;
+      progress?.step(`Read ${key} from cache`);
+      recordRead(cached);
+      return indexForSearch(key, cached.value);
     }
     
     // Cache miss - deduplicate the fetch request
     logInfo(`Cache miss for key: ${key}, fetching fresh data with deduplication`);
+    progress?.step(`Cache miss for ${key}, fetching from GitHub`);
+    let served: DataRead = { tier: 'github' };
     const freshData = await globalRequestDeduplicator.deduplicate(
       key,
-      async () => {
+      async (fetchSignal) => {
         // Double-check cache in case another request populated it
-        const rechecked = await storage.get(key);
+        const rechecked = await storage.getEntry(key);
         if (rechecked !== undefined) {
-          return rechecked;
+          served = rechecked;
+          return rechecked.value;
         }
         
         // Fetch and cache
-        const result = await fetchFunction();
+        const result = await fetchFunction(fetchSignal);
         await storage.set(key, result, ttl);
         return result;
-      }
+      },
+      signal
     );
     
-    return freshData;
+    recordRead({ cachedAt: new Date(), ...served, value: freshData });
+    return indexForSearch(key, freshData);
     
   } catch (error) {
+    // A cancelled call wants no result at all
+    if (signal?.aborted) {
+      throw error;
+    }
     logError(`Error in getCachedData for key ${key}`, error);
     
     // Fallback to direct fetch with deduplication even if caching fails
     logWarning(`Falling back to direct fetch with deduplication for key: ${key}`);
-    return await globalRequestDeduplicator.deduplicate(key, fetchFunction);
+    return indexForSearch(key, fetched(await globalRequestDeduplicator.deduplicate(key, fetchFunction, signal)));
+  }
+}
+
+/**
+ * Record a value fetched from GitHub for the tool call in progress
+ */
+function fetched<T>(value: T): T {
+  recordRead({ tier: 'github', cachedAt: new Date(), value });
+  return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Cached component: the row PGLite stores, or what the component tools fetch
+ */
+function isCachedComponent(value: unknown): value is Omit<Component, 'framework' | 'name'> {
+  return isRecord(value) && typeof value.sourceCode === 'string';
+}
+
+/**
+ * Cached block: the row PGLite stores, or what the block tools fetch
+ */
+function isCachedBlock(value: unknown): value is Omit<Block, 'framework' | 'name'> {
+  return isRecord(value) && (value.files === undefined || isRecord(value.files));
+}
+
+/**
+ * Cached component list (list:components:<framework>)
+ */
+function isCachedComponentList(value: unknown): value is { components: string[] } {
+  return isRecord(value) && Array.isArray(value.components) && value.components.every(name => typeof name === 'string');
+}
+
+/**
+ * Feed component and block data into the in-memory search index
+ * @param key Cache key the value was read or fetched for
+ * @param value Cached value
+ * @returns The value, unchanged
+ */
+function indexForSearch<T>(key: string, value: T): T {
+  const [type, scope, name] = key.split(':');
+  // Search is style-agnostic: "react/default" indexes as "react"
+  const framework = scope?.split('/')[0];
+  // List keys ("list:components:react@v1.0.0") carry the framework scope, and so the ref, in the name
+  const refScope = type === 'list' ? name : scope;
+
+  // Entries pinned to a ref ("react@v1.0.0") would shadow the current code
+  if (!framework || !name || value === undefined || value === null || refScope.includes('@')) {
+    return value;
+  }
+
+  try {
+    switch (type) {
+      case 'component':
+        if (typeof value === 'string') {
+          globalSearchIndex.upsert({ kind: 'component', framework, name, symbols: extractExportedSymbols(value) });
+        } else if (isCachedComponent(value)) {
+          globalSearchIndex.upsert(componentToSearchDocument({ ...value, framework, name }));
+        }
+        break;
+
+      case 'component-demo': {
+        const demoCode = getCachedDemoCode(value);
+        if (demoCode !== undefined) {
+          globalSearchIndex.upsert({ kind: 'component', framework, name, demoCode });
+        }
+        break;
+      }
+
+      case 'component-metadata': {
+        const description = getCachedDescription(value);
+        if (description !== undefined) {
+          globalSearchIndex.upsert({ kind: 'component', framework, name, description });
+        }
+        break;
+      }
+
+      case 'block':
+        if (isCachedBlock(value)) {
+          globalSearchIndex.upsert(blockToSearchDocument({ ...value, framework, name }));
+        }
+        break;
+
+      case 'list':
+        // list:components:<framework> makes every component name searchable before its source is fetched
+        if (framework === 'components' && isCachedComponentList(value)) {
+          for (const componentName of value.components) {
+            globalSearchIndex.upsert({ kind: 'component', framework: name.split('/')[0], name: componentName });
+          }
+        }
+        break;
+    }
+  } catch (error) {
+    logWarning(`Failed to index ${key} for search: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return value;
+}
+
+/**
+ * Search cached components and blocks.
+ * Merges the hits of the PGLite full-text index with those of the in-memory index, which
+ * also holds items this process read but PGLite has no row for (demos and descriptions
+ * of components whose source is not cached, names from component lists). Uses the
+ * in-memory index alone when PGLite is disabled or fails.
+ * @param query Free-text query
+ * @param options Framework/kind filters and result limit
+ */
+export async function searchCachedItems(
+  query: string,
+  options: SearchOptions = {}
+): Promise<{ backend: 'pglite' | 'memory'; hits: SearchHit[] }> {
+  const pglite = isStorageInitialized() ? getStorage().getPGLiteProvider() : undefined;
+  const memoryHits = globalSearchIndex.search(query, options);
+
+  if (pglite) {
+    try {
+      const hits = await pglite.search(query, options);
+      return { backend: 'pglite', hits: mergeSearchHits([hits, memoryHits], options.limit) };
+    } catch (error) {
+      logWarning(`PGLite search failed, using in-memory index: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return { backend: 'memory', hits: memoryHits };
+}
+
+/**
+ * Merge the hits of several indexes into one ranking with one hit per item. The indexes
+ * score on different scales, so each hit is scored relative to the best hit of its index.
+ */
+function mergeSearchHits(resultSets: SearchHit[][], limit?: number): SearchHit[] {
+  const merged = new Map<string, SearchHit>();
+
+  for (const hits of resultSets) {
+    const best = Math.max(...hits.map(hit => hit.score)) || 1;
+    for (const hit of hits) {
+      const key = `${hit.kind}:${hit.framework}:${hit.name}`;
+      const existing = merged.get(key);
+      const score = Number((hit.score / best).toFixed(4));
+      if (!existing || score > existing.score) {
+        merged.set(key, { ...hit, score, description: hit.description ?? existing?.description });
+      } else if (!existing.description && hit.description) {
+        existing.description = hit.description;
+      }
+    }
+  }
+
+  return Array.from(merged.values())
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+/**
+ * Page through the cached rows of a component or block list in PGLite
+ * @param table Table the list's items are cached in
+ * @param scope Cache scope of the listed items (see getCacheScope())
+ * @param names Names of the listed items
+ * @param filter Name pattern, used component and block type filters
+ * @param offset Number of matching items to skip
+ * @param limit Maximum number of items to return
+ * @returns undefined when PGLite is unavailable, fails, or lacks a row for some listed item
+ */
+export async function queryCachedCatalog(
+  table: 'components' | 'blocks',
+  scope: string,
+  names: string[],
+  filter: CatalogFilter,
+  offset: number,
+  limit: number
+): Promise<{ entries: Array<ComponentMetadata | BlockMetadata>; total: number } | undefined> {
+  const pglite = isStorageInitialized() ? getStorage().getPGLiteProvider() : undefined;
+  if (!pglite) {
+    return undefined;
+  }
+
+  try {
+    return await pglite.queryCatalog(table, scope, names, filter, offset, limit);
+  } catch (error) {
+    logWarning(`PGLite ${table} query failed, filtering the list instead: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Get every revision of a component's source held in persistent storage, including
+ * revisions cached at other git refs. Empty when PGLite is unavailable.
+ * @param componentName Component name
+ * @param framework Framework (defaults to the server framework)
+ * @param style Registry style (defaults to the configured style)
+ */
+export async function getCachedComponentVersions(
+  componentName: string,
+  framework: string = getFramework(),
+  style?: string
+): Promise<Array<{ scope: string; sourceCode: string; githubSha?: string }>> {
+  const pglite = isStorageInitialized() ? getStorage().getPGLiteProvider() : undefined;
+  if (!pglite) {
+    return [];
+  }
+
+  try {
+    const versions = await pglite.listComponentVersions(getStyleScope(framework as Framework, style), componentName);
+    return versions
+      .filter(version => typeof version.sourceCode === 'string')
+      .map(version => ({ scope: version.framework, sourceCode: version.sourceCode, githubSha: version.githubSha }));
+  } catch (error) {
+    logWarning(`Failed to list cached versions of ${componentName}: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
   }
 }
 
@@ -473,41 +743,87 @@ export function isStatsResetSupported(): boolean {
 }
 
 /**
- * Utility function to generate cache keys for components
+ * Utility function to generate cache keys for components.
+ * Non-default styles are scoped as "framework/style" so styles never collide,
+ * and fetches pinned to a git ref as "framework@ref".
  */
-export function generateComponentKey(componentName: string, framework = 'react'): string {
-  return `component:${framework}:${componentName}`;
+export function generateComponentKey(componentName: string, framework: string = getFramework(), style?: string, ref?: string): string {
+  return `component:${getRefScope(getStyleScope(framework as Framework, style), ref)}:${componentName}`;
 }
 
 /**
  * Utility function to generate cache keys for component demos
  */
-export function generateComponentDemoKey(componentName: string, framework = 'react'): string {
-  return `component-demo:${framework}:${componentName}`;
+export function generateComponentDemoKey(componentName: string, framework: string = getFramework(), style?: string, ref?: string): string {
+  return `component-demo:${getRefScope(getStyleScope(framework as Framework, style), ref)}:${componentName}`;
 }
 
 /**
  * Utility function to generate cache keys for component metadata
  */
-export function generateComponentMetadataKey(componentName: string, framework = 'react'): string {
-  return `component-metadata:${framework}:${componentName}`;
+export function generateComponentMetadataKey(componentName: string, framework: string = getFramework(), style?: string, ref?: string): string {
+  return `component-metadata:${getRefScope(getStyleScope(framework as Framework, style), ref)}:${componentName}`;
+}
+
+/**
+ * Utility function to generate cache keys for themes (registry base colors)
+ */
+export function generateThemeKey(themeName: string, framework: string = getFramework(), ref?: string): string {
+  return `theme:${getRefScope(framework, ref)}:${themeName}`;
+}
+
+/**
+ * Utility function to generate cache keys for chart, hook, lib and example items.
+ * Each item type has its own prefix ("chart:", "hook:", "lib:", "example:")
+ */
+export function generateRegistryItemTypeKey(itemType: `registry:${'chart' | 'hook' | 'lib' | 'example'}`, itemName: string, framework: string = getFramework(), style?: string, ref?: string): string {
+  return `${itemType.slice('registry:'.length)}:${getRefScope(getStyleScope(framework as Framework, style), ref)}:${itemName}`;
 }
 
 /**
  * Utility function to generate cache keys for blocks
  */
-export function generateBlockKey(blockName: string, includeComponents = true, framework = 'react'): string {
-  return `block:${framework}:${blockName}:components-${includeComponents}`;
+export function generateBlockKey(blockName: string, includeComponents = true, framework: string = getFramework(), style?: string, ref?: string): string {
+  return `block:${getRefScope(getStyleScope(framework as Framework, style), ref)}:${blockName}:components-${includeComponents}`;
 }
 
 /**
  * Utility function to generate cache keys for lists
  */
-export function generateListKey(type: 'components' | 'blocks', framework = 'react', category?: string): string {
-  const base = `list:${type}:${framework}`;
+export function generateListKey(type: 'components' | 'blocks' | 'themes' | 'charts' | 'hooks' | 'lib' | 'examples', framework: string = getFramework(), category?: string, style?: string, ref?: string): string {
+  const base = `list:${type}:${getRefScope(getStyleScope(framework as Framework, style), ref)}`;
   return category ? `${base}:${category}` : base;
 }
 
+/**
+ * Scope of the item cache keys of a framework, style and git ref (see getKeyScope())
+ */
+export function getCacheScope(framework: string = getFramework(), style?: string, ref?: string): string {
+  return getRefScope(getStyleScope(framework as Framework, style), ref);
+}
+
+/**
+ * Scope part of a cache key (e.g. "react/default@v1.0.0"); component and block rows
+ * in PGLite are stored under this scope as their framework
+ */
+export function getKeyScope(key: string): string {
+  return key.split(':')[1];
+}
+
+/**
+ * Utility function to generate cache keys for items from a named registry
+ */
+export function generateRegistryItemKey(registry: string, itemName: string): string {
+  return `registry-item:${registry}:${itemName}`;
+}
+
+/**
+ * Utility function to generate cache keys for a named registry's index
+ */
+export function generateRegistryIndexKey(registry: string): string {
+  return `registry-index:${registry}`;
+}
+
 /**
  * Utility function to generate cache keys for directory structure
  */
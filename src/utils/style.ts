@@ -0,0 +1,94 @@
+/**
+ * Style selection for shadcn/ui registries
+ *
+ * shadcn/ui publishes the same components in several styles ("new-york-v4" for v4
+ * projects, "default" and "new-york" for older ones), selected by the `style` field of
+ * a project's components.json. The server style comes from the `style` configuration
+ * option (SHADCN_MCP_STYLE / --style); tools may override it per call.
+ */
+
+import { getAxiosImplementation, getFramework, type Framework } from './framework.js';
+
+/**
+ * Style used when none is configured
+ */
+export const DEFAULT_STYLES: Record<Framework, string> = {
+  react: 'new-york-v4',
+  svelte: 'default'
+};
+
+let configuredStyle: string | undefined;
+
+/**
+ * Styles published per framework, fetched once per process
+ */
+const availableStyles = new Map<Framework, Promise<string[]>>();
+
+/**
+ * Set the server style from configuration
+ */
+export function setConfiguredStyle(style?: string): void {
+  configuredStyle = style || undefined;
+}
+
+/**
+ * Get the style to use for a framework.
+ * The configured style describes the project, so it only applies to the server framework.
+ * @param framework Framework (defaults to the server framework)
+ */
+export function getStyle(framework: Framework = getFramework()): string {
+  if (configuredStyle && framework === getFramework()) {
+    return configuredStyle;
+  }
+  return DEFAULT_STYLES[framework];
+}
+
+/**
+ * Cache-key scope for a framework and style. The default style keeps the bare framework
+ * so existing cache entries stay valid; other styles get their own "framework/style" scope.
+ */
+export function getStyleScope(framework: Framework, style: string = getStyle(framework)): string {
+  return style === DEFAULT_STYLES[framework] ? framework : `${framework}/${style}`;
+}
+
+/**
+ * List the styles published for a framework
+ */
+export async function getAvailableStyles(framework: Framework = getFramework()): Promise<string[]> {
+  let styles = availableStyles.get(framework);
+  if (!styles) {
+    styles = getAxiosImplementation(framework).then(axios => axios.getAvailableStyles());
+    // Do not remember failures; the next call retries
+    styles.catch(() => availableStyles.delete(framework));
+    availableStyles.set(framework, styles);
+  }
+  return styles;
+}
+
+/**
+ * Resolve and validate a style against the styles that exist in the framework's registry
+ * @param style Requested style (defaults to the configured style)
+ * @param framework Framework (defaults to the server framework)
+ * @returns The validated style
+ * @throws If the style does not exist
+ */
+export async function resolveStyle(style: string | undefined, framework: Framework = getFramework()): Promise<string> {
+  const resolved = style ?? getStyle(framework);
+  if (resolved === DEFAULT_STYLES[framework]) {
+    return resolved;
+  }
+
+  const styles = await getAvailableStyles(framework);
+  if (!styles.includes(resolved)) {
+    throw new Error(`Style "${resolved}" does not exist in the ${framework} registry. Available styles: ${styles.join(', ')}`);
+  }
+  return resolved;
+}
+
+/**
+ * Reset cached style state (for testing)
+ */
+export function __resetStylesForTesting(): void {
+  configuredStyle = undefined;
+  availableStyles.clear();
+}
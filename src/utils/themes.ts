@@ -0,0 +1,112 @@
+/**
+ * Theme CSS for the base colors of the shadcn/ui and shadcn-svelte registries
+ *
+ * Both registries publish each base color as colors/<name>.json with `:root` (light) and
+ * `.dark` variables. This module turns them into the Tailwind v4 stylesheet `init` writes:
+ * an `@theme inline` block mapping the variables to Tailwind colors, followed by the
+ * `:root` and `.dark` blocks in oklch.
+ */
+
+import type { Framework } from './framework.js';
+import type { CssVars } from '../schemas/registry.js';
+import type { BaseColor } from '../schemas/theme.js';
+import { CSS_VARIABLE_SELECTORS, type CssVariableScope } from './project.js';
+
+/**
+ * Stylesheet the theme goes into, as written by each framework's `init`
+ */
+export const THEME_CSS_FILES: Record<Framework, string> = {
+  react: 'app/globals.css',
+  svelte: 'src/app.css'
+};
+
+/**
+ * Theming documentation of each framework
+ */
+export const THEME_DOCS_URLS: Record<Framework, string> = {
+  react: 'https://ui.shadcn.com/docs/theming',
+  svelte: 'https://shadcn-svelte.com/docs/theming'
+};
+
+/**
+ * Radius used by `init` when a base color does not declare one
+ */
+const DEFAULT_RADIUS = '0.625rem';
+
+/**
+ * Radius scale Tailwind v4 derives from `--radius`
+ */
+const RADIUS_SCALE: Record<string, string> = {
+  'radius-sm': 'calc(var(--radius) - 4px)',
+  'radius-md': 'calc(var(--radius) - 2px)',
+  'radius-lg': 'var(--radius)',
+  'radius-xl': 'calc(var(--radius) + 4px)'
+};
+
+/**
+ * Bare HSL channels ("0 0% 3.9%") as used by Tailwind v3 themes
+ */
+const HSL_CHANNELS = /^-?[\d.]+(deg)?\s+-?[\d.]+%\s+-?[\d.]+%(\s*\/\s*[\d.]+%?)?$/;
+
+export type ThemeVariables = Record<CssVariableScope, Record<string, string>>;
+
+function stripPrefix(variable: string): string {
+  return variable.replace(/^--/, '');
+}
+
+/**
+ * Theme variables of a base color: the Tailwind v4 (oklch) set when published, the v3 set
+ * otherwise, with bare HSL channels wrapped in hsl() so every value is a complete color
+ */
+export function getThemeVariables(baseColor: BaseColor): ThemeVariables {
+  const source: CssVars = baseColor.cssVarsV4 ?? baseColor.cssVars;
+  const normalize = (variables: Record<string, string> = {}) => Object.fromEntries(
+    Object.entries(variables).map(([name, value]) => [stripPrefix(name), HSL_CHANNELS.test(value.trim()) ? `hsl(${value.trim()})` : value])
+  );
+
+  const light = normalize(source.light);
+  light.radius ??= DEFAULT_RADIUS;
+  return { theme: normalize(source.theme), light, dark: normalize(source.dark) };
+}
+
+function formatBlock(selector: string, variables: Record<string, string>): string {
+  const lines = Object.entries(variables).map(([name, value]) => `  --${name}: ${value};`);
+  return `${selector} {\n${lines.join('\n')}\n}`;
+}
+
+/**
+ * Tailwind v4 stylesheet for a theme, ready to replace the framework's global CSS
+ */
+export function formatThemeCss(name: string, variables: ThemeVariables, framework: Framework): string {
+  const cli = framework === 'svelte' ? 'shadcn-svelte@latest' : 'shadcn@latest';
+  const colors = Object.keys({ ...variables.light, ...variables.dark }).filter(variable => variable !== 'radius');
+  const theme = {
+    ...RADIUS_SCALE,
+    ...Object.fromEntries(colors.map(variable => [`color-${variable}`, `var(--${variable})`])),
+    ...variables.theme
+  };
+
+  return [
+    `/* "${name}" theme for ${THEME_CSS_FILES[framework]} (Tailwind v4). Equivalent to: npx ${cli} init --base-color ${name} */`,
+    '@import "tailwindcss";',
+    '@import "tw-animate-css";',
+    '',
+    '@custom-variant dark (&:is(.dark *));',
+    '',
+    formatBlock(CSS_VARIABLE_SELECTORS.theme, theme),
+    '',
+    formatBlock(CSS_VARIABLE_SELECTORS.light, variables.light),
+    '',
+    formatBlock(CSS_VARIABLE_SELECTORS.dark, variables.dark),
+    '',
+    '@layer base {',
+    '  * {',
+    '    @apply border-border outline-ring/50;',
+    '  }',
+    '  body {',
+    '    @apply bg-background text-foreground;',
+    '  }',
+    '}',
+    ''
+  ].join('\n');
+}
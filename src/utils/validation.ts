@@ -2,56 +2,16 @@ import Joi from 'joi';
 
 
 /**
- * Validation schemas for different request types
+ * Validation schemas for protocol-level request envelopes.
+ * Tool arguments are validated against the zod schemas in the tool registry.
  */
 export const validationSchemas = {
-  // Component-related schemas
-  componentName: Joi.object({
-    componentName: Joi.string().required().min(1).max(100)
-      .description('Name of the shadcn/ui component')
-  }),
-
-  // Search schemas
-  searchQuery: Joi.object({
-    query: Joi.string().required().min(1).max(500)
-      .description('Search query string')
-  }),
-
-  // Optional query schemas
-  optionalQuery: Joi.object({
-    query: Joi.string().optional().max(500)
-      .description('Optional query string')
-  }),
-
-  // Block schemas
-  blockQuery: Joi.object({
-    query: Joi.string().optional().max(500)
-      .description('Optional search query'),
-    category: Joi.string().optional().max(100)
-      .description('Optional category filter')
-  }),
-
-  // Directory structure schemas
-  directoryStructure: Joi.object({
-    path: Joi.string().optional().max(500)
-      .description('Path within the repository'),
-    owner: Joi.string().optional().max(100)
-      .description('Repository owner'),
-    repo: Joi.string().optional().max(100)
-      .description('Repository name'),
-    branch: Joi.string().optional().max(100)
-      .description('Branch name')
-  }),
-
-  // Block schemas
-  blockRequest: Joi.object({
-    blockName: Joi.string().required().min(1).max(200)
-      .description('Name of the block'),
-    includeComponents: Joi.boolean().optional()
-      .description('Whether to include component files')
+  // Resource schemas
+  resourceListRequest: Joi.object({
+    cursor: Joi.string().max(1000).optional()
+      .description('Pagination cursor')
   }),
 
-  // Resource schemas
   resourceRequest: Joi.object({
     uri: Joi.string().required().min(1).max(1000)
       .description('Resource URI')
@@ -65,6 +25,31 @@ export const validationSchemas = {
       .description('Prompt arguments')
   }),
 
+  // Completion schemas
+  completeRequest: Joi.object({
+    ref: Joi.object({
+      type: Joi.string().valid('ref/prompt', 'ref/resource').required(),
+      name: Joi.string().min(1).max(200),
+      uri: Joi.string().min(1).max(1000)
+    }).required()
+      .description('Prompt or resource template being completed'),
+    argument: Joi.object({
+      name: Joi.string().required().min(1).max(200),
+      value: Joi.string().allow('').max(1000).required()
+    }).required()
+      .description('Argument being completed'),
+    context: Joi.object({
+      arguments: Joi.object().pattern(Joi.string(), Joi.string().allow('')).optional()
+    }).optional()
+      .description('Arguments already resolved')
+  }),
+
+  // Logging schemas
+  setLevelRequest: Joi.object({
+    level: Joi.string().valid('debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency').required()
+      .description('Lowest level of the log messages sent to the client')
+  }),
+
   // Tool schemas
   toolRequest: Joi.object({
     name: Joi.string().required().min(1).max(200)
@@ -116,31 +101,21 @@ export function validateRequest<T>(
  */
 export function getValidationSchema(method: string): Joi.ObjectSchema | undefined {
   const schemaMap: Record<string, Joi.ObjectSchema> = {
-    // Component methods
-    'get_component': validationSchemas.componentName,
-    'get_component_demo': validationSchemas.componentName,
-    'get_component_metadata': validationSchemas.componentName,
-    'get_component_details': validationSchemas.componentName,
-    'get_examples': validationSchemas.componentName,
-    'get_usage': validationSchemas.componentName,
-    
-    // Search methods
-    'search_components': validationSchemas.searchQuery,
-    'get_themes': validationSchemas.optionalQuery,
-    'get_blocks': validationSchemas.blockQuery,
-    
-    // Directory methods
-    'get_directory_structure': validationSchemas.directoryStructure,
-    
-    // Block methods
-    'get_block': validationSchemas.blockRequest,
-    
     // Resource methods
+    'list_resources': validationSchemas.resourceListRequest,
     'read_resource': validationSchemas.resourceRequest,
+    'subscribe_resource': validationSchemas.resourceRequest,
+    'unsubscribe_resource': validationSchemas.resourceRequest,
     
     // Prompt methods
     'get_prompt': validationSchemas.promptRequest,
     
+    // Completion methods
+    'complete': validationSchemas.completeRequest,
+    
+    // Logging methods
+    'set_log_level': validationSchemas.setLevelRequest,
+    
     // Tool methods
     'call_tool': validationSchemas.toolRequest
   };
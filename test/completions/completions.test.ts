@@ -0,0 +1,63 @@
+/**
+ * Argument Completion Tests
+ * completion/complete for prompt arguments and resource template variables
+ */
+
+import { vi, describe, it, expect } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+const { axios } = vi.hoisted(() => ({
+  axios: {
+    getAvailableComponents: vi.fn(async () => ['badge', 'button', 'calendar', 'card']),
+    getAvailableBlocks: vi.fn(async () => ({ categories: { login: [{ name: 'login-01' }, { name: 'login-02' }], sidebar: [{ name: 'sidebar-01' }] } }))
+  }
+}));
+
+vi.mock('../../src/utils/storage-integration.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/storage-integration.js')>(),
+  getCachedData: vi.fn(async (_key: string, fetchFn: () => Promise<unknown>) => fetchFn())
+}));
+
+vi.mock('../../src/utils/framework.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/framework.js')>(),
+  getFramework: vi.fn(() => 'react'),
+  getAxiosImplementation: vi.fn(async () => axios)
+}));
+
+import { completeArgument } from '../../src/completions.js';
+
+describe('argument completion', () => {
+  it('should complete resource template variables from the registry lists and installation options', async () => {
+    const installScript = 'resource-template:get_install_script_for_component?packageManager={packageManager}&component={component}';
+    expect(await completeArgument({ type: 'ref/resource', uri: installScript }, { name: 'component', value: 'B' })).toEqual({
+      values: ['badge', 'button'],
+      total: 2,
+      hasMore: false
+    });
+    expect((await completeArgument({ type: 'ref/resource', uri: installScript }, { name: 'packageManager', value: 'p' })).values).toEqual(['pnpm']);
+
+    const guide = 'resource-template:get_installation_guide?buildTool={buildTool}&packageManager={packageManager}';
+    expect((await completeArgument({ type: 'ref/resource', uri: guide }, { name: 'buildTool', value: '' })).values).toEqual(['next', 'vite', 'remix']);
+
+    const blocks = 'shadcn://{framework}/blocks/{name}';
+    expect((await completeArgument({ type: 'ref/resource', uri: blocks }, { name: 'framework', value: 's' })).values).toEqual(['svelte']);
+    expect((await completeArgument({ type: 'ref/resource', uri: blocks }, { name: 'name', value: 'login' }, { framework: 'react' })).values)
+      .toEqual(['login-01', 'login-02']);
+  });
+
+  it('should complete enumerated prompt values and the last entry of comma-separated lists', async () => {
+    expect((await completeArgument({ type: 'ref/prompt', name: 'create-auth-flow' }, { name: 'authType', value: 'f' })).values)
+      .toEqual(['forgot-password']);
+    expect((await completeArgument({ type: 'ref/prompt', name: 'create-data-table' }, { name: 'features', value: 'sorting, s' })).values)
+      .toEqual(['sorting, search', 'sorting, selection']);
+    expect((await completeArgument({ type: 'ref/prompt', name: 'optimize-shadcn-component' }, { name: 'component', value: 'ca' })).values)
+      .toEqual(['calendar', 'card']);
+    expect((await completeArgument({ type: 'ref/prompt', name: 'create-data-table' }, { name: 'unknown', value: '' })).values).toEqual([]);
+  });
+
+  it('should reject unknown prompts and resource templates', async () => {
+    const isInvalidParams = (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams;
+    await expect(completeArgument({ type: 'ref/prompt', name: 'missing' }, { name: 'x', value: '' })).rejects.toSatisfy(isInvalidParams);
+    await expect(completeArgument({ type: 'ref/resource', uri: 'shadcn://{framework}/missing/{name}' }, { name: 'name', value: '' })).rejects.toSatisfy(isInvalidParams);
+  });
+});
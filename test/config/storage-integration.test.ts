@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { getConfigurationManager, initializeStorage, disposeStorage, __resetStorageForTesting } from '../../src/utils/storage-integration.js';
+import { getConfigurationManager, getCachedData, initializeStorage, disposeStorage, searchCachedItems, __resetStorageForTesting } from '../../src/utils/storage-integration.js';
 import { ConfigurationManager } from '../../src/config/manager.js';
 
 // Mock the storage system
@@ -270,4 +270,48 @@ describe('Storage Integration', () => {
       expect(config).toHaveProperty('circuitBreaker');
     });
   });
+
+  describe('Search Intent', () => {
+    it('should merge PGLite hits with items only the in-memory index holds', async () => {
+      const fs = await import('fs');
+      vi.mocked(fs.promises.access).mockRejectedValue(new Error('File not found'));
+
+      // Read before storage is initialized, so only the in-memory index has it
+      await getCachedData('component-metadata:react:date-picker', async () => ({ description: 'Pick a date from a calendar' }));
+
+      const search = vi.fn(async () => [
+        { kind: 'block' as const, framework: 'react', name: 'calendar-01', score: 0.6, snippet: 'A **calendar** block' },
+        { kind: 'component' as const, framework: 'react', name: 'calendar', score: 0.3, snippet: 'calendar' }
+      ]);
+      const { HybridStorageProvider } = await import('../../src/storage/index.js');
+      vi.mocked(HybridStorageProvider).mockImplementation(() => ({
+        getHybridConfig: vi.fn().mockReturnValue({}),
+        getPGLiteProvider: () => ({ search }),
+        dispose: vi.fn(),
+        isDisposed: vi.fn().mockReturnValue(false)
+      }) as any);
+      await initializeStorage();
+
+      const { backend, hits } = await searchCachedItems('calendar', { limit: 10 });
+
+      // Intent: Each index's best hit leads, and items PGLite lacks are still found
+      expect(backend).toBe('pglite');
+      expect(hits.map(hit => [hit.name, hit.score])).toEqual([
+        ['calendar-01', 1],
+        ['date-picker', 1],
+        ['calendar', 0.5]
+      ]);
+      expect(hits[1].description).toBe('Pick a date from a calendar');
+    });
+
+    it('should not index component lists pinned to a ref', async () => {
+      await getCachedData('list:components:react@v1.0.0', async () => ({ components: ['legacy-widget'] }));
+      await getCachedData('list:components:react', async () => ({ components: ['modern-widget'] }));
+
+      const { hits } = await searchCachedItems('widget', { limit: 10 });
+
+      // Intent: A pinned list names components that may no longer exist upstream
+      expect(hits.map(hit => hit.name)).toEqual(['modern-widget']);
+    });
+  });
 });
\ No newline at end of file
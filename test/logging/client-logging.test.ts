@@ -0,0 +1,55 @@
+/**
+ * Client Logging Tests
+ * notifications/message for log entries at or above the level set with logging/setLevel
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { ClientLogging } from '../../src/client-logging.js';
+import type { LogEntry } from '../../src/utils/logger.js';
+
+const entry = (level: LogEntry['level'], message: string, error?: string): LogEntry => ({
+  timestamp: new Date().toISOString(),
+  level,
+  message,
+  ...(error && { error: { message: error } })
+});
+
+describe('client logging', () => {
+  const server = {
+    sendLoggingMessage: vi.fn(async () => {})
+  };
+  let logging: ClientLogging;
+
+  beforeEach(() => {
+    server.sendLoggingMessage.mockClear();
+    logging = new ClientLogging(server);
+  });
+
+  it('should send warnings and errors until the client sets a level', () => {
+    logging.handleLogEntry(entry('info', 'Cache hit for key: component:react:button'));
+    logging.handleLogEntry(entry('warn', 'GitHub API rate limit exhausted'));
+    logging.handleLogEntry(entry('error', 'Failed to get block "login-02"', 'Not Found'));
+
+    expect(server.sendLoggingMessage.mock.calls).toEqual([
+      [{ level: 'warning', logger: 'shadcn-ui-mcp-server', data: 'GitHub API rate limit exhausted' }],
+      [{ level: 'error', logger: 'shadcn-ui-mcp-server', data: { message: 'Failed to get block "login-02"', error: 'Not Found' } }]
+    ]);
+  });
+
+  it('should follow the level set by the client', () => {
+    logging.setLevel('debug');
+    logging.handleLogEntry(entry('debug', 'Listed apps/v4/registry'));
+    logging.setLevel('error');
+    logging.handleLogEntry(entry('warn', 'Serving stale data for component:react:button'));
+
+    expect(server.sendLoggingMessage).toHaveBeenCalledOnce();
+    expect(server.sendLoggingMessage).toHaveBeenCalledWith(expect.objectContaining({ level: 'debug' }));
+  });
+
+  it('should ignore failures to reach the client', async () => {
+    server.sendLoggingMessage.mockRejectedValueOnce(new Error('Not connected'));
+
+    expect(() => logging.handleLogEntry(entry('error', 'Storage failure'))).not.toThrow();
+    await new Promise(resolve => setImmediate(resolve));
+  });
+});
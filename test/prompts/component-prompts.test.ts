@@ -0,0 +1,71 @@
+/**
+ * Component Prompts Tests
+ * component_* prompts embed the component source, demo and metadata as resources
+ */
+
+import { vi, describe, it, expect } from 'vitest';
+
+const { axios } = vi.hoisted(() => ({
+  axios: {
+    getAvailableComponents: vi.fn(async () => ['button', 'calendar', 'date-picker']),
+    getComponentSource: vi.fn(async (name: string) => `export function ${name.replace(/-/g, '')}() {}\n`),
+    getComponentDemo: vi.fn(async (name: string) => {
+      if (name === 'date-picker') {
+        throw new Error('Demo not found');
+      }
+      return `// ${name} demo\n`;
+    }),
+    getComponentMetadata: vi.fn(async (name: string) => ({ name, type: 'registry:ui', dependencies: [] }))
+  }
+}));
+
+vi.mock('../../src/utils/storage-integration.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/storage-integration.js')>(),
+  getCachedData: vi.fn(async (_key: string, fetchFn: () => Promise<unknown>) => fetchFn())
+}));
+
+vi.mock('../../src/utils/framework.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/framework.js')>(),
+  getFramework: vi.fn(() => 'react'),
+  getAxiosImplementation: vi.fn(async () => axios)
+}));
+
+import { promptHandlers } from '../../src/prompts.js';
+
+describe('component prompts', () => {
+  it('should embed the source, demo and metadata of the component', async () => {
+    const { messages } = await promptHandlers.component_usage({ componentName: 'button' });
+
+    expect(messages[0].content).toMatchObject({ type: 'text' });
+    expect(messages.slice(1).map(message => message.content)).toEqual([
+      { type: 'resource', resource: { uri: 'shadcn://react/components/button', mimeType: 'text/x-typescript', text: 'export function button() {}\n' } },
+      { type: 'resource', resource: { uri: 'shadcn://react/demos/button', mimeType: 'text/x-typescript', text: '// button demo\n' } },
+      { type: 'resource', resource: expect.objectContaining({ uri: 'shadcn://react/components/button/metadata', mimeType: 'application/json' }) }
+    ]);
+  });
+
+  it('should leave out parts that cannot be read and fail for unknown components', async () => {
+    const { messages } = await promptHandlers.component_comparison({ component1: 'button', component2: 'date-picker' });
+    expect(messages.slice(1).map(message => 'resource' in message.content && message.content.resource.uri)).toEqual([
+      'shadcn://react/components/button',
+      'shadcn://react/demos/button',
+      'shadcn://react/components/button/metadata',
+      'shadcn://react/components/date-picker',
+      'shadcn://react/components/date-picker/metadata'
+    ]);
+
+    axios.getComponentSource.mockRejectedValueOnce(new Error('not found'));
+    axios.getComponentDemo.mockRejectedValueOnce(new Error('not found'));
+    axios.getComponentMetadata.mockRejectedValueOnce(new Error('not found'));
+    await expect(promptHandlers.component_tutorial({ componentName: 'missing' })).rejects.toThrow('Failed to read component "missing"');
+  });
+
+  it('should attach the components matching a search query', async () => {
+    const { messages } = await promptHandlers.component_search({ query: 'date picker' });
+
+    expect(messages[0].content).toMatchObject({ text: expect.stringContaining('The best matches are date-picker') });
+    expect(messages.slice(1).map(message => 'resource' in message.content && message.content.resource.uri)).toEqual([
+      'shadcn://react/components/date-picker/metadata'
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Catalog Resources Tests
+ * shadcn://{framework}/{components|demos|blocks}/{name} listing with cursor pagination, and reads
+ */
+
+import { vi, describe, it, expect } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+const { axios } = vi.hoisted(() => ({
+  axios: {
+    getAvailableComponents: vi.fn(async () => Array.from({ length: 120 }, (_, index) => `component-${String(index).padStart(3, '0')}`)),
+    getRegistryItems: vi.fn(async () => [{ name: 'button-demo', path: '' }, { name: 'chart-tooltip', path: '' }]),
+    getAvailableBlocks: vi.fn(async () => ({ categories: { login: [{ name: 'login-01' }], dashboard: [{ name: 'dashboard-01' }] } })),
+    getComponentSource: vi.fn(async (name: string) => `// ${name}\n`),
+    getComponentDemo: vi.fn(async (name: string) => `// ${name} demo\n`),
+    getBlockCode: vi.fn(async (name: string) => ({ name, files: {} }))
+  }
+}));
+
+vi.mock('../../src/utils/storage-integration.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/storage-integration.js')>(),
+  getCachedData: vi.fn(async (_key: string, fetchFn: () => Promise<unknown>) => fetchFn())
+}));
+
+vi.mock('../../src/utils/framework.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/framework.js')>(),
+  getFramework: vi.fn(() => 'react'),
+  getAxiosImplementation: vi.fn(async () => axios)
+}));
+
+import { listResources, readCatalogResource, parseCatalogResourceUri, RESOURCE_PAGE_SIZE } from '../../src/resources.js';
+
+describe('catalog resources', () => {
+  it('should page through static, component, demo and block resources', async () => {
+    const first = await listResources();
+    expect(first.resources).toHaveLength(RESOURCE_PAGE_SIZE);
+    expect(first.resources[0]).toMatchObject({ uri: 'resource:get_components', mimeType: 'text/plain' });
+    expect(first.resources[1]).toEqual({
+      uri: 'shadcn://react/components/component-000',
+      name: 'component-000',
+      title: 'component-000 component',
+      description: 'Source code of the shadcn/ui component-000 component',
+      mimeType: 'text/x-typescript'
+    });
+    expect(first.nextCursor).toBeDefined();
+
+    const second = await listResources(first.nextCursor);
+    expect(second.resources.map(resource => resource.uri).slice(-3)).toEqual([
+      'shadcn://react/demos/button',
+      'shadcn://react/blocks/dashboard-01',
+      'shadcn://react/blocks/login-01'
+    ]);
+    expect(second.resources).toHaveLength(1 + 120 + 1 + 2 - RESOURCE_PAGE_SIZE);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('should reject malformed cursors', async () => {
+    await expect(listResources('not-a-cursor')).rejects.toSatisfy(
+      (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams
+    );
+  });
+
+  it('should read components, demos and blocks of either framework', async () => {
+    expect(parseCatalogResourceUri('shadcn://vue/components/button')).toBeUndefined();
+    expect(await readCatalogResource('resource:get_components')).toBeUndefined();
+
+    expect(await readCatalogResource('shadcn://svelte/components/button')).toEqual({
+      contents: [{ uri: 'shadcn://svelte/components/button', mimeType: 'text/x-svelte', text: '// button\n' }]
+    });
+    expect((await readCatalogResource('shadcn://react/demos/button'))!.contents[0].text).toBe('// button demo\n');
+    expect(JSON.parse((await readCatalogResource('shadcn://react/blocks/login-01'))!.contents[0].text)).toMatchObject({ name: 'login-01' });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Resource Subscriptions Tests
+ * resources/updated for subscribed URIs and resources/list_changed when catalog lists change
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+vi.mock('../../src/utils/framework.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/framework.js')>(),
+  getFramework: vi.fn(() => 'react')
+}));
+
+import { ResourceSubscriptions } from '../../src/resource-subscriptions.js';
+
+describe('resource subscriptions', () => {
+  const server = {
+    sendResourceUpdated: vi.fn(async () => {}),
+    sendResourceListChanged: vi.fn(async () => {})
+  };
+  let subscriptions: ResourceSubscriptions;
+
+  beforeEach(() => {
+    server.sendResourceUpdated.mockClear();
+    server.sendResourceListChanged.mockClear();
+    subscriptions = new ResourceSubscriptions(server);
+  });
+
+  it('should notify subscribed resources when their cache entry is replaced', () => {
+    subscriptions.subscribe('shadcn://react/components/button');
+    subscriptions.subscribe('shadcn://svelte/blocks/login-01');
+
+    subscriptions.handleStorageChange('component:react:button', { sourceCode: 'v1' });
+    subscriptions.handleStorageChange('component:react:button', { sourceCode: 'v1' });
+    subscriptions.handleStorageChange('component:react:card', { sourceCode: 'v1' });
+    subscriptions.handleStorageChange('block:svelte:login-01:components-true', { name: 'login-01' });
+
+    expect(server.sendResourceUpdated.mock.calls).toEqual([
+      [{ uri: 'shadcn://react/components/button' }],
+      [{ uri: 'shadcn://svelte/blocks/login-01' }]
+    ]);
+
+    subscriptions.unsubscribe('shadcn://react/components/button');
+    subscriptions.handleStorageChange('component:react:button', { sourceCode: 'v2' });
+    expect(server.sendResourceUpdated).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject URIs that are not backed by a cache entry', () => {
+    expect(() => subscriptions.subscribe('resource-template:get_installation_guide?buildTool=vite')).toThrow(
+      expect.objectContaining({ code: ErrorCode.InvalidParams }) as McpError
+    );
+  });
+
+  it('should send list_changed only when the names of a catalog list change', () => {
+    subscriptions.handleStorageChange('list:components:react', { components: ['button'], githubSha: 'a' });
+    subscriptions.handleStorageChange('list:components:react', { components: ['button'], githubSha: 'b' });
+    subscriptions.handleStorageChange('list:components:svelte', { components: ['card'] });
+    expect(server.sendResourceListChanged).not.toHaveBeenCalled();
+
+    subscriptions.handleStorageChange('list:blocks:react', { categories: { login: [{ name: 'login-01' }] } });
+    subscriptions.handleStorageChange('list:blocks:react', { categories: { login: [{ name: 'login-01' }, { name: 'login-02' }] } });
+    expect(server.sendResourceListChanged).toHaveBeenCalledTimes(1);
+  });
+
+  it('should treat the first write of a catalog list as a change once the client listed resources', () => {
+    subscriptions.markListed();
+
+    subscriptions.handleStorageChange('list:components:react', { components: ['button', 'card'] });
+    expect(server.sendResourceListChanged).toHaveBeenCalledTimes(1);
+
+    subscriptions.handleStorageChange('list:components:react', { components: ['button', 'card'] });
+    expect(server.sendResourceListChanged).toHaveBeenCalledTimes(1);
+  });
+});
@@ -98,6 +98,24 @@ describe('PGLiteManager', () => {
     expect(result.rows[0].name).toBe('test-component');
   });
 
+  it('should widen the framework columns of databases created with narrower ones', async () => {
+    await (await manager.getConnection()).exec('ALTER TABLE blocks ALTER COLUMN framework TYPE VARCHAR(50)');
+    await manager.close();
+
+    manager = new PGLiteManager({ path: testDbPath });
+    await manager.initialize();
+
+    const result = await (await manager.getConnection()).query<{ table_name: string; character_maximum_length: number }>(`
+      SELECT table_name, character_maximum_length FROM information_schema.columns
+      WHERE table_name IN ('components', 'blocks') AND column_name = 'framework'
+      ORDER BY table_name
+    `);
+    expect(result.rows).toEqual([
+      { table_name: 'blocks', character_maximum_length: 100 },
+      { table_name: 'components', character_maximum_length: 100 }
+    ]);
+  });
+
   it('should handle errors gracefully', async () => {
     const invalidManager = new PGLiteManager({ 
       path: '/invalid/path/that/does/not/exist/db.sqlite' 
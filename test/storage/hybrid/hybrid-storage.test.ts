@@ -76,6 +76,19 @@ describe('HybridStorageProvider', () => {
       expect(retrieved).toEqual(value);
     });
     
+    it('should report the tier and fetch time of values read with getEntry', async () => {
+      const before = Date.now();
+      await hybridStorage.set('test:entry', { data: 'test value' });
+
+      const entry = await hybridStorage.getEntry('test:entry');
+
+      expect(entry?.value).toEqual({ data: 'test value' });
+      expect(entry?.tier).toBe('memory');
+      expect(entry?.cachedAt?.getTime()).toBeGreaterThanOrEqual(before);
+      expect(entry?.degradation).toBeUndefined();
+      expect(await hybridStorage.getEntry('non:existent')).toBeUndefined();
+    });
+
     it('should return undefined for non-existent keys', async () => {
       const result = await hybridStorage.get('non:existent');
       expect(result).toBeUndefined();
@@ -160,6 +173,20 @@ describe('HybridStorageProvider', () => {
     });
   });
   
+  describe('Change Listeners', () => {
+    it('should notify listeners of set and mset writes until removed', async () => {
+      const changes: Array<[string, any]> = [];
+      const removeListener = hybridStorage.onChange((key, value) => changes.push([key, value]));
+      
+      await hybridStorage.set('change:1', 'value1');
+      await hybridStorage.mset(new Map([['change:2', 'value2']]));
+      removeListener();
+      await hybridStorage.set('change:3', 'value3');
+      
+      expect(changes).toEqual([['change:1', 'value1'], ['change:2', 'value2']]);
+    });
+  });
+  
   describe('Cache Strategies', () => {
     it('should handle READ_THROUGH strategy', async () => {
       const storage = new HybridStorageProvider({
@@ -202,6 +202,18 @@ describe('PGLiteStorageProvider', () => {
       expect(retrieved.sourceCode).toBe('updated code');
       expect(retrieved.fileSize).toBe(200);
     });
+
+    it('should list the cached revisions of a component across git refs', async () => {
+      await provider.setComponent({ framework: 'react', name: 'button', sourceCode: 'main' });
+      await provider.setComponent({ framework: 'react@v1.0.0', name: 'button', sourceCode: 'v1', githubSha: 'abc' });
+      await provider.setComponent({ framework: 'react/new-york@v1.0.0', name: 'button', sourceCode: 'other style' });
+      await provider.setComponent({ framework: 'react', name: 'card', sourceCode: 'card' });
+
+      const versions = await provider.listComponentVersions('react', 'button');
+
+      expect(versions.map(version => version.sourceCode).sort()).toEqual(['main', 'v1']);
+      expect(versions.find(version => version.framework === 'react@v1.0.0')?.githubSha).toBe('abc');
+    });
   });
 
   describe('Block Operations', () => {
@@ -558,6 +570,32 @@ describe('PGLiteStorageProvider', () => {
       }
     });
 
+    it('should never expire entries pinned to a commit SHA', async () => {
+      const shortTTLProvider = new PGLiteStorageProvider(undefined, {
+        defaultTTL: 1 // 1 second
+      });
+      await shortTTLProvider.initialize();
+
+      try {
+        const sha = 'a'.repeat(40);
+        await shortTTLProvider.setComponent({ framework: `react/new-york@${sha}`, name: 'pinned', sourceCode: 'code', githubSha: sha });
+        await shortTTLProvider.setBlock({ framework: `react@${sha}`, name: 'pinned-01', files: {}, githubSha: sha });
+        // A SHA recorded for a branch fetch does not pin the entry
+        await shortTTLProvider.setComponent({ framework: 'react@main', name: 'unpinned', sourceCode: 'code', githubSha: sha });
+
+        // Wait for expiration
+        await new Promise(resolve => setTimeout(resolve, 1100));
+
+        await shortTTLProvider.cleanupExpired();
+        expect((await shortTTLProvider.getComponent(`react/new-york@${sha}`, 'pinned'))?.githubSha).toBe(sha);
+        expect(await shortTTLProvider.getBlock(`react@${sha}`, 'pinned-01')).toBeTruthy();
+        expect(await shortTTLProvider.getComponent('react@main', 'unpinned')).toBeUndefined();
+      } finally {
+        await shortTTLProvider.clear();
+        await shortTTLProvider.dispose();
+      }
+    });
+
     it('should get TTL remaining for items', async () => {
       const component = { framework: 'react', name: 'ttl-test', sourceCode: 'code' };
       await provider.setComponent(component);
@@ -1203,6 +1241,161 @@ describe('PGLiteStorageProvider', () => {
     });
   });
 
+  describe('Full-Text Search', () => {
+    beforeEach(async () => {
+      await provider.setComponent({
+        framework: 'react',
+        name: 'accordion',
+        sourceCode: 'export { Accordion, AccordionItem, AccordionTrigger, AccordionContent }',
+        demoCode: 'A vertically stacked set of interactive headings that reveal content',
+        metadata: { description: 'Collapsible sections of content' }
+      });
+      await provider.setComponent({
+        framework: 'react',
+        name: 'date-picker',
+        sourceCode: 'export function DatePicker() { return <Popover><Calendar /></Popover> }'
+      });
+      await provider.setComponent({
+        framework: 'svelte',
+        name: 'accordion',
+        sourceCode: 'export const Root = AccordionPrimitive.Root'
+      });
+      await provider.setBlock({
+        framework: 'react',
+        name: 'calendar-01',
+        type: 'simple',
+        description: 'A simple calendar with date selection',
+        files: {},
+        componentsUsed: ['Calendar']
+      });
+    });
+
+    it('should rank name matches above other fields', async () => {
+      const hits = await provider.search('accordion', { framework: 'react' });
+
+      expect(hits[0].name).toBe('accordion');
+      expect(hits[0].kind).toBe('component');
+      expect(hits[0].description).toBe('Collapsible sections of content');
+    });
+
+    it('should match exported symbols, descriptions and prefixes', async () => {
+      expect((await provider.search('DatePicker')).map(hit => hit.name)).toContain('date-picker');
+      expect((await provider.search('collaps')).map(hit => hit.name)).toContain('accordion');
+      expect((await provider.search('calendar')).map(hit => hit.name)).toContain('calendar-01');
+    });
+
+    it('should return highlighted snippets', async () => {
+      const [hit] = await provider.search('interactive headings', { framework: 'react' });
+
+      expect(hit.name).toBe('accordion');
+      expect(hit.snippet).toContain('**interactive**');
+    });
+
+    it('should filter by framework and kind', async () => {
+      const svelte = await provider.search('accordion', { framework: 'svelte' });
+      expect(svelte).toHaveLength(1);
+      expect(svelte[0].framework).toBe('svelte');
+
+      const blocks = await provider.search('calendar', { kind: 'block' });
+      expect(blocks.map(hit => hit.kind)).toEqual(['block']);
+    });
+
+    it('should update the index when a component is rewritten', async () => {
+      await provider.setComponent({
+        framework: 'react',
+        name: 'date-picker',
+        sourceCode: 'export function Scheduler() {}'
+      });
+
+      expect((await provider.search('scheduler')).map(hit => hit.name)).toEqual(['date-picker']);
+    });
+
+    it('should index cached demos and descriptions in the component rows', async () => {
+      await provider.setComponent({ framework: 'react/new-york-v4', name: 'date-picker', sourceCode: 'export function DatePicker() {}' });
+      await provider.set('component-demo:react:date-picker', { framework: 'react', name: 'date-picker', demoCode: '<Label>Select a date range</Label>' });
+      await provider.set('component-metadata:react:date-picker', { name: 'date-picker', description: 'Pick a day from a dropdown' });
+
+      expect((await provider.search('range')).map(hit => `${hit.framework}:${hit.name}`)).toEqual(['react:date-picker']);
+      const [dropdown] = await provider.search('dropdown');
+      expect(dropdown.description).toBe('Pick a day from a dropdown');
+      expect((await provider.getComponent('react/new-york-v4', 'date-picker'))?.metadata).toEqual({ description: 'Pick a day from a dropdown' });
+
+      // Rewriting the source keeps them
+      await provider.setComponent({ framework: 'react', name: 'date-picker', sourceCode: 'export function DatePicker() {}' });
+      expect((await provider.search('range')).map(hit => hit.name)).toEqual(['date-picker']);
+      expect((await provider.getComponent('react', 'date-picker'))?.metadata).toEqual({ description: 'Pick a day from a dropdown' });
+    });
+
+    it('should return one hit per item across styles and refs, leaving out pinned rows', async () => {
+      await provider.setComponent({ framework: 'react/new-york-v4', name: 'accordion', sourceCode: 'export { Accordion }' });
+      await provider.setComponent({ framework: 'react@v1.0.0', name: 'accordion', sourceCode: 'export { Accordion }' });
+      await provider.setComponent({ framework: 'react@abc123', name: 'pinned-only', sourceCode: 'export { Accordion }', githubSha: 'abc123' });
+
+      const hits = await provider.search('accordion', { framework: 'react' });
+
+      expect(hits.map(hit => `${hit.framework}:${hit.name}`)).toEqual(['react:accordion']);
+      expect(hits[0].description).toBe('Collapsible sections of content');
+    });
+
+    it('should return no hits for queries without searchable terms', async () => {
+      expect(await provider.search('   ')).toEqual([]);
+      expect(await provider.search('zzzz-no-match')).toEqual([]);
+    });
+  });
+
+  describe('Catalog Queries', () => {
+    const blockNames = ['login-01', 'login-02', 'sidebar-01', 'sidebar-02'];
+
+    beforeEach(async () => {
+      for (const [index, name] of blockNames.entries()) {
+        await provider.setBlock({
+          framework: 'react',
+          name,
+          category: name.split('-')[0],
+          type: index % 2 === 0 ? 'simple' : 'complex',
+          description: `The ${name} block`,
+          files: {},
+          componentsUsed: name.startsWith('login') ? ['button', 'input'] : ['sidebar']
+        });
+      }
+    });
+
+    it('should page through the listed blocks by name', async () => {
+      const first = await provider.queryCatalog('blocks', 'react', blockNames, {}, 0, 3);
+      const second = await provider.queryCatalog('blocks', 'react', blockNames, {}, 3, 3);
+
+      expect(first?.total).toBe(4);
+      expect(first?.entries.map(entry => entry.name)).toEqual(['login-01', 'login-02', 'sidebar-01']);
+      expect(second?.entries.map(entry => entry.name)).toEqual(['sidebar-02']);
+      expect(first?.entries[0]).toMatchObject({ category: 'login', type: 'simple', componentsUsed: ['button', 'input'] });
+    });
+
+    it('should filter by name pattern, used component and type', async () => {
+      const logins = await provider.queryCatalog('blocks', 'react', blockNames, { namePattern: 'LOGIN-%' }, 0, 10);
+      const usingSidebar = await provider.queryCatalog('blocks', 'react', blockNames, { usesComponent: 'sidebar', type: 'complex' }, 0, 10);
+
+      expect(logins?.entries.map(entry => entry.name)).toEqual(['login-01', 'login-02']);
+      expect(usingSidebar?.entries.map(entry => entry.name)).toEqual(['sidebar-02']);
+      expect(usingSidebar?.total).toBe(1);
+    });
+
+    it('should not answer for lists with items that have no row', async () => {
+      expect(await provider.queryCatalog('blocks', 'react', [...blockNames, 'dashboard-01'], {}, 0, 10)).toBeUndefined();
+      expect(await provider.queryCatalog('blocks', 'svelte', blockNames, {}, 0, 10)).toBeUndefined();
+    });
+
+    it('should not answer for component rows cached without their dependencies', async () => {
+      await provider.setComponent({ framework: 'react', name: 'button', sourceCode: 'export {}', registryDependencies: [] });
+      await provider.setComponent({ framework: 'react', name: 'dialog', sourceCode: 'export {}' });
+
+      expect(await provider.queryCatalog('components', 'react', ['button', 'dialog'], {}, 0, 10)).toBeUndefined();
+
+      await provider.setComponent({ framework: 'react', name: 'dialog', sourceCode: 'export {}', registryDependencies: ['button'] });
+      const result = await provider.queryCatalog('components', 'react', ['button', 'dialog'], { usesComponent: 'button' }, 0, 10);
+      expect(result?.entries).toEqual([{ framework: 'react', name: 'dialog', registryDependencies: ['button'] }]);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle concurrent operations gracefully', async () => {
       const promises = [];
@@ -0,0 +1,92 @@
+/**
+ * In-memory Search Index Tests
+ * Covers the fallback used by search_components when PGLite is disabled
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemorySearchIndex } from '../../../src/storage/search/memory-search-index.js';
+import {
+  extractExportedSymbols,
+  componentToSearchDocument,
+  blockToSearchDocument
+} from '../../../src/storage/search/search-document.js';
+
+describe('extractExportedSymbols', () => {
+  it('should find declarations and export lists', () => {
+    const source = `
+      const Button = () => null
+      export function buttonVariants() {}
+      export interface ButtonProps {}
+      export { Button, Slot as ButtonSlot, type ButtonProps }
+    `;
+
+    expect(extractExportedSymbols(source)).toEqual(['buttonVariants', 'ButtonProps', 'Button', 'ButtonSlot']);
+  });
+
+  it('should handle empty sources', () => {
+    expect(extractExportedSymbols(undefined)).toEqual([]);
+  });
+});
+
+describe('MemorySearchIndex', () => {
+  let index: MemorySearchIndex;
+
+  beforeEach(() => {
+    index = new MemorySearchIndex();
+    index.upsert(componentToSearchDocument({
+      framework: 'react',
+      name: 'accordion',
+      sourceCode: 'export { Accordion, AccordionItem, AccordionTrigger }',
+      demoCode: 'A vertically stacked set of interactive headings',
+      metadata: { description: 'Collapsible sections of content' }
+    }));
+    index.upsert(componentToSearchDocument({
+      framework: 'react',
+      name: 'collapsible',
+      sourceCode: 'export { Collapsible }'
+    }));
+    index.upsert(blockToSearchDocument({
+      framework: 'react',
+      name: 'calendar-01',
+      description: 'A simple calendar',
+      files: { 'page.tsx': { content: 'export default function Page() {}' } }
+    }));
+  });
+
+  it('should rank exact name matches first', () => {
+    const hits = index.search('collapsible');
+
+    expect(hits.map(hit => hit.name)).toEqual(['collapsible', 'accordion']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('should prefix-match exported symbols', () => {
+    expect(index.search('trigg').map(hit => hit.name)).toEqual(['accordion']);
+  });
+
+  it('should highlight matches in snippets', () => {
+    const [hit] = index.search('interactive');
+
+    expect(hit.snippet).toContain('**interactive**');
+  });
+
+  it('should filter by kind, framework and limit', () => {
+    expect(index.search('calendar', { kind: 'component' })).toEqual([]);
+    expect(index.search('calendar', { kind: 'block' })[0].name).toBe('calendar-01');
+    expect(index.search('accordion', { framework: 'svelte' })).toEqual([]);
+    expect(index.search('a', { limit: 1 })).toHaveLength(1);
+  });
+
+  it('should merge partial updates into existing documents', () => {
+    index.upsert({ kind: 'component', framework: 'react', name: 'collapsible', demoCode: 'Toggle hidden panel' });
+
+    const [hit] = index.search('panel');
+    expect(hit.name).toBe('collapsible');
+    expect(index.search('Collapsible').map(h => h.name)).toContain('collapsible');
+  });
+
+  it('should remove documents', () => {
+    expect(index.remove('component', 'react', 'collapsible')).toBe(true);
+    expect(index.search('collapsible').map(hit => hit.name)).toEqual(['accordion']);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * analyze_project Tool Tests
+ * Reads components.json, finds installed components and compares them with upstream
+ */
+
+import { vi, describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+const { upstream, OLD_CARD, axios } = vi.hoisted(() => {
+  const upstream: Record<string, string> = {
+    button: 'import { cn } from "@/lib/utils"\n\nfunction Button() {}\n\nexport { Button }\n',
+    dialog: 'import { Button } from "@/registry/new-york-v4/ui/button"\n\nfunction Dialog() {}\n\nexport { Dialog }\n',
+    card: 'import { cn } from "@/lib/utils"\n\nfunction Card() {}\n\nexport { Card }\n',
+    form: 'import { Label } from "@/registry/new-york-v4/ui/label"\n\nfunction Form() {}\n\nexport { Form }\n'
+  };
+  return {
+    upstream,
+    OLD_CARD: 'import { cn } from "@/lib/utils"\n\nfunction Card(props) {}\n\nexport { Card }\n',
+    axios: {
+      resolveRef: vi.fn(async () => '2'.repeat(40)),
+      getAvailableComponents: vi.fn(async () => Object.keys(upstream).concat('label')),
+      getComponentSource: vi.fn(async (name: string) => upstream[name])
+    }
+  };
+});
+
+vi.mock('../../src/utils/storage-integration.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/utils/storage-integration.js')>();
+  return {
+    ...actual,
+    getCachedData: vi.fn(async (_key: string, fetchFn: () => Promise<unknown>) => fetchFn()),
+    getCachedComponentVersions: vi.fn(async (name: string) => name === 'card'
+      ? [{ scope: 'react@v1.0.0', sourceCode: OLD_CARD, githubSha: '1'.repeat(40) }]
+      : [])
+  };
+});
+
+// Components are fetched concurrently, which vitest's module mocks do not survive; mock the lookup instead
+vi.mock('../../src/utils/framework.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/framework.js')>(),
+  getAxiosImplementation: vi.fn(async () => axios)
+}));
+
+import { handleAnalyzeProject } from '../../src/tools/project/analyze-project.js';
+
+describe('analyze_project tool', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'analyze-project-'));
+    const ui = path.join(directory, 'src/components/ui');
+    await fs.mkdir(ui, { recursive: true });
+    await fs.writeFile(path.join(directory, 'components.json'), JSON.stringify({
+      style: 'new-york',
+      tailwind: { config: '', css: 'src/index.css' },
+      aliases: { components: '@/components', utils: '@/lib/utils' }
+    }));
+    await fs.writeFile(path.join(directory, 'tsconfig.json'), '{\n  // Vite template\n  "compilerOptions": { "paths": { "@/*": ["./src/*"] }, },\n}\n');
+
+    await fs.writeFile(path.join(ui, 'button.tsx'), upstream.button.replace(/\n/g, '\r\n'));
+    await fs.writeFile(path.join(ui, 'dialog.tsx'), upstream.dialog.replace('@/registry/new-york-v4/ui', '@/components/ui'));
+    await fs.writeFile(path.join(ui, 'card.tsx'), OLD_CARD);
+    await fs.writeFile(path.join(ui, 'form.tsx'), `"use client"\n\n${upstream.form.replace('@/registry/new-york-v4/ui', '@/components/ui')}\nexport const extra = true\n`);
+    await fs.writeFile(path.join(ui, 'my-widget.tsx'), 'export {}\n');
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should classify installed components and list missing registry dependencies', async () => {
+    const result = await handleAnalyzeProject({ projectPath: directory });
+    const analysis = JSON.parse(result.content[0].text);
+
+    expect(analysis).toMatchObject({
+      framework: 'react',
+      style: 'new-york-v4',
+      uiDirectory: 'src/components/ui',
+      summary: { installed: 4, unmodified: 2, modified: 1, behind: 1, unknown: 0 },
+      missingRegistryDependencies: ['label'],
+      command: 'npx shadcn@latest add label'
+    });
+    expect(Object.fromEntries(analysis.components.map((component: any) => [component.name, component.status]))).toEqual({
+      button: 'unmodified',
+      card: 'behind',
+      dialog: 'unmodified',
+      form: 'modified'
+    });
+    expect(analysis.components.find((component: any) => component.name === 'card').matches).toEqual({
+      ref: 'v1.0.0',
+      githubSha: '1'.repeat(40)
+    });
+    expect(result._meta).toEqual({ githubSha: '2'.repeat(40) });
+    // Files that are not upstream components are never fetched
+    expect(axios.getComponentSource.mock.calls.map(([name]) => name).sort()).toEqual(['button', 'card', 'dialog', 'form']);
+  });
+
+  it('should use the first client root that contains components.json', async () => {
+    const listRoots = vi.fn(async () => [
+      { uri: pathToFileURL(os.tmpdir()).href },
+      { uri: pathToFileURL(directory).href }
+    ]);
+
+    const result = await handleAnalyzeProject({}, { listRoots });
+
+    expect(JSON.parse(result.content[0].text).projectRoot).toBe(directory);
+  });
+
+  it('should refuse a project path outside the client roots', async () => {
+    const listRoots = async () => [{ uri: pathToFileURL(path.join(directory, 'src')).href }];
+
+    await expect(handleAnalyzeProject({ projectPath: directory }, { listRoots })).rejects.toSatisfy(
+      (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams
+    );
+  });
+
+  it('should require a project path when no root has components.json', async () => {
+    for (const context of [undefined, { listRoots: async () => [{ uri: pathToFileURL(os.tmpdir()).href }] }]) {
+      await expect(handleAnalyzeProject({}, context)).rejects.toSatisfy(
+        (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams
+      );
+    }
+  });
+
+  it('should report a missing components.json', async () => {
+    await expect(handleAnalyzeProject({ projectPath: path.join(directory, 'src') }))
+      .rejects.toThrow('No components.json found');
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Cancellation Tests
+ * Cancelled tool calls abort their GitHub requests and do not trip the circuit breaker
+ */
+
+import { vi, describe, it, expect } from 'vitest';
+
+const { axios } = vi.hoisted(() => ({
+  axios: {
+    resolveRef: vi.fn(async () => 'a'.repeat(40)),
+    // Stands in for an HTTP request: settles only when its signal aborts
+    getBlockCode: vi.fn((_name: string, _includeComponents: boolean, _style: string, _ref: string, _progress?: unknown, signal?: AbortSignal) =>
+      new Promise((_resolve, reject) => signal?.addEventListener('abort', () => reject(signal.reason)))),
+    getComponentDemo: vi.fn((_name: string, _style: string, _ref: string, signal?: AbortSignal) =>
+      new Promise((_resolve, reject) => signal?.addEventListener('abort', () => reject(signal.reason))))
+  }
+}));
+
+vi.mock('../../src/utils/framework.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/framework.js')>(),
+  getAxiosImplementation: vi.fn(async () => axios)
+}));
+
+import { handleGetBlock } from '../../src/tools/blocks/get-block.js';
+import { handleGetComponentDemo } from '../../src/tools/components/get-component-demo.js';
+import { CircuitBreaker, CircuitBreakerState } from '../../src/utils/circuit-breaker.js';
+
+describe('cancellation', () => {
+  it('should abort the requests of a cancelled get_block call', async () => {
+    const controller = new AbortController();
+    const result = handleGetBlock({ blockName: 'dashboard-01' }, { signal: controller.signal });
+
+    await vi.waitFor(() => expect(axios.getBlockCode).toHaveBeenCalled());
+    const signal = axios.getBlockCode.mock.calls[0][5]!;
+    expect(signal.aborted).toBe(false);
+
+    controller.abort(new Error('Cancelled by client'));
+
+    await expect(result).rejects.toThrow('Cancelled by client');
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('should abort the request of a cancelled get_component_demo call', async () => {
+    const controller = new AbortController();
+    const result = handleGetComponentDemo({ componentName: 'button' }, { signal: controller.signal });
+
+    await vi.waitFor(() => expect(axios.getComponentDemo).toHaveBeenCalled());
+    const signal = axios.getComponentDemo.mock.calls[0][3]!;
+
+    controller.abort(new Error('Cancelled by client'));
+
+    await expect(result).rejects.toThrow('Cancelled by client');
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('should not count cancelled calls as circuit breaker failures', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    const controller = new AbortController();
+
+    const call = breaker.execute(() => new Promise((_resolve, reject) => {
+      controller.signal.addEventListener('abort', () => reject(controller.signal.reason));
+    }), controller.signal);
+    controller.abort();
+
+    await expect(call).rejects.toThrow();
+    expect(breaker.getState()).toBe(CircuitBreakerState.CLOSED);
+    await expect(breaker.execute(async () => 'ok', controller.signal)).rejects.toThrow();
+    expect(breaker.getFailureCount()).toBe(0);
+  });
+});
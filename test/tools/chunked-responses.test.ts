@@ -0,0 +1,119 @@
+/**
+ * Chunked Response Tests
+ * Source-returning tools split results over maxTokens/maxBytes into chunks with continuation cursors
+ */
+
+import { vi, describe, it, expect } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+const { axios, cache, lines } = vi.hoisted(() => {
+  const lines = (prefix: string, count: number) =>
+    Array.from({ length: count }, (_, index) => `export const ${prefix}${index} = "${prefix} line ${index}";\n`).join('');
+  return {
+    lines,
+    cache: new Map<string, unknown>(),
+    axios: {
+      resolveRef: vi.fn(async () => 'a'.repeat(40)),
+      getComponentSource: vi.fn(async () => lines('button', 300)),
+      getBlockCode: vi.fn(async (name: string) => ({
+        name,
+        type: 'complex',
+        files: {
+          'page.tsx': { path: 'page.tsx', content: lines('page', 60) },
+          components: {
+            'nav.tsx': { path: 'components/nav.tsx', content: lines('nav', 60) },
+            'chart.tsx': { path: 'components/chart.tsx', content: lines('chart', 60) }
+          }
+        }
+      }))
+    }
+  };
+});
+
+// Stands in for the storage tiers, which are not initialized in unit tests
+vi.mock('../../src/utils/storage-integration.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/storage-integration.js')>(),
+  getCachedData: vi.fn(async (key: string, fetchFn: () => Promise<unknown>) => {
+    if (!cache.has(key)) {
+      cache.set(key, await fetchFn());
+    }
+    return cache.get(key);
+  })
+}));
+
+vi.mock('../../src/utils/framework.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/framework.js')>(),
+  getAxiosImplementation: vi.fn(async () => axios)
+}));
+
+import { handleGetBlock } from '../../src/tools/blocks/get-block.js';
+import { handleGetComponent } from '../../src/tools/components/get-component.js';
+
+describe('chunked responses', () => {
+  it('should return a block in chunks within the budget, fetching it once', async () => {
+    const chunks = [await handleGetBlock({ blockName: 'dashboard-01', maxBytes: 6000 })];
+    while (chunks[chunks.length - 1].structuredContent.nextCursor) {
+      chunks.push(await handleGetBlock({ blockName: 'dashboard-01', cursor: chunks[chunks.length - 1].structuredContent.nextCursor }));
+    }
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(axios.getBlockCode).toHaveBeenCalledTimes(1);
+    for (const chunk of chunks) {
+      expect(Buffer.byteLength(chunk.content[0].text)).toBeLessThanOrEqual(6000);
+    }
+
+    const [first, ...rest] = chunks;
+    expect(first.structuredContent).toMatchObject({
+      name: 'dashboard-01',
+      githubSha: 'a'.repeat(40),
+      manifest: [
+        { path: 'components/chart.tsx', bytes: Buffer.byteLength(lines('chart', 60)) },
+        { path: 'components/nav.tsx', bytes: Buffer.byteLength(lines('nav', 60)) },
+        { path: 'page.tsx', bytes: Buffer.byteLength(lines('page', 60)) }
+      ]
+    });
+    expect(rest.every(chunk => chunk.structuredContent.manifest === undefined)).toBe(true);
+
+    const received = new Map<string, string>();
+    for (const chunk of chunks) {
+      for (const file of chunk.structuredContent.files as Array<{ path: string; content: string }>) {
+        received.set(file.path, (received.get(file.path) ?? '') + file.content);
+      }
+    }
+    expect(Object.fromEntries(received)).toEqual({
+      'components/chart.tsx': lines('chart', 60),
+      'components/nav.tsx': lines('nav', 60),
+      'page.tsx': lines('page', 60)
+    });
+  });
+
+  it('should split a source too large for one chunk at line boundaries', async () => {
+    const source = lines('button', 300);
+    const first = await handleGetComponent({ componentName: 'button', maxTokens: 1000 });
+    const second = await handleGetComponent({ componentName: 'button', cursor: first.structuredContent.nextCursor as string });
+
+    expect(first.structuredContent).toMatchObject({ componentName: 'button', totalBytes: Buffer.byteLength(source) });
+    expect(first.content[0].text.endsWith('\n')).toBe(true);
+    expect(first.content[1].text).toContain(first.structuredContent.nextCursor);
+    expect(second.structuredContent.offset).toBe(first.content[0].text.length);
+    expect(source.startsWith(first.content[0].text + second.content[0].text)).toBe(true);
+  });
+
+  it('should return results that fit the budget unchanged', async () => {
+    const result = await handleGetComponent({ componentName: 'button', maxTokens: 100_000 });
+
+    expect(result.content).toHaveLength(1);
+    expect(result.structuredContent).toEqual({ componentName: 'button', githubSha: 'a'.repeat(40), sourceCode: lines('button', 300) });
+  });
+
+  it('should reject cursors issued before the item changed', async () => {
+    const first = await handleGetComponent({ componentName: 'button', maxBytes: 4096 });
+    cache.clear();
+    axios.getComponentSource.mockResolvedValueOnce(lines('changed', 300));
+
+    const error = await handleGetComponent({ componentName: 'button', cursor: first.structuredContent.nextCursor as string }).catch(error => error);
+
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(ErrorCode.InvalidParams);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * get_component_metadata Tool Tests
+ * Registry metadata merged with the props and variants extracted from the component source
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+const { axios } = vi.hoisted(() => ({
+  axios: {
+    getAvailableStyles: vi.fn(async () => ['new-york-v4', 'new-york']),
+    getComponentMetadata: vi.fn(async (name: string) => ({ name, type: 'registry:ui', dependencies: ['class-variance-authority'], registryDependencies: [] })),
+    getComponentSource: vi.fn(async () => [
+      'import { cva, type VariantProps } from "class-variance-authority"',
+      'const badgeVariants = cva("", { variants: { variant: { default: "", outline: "" } }, defaultVariants: { variant: "default" } })',
+      'function Badge({ variant, ...props }: React.ComponentProps<"span"> & VariantProps<typeof badgeVariants>) { return null }',
+      'export { Badge, badgeVariants }',
+      ''
+    ].join('\n'))
+  }
+}));
+
+vi.mock('../../src/utils/storage-integration.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/utils/storage-integration.js')>();
+  return {
+    ...actual,
+    getCachedData: vi.fn(async (_key: string, fetchFn: () => Promise<unknown>) => fetchFn())
+  };
+});
+
+vi.mock('../../src/utils/framework.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/framework.js')>(),
+  getAxiosImplementation: vi.fn(async () => axios)
+}));
+
+import { handleGetComponentMetadata } from '../../src/tools/components/get-component-metadata.js';
+import { getCachedData } from '../../src/utils/storage-integration.js';
+
+describe('get_component_metadata tool', () => {
+  beforeEach(() => {
+    axios.getComponentSource.mockClear();
+  });
+
+  it('should include the props, components and variants of the source', async () => {
+    const result = await handleGetComponentMetadata({ componentName: 'badge', framework: 'react' });
+    const metadata = JSON.parse(result.content[0].text);
+
+    expect(metadata).toMatchObject({ name: 'badge', dependencies: ['class-variance-authority'] });
+    expect(metadata.props).toEqual([
+      { name: 'variant', type: '"default" | "outline"', description: '', required: false, default: 'default' }
+    ]);
+    expect(metadata.components).toEqual([
+      { name: 'Badge', props: metadata.props, extends: ['React.ComponentProps<"span">'], variants: 'badgeVariants' }
+    ]);
+    expect(metadata.variants).toEqual([
+      { name: 'badgeVariants', variants: [{ name: 'variant', options: ['default', 'outline'], default: 'default' }] }
+    ]);
+  });
+
+  it('should return the registry metadata when the source cannot be read', async () => {
+    axios.getComponentSource.mockRejectedValueOnce(new Error('not found'));
+
+    const result = await handleGetComponentMetadata({ componentName: 'badge', framework: 'react' });
+    const metadata = JSON.parse(result.content[0].text);
+
+    expect(metadata).toEqual({ name: 'badge', type: 'registry:ui', dependencies: ['class-variance-authority'], registryDependencies: [] });
+  });
+
+  it('should read the props from the requested style and cache the metadata per style', async () => {
+    await handleGetComponentMetadata({ componentName: 'badge', framework: 'react', style: 'new-york' });
+
+    expect(vi.mocked(getCachedData).mock.calls.map(([key]) => key)).toContain('component-metadata:react/new-york:badge');
+    expect(axios.getComponentSource.mock.calls[0].slice(0, 2)).toEqual(['badge', 'new-york']);
+  });
+
+  it('should reject styles the registry does not publish', async () => {
+    await expect(handleGetComponentMetadata({ componentName: 'badge', framework: 'react', style: 'missing' }))
+      .rejects.toThrow('Style "missing" does not exist');
+  });
+
+  it('should pass protocol errors through unwrapped', async () => {
+    const error = new McpError(ErrorCode.RequestTimeout, 'Request timed out');
+    axios.getComponentMetadata.mockRejectedValueOnce(error);
+
+    await expect(handleGetComponentMetadata({ componentName: 'badge', framework: 'react' })).rejects.toBe(error);
+  });
+});
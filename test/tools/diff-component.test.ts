@@ -0,0 +1,171 @@
+/**
+ * diff_component Tool Tests
+ * Compares upstream revisions with each other and with local copies
+ */
+
+import { vi, describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+vi.mock('../../src/utils/storage-integration.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/utils/storage-integration.js')>();
+  return {
+    ...actual,
+    getCachedData: vi.fn(async (_key: string, fetchFn: () => Promise<unknown>) => fetchFn()),
+    getCachedComponentVersions: vi.fn(async (): Promise<Array<{ scope: string; sourceCode: string; githubSha?: string }>> => [])
+  };
+});
+
+const sources: Record<string, string> = {
+  'v1': [
+    'import { Slot } from "@radix-ui/react-slot"',
+    'import { cn } from "@/lib/utils"',
+    '',
+    'function Button() {}',
+    '',
+    'export { Button }'
+  ].join('\n'),
+  'v2': [
+    'import { Slot } from "@radix-ui/react-slot"',
+    'import { cva } from "class-variance-authority"',
+    'import { cn } from "@/lib/utils"',
+    '',
+    'const buttonVariants = cva("inline-flex")',
+    '',
+    'function Button() {}',
+    '',
+    'export { Button, buttonVariants }'
+  ].join('\n')
+};
+
+vi.mock('../../src/utils/axios.js', () => ({
+  axios: {
+    resolveRef: vi.fn(async (ref: string) => ref === 'v1' ? '1'.repeat(40) : '2'.repeat(40)),
+    getComponentSource: vi.fn(async (_name: string, _style: string, ref: string) => sources[ref === '1'.repeat(40) ? 'v1' : 'v2']),
+    getBlockCode: vi.fn(async (name: string) => ({
+      name,
+      type: 'complex',
+      files: {
+        'page.tsx': { path: 'page.tsx', content: 'import { LoginForm } from "./components/login-form"\n' },
+        components: {
+          'login-form.tsx': { path: 'components/login-form.tsx', content: 'import { Input } from "@/registry/new-york-v4/ui/input"\n' }
+        }
+      }
+    }))
+  }
+}));
+
+import { handleDiffComponent } from '../../src/tools/components/diff-component.js';
+import { getCachedComponentVersions } from '../../src/utils/storage-integration.js';
+import { axios } from '../../src/utils/axios.js';
+
+describe('diff_component tool', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'diff-component-'));
+    await fs.writeFile(path.join(directory, 'components.json'), '{}');
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should diff two upstream refs and summarize exports and dependencies', async () => {
+    const result = await handleDiffComponent({ name: 'button', from: 'v1', to: 'v2', framework: 'react' });
+    const summary = JSON.parse(result.content[0].text);
+
+    expect(summary.from).toEqual({ ref: 'v1', githubSha: '1'.repeat(40) });
+    expect(summary.to).toEqual({ ref: 'v2', githubSha: '2'.repeat(40) });
+    expect(summary).toMatchObject({
+      identical: false,
+      additions: 4,
+      deletions: 1,
+      files: [{ path: 'button.tsx', status: 'modified', additions: 4, deletions: 1 }],
+      exports: { added: ['buttonVariants'], removed: [] },
+      dependencies: { added: ['class-variance-authority'], removed: [] },
+      registryDependencies: { added: [], removed: [] }
+    });
+    expect(result.content[1].text).toContain('--- a/button.tsx\n+++ b/button.tsx\n@@ -1,6 +1,9 @@');
+    expect(result.content[1].text).toContain('\n-export { Button }\n+export { Button, buttonVariants }\n');
+  });
+
+  it('should diff against cached revisions of older refs', async () => {
+    vi.mocked(getCachedComponentVersions).mockResolvedValue([
+      { scope: 'react@v0.9.0', sourceCode: sources.v1, githubSha: '3'.repeat(40) },
+      { scope: 'react@v0.8.0', sourceCode: sources.v2 }
+    ]);
+    vi.mocked(axios.getComponentSource).mockClear();
+
+    try {
+      // A commit SHA is answered from the revision a tag resolved to, without a fetch
+      const pinned = JSON.parse((await handleDiffComponent({ name: 'button', from: '3'.repeat(40), localSource: sources.v1 })).content[0].text);
+      expect(pinned).toMatchObject({ identical: true, from: { ref: '3'.repeat(40), githubSha: '3'.repeat(40) } });
+      expect(axios.getComponentSource).not.toHaveBeenCalled();
+
+      // Other refs are fetched, and fall back to the cached revision when the fetch fails
+      vi.mocked(axios.getComponentSource).mockRejectedValueOnce(new Error('rate limited'));
+      const tagged = JSON.parse((await handleDiffComponent({ name: 'button', from: 'v0.8.0', localSource: sources.v2 })).content[0].text);
+      expect(tagged).toMatchObject({ identical: true, from: { ref: 'v0.8.0' } });
+    } finally {
+      vi.mocked(getCachedComponentVersions).mockResolvedValue([]);
+    }
+  });
+
+  it('should compare the upstream version with inline source', async () => {
+    const result = await handleDiffComponent({ name: 'button', from: 'v1', localSource: `${sources.v1}\n` });
+
+    expect(JSON.parse(result.content[0].text)).toMatchObject({ identical: true, to: { localSource: 'inline' } });
+    expect(result.content).toHaveLength(1);
+  });
+
+  it('should compare a block with a local directory', async () => {
+    await fs.mkdir(path.join(directory, 'components'), { recursive: true });
+    await fs.writeFile(path.join(directory, 'page.tsx'), 'import { LoginForm } from "./components/login-form"\n');
+    await fs.writeFile(path.join(directory, 'components/login-form.tsx'), 'import { Input } from "@/components/ui/input"\nimport { Button } from "@/components/ui/button"\n');
+
+    const result = await handleDiffComponent({ name: 'login-01', type: 'block', localPath: directory, projectPath: directory });
+    const summary = JSON.parse(result.content[0].text);
+
+    expect(summary.files).toEqual([{ path: 'components/login-form.tsx', status: 'modified', additions: 2, deletions: 1 }]);
+    expect(summary.registryDependencies).toEqual({ added: ['button'], removed: [] });
+  });
+
+  it('should refuse local paths outside the project, including through symlinks', async () => {
+    const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'diff-component-outside-'));
+    await fs.writeFile(path.join(outside, 'button.tsx'), 'secret\n');
+    await fs.symlink(path.join(outside, 'button.tsx'), path.join(directory, 'linked.tsx'));
+    const isInvalidParams = (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams;
+
+    try {
+      for (const localPath of [path.join(outside, 'button.tsx'), '../button.tsx', 'linked.tsx']) {
+        await expect(handleDiffComponent({ name: 'button', from: 'v1', localPath, projectPath: directory })).rejects.toSatisfy(isInvalidParams);
+      }
+      await expect(handleDiffComponent({ name: 'button', from: 'v1', localPath: '/etc/passwd', projectPath: '/' })).rejects.toSatisfy(isInvalidParams);
+      await expect(handleDiffComponent({ name: 'button', from: 'v1', localPath: path.join(outside, 'button.tsx') }, {
+        listRoots: async () => [{ uri: `file://${directory}` }]
+      })).rejects.toSatisfy(isInvalidParams);
+    } finally {
+      await fs.rm(path.join(directory, 'linked.tsx'));
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('should require a single file when comparing a multi-file block with one source', async () => {
+    await expect(handleDiffComponent({ name: 'login-01', type: 'block', localSource: 'x' }))
+      .rejects.toThrow('pass "file" to choose one of: components/login-form.tsx, page.tsx');
+
+    const result = await handleDiffComponent({ name: 'login-01', type: 'block', file: 'page.tsx', localSource: 'x' });
+    expect(JSON.parse(result.content[0].text).files).toEqual([{ path: 'page.tsx', status: 'modified', additions: 1, deletions: 1 }]);
+  });
+
+  it('should reject calls without exactly one comparison target', async () => {
+    for (const args of [{ name: 'button' }, { name: 'button', to: 'v2', localSource: 'x' }]) {
+      await expect(handleDiffComponent(args)).rejects.toSatisfy(
+        (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams
+      );
+    }
+  });
+});
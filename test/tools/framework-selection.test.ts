@@ -0,0 +1,87 @@
+/**
+ * Per-call Framework Selection Tests
+ * Ensures the `framework` tool argument routes each call to the right implementation and cache namespace
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+const cacheKeys: string[] = [];
+
+vi.mock('../../src/utils/storage-integration.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/utils/storage-integration.js')>();
+  return {
+    ...actual,
+    getCachedData: vi.fn(async (key: string, fetchFn: () => Promise<unknown>) => {
+      cacheKeys.push(key);
+      return fetchFn();
+    })
+  };
+});
+
+vi.mock('../../src/utils/axios.js', () => ({
+  axios: {
+    getComponentSource: vi.fn(async (name: string) => `react:${name}`),
+    getAvailableComponents: vi.fn(async () => ['button', 'accordion'])
+  }
+}));
+
+vi.mock('../../src/utils/axios-svelte.js', () => ({
+  axios: {
+    getComponentSource: vi.fn(async (name: string) => `svelte:${name}`),
+    getAvailableComponents: vi.fn(async () => ['button'])
+  }
+}));
+
+import { handleGetComponent } from '../../src/tools/components/get-component.js';
+import { handleListComponents } from '../../src/tools/components/list-components.js';
+import { getFramework, setConfiguredFramework, __resetFrameworkForTesting } from '../../src/utils/framework.js';
+
+describe('Per-call framework selection', () => {
+  beforeEach(() => {
+    cacheKeys.length = 0;
+    delete process.env.FRAMEWORK;
+    __resetFrameworkForTesting();
+  });
+
+  it('should default to the server framework', async () => {
+    const result = await handleGetComponent({ componentName: 'button' });
+
+    expect(result.content[0].text).toBe('react:button');
+    expect(cacheKeys).toEqual(['component:react:button']);
+  });
+
+  it('should route to the requested framework and cache namespace', async () => {
+    const result = await handleGetComponent({ componentName: 'button', framework: 'svelte' });
+
+    expect(result.content[0].text).toBe('svelte:button');
+    expect(cacheKeys).toEqual(['component:svelte:button']);
+  });
+
+  it('should let a call override the FRAMEWORK environment variable', async () => {
+    setConfiguredFramework('svelte');
+
+    const result = await handleGetComponent({ componentName: 'button', framework: 'react' });
+
+    expect(result.content[0].text).toBe('react:button');
+    expect(cacheKeys).toEqual(['component:react:button']);
+  });
+
+  it('should read the server framework once until it is configured', () => {
+    expect(getFramework()).toBe('react');
+
+    process.env.FRAMEWORK = 'svelte';
+    expect(getFramework()).toBe('react');
+
+    setConfiguredFramework('svelte');
+    expect(getFramework()).toBe('svelte');
+  });
+
+  it('should list both frameworks side by side', async () => {
+    const result = await handleListComponents({ framework: 'all' });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.frameworks.react).toEqual({ components: ['accordion', 'button'], total: 2 });
+    expect(parsed.frameworks.svelte).toEqual({ components: ['button'], total: 1 });
+    expect(cacheKeys.sort()).toEqual(['list:components:react', 'list:components:svelte']);
+  });
+});
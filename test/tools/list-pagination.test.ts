@@ -0,0 +1,106 @@
+/**
+ * List Pagination Tests
+ * list_components and list_blocks page, project and filter their lists
+ */
+
+import { vi, describe, it, expect } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+const { axios, queryCachedCatalog } = vi.hoisted(() => {
+  const sources: Record<string, string> = {
+    button: 'import { Slot } from "@radix-ui/react-slot"\n',
+    calendar: 'import { Button } from "@/registry/new-york-v4/ui/button"\n',
+    dialog: 'import { Button } from "@/registry/new-york-v4/ui/button"\n',
+    input: 'export {}\n'
+  };
+  return {
+    axios: {
+      getAvailableComponents: vi.fn(async () => ['input', 'dialog', 'calendar', 'button']),
+      getComponentSource: vi.fn(async (name: string) => sources[name]),
+      getAvailableBlocks: vi.fn(async () => ({
+        categories: {
+          login: [
+            { name: 'login-01', type: 'simple', description: 'A simple login form' },
+            { name: 'login-02', type: 'complex', description: 'A two column login page' }
+          ],
+          sidebar: [{ name: 'sidebar-01', type: 'complex', description: 'A sidebar with navigation' }]
+        },
+        totalBlocks: 3,
+        availableCategories: ['login', 'sidebar']
+      })),
+      getBlockCode: vi.fn(async (name: string) => ({
+        name,
+        files: {},
+        componentsUsed: name === 'sidebar-01' ? ['sidebar', 'button'] : ['input']
+      }))
+    },
+    queryCachedCatalog: vi.fn(async () => undefined)
+  };
+});
+
+vi.mock('../../src/utils/storage-integration.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/storage-integration.js')>(),
+  getCachedData: vi.fn(async (_key: string, fetchFn: () => Promise<unknown>) => fetchFn()),
+  queryCachedCatalog
+}));
+
+vi.mock('../../src/utils/framework.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/framework.js')>(),
+  getAxiosImplementation: vi.fn(async () => axios)
+}));
+
+import { handleListComponents } from '../../src/tools/components/list-components.js';
+import { handleListBlocks } from '../../src/tools/blocks/list-blocks.js';
+
+describe('list pagination', () => {
+  it('should page through blocks with a cursor, leaving descriptions out by default', async () => {
+    const first = await handleListBlocks({ limit: 2 });
+    const second = await handleListBlocks({ limit: 2, cursor: first.structuredContent.nextCursor });
+
+    expect(first.structuredContent).toMatchObject({
+      blocks: [{ name: 'login-01', category: 'login', type: 'simple' }, { name: 'login-02', category: 'login', type: 'complex' }],
+      total: 3,
+      backend: 'memory'
+    });
+    expect(first.structuredContent.blocks[0]).not.toHaveProperty('description');
+    expect(second.structuredContent.blocks).toEqual([{ name: 'sidebar-01', category: 'sidebar', type: 'complex' }]);
+    expect(second.structuredContent).not.toHaveProperty('nextCursor');
+    expect(queryCachedCatalog).toHaveBeenCalledWith('blocks', 'react', ['login-01', 'login-02', 'sidebar-01'], expect.any(Object), 2, 2);
+  });
+
+  it('should filter blocks by name glob, type and used component', async () => {
+    const logins = await handleListBlocks({ name: 'LOGIN-*', type: 'complex', fields: ['name', 'description'] });
+    const usingButton = await handleListBlocks({ usesComponent: 'button', fields: ['name', 'componentsUsed'] });
+
+    expect(logins.structuredContent.blocks).toEqual([{ name: 'login-02', description: 'A two column login page' }]);
+    expect(usingButton.structuredContent).toMatchObject({
+      blocks: [{ name: 'sidebar-01', componentsUsed: ['sidebar', 'button'] }],
+      total: 1
+    });
+  });
+
+  it('should filter components by the components their source imports', async () => {
+    const result = await handleListComponents({ usesComponent: 'button', fields: ['name', 'registryDependencies'] });
+
+    expect(result.structuredContent).toEqual({
+      framework: 'react',
+      components: [{ name: 'calendar', registryDependencies: ['button'] }, { name: 'dialog', registryDependencies: ['button'] }],
+      total: 2,
+      backend: 'memory'
+    });
+    expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+  });
+
+  it('should keep the full list when no pagination or filter argument is set', async () => {
+    const result = await handleListComponents({});
+
+    expect(result.structuredContent).toEqual({ components: ['button', 'calendar', 'dialog', 'input'], total: 4 });
+  });
+
+  it('should reject invalid cursors and paging every framework with InvalidParams', async () => {
+    const isInvalidParams = (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams;
+
+    await expect(handleListComponents({ framework: 'all', limit: 10 })).rejects.toSatisfy(isInvalidParams);
+    await expect(handleListBlocks({ cursor: 'not-a-cursor' })).rejects.toSatisfy(isInvalidParams);
+  });
+});
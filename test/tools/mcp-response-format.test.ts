@@ -41,7 +41,8 @@ describe('MCP Response Format Handling', () => {
       const result = await handleGetComponent({ componentName: 'button' });
 
       expect(result).toEqual({
-        content: [{ type: "text", text: mockSourceCode }]
+        content: [{ type: "text", text: mockSourceCode }],
+        structuredContent: { componentName: 'button', sourceCode: mockSourceCode }
       });
     });
 
@@ -61,7 +62,8 @@ describe('MCP Response Format Handling', () => {
       const result = await handleGetComponent({ componentName: 'button' });
 
       expect(result).toEqual({
-        content: [{ type: "text", text: mockComponent.sourceCode }]
+        content: [{ type: "text", text: mockComponent.sourceCode }],
+        structuredContent: { componentName: 'button', sourceCode: mockComponent.sourceCode }
       });
     });
 
@@ -73,7 +75,8 @@ describe('MCP Response Format Handling', () => {
       const result = await handleGetComponent({ componentName: 'button' });
 
       expect(result).toEqual({
-        content: [{ type: "text", text: JSON.stringify(mockUnexpectedObject, null, 2) }]
+        content: [{ type: "text", text: JSON.stringify(mockUnexpectedObject, null, 2) }],
+        structuredContent: { componentName: 'button', sourceCode: JSON.stringify(mockUnexpectedObject, null, 2) }
       });
     });
 
@@ -83,7 +86,8 @@ describe('MCP Response Format Handling', () => {
       const result = await handleGetComponent({ componentName: 'button' });
 
       expect(result).toEqual({
-        content: [{ type: "text", text: "null" }]
+        content: [{ type: "text", text: "null" }],
+        structuredContent: { componentName: 'button', sourceCode: "null" }
       });
     });
   });
@@ -97,7 +101,8 @@ describe('MCP Response Format Handling', () => {
       const result = await handleGetComponentDemo({ componentName: 'button' });
 
       expect(result).toEqual({
-        content: [{ type: "text", text: mockDemoCode }]
+        content: [{ type: "text", text: mockDemoCode }],
+        structuredContent: { componentName: 'button', demoCode: mockDemoCode }
       });
     });
 
@@ -117,7 +122,8 @@ describe('MCP Response Format Handling', () => {
       const result = await handleGetComponentDemo({ componentName: 'button' });
 
       expect(result).toEqual({
-        content: [{ type: "text", text: mockComponent.demoCode }]
+        content: [{ type: "text", text: mockComponent.demoCode }],
+        structuredContent: { componentName: 'button', demoCode: mockComponent.demoCode }
       });
     });
 
@@ -138,7 +144,8 @@ describe('MCP Response Format Handling', () => {
 
       // Since demoCode is missing but object has the property structure, should return empty string
       expect(result).toEqual({
-        content: [{ type: "text", text: '' }]
+        content: [{ type: "text", text: '' }],
+        structuredContent: { componentName: 'button', demoCode: '' }
       });
     });
 
@@ -150,7 +157,8 @@ describe('MCP Response Format Handling', () => {
       const result = await handleGetComponentDemo({ componentName: 'button' });
 
       expect(result).toEqual({
-        content: [{ type: "text", text: JSON.stringify(mockUnexpectedObject, null, 2) }]
+        content: [{ type: "text", text: JSON.stringify(mockUnexpectedObject, null, 2) }],
+        structuredContent: { componentName: 'button', demoCode: JSON.stringify(mockUnexpectedObject, null, 2) }
       });
     });
   });
@@ -0,0 +1,166 @@
+/**
+ * Tool Output Schema Tests
+ * Every tool advertises an outputSchema, and the structuredContent it returns conforms to it
+ */
+
+import { vi, describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+const { axios } = vi.hoisted(() => {
+  const button = [
+    'import { cva } from "class-variance-authority"',
+    'import { cn } from "@/lib/utils"',
+    '',
+    'const buttonVariants = cva("inline-flex", { variants: { size: { sm: "h-8", lg: "h-10" } } })',
+    '',
+    'function Button() {}',
+    '',
+    'export { Button, buttonVariants }',
+    ''
+  ].join('\n');
+  return {
+    axios: {
+      paths: {
+        REPO_OWNER: 'shadcn-ui',
+        REPO_NAME: 'ui',
+        REPO_BRANCH: 'main',
+        REGISTRY_PATH: 'apps/v4/registry',
+        NEW_YORK_V4_PATH: 'apps/v4/registry/new-york-v4'
+      },
+      resolveRef: vi.fn(async () => 'c'.repeat(40)),
+      getAvailableComponents: vi.fn(async () => ['button', 'card']),
+      getComponentSource: vi.fn(async () => button),
+      getComponentDemo: vi.fn(async () => 'export default function ButtonDemo() {}\n'),
+      getComponentMetadata: vi.fn(async (name: string) => ({
+        name,
+        type: 'registry:ui',
+        dependencies: ['class-variance-authority'],
+        registryDependencies: []
+      })),
+      getAvailableBlocks: vi.fn(async () => ({
+        categories: { login: [{ name: 'login-01', description: 'A login page', type: 'complex', components: ['login-form'] }] },
+        totalBlocks: 1,
+        availableCategories: ['login']
+      })),
+      getBlockCode: vi.fn(async (name: string) => ({
+        name,
+        type: 'complex',
+        files: {
+          'page.tsx': { path: 'page.tsx', content: 'import { Button } from "@/registry/new-york-v4/ui/button"\n' }
+        }
+      })),
+      getRegistryItems: vi.fn(async () => [{ name: 'use-mobile' }]),
+      getRegistryItemSource: vi.fn(async () => 'export function useIsMobile() {}\n'),
+      getBaseColors: vi.fn(async () => ['neutral']),
+      getBaseColor: vi.fn(async () => ({
+        cssVars: { light: { background: '0 0% 100%' }, dark: { background: '0 0% 3.9%' } },
+        cssVarsV4: { light: { radius: '0.625rem', background: 'oklch(1 0 0)' }, dark: { background: 'oklch(0.145 0 0)' } }
+      })),
+      buildDirectoryTree: vi.fn(async (_owner: string, _repo: string, directory: string) => ({
+        path: directory,
+        type: 'directory',
+        children: { hooks: { path: `${directory}/hooks`, type: 'directory', children: {} } }
+      }))
+    }
+  };
+});
+
+vi.mock('../../src/utils/storage-integration.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/storage-integration.js')>(),
+  getCachedData: vi.fn(async (_key: string, fetchFn: () => Promise<unknown>) => fetchFn()),
+  searchCachedItems: vi.fn(async () => ({
+    backend: 'memory',
+    hits: [{ kind: 'component', framework: 'react', name: 'button', score: 1, description: 'A button', snippet: '<mark>button</mark>' }]
+  })),
+  getStorageStats: vi.fn(() => ({
+    hits: { memory: 3, pglite: 1, github: 1 },
+    misses: 1,
+    responseTimes: { memory: [1], pglite: [4], github: [120] },
+    circuitBreaker: { state: 'CLOSED', failureCount: 0, isOpen: false },
+    totalOperations: 6,
+    tierAvailability: { memory: true, pglite: true, github: true },
+    hitRate: 83.3,
+    avgResponseTimes: { memory: 1, pglite: 4, github: 120 },
+    deduplication: { totalRequests: 6, deduplicatedRequests: 0 }
+  })),
+  getCircuitBreakerStatus: vi.fn(() => ({ state: 'CLOSED', failureCount: 0, isOpen: false }))
+}));
+
+vi.mock('../../src/utils/framework.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/framework.js')>(),
+  getAxiosImplementation: vi.fn(async () => axios)
+}));
+
+vi.mock('../../src/utils/registry.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/registry.js')>(),
+  fetchRegistryItem: vi.fn(async () => {
+    throw new Error('not found');
+  })
+}));
+
+import { callTool, toolRegistry, tools } from '../../src/tools/index.js';
+
+describe('Tool output schemas', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'output-schemas-'));
+    await fs.mkdir(path.join(directory, 'src/components/ui'), { recursive: true });
+    await fs.writeFile(path.join(directory, 'components.json'), JSON.stringify({
+      style: 'new-york',
+      tailwind: { config: '', css: 'src/index.css' },
+      aliases: { components: '@/components', utils: '@/lib/utils' }
+    }));
+    await fs.writeFile(path.join(directory, 'src/components/ui/button.tsx'), 'export {}\n');
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const calls: Record<string, () => Record<string, unknown>> = {
+    get_component: () => ({ componentName: 'button' }),
+    get_component_demo: () => ({ componentName: 'button' }),
+    list_components: () => ({}),
+    get_component_metadata: () => ({ componentName: 'button' }),
+    search_components: () => ({ query: 'button' }),
+    resolve_dependencies: () => ({ components: ['button'], blocks: ['login-01'] }),
+    diff_component: () => ({ name: 'button', localSource: 'function Button() {}\n\nexport { Button }\n' }),
+    analyze_project: () => ({ projectPath: directory }),
+    plan_install: () => ({ components: ['button'], projectPath: directory }),
+    get_directory_structure: () => ({}),
+    get_block: () => ({ blockName: 'login-01' }),
+    list_blocks: () => ({}),
+    list_registry_items: () => ({}),
+    get_registry_item: () => ({ itemName: 'use-mobile', type: 'registry:hook' }),
+    list_themes: () => ({}),
+    get_theme: () => ({ themeName: 'neutral' }),
+    get_storage_stats: () => ({})
+  };
+
+  it('should advertise an object outputSchema for every tool', () => {
+    expect(Object.keys(calls).sort()).toEqual(toolRegistry.map(tool => tool.name).sort());
+    for (const tool of tools) {
+      expect(tool.outputSchema?.type, tool.name).toBe('object');
+      expect(tool.outputSchema, tool.name).not.toHaveProperty('$schema');
+    }
+  });
+
+  it.each(toolRegistry.map(tool => [tool.name, tool] as const))('should return structuredContent conforming to the %s outputSchema', async (name, tool) => {
+    const result = await callTool(name, calls[name]());
+
+    expect(result.content[0].type).toBe('text');
+    expect(result.content[0].text.length).toBeGreaterThan(0);
+    const parsed = tool.outputSchema.safeParse(result.structuredContent);
+    expect(parsed.success ? [] : parsed.error.issues).toEqual([]);
+  });
+
+  it('should repeat JSON structuredContent in the text block', async () => {
+    const result = await callTool('list_blocks', {});
+
+    expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+    expect(result.structuredContent).toMatchObject({ totalBlocks: 1, githubSha: 'c'.repeat(40) });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * plan_install Tool Tests
+ * Plans files with project target paths and aliases, npm packages and CSS variable changes
+ */
+
+import { vi, describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+const { axios } = vi.hoisted(() => {
+  const metadata: Record<string, { dependencies: string[]; registryDependencies: string[] }> = {
+    sidebar: { dependencies: ['@radix-ui/react-slot'], registryDependencies: ['button'] },
+    button: { dependencies: ['@radix-ui/react-slot', 'class-variance-authority'], registryDependencies: [] },
+    input: { dependencies: [], registryDependencies: [] }
+  };
+  const sources: Record<string, string> = {
+    sidebar: [
+      'import { Button } from "@/registry/new-york-v4/ui/button"',
+      'import { useIsMobile } from "@/registry/new-york-v4/hooks/use-mobile"',
+      'import { cn } from "@/lib/utils"',
+      ''
+    ].join('\n'),
+    button: '"use client"\n\nimport { cva } from "class-variance-authority"\n',
+    input: 'export {}\n'
+  };
+  return {
+    axios: {
+      resolveRef: vi.fn(async () => 'a'.repeat(40)),
+      getComponentMetadata: vi.fn(async (name: string) => metadata[name] ? { name, ...metadata[name] } : null),
+      getComponentSource: vi.fn(async (name: string) => sources[name]),
+      getBlockCode: vi.fn(async (name: string) => ({
+        name,
+        type: 'complex',
+        files: {
+          'page.tsx': { path: 'page.tsx', content: 'import { LoginForm } from "@/registry/new-york-v4/blocks/login-01/components/login-form"\n' },
+          components: {
+            'login-form.tsx': { path: 'components/login-form.tsx', content: 'import { Input } from "@/registry/new-york-v4/ui/input"\n' }
+          }
+        }
+      }))
+    }
+  };
+});
+
+vi.mock('../../src/utils/storage-integration.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/utils/storage-integration.js')>();
+  return {
+    ...actual,
+    getCachedData: vi.fn(async (_key: string, fetchFn: () => Promise<unknown>) => fetchFn())
+  };
+});
+
+vi.mock('../../src/utils/framework.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/framework.js')>(),
+  getAxiosImplementation: vi.fn(async () => axios)
+}));
+
+vi.mock('../../src/utils/registry.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/registry.js')>(),
+  fetchRegistryItem: vi.fn(async (_registry: string, name: string) => {
+    if (name !== 'sidebar') {
+      throw new Error('not found');
+    }
+    return { name, type: 'registry:ui', cssVars: { light: { sidebar: 'oklch(0.985 0 0)' }, dark: { sidebar: 'oklch(0.205 0 0)' } } };
+  })
+}));
+
+import { handlePlanInstall } from '../../src/tools/project/plan-install.js';
+
+describe('plan_install tool', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'plan-install-'));
+    await fs.mkdir(path.join(directory, 'src/app'), { recursive: true });
+    await fs.mkdir(path.join(directory, 'src/components/ui'), { recursive: true });
+    await fs.writeFile(path.join(directory, 'components.json'), JSON.stringify({
+      style: 'new-york',
+      tailwind: { config: '', css: 'src/app/globals.css' },
+      aliases: { components: '@/components', utils: '@/lib/utils', hooks: '@/hooks' }
+    }));
+    await fs.writeFile(path.join(directory, 'tsconfig.json'), JSON.stringify({ compilerOptions: { paths: { '@/*': ['./src/*'] } } }));
+    await fs.writeFile(path.join(directory, 'package.json'), JSON.stringify({ dependencies: { '@radix-ui/react-slot': '^1.0.0' } }));
+    await fs.writeFile(path.join(directory, 'pnpm-lock.yaml'), '');
+    await fs.writeFile(path.join(directory, 'src/app/globals.css'), ':root {\n  --sidebar: oklch(0.985 0 0);\n}\n');
+    await fs.writeFile(path.join(directory, 'src/components/ui/input.tsx'), 'export {}\n');
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should plan files, packages and CSS variables for a project on disk', async () => {
+    const result = await handlePlanInstall({ components: ['sidebar'], blocks: ['login-01'], projectPath: directory });
+    const plan = JSON.parse(result.content[0].text);
+    const files = Object.fromEntries(plan.files.map((file: any) => [file.target, file]));
+
+    expect(Object.keys(files).sort()).toEqual([
+      'src/app/login-01/page.tsx',
+      'src/components/login-form.tsx',
+      'src/components/ui/button.tsx',
+      'src/components/ui/input.tsx',
+      'src/components/ui/sidebar.tsx'
+    ]);
+    expect(files['src/components/ui/input.tsx'].exists).toBe(true);
+    expect(files['src/components/ui/sidebar.tsx']).toMatchObject({ item: 'sidebar', exists: false });
+    expect(files['src/components/ui/sidebar.tsx'].content).toBe([
+      'import { Button } from "@/components/ui/button"',
+      'import { useIsMobile } from "@/hooks/use-mobile"',
+      'import { cn } from "@/lib/utils"',
+      ''
+    ].join('\n'));
+    expect(files['src/app/login-01/page.tsx'].content).toContain('from "@/components/login-form"');
+    expect(files['src/components/login-form.tsx'].content).toContain('from "@/components/ui/input"');
+
+    expect(plan.npmPackages).toEqual(['class-variance-authority']);
+    expect(plan.installCommand).toBe('pnpm add class-variance-authority');
+    expect(plan.cssVariables).toEqual({
+      file: 'src/app/globals.css',
+      changes: [{ scope: 'dark', selector: '.dark', variable: '--sidebar', value: 'oklch(0.205 0 0)' }]
+    });
+    expect(plan.command).toBe('npx shadcn@latest add login-01 sidebar');
+    expect(result._meta).toEqual({ githubSha: 'a'.repeat(40) });
+  });
+
+  it('should accept an inline components.json', async () => {
+    const result = await handlePlanInstall({
+      components: ['button'],
+      componentsJson: JSON.stringify({ rsc: false, tailwind: { config: '' }, aliases: { components: '@/components' } }),
+      includeDependencies: false
+    });
+    const plan = JSON.parse(result.content[0].text);
+
+    expect(plan.files).toEqual([{
+      item: 'button',
+      source: 'button.tsx',
+      target: 'components/ui/button.tsx',
+      content: 'import { cva } from "class-variance-authority"\n'
+    }]);
+    expect(plan.installCommand).toBe('npm install class-variance-authority');
+    expect(plan.warnings).toEqual(['Target paths assume "@/" points at the project root; pass "projectPath" to resolve tsconfig paths']);
+  });
+
+  it('should refuse project paths outside the project and the client roots', async () => {
+    const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'plan-install-outside-'));
+    await fs.writeFile(path.join(outside, 'components.json'), JSON.stringify({
+      tailwind: { config: '', css: '../secret.css' },
+      aliases: { components: '@/components' }
+    }));
+    const isInvalidParams = (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams;
+
+    try {
+      await expect(handlePlanInstall({ components: ['sidebar'], projectPath: outside, includeDependencies: false }))
+        .rejects.toSatisfy(isInvalidParams);
+      await expect(handlePlanInstall({ components: ['button'], projectPath: outside, includeDependencies: false }, {
+        listRoots: async () => [{ uri: `file://${directory}` }]
+      })).rejects.toSatisfy(isInvalidParams);
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject empty requests and malformed inline configuration', async () => {
+    for (const args of [{ projectPath: directory }, { components: ['button'], componentsJson: '{' }]) {
+      await expect(handlePlanInstall(args)).rejects.toSatisfy(
+        (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams
+      );
+    }
+  });
+});
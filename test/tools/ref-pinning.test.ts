@@ -0,0 +1,102 @@
+/**
+ * Git Ref Pinning Tests
+ * Ensures fetches read from the requested ref, report the commit SHA and never expire when pinned
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+const cacheCalls: Array<{ key: string; ttl?: number }> = [];
+
+vi.mock('../../src/utils/storage-integration.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/utils/storage-integration.js')>();
+  return {
+    ...actual,
+    getCachedData: vi.fn(async (key: string, fetchFn: () => Promise<unknown>, ttl?: number) => {
+      cacheCalls.push({ key, ttl });
+      return fetchFn();
+    })
+  };
+});
+
+const SHA = '0123456789abcdef0123456789abcdef01234567';
+
+vi.mock('../../src/utils/axios.js', () => ({
+  axios: {
+    resolveRef: vi.fn(async () => '89abcdef0123456789abcdef0123456789abcdef'),
+    getComponentSource: vi.fn(async (name: string, _style: string, ref: string) => `${ref}:${name}`),
+    getBlockCode: vi.fn(async (name: string) => ({ name })),
+    getAvailableComponents: vi.fn(async () => ['card', 'button'])
+  }
+}));
+
+import { handleGetComponent } from '../../src/tools/components/get-component.js';
+import { handleGetBlock } from '../../src/tools/blocks/get-block.js';
+import { handleListComponents } from '../../src/tools/components/list-components.js';
+import { generateComponentKey } from '../../src/utils/storage-integration.js';
+import { setConfiguredRef, __resetRefsForTesting } from '../../src/utils/git-ref.js';
+import { axios } from '../../src/utils/axios.js';
+
+describe('Git ref pinning', () => {
+  beforeEach(() => {
+    cacheCalls.length = 0;
+    delete process.env.FRAMEWORK;
+    __resetRefsForTesting();
+    vi.mocked(axios.resolveRef).mockClear();
+  });
+
+  it('should keep unpinned keys unchanged and scope pinned keys by ref', () => {
+    expect(generateComponentKey('button', 'react')).toBe('component:react:button');
+    expect(generateComponentKey('button', 'react', 'new-york', 'v1.0.0')).toBe('component:react/new-york@v1.0.0:button');
+  });
+
+  it('should fetch a commit SHA directly and cache it without expiry', async () => {
+    const result = await handleGetComponent({ componentName: 'button', ref: SHA });
+
+    expect(result.content[0].text).toBe(`${SHA}:button`);
+    expect(result._meta).toEqual({ githubSha: SHA });
+    expect(cacheCalls).toEqual([{ key: `component:react@${SHA}:button`, ttl: 0 }]);
+    expect(axios.resolveRef).not.toHaveBeenCalled();
+  });
+
+  it('should scope commit SHAs in either case by the lowercase SHA', async () => {
+    const result = await handleGetComponent({ componentName: 'button', ref: SHA.toUpperCase() });
+
+    expect(result._meta).toEqual({ githubSha: SHA });
+    expect(cacheCalls).toEqual([{ key: `component:react@${SHA}:button`, ttl: 0 }]);
+  });
+
+  it('should read branches at their resolved commit and keep the normal TTL', async () => {
+    setConfiguredRef('develop');
+
+    const result = await handleGetBlock({ blockName: 'login-01' });
+
+    expect(axios.resolveRef).toHaveBeenCalledWith('develop');
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      framework: 'react@develop',
+      name: 'login-01',
+      githubSha: '89abcdef0123456789abcdef0123456789abcdef'
+    });
+    expect(cacheCalls).toEqual([{ key: 'block:react@develop:login-01:components-true', ttl: 24 * 60 * 60 }]);
+  });
+
+  it('should report the default branch commit when no ref is set', async () => {
+    const result = await handleListComponents({});
+
+    expect(axios.resolveRef).toHaveBeenCalledWith(undefined);
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      components: ['button', 'card'],
+      total: 2,
+      githubSha: '89abcdef0123456789abcdef0123456789abcdef'
+    });
+    expect(result._meta).toEqual({ githubSha: '89abcdef0123456789abcdef0123456789abcdef' });
+  });
+
+  it('should fall back to the ref name when the commit cannot be resolved', async () => {
+    vi.mocked(axios.resolveRef).mockRejectedValueOnce(new Error('rate limited'));
+
+    const result = await handleGetComponent({ componentName: 'button', ref: 'v1.0.0' });
+
+    expect(result.content[0].text).toBe('v1.0.0:button');
+    expect(result._meta).toBeUndefined();
+  });
+});
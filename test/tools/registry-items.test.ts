@@ -0,0 +1,92 @@
+/**
+ * Registry Item Tools Tests
+ * list_registry_items and get_registry_item for charts, hooks, lib and examples, and their
+ * directories in get_directory_structure
+ */
+
+import { vi, describe, it, expect } from 'vitest';
+
+const { axios, getCachedData } = vi.hoisted(() => ({
+  axios: {
+    paths: { REPO_OWNER: 'shadcn-ui', REPO_NAME: 'ui', REPO_BRANCH: 'main', REGISTRY_PATH: 'apps/v4/registry', NEW_YORK_V4_PATH: 'apps/v4/registry/new-york-v4' },
+    getRegistryItems: vi.fn(async (directory: string) => {
+      if (directory === 'charts') {
+        throw new Error('Directory "charts" not found in new-york-v4 registry');
+      }
+      return directory === 'hooks'
+        ? [{ name: 'use-mobile', path: 'apps/v4/registry/new-york-v4/hooks/use-mobile.ts' }]
+        : [{ name: `${directory}-b`, path: '' }, { name: `${directory}-a`, path: '' }];
+    }),
+    getRegistryItemSource: vi.fn(async (directory: string, name: string) => `// ${directory}/${name}\n`),
+    buildDirectoryTree: vi.fn(async () => ({
+      path: 'apps/v4/registry/new-york-v4',
+      type: 'directory',
+      children: {
+        hooks: { path: 'apps/v4/registry/new-york-v4/hooks', type: 'directory', children: {} },
+        ui: { path: 'apps/v4/registry/new-york-v4/ui', type: 'directory', children: {} },
+        blocks: {
+          path: 'apps/v4/registry/new-york-v4/blocks',
+          type: 'directory',
+          children: { lib: { path: 'apps/v4/registry/new-york-v4/blocks/login-01/lib', type: 'directory', children: {} } }
+        }
+      }
+    }))
+  },
+  getCachedData: vi.fn(async (_key: string, fetchFn: () => Promise<unknown>) => fetchFn())
+}));
+
+vi.mock('../../src/utils/storage-integration.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/storage-integration.js')>(),
+  getCachedData
+}));
+
+vi.mock('../../src/utils/framework.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/framework.js')>(),
+  getAxiosImplementation: vi.fn(async () => axios)
+}));
+
+import { handleListRegistryItems } from '../../src/tools/registry-items/list-registry-items.js';
+import { handleGetRegistryItem } from '../../src/tools/registry-items/get-registry-item.js';
+import { handleGetDirectoryStructure } from '../../src/tools/repository/get-directory-structure.js';
+
+describe('registry item tools', () => {
+  it('should list every item type and report the directories a style does not publish', async () => {
+    const result = await handleListRegistryItems({ framework: 'react' });
+    const list = JSON.parse(result.content[0].text);
+
+    expect(list).toEqual({
+      framework: 'react',
+      types: {
+        'registry:chart': [],
+        'registry:hook': ['use-mobile'],
+        'registry:lib': ['lib-a', 'lib-b'],
+        'registry:example': ['examples-a', 'examples-b']
+      },
+      total: 5,
+      unavailable: ['registry:chart']
+    });
+    expect(getCachedData).toHaveBeenCalledWith('list:hooks:react', expect.any(Function), 21600);
+  });
+
+  it('should fail when no item type can be listed', async () => {
+    await expect(handleListRegistryItems({ type: 'registry:chart', framework: 'react' }))
+      .rejects.toThrow('Failed to list registry items: Directory "charts" not found in new-york-v4 registry');
+  });
+
+  it('should read an item from its type directory under a type-specific cache key', async () => {
+    const result = await handleGetRegistryItem({ itemName: 'use-mobile', type: 'registry:hook', framework: 'react', style: 'new-york-v4' });
+
+    expect(result.content[0].text).toBe('// hooks/use-mobile\n');
+    expect(axios.getRegistryItemSource).toHaveBeenCalledWith('hooks', 'use-mobile', 'new-york-v4', undefined);
+    expect(getCachedData).toHaveBeenLastCalledWith('hook:react:use-mobile', expect.any(Function), 86400);
+  });
+
+  it('should tag registry item directories in the directory structure', async () => {
+    const result = await handleGetDirectoryStructure({ framework: 'react' });
+    const tree = JSON.parse(result.content[0].text);
+
+    expect(tree.children.hooks.registryItemType).toBe('registry:hook');
+    expect(tree.children.ui.registryItemType).toBeUndefined();
+    expect(tree.children.blocks.children.lib.registryItemType).toBeUndefined();
+  });
+});
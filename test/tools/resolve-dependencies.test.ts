@@ -0,0 +1,58 @@
+/**
+ * resolve_dependencies Tool Tests
+ * Verifies block import scanning, the generated install command and argument checks
+ */
+
+import { vi, describe, it, expect } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+vi.mock('../../src/utils/storage-integration.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/utils/storage-integration.js')>();
+  return {
+    ...actual,
+    getCachedData: vi.fn(async (_key: string, fetchFn: () => Promise<unknown>) => fetchFn())
+  };
+});
+
+const registry: Record<string, { dependencies: string[]; registryDependencies: string[] }> = {
+  sidebar: { dependencies: ['@radix-ui/react-slot'], registryDependencies: ['button', 'separator'] },
+  button: { dependencies: ['@radix-ui/react-slot'], registryDependencies: [] },
+  separator: { dependencies: ['@radix-ui/react-separator'], registryDependencies: [] },
+  card: { dependencies: [], registryDependencies: [] }
+};
+
+vi.mock('../../src/utils/axios.js', () => ({
+  axios: {
+    getComponentMetadata: vi.fn(async (name: string) => registry[name] ? { name, ...registry[name] } : null),
+    getBlockCode: vi.fn(async (name: string) => ({
+      name,
+      type: 'complex',
+      dependencies: ['react', 'lucide-react'],
+      files: {
+        'page.tsx': { content: 'import { AppSidebar } from "@/registry/new-york-v4/blocks/dashboard-01/components/app-sidebar"' },
+        components: {
+          'app-sidebar.tsx': { content: 'import { Sidebar } from "@/registry/new-york-v4/ui/sidebar"\nimport { Card } from "@/components/ui/card"' }
+        }
+      }
+    }))
+  }
+}));
+
+import { handleResolveDependencies } from '../../src/tools/components/resolve-dependencies.js';
+
+describe('resolve_dependencies tool', () => {
+  it('should resolve blocks through the ui components they import', async () => {
+    const result = await handleResolveDependencies({ blocks: ['dashboard-01'], framework: 'react' });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.installOrder.map((item: any) => item.name)).toEqual(['card', 'button', 'separator', 'sidebar', 'dashboard-01']);
+    expect(parsed.npmPackages).toEqual(['@radix-ui/react-separator', '@radix-ui/react-slot', 'lucide-react']);
+    expect(parsed.command).toBe('npx shadcn@latest add card button separator sidebar dashboard-01');
+  });
+
+  it('should reject calls without components or blocks', async () => {
+    await expect(handleResolveDependencies({})).rejects.toSatisfy(
+      (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams
+    );
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Style Selection Tests
+ * Ensures styles are validated against the registry and never share cache keys
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+const cacheKeys: string[] = [];
+
+vi.mock('../../src/utils/storage-integration.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/utils/storage-integration.js')>();
+  return {
+    ...actual,
+    getCachedData: vi.fn(async (key: string, fetchFn: () => Promise<unknown>) => {
+      cacheKeys.push(key);
+      return fetchFn();
+    })
+  };
+});
+
+vi.mock('../../src/utils/axios.js', () => ({
+  axios: {
+    getAvailableStyles: vi.fn(async () => ['new-york-v4', 'default', 'new-york']),
+    getComponentSource: vi.fn(async (name: string, style: string) => `${style}:${name}`),
+    getBlockCode: vi.fn(async (name: string, _includeComponents: boolean, style: string) => ({ name, style }))
+  }
+}));
+
+import { handleGetComponent } from '../../src/tools/components/get-component.js';
+import { handleGetBlock } from '../../src/tools/blocks/get-block.js';
+import { generateComponentKey, generateBlockKey } from '../../src/utils/storage-integration.js';
+import { setConfiguredStyle, __resetStylesForTesting } from '../../src/utils/style.js';
+import { axios } from '../../src/utils/axios.js';
+
+describe('Style selection', () => {
+  beforeEach(() => {
+    cacheKeys.length = 0;
+    delete process.env.FRAMEWORK;
+    __resetStylesForTesting();
+    vi.mocked(axios.getAvailableStyles).mockClear();
+  });
+
+  it('should keep the bare framework scope for the default style', () => {
+    expect(generateComponentKey('button', 'react')).toBe('component:react:button');
+    expect(generateComponentKey('button', 'react', 'default')).toBe('component:react/default:button');
+    expect(generateBlockKey('login-01', true, 'react', 'new-york')).toBe('block:react/new-york:login-01:components-true');
+  });
+
+  it('should fetch the requested style under its own cache key', async () => {
+    const result = await handleGetComponent({ componentName: 'button', style: 'default' });
+
+    expect(result.content[0].text).toBe('default:button');
+    expect(cacheKeys).toEqual(['component:react/default:button']);
+  });
+
+  it('should use the configured style when no style is passed', async () => {
+    setConfiguredStyle('new-york');
+
+    const result = await handleGetBlock({ blockName: 'login-01' });
+
+    expect(JSON.parse(result.content[0].text)).toEqual({ framework: 'react/new-york', name: 'login-01', style: 'new-york' });
+    expect(cacheKeys).toEqual(['block:react/new-york:login-01:components-true']);
+  });
+
+  it('should reject styles that do not exist in the registry', async () => {
+    await expect(handleGetComponent({ componentName: 'button', style: 'nova' }))
+      .rejects.toThrow('Style "nova" does not exist in the react registry. Available styles: new-york-v4, default, new-york');
+  });
+
+  it('should not look up styles for the default style', async () => {
+    await handleGetComponent({ componentName: 'button' });
+
+    expect(axios.getAvailableStyles).not.toHaveBeenCalled();
+  });
+});
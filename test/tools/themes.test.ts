@@ -0,0 +1,94 @@
+/**
+ * Theme Tools Tests
+ * list_themes and get_theme produce Tailwind v4 theme CSS from the registry base colors
+ */
+
+import { vi, describe, it, expect } from 'vitest';
+
+const { axios, getCachedData } = vi.hoisted(() => ({
+  axios: {
+    resolveRef: vi.fn(async () => 'b'.repeat(40)),
+    getBaseColors: vi.fn(async () => ['neutral', 'zinc']),
+    getBaseColor: vi.fn(async (name: string) => {
+      if (name === 'legacy') {
+        return { cssVars: { light: { background: '0 0% 100%' }, dark: { background: '0 0% 3.9%' } } };
+      }
+      return {
+        cssVars: { light: { background: '0 0% 100%' }, dark: { background: '0 0% 3.9%' } },
+        cssVarsV4: {
+          light: { radius: '0.5rem', background: 'oklch(1 0 0)', primary: 'oklch(0.205 0 0)' },
+          dark: { background: 'oklch(0.145 0 0)', primary: 'oklch(0.922 0 0)' }
+        }
+      };
+    })
+  },
+  getCachedData: vi.fn(async (_key: string, fetchFn: () => Promise<unknown>) => fetchFn())
+}));
+
+vi.mock('../../src/utils/storage-integration.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/storage-integration.js')>(),
+  getCachedData
+}));
+
+vi.mock('../../src/utils/framework.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/framework.js')>(),
+  getAxiosImplementation: vi.fn(async () => axios)
+}));
+
+import { handleListThemes } from '../../src/tools/themes/list-themes.js';
+import { handleGetTheme } from '../../src/tools/themes/get-theme.js';
+
+describe('theme tools', () => {
+  it('should list base colors as themes, cached per framework and ref', async () => {
+    const result = await handleListThemes({ framework: 'svelte', ref: 'main' });
+    const list = JSON.parse(result.content[0].text);
+
+    expect(getCachedData).toHaveBeenLastCalledWith('list:themes:svelte@main', expect.any(Function), 86400);
+    expect(list).toMatchObject({ framework: 'svelte', total: 2, githubSha: 'b'.repeat(40) });
+    expect(list.themes[0]).toEqual({
+      name: 'neutral',
+      description: 'Neutral base color with light and dark variables',
+      url: 'https://shadcn-svelte.com/docs/theming'
+    });
+    expect(result._meta).toEqual({ githubSha: 'b'.repeat(40) });
+  });
+
+  it('should return Tailwind v4 CSS with @theme inline, :root and .dark blocks', async () => {
+    const result = await handleGetTheme({ themeName: 'neutral', framework: 'react' });
+    const css = result.content[0].text;
+
+    expect(getCachedData).toHaveBeenLastCalledWith('theme:react:neutral', expect.any(Function), 86400);
+    expect(css).toContain('for app/globals.css (Tailwind v4). Equivalent to: npx shadcn@latest init --base-color neutral');
+    expect(css).toContain('@custom-variant dark (&:is(.dark *));');
+    expect(css).toContain([
+      '@theme inline {',
+      '  --radius-sm: calc(var(--radius) - 4px);',
+      '  --radius-md: calc(var(--radius) - 2px);',
+      '  --radius-lg: var(--radius);',
+      '  --radius-xl: calc(var(--radius) + 4px);',
+      '  --color-background: var(--background);',
+      '  --color-primary: var(--primary);',
+      '}',
+      '',
+      ':root {',
+      '  --radius: 0.5rem;',
+      '  --background: oklch(1 0 0);',
+      '  --primary: oklch(0.205 0 0);',
+      '}',
+      '',
+      '.dark {',
+      '  --background: oklch(0.145 0 0);',
+      '  --primary: oklch(0.922 0 0);',
+      '}'
+    ].join('\n'));
+  });
+
+  it('should lay out Svelte themes for src/app.css and wrap legacy HSL channels', async () => {
+    const result = await handleGetTheme({ themeName: 'legacy', framework: 'svelte' });
+    const css = result.content[0].text;
+
+    expect(css).toContain('for src/app.css (Tailwind v4). Equivalent to: npx shadcn-svelte@latest init --base-color legacy');
+    expect(css).toContain(':root {\n  --background: hsl(0 0% 100%);\n  --radius: 0.625rem;\n}');
+    expect(css).toContain('.dark {\n  --background: hsl(0 0% 3.9%);\n}');
+  });
+});
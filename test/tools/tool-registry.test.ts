@@ -0,0 +1,77 @@
+/**
+ * Tool Registry Tests
+ * Verifies that ListTools, argument validation and dispatch are all generated from the single tool registry
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { toolRegistry, tools, toolHandlers, validateToolArguments, getTool } from '../../src/tools/index.js';
+
+describe('Tool registry', () => {
+  it('should advertise every registered tool exactly once', () => {
+    const names = tools.map(tool => tool.name);
+
+    expect(names).toEqual(toolRegistry.map(tool => tool.name));
+    expect(new Set(names).size).toBe(names.length);
+    expect(Object.keys(toolHandlers)).toEqual(names);
+  });
+
+  it('should generate JSON Schema from the zod input schemas', () => {
+    const getComponent = tools.find(tool => tool.name === 'get_component')!;
+
+    expect(getComponent.inputSchema.type).toBe('object');
+    expect(getComponent.inputSchema.required).toEqual(['componentName']);
+    expect(getComponent.inputSchema.properties).toHaveProperty('componentName.type', 'string');
+    expect(getComponent.inputSchema.properties).toHaveProperty('componentName.description');
+    expect(getComponent.inputSchema).not.toHaveProperty('$schema');
+    expect(getComponent.annotations?.readOnlyHint).toBe(true);
+  });
+
+  it('should accept valid arguments', () => {
+    expect(validateToolArguments('get_block', { blockName: 'calendar-01', includeComponents: false }))
+      .toEqual({ blockName: 'calendar-01', includeComponents: false });
+    expect(validateToolArguments('list_components', undefined)).toEqual({});
+  });
+
+  it('should reject missing required arguments with InvalidParams', () => {
+    expect(() => validateToolArguments('get_component', {})).toThrow(McpError);
+
+    try {
+      validateToolArguments('get_component', {});
+    } catch (error) {
+      expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+      expect((error as McpError).message).toContain('componentName');
+    }
+  });
+
+  it('should reject wrongly typed arguments with InvalidParams', () => {
+    try {
+      validateToolArguments('get_block', { blockName: 'calendar-01', includeComponents: 'yes' });
+      expect.fail('expected validation to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+    }
+  });
+
+  it('should reject unknown arguments with InvalidParams', () => {
+    try {
+      validateToolArguments('get_component', { componentName: 'button', componentname: 'button' });
+      expect.fail('expected validation to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+      expect((error as McpError).message).toContain('componentname');
+    }
+  });
+
+  it('should reject unknown tools with InvalidParams', () => {
+    try {
+      getTool('does_not_exist');
+      expect.fail('expected lookup to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+    }
+  });
+});
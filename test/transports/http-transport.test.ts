@@ -0,0 +1,155 @@
+/**
+ * Streamable HTTP Transport Tests
+ * Verifies that several clients can share one HTTP server process, each with its own session
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'node:http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startHttpTransport, type HttpTransportHandle } from '../../src/transports/http.js';
+import { createServer } from '../../src/server.js';
+
+describe('Streamable HTTP transport', () => {
+  let handle: HttpTransportHandle;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    handle = await startHttpTransport({ port: 0, createServer });
+    baseUrl = `http://127.0.0.1:${handle.port}`;
+  });
+
+  afterAll(async () => {
+    await handle.close();
+  });
+
+  async function connectClient(): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+    const client = new Client({ name: 'http-transport-test', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    await client.connect(transport);
+    return { client, transport };
+  }
+
+  it('should serve the same tools as the stdio server', async () => {
+    const { client } = await connectClient();
+
+    const { tools } = await client.listTools();
+    const names = tools.map(tool => tool.name);
+
+    expect(names).toContain('get_component');
+    expect(names).toContain('list_blocks');
+    expect(names).toContain('get_storage_stats');
+
+    await client.close();
+  });
+
+  it('should give each client its own session', async () => {
+    const first = await connectClient();
+    const second = await connectClient();
+
+    expect(first.transport.sessionId).toBeDefined();
+    expect(second.transport.sessionId).toBeDefined();
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+    expect(handle.sessionCount()).toBeGreaterThanOrEqual(2);
+
+    await first.transport.terminateSession();
+    await second.transport.terminateSession();
+    await first.client.close();
+    await second.client.close();
+  });
+
+  it('should reject requests with an unknown session id', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        'mcp-session-id': 'does-not-exist'
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream'
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should close the server of an initialize request that is rejected', async () => {
+    let closed = false;
+    const rejecting = await startHttpTransport({
+      port: 0,
+      createServer: () => {
+        const server = createServer();
+        const onclose = server.onclose;
+        server.onclose = () => {
+          onclose?.();
+          closed = true;
+        };
+        return server;
+      }
+    });
+
+    try {
+      // Streamable HTTP requires clients to accept event streams
+      const response = await fetch(`http://127.0.0.1:${rejecting.port}/mcp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'rejected', version: '1.0.0' } }
+        })
+      });
+
+      expect(response.status).toBe(406);
+      expect(closed).toBe(true);
+      expect(rejecting.sessionCount()).toBe(0);
+    } finally {
+      await rejecting.close();
+    }
+  });
+
+  it('should refuse a foreign Host or Origin', async () => {
+    // fetch() cannot override the Host header
+    const post = (headers: Record<string, string>) => new Promise<number>((resolve, reject) => {
+      const request = http.request(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream', ...headers }
+      }, response => {
+        response.resume();
+        resolve(response.statusCode!);
+      });
+      request.on('error', reject);
+      request.end(JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'rebinding', version: '1.0.0' } }
+      }));
+    });
+
+    expect(await post({ Host: `attacker.example:${handle.port}` })).toBe(403);
+    expect(await post({ Origin: 'http://attacker.example' })).toBe(403);
+    expect(await post({ Host: `localhost:${handle.port}`, Origin: `http://localhost:${handle.port}` })).toBe(200);
+  });
+
+  it('should expose a health endpoint', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.status).toBe('ok');
+  });
+});
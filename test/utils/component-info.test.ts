@@ -0,0 +1,131 @@
+/**
+ * Component Info Extraction Tests
+ * Props, defaults, inherited primitive props and cva variants read with the TypeScript compiler API
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { extractComponentInfo, __resetComponentInfoForTesting } from '../../src/utils/component-info.js';
+
+const BUTTON = `import * as React from "react"
+import { Slot } from "@radix-ui/react-slot"
+import { cva, type VariantProps } from "class-variance-authority"
+
+const buttonVariants = cva("inline-flex items-center", {
+  variants: {
+    variant: { default: "bg-primary", destructive: "bg-destructive", outline: "border" },
+    size: { default: "h-9 px-4", sm: "h-8", icon: "size-9" },
+  },
+  defaultVariants: { variant: "default", size: "default" },
+})
+
+function Button({
+  className,
+  variant,
+  size,
+  asChild = false,
+  ...props
+}: React.ComponentProps<"button"> &
+  VariantProps<typeof buttonVariants> & {
+    /** Render the child element instead of a button */
+    asChild?: boolean
+  }) {
+  const Comp = asChild ? Slot : "button"
+  return <Comp className={buttonVariants({ variant, size, className })} {...props} />
+}
+
+export { Button, buttonVariants }
+`;
+
+const SWITCH = `import * as React from "react"
+import { Switch as SwitchPrimitive } from "test-primitives"
+
+function Switch({ className, ...props }: React.ComponentProps<typeof SwitchPrimitive.Root>) {
+  return <SwitchPrimitive.Root className={className} {...props} />
+}
+
+export { Switch }
+`;
+
+describe('component info extraction', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'component-info-'));
+    const primitives = path.join(directory, 'node_modules/test-primitives');
+    await fs.mkdir(primitives, { recursive: true });
+    await fs.writeFile(path.join(primitives, 'package.json'), JSON.stringify({ name: 'test-primitives', types: 'index.d.ts' }));
+    await fs.writeFile(path.join(primitives, 'index.d.ts'), [
+      'export declare namespace Switch {',
+      '  const Root: (props: {',
+      '    /** Controlled checked state */',
+      '    checked?: boolean;',
+      '    onCheckedChange?: (checked: boolean) => void;',
+      '  }) => null;',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  afterAll(async () => {
+    __resetComponentInfoForTesting();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should extract cva variants and props with destructuring defaults', () => {
+    const info = extractComponentInfo(BUTTON, { name: 'button', resolveFrom: directory });
+
+    expect(info.variants).toEqual([{
+      name: 'buttonVariants',
+      variants: [
+        { name: 'variant', options: ['default', 'destructive', 'outline'], default: 'default' },
+        { name: 'size', options: ['default', 'sm', 'icon'], default: 'default' }
+      ]
+    }]);
+    expect(info.components).toHaveLength(1);
+    expect(info.components[0]).toMatchObject({ name: 'Button', extends: ['React.ComponentProps<"button">'], variants: 'buttonVariants' });
+    expect(info.props).toEqual([
+      { name: 'variant', type: '"default" | "destructive" | "outline"', description: '', required: false, default: 'default' },
+      { name: 'size', type: '"default" | "sm" | "icon"', description: '', required: false, default: 'default' },
+      { name: 'asChild', type: 'boolean', description: 'Render the child element instead of a button', required: false, default: 'false' }
+    ]);
+  });
+
+  it('should resolve props inherited from an installed primitive', () => {
+    const info = extractComponentInfo(SWITCH, { name: 'switch', resolveFrom: directory });
+
+    expect(info.components[0].primitive).toBe('test-primitives:Switch.Root');
+    expect(info.props).toEqual([
+      { name: 'checked', type: 'boolean', description: 'Controlled checked state', required: false, inheritedFrom: 'test-primitives:Switch.Root' },
+      { name: 'onCheckedChange', type: '(checked: boolean) => void', description: '', required: false, inheritedFrom: 'test-primitives:Switch.Root' }
+    ]);
+  });
+
+  it('should name primitives that cannot be resolved without listing their props', () => {
+    const source = [
+      'import * as DialogPrimitive from "@radix-ui/react-dialog"',
+      'const Dialog = DialogPrimitive.Root',
+      'interface DialogContentProps extends React.ComponentPropsWithoutRef<typeof DialogPrimitive.Content> {',
+      '  showCloseButton?: boolean',
+      '}',
+      'const DialogContent = React.forwardRef<HTMLDivElement, DialogContentProps>(({ showCloseButton = true, ...props }, ref) => null)',
+      'export { Dialog, DialogContent }',
+      ''
+    ].join('\n');
+
+    const info = extractComponentInfo(source, { name: 'dialog', resolveFrom: directory });
+    expect(info.components).toEqual([
+      { name: 'Dialog', props: [], extends: [], primitive: '@radix-ui/react-dialog:Root' },
+      {
+        name: 'DialogContent',
+        props: [{ name: 'showCloseButton', type: 'boolean', description: '', required: false, default: 'true' }],
+        extends: ['React.ComponentPropsWithoutRef<typeof DialogPrimitive.Content>'],
+        primitive: '@radix-ui/react-dialog:Content'
+      }
+    ]);
+    expect(info.props).toEqual([]);
+    expect(info.variants).toEqual([]);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Concurrency Tests
+ * Fan-out over many items with a bounded number of calls in flight
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '../../src/utils/concurrency.js';
+
+describe('mapWithConcurrency', () => {
+  it('should keep at most the limit in flight and the results in order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency(Array.from({ length: 20 }, (_, index) => index), 4, async item => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, (item * 7) % 5));
+      inFlight--;
+      return item * 2;
+    });
+
+    expect(maxInFlight).toBe(4);
+    expect(results).toEqual(Array.from({ length: 20 }, (_, index) => index * 2));
+  });
+
+  it('should reject with the first error and start no further items', async () => {
+    const started: number[] = [];
+
+    const error = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async item => {
+      started.push(item);
+      if (item === 2) {
+        throw new Error('rate limited');
+      }
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return item;
+    }).catch(error => error);
+
+    expect(error.message).toBe('rate limited');
+    expect(started).toEqual([1, 2]);
+  });
+});
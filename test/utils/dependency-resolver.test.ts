@@ -0,0 +1,144 @@
+/**
+ * Dependency Resolver Tests
+ * Covers install ordering, cycle detection and npm package merging
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  extractSourceDependencies,
+  resolveDependencies,
+  toPackageName,
+  type DependencyInfo,
+  type DependencyLoader
+} from '../../src/utils/dependency-resolver.js';
+
+function loaderFrom(graph: Record<string, Partial<DependencyInfo>>): DependencyLoader {
+  return async (name) => {
+    const entry = graph[name];
+    return entry
+      ? { dependencies: entry.dependencies ?? [], registryDependencies: entry.registryDependencies ?? [] }
+      : null;
+  };
+}
+
+describe('toPackageName', () => {
+  it('should strip subpaths and versions', () => {
+    expect(toPackageName('next/link')).toBe('next');
+    expect(toPackageName('@radix-ui/react-slot')).toBe('@radix-ui/react-slot');
+    expect(toPackageName('@radix-ui/react-slot@1.1.0')).toBe('@radix-ui/react-slot');
+    expect(toPackageName('zod@^3.24.0')).toBe('zod');
+  });
+});
+
+describe('extractSourceDependencies', () => {
+  it('should split imports into npm packages and registry components', () => {
+    const source = [
+      'import * as React from "react"',
+      'import { Slot } from "@radix-ui/react-slot"',
+      'import { cva, type VariantProps } from "class-variance-authority"',
+      'import { cn } from "@/lib/utils"',
+      'import { Button } from "@/registry/new-york-v4/ui/button"',
+      'import { Label } from "./label"',
+      'export { ChevronDown } from "lucide-react/icons"'
+    ].join('\n');
+
+    expect(extractSourceDependencies(source)).toEqual({
+      dependencies: ['@radix-ui/react-slot', 'class-variance-authority', 'lucide-react'],
+      registryDependencies: ['button']
+    });
+  });
+});
+
+describe('resolveDependencies', () => {
+  it('should order every item after its registry dependencies', async () => {
+    const load = loaderFrom({
+      sidebar: { registryDependencies: ['button', 'sheet', 'tooltip'], dependencies: ['@radix-ui/react-slot'] },
+      sheet: { registryDependencies: ['button'], dependencies: ['@radix-ui/react-dialog'] },
+      button: { dependencies: ['@radix-ui/react-slot'] },
+      tooltip: { dependencies: ['@radix-ui/react-tooltip'] }
+    });
+
+    const result = await resolveDependencies([{ name: 'sidebar', type: 'component' }], load);
+    const order = result.installOrder.map(item => item.name);
+
+    expect(order).toEqual(['button', 'sheet', 'tooltip', 'sidebar']);
+    expect(result.npmPackages).toEqual(['@radix-ui/react-dialog', '@radix-ui/react-slot', '@radix-ui/react-tooltip']);
+    expect(result.cycles).toEqual([]);
+  });
+
+  it('should visit shared dependencies once', async () => {
+    let loads = 0;
+    const graph = loaderFrom({
+      a: { registryDependencies: ['shared'] },
+      b: { registryDependencies: ['shared'] },
+      shared: {}
+    });
+
+    const result = await resolveDependencies(
+      [{ name: 'a', type: 'component' }, { name: 'b', type: 'component' }],
+      async (name, type) => { loads++; return graph(name, type); }
+    );
+
+    expect(result.installOrder.map(item => item.name)).toEqual(['shared', 'a', 'b']);
+    expect(loads).toBe(3);
+  });
+
+  it('should report cycles and still produce an install order', async () => {
+    const load = loaderFrom({
+      a: { registryDependencies: ['b'] },
+      b: { registryDependencies: ['c'] },
+      c: { registryDependencies: ['a'] }
+    });
+
+    const result = await resolveDependencies([{ name: 'a', type: 'component' }], load);
+
+    expect(result.cycles).toEqual([['a', 'b', 'c', 'a']]);
+    expect(result.installOrder.map(item => item.name)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('should collect unresolved items and external registry dependencies', async () => {
+    const load = loaderFrom({
+      card: { registryDependencies: ['missing', 'https://example.com/r/chart.json'] }
+    });
+
+    const result = await resolveDependencies([{ name: 'card', type: 'component' }], load);
+
+    expect(result.unresolved).toEqual([{ name: 'missing', type: 'component', reason: 'Component not found' }]);
+    expect(result.external).toEqual(['https://example.com/r/chart.json']);
+    expect(result.installOrder.map(item => item.name)).toEqual(['card']);
+  });
+
+  it('should report why an item failed to load', async () => {
+    const load: DependencyLoader = async (name) => {
+      if (name === 'chart') {
+        throw new Error('GitHub API rate limit exceeded');
+      }
+      return { dependencies: [], registryDependencies: ['chart'] };
+    };
+
+    const result = await resolveDependencies([{ name: 'card', type: 'component' }], load);
+
+    expect(result.unresolved).toEqual([{ name: 'chart', type: 'component', reason: 'GitHub API rate limit exceeded' }]);
+  });
+
+  it('should rethrow loader errors once the call is cancelled', async () => {
+    const controller = new AbortController();
+    const load: DependencyLoader = async () => {
+      controller.abort();
+      throw new DOMException('This operation was aborted', 'AbortError');
+    };
+
+    await expect(resolveDependencies([{ name: 'card', type: 'component' }], load, controller.signal))
+      .rejects.toThrow('This operation was aborted');
+  });
+
+  it('should drop framework packages from the npm set', async () => {
+    const load = loaderFrom({
+      'dashboard-01': { dependencies: ['react', 'next/link', 'lucide-react', 'recharts'] }
+    });
+
+    const result = await resolveDependencies([{ name: 'dashboard-01', type: 'block' }], load);
+
+    expect(result.npmPackages).toEqual(['lucide-react', 'recharts']);
+  });
+});
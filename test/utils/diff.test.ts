@@ -0,0 +1,70 @@
+/**
+ * Unified Diff Tests
+ * Covers the edit script, hunk grouping and hunk headers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createUnifiedDiff, diffLines, splitLines } from '../../src/utils/diff.js';
+
+const labels = { oldLabel: 'a/button.tsx', newLabel: 'b/button.tsx' };
+
+describe('diffLines', () => {
+  it('should find the shortest edit script', () => {
+    const operations = diffLines(['a', 'b', 'c', 'a', 'b', 'b', 'a'], ['c', 'b', 'a', 'b', 'a', 'c']);
+
+    expect(operations.filter(operation => operation.type !== 'equal')).toHaveLength(5);
+    expect(operations.filter(operation => operation.type !== 'insert').map(operation => operation.line))
+      .toEqual(['a', 'b', 'c', 'a', 'b', 'b', 'a']);
+    expect(operations.filter(operation => operation.type !== 'delete').map(operation => operation.line))
+      .toEqual(['c', 'b', 'a', 'b', 'a', 'c']);
+  });
+
+  it('should ignore line endings and a missing final newline', () => {
+    expect(splitLines('a\r\nb\n')).toEqual(['a', 'b']);
+    expect(createUnifiedDiff('a\nb', 'a\r\nb\n', labels).diff).toBe('');
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  it('should produce hunks with context and line numbers', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+    const after = before.replace('line 2\n', 'line two\n').replace('line 18\n', '');
+
+    const result = createUnifiedDiff(before, after, labels);
+
+    expect(result.additions).toBe(1);
+    expect(result.deletions).toBe(2);
+    expect(result.diff).toBe([
+      '--- a/button.tsx',
+      '+++ b/button.tsx',
+      '@@ -1,5 +1,5 @@',
+      ' line 1',
+      '-line 2',
+      '+line two',
+      ' line 3',
+      ' line 4',
+      ' line 5',
+      '@@ -15,6 +15,5 @@',
+      ' line 15',
+      ' line 16',
+      ' line 17',
+      '-line 18',
+      ' line 19',
+      ' line 20',
+      ''
+    ].join('\n'));
+  });
+
+  it('should merge nearby changes into one hunk', () => {
+    const result = createUnifiedDiff('a\nb\nc\nd\ne', 'A\nb\nc\nd\nE', { ...labels, context: 2 });
+
+    expect(result.diff.match(/^@@/gm)).toHaveLength(1);
+    expect(result.diff).toContain('@@ -1,5 +1,5 @@');
+  });
+
+  it('should describe added files with an empty old range', () => {
+    const result = createUnifiedDiff('', 'export {}\n', { oldLabel: '/dev/null', newLabel: 'b/index.ts' });
+
+    expect(result.diff).toBe('--- /dev/null\n+++ b/index.ts\n@@ -0,0 +1 @@\n+export {}\n');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Logger Tests
+ * Level filtering, JSON lines log file and log sinks
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  addLogSink,
+  configureLogger,
+  logDebug,
+  logError,
+  logInfo,
+  logWarning,
+  parseLogLevel,
+  runInLogSession,
+  type LogEntry
+} from '../../src/utils/logger.js';
+import { warnIfRateLimited } from '../../src/utils/rate-limit.js';
+
+describe('logger', () => {
+  let consoleError: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    configureLogger({ level: 'info', file: null });
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+  });
+
+  it('should parse LOG_LEVEL values', () => {
+    expect(parseLogLevel('DEBUG')).toBe('debug');
+    expect(parseLogLevel('warning')).toBe('warn');
+    expect(parseLogLevel('verbose')).toBeUndefined();
+    expect(parseLogLevel(undefined)).toBeUndefined();
+  });
+
+  it('should only write entries at or above the configured level', () => {
+    configureLogger({ level: 'warn' });
+
+    logDebug('debug message');
+    logInfo('info message');
+    logWarning('warning message');
+    logError('error message', new Error('boom'));
+
+    const lines = consoleError.mock.calls.map(call => call[0]);
+    expect(lines[0]).toBe('WARN: warning message');
+    expect(lines[1]).toBe('ERR: error message - boom');
+    expect(lines.slice(2).every(line => String(line).startsWith('Stack: '))).toBe(true);
+  });
+
+  it('should append entries to the log file as JSON lines', () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'logger-test-'));
+    const file = path.join(dir, 'server.log');
+    try {
+      configureLogger({ level: 'debug', file });
+
+      logDebug('fetching button');
+      logError('fetch failed', new Error('timeout'));
+
+      const entries = readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+      expect(entries).toMatchObject([
+        { level: 'debug', message: 'fetching button' },
+        { level: 'error', message: 'fetch failed', error: { message: 'timeout' } }
+      ]);
+      expect(entries.every(entry => !Number.isNaN(Date.parse(entry.timestamp)))).toBe(true);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should pass every entry to sinks regardless of level', () => {
+    const entries: LogEntry[] = [];
+    const remove = addLogSink(entry => entries.push(entry));
+
+    logDebug('below the console level');
+    remove();
+    logInfo('after removal');
+
+    expect(entries).toMatchObject([{ level: 'debug', message: 'below the console level' }]);
+    expect(consoleError.mock.calls).toEqual([['INFO: after removal']]);
+  });
+
+  it('should only pass session sinks the entries of their session and server-wide ones', async () => {
+    const [first, second] = [{}, {}];
+    const received = new Map<object, string[]>([[first, []], [second, []]]);
+    const removes = [first, second].map(session => addLogSink(entry => received.get(session)!.push(entry.message), session));
+
+    await runInLogSession(first, async () => {
+      await Promise.resolve();
+      logWarning('first session warning');
+    });
+    runInLogSession(second, () => warnIfRateLimited({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1800000000' }));
+    logInfo('outside any session');
+    removes.forEach(remove => remove());
+
+    expect(received.get(first)).toEqual(['first session warning', expect.stringContaining('rate limit exhausted')]);
+    expect(received.get(second)).toEqual([expect.stringContaining('rate limit exhausted')]);
+  });
+
+  it('should warn once per window when GitHub reports the rate limit exhausted', () => {
+    const entries: LogEntry[] = [];
+    const remove = addLogSink(entry => entries.push(entry));
+
+    warnIfRateLimited({ 'x-ratelimit-remaining': '12', 'x-ratelimit-reset': '1700000000' });
+    warnIfRateLimited({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1700000000' });
+    warnIfRateLimited({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1700000000' });
+    remove();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ level: 'warn', message: expect.stringContaining('rate limit exhausted until 2023-11-14T22:13:20.000Z') });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Progress Reporting Tests
+ * notifications/progress updates of long-running tool calls
+ */
+
+import { vi, describe, it, expect } from 'vitest';
+
+const { axios } = vi.hoisted(() => ({
+  axios: {
+    resolveRef: vi.fn(async () => 'a'.repeat(40)),
+    getBlockCode: vi.fn(async (name: string, _includeComponents: boolean, _style: string, _ref: string, progress?: any) => {
+      progress?.expect(2);
+      progress?.step(`Fetched ${name}/page.tsx`);
+      progress?.step(`Fetched ${name}/components/login-form.tsx`);
+      return { name, type: 'complex', files: {} };
+    })
+  }
+}));
+
+vi.mock('../../src/utils/framework.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/framework.js')>(),
+  getAxiosImplementation: vi.fn(async () => axios)
+}));
+
+import { ProgressReporter, type ProgressUpdate } from '../../src/utils/progress.js';
+import { handleGetBlock } from '../../src/tools/blocks/get-block.js';
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ProgressReporter', () => {
+  it('should advance on every step and report a total while announced steps remain', async () => {
+    const updates: ProgressUpdate[] = [];
+    const progress = new ProgressReporter(update => { updates.push(update); });
+
+    progress.step('Read list from cache');
+    progress.expect(2);
+    progress.step('Fetched page.tsx');
+    progress.step('Fetched login-form.tsx');
+    await flush();
+
+    expect(updates).toEqual([
+      { progress: 1, message: 'Read list from cache' },
+      { progress: 2, total: 3, message: 'Fetched page.tsx' },
+      { progress: 3, message: 'Fetched login-form.tsx' }
+    ]);
+  });
+
+  it('should not fail the call when a notification cannot be sent', async () => {
+    const send = vi.fn(async () => { throw new Error('Not connected'); });
+    const progress = new ProgressReporter(send);
+
+    expect(() => progress.step('Fetched page.tsx')).not.toThrow();
+    await flush();
+    expect(send).toHaveBeenCalledOnce();
+  });
+});
+
+describe('get_block progress', () => {
+  it('should report the cache lookup and every file the block is read from', async () => {
+    const updates: ProgressUpdate[] = [];
+    const progress = new ProgressReporter(update => { updates.push(update); });
+
+    await handleGetBlock({ blockName: 'login-02' }, { progress });
+    await flush();
+
+    expect(updates.map(update => update.message)).toEqual([
+      expect.stringContaining('login-02'),
+      'Fetched login-02/page.tsx',
+      'Fetched login-02/components/login-form.tsx'
+    ]);
+    expect(updates.map(update => update.progress)).toEqual([1, 2, 3]);
+    expect(axios.getBlockCode).toHaveBeenCalledWith('login-02', true, 'new-york-v4', 'a'.repeat(40), progress, undefined);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Project Inspection Tests
+ * Alias resolution and registry import rewriting for local shadcn projects
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  loadProject,
+  rewriteRegistryImports,
+  normalizeSource,
+  stripJsonComments
+} from '../../src/utils/project.js';
+
+describe('project inspection', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'project-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should strip comments and trailing commas but keep strings intact', () => {
+    const text = '{\n  // comment\n  "a": "http://x/*y*/", /* block */\n  "b": [1, 2,],\n}';
+    expect(JSON.parse(stripJsonComments(text))).toEqual({ a: 'http://x/*y*/', b: [1, 2] });
+  });
+
+  it('should resolve aliases through tsconfig paths and detect Svelte projects', async () => {
+    const react = path.join(directory, 'react');
+    await fs.mkdir(react);
+    await fs.writeFile(path.join(react, 'components.json'), JSON.stringify({
+      style: 'new-york',
+      tailwind: { config: 'tailwind.config.js' },
+      aliases: { components: '~/components', ui: '~/ui' }
+    }));
+    await fs.writeFile(path.join(react, 'tsconfig.json'), JSON.stringify({
+      compilerOptions: { baseUrl: 'app', paths: { '~/*': ['./*'] } }
+    }));
+
+    const project = await loadProject(path.join(react, 'components.json'));
+    expect(project).toMatchObject({ root: react, framework: 'react', style: 'new-york' });
+    expect(project.aliases).toEqual({ components: '~/components', utils: '@/lib/utils', ui: '~/ui', lib: '@/lib', hooks: '@/hooks' });
+    expect(project.directories.ui).toBe('app/ui');
+
+    const svelte = path.join(directory, 'svelte');
+    await fs.mkdir(svelte);
+    await fs.writeFile(path.join(svelte, 'components.json'), JSON.stringify({
+      $schema: 'https://shadcn-svelte.com/schema.json',
+      aliases: { components: '$lib/components', utils: '$lib/utils' }
+    }));
+
+    const svelteProject = await loadProject(svelte);
+    expect(svelteProject).toMatchObject({ framework: 'svelte', style: undefined });
+    expect(svelteProject.directories.ui).toBe('src/lib/components/ui');
+  });
+
+  it('should rewrite registry imports to project aliases', () => {
+    const aliases = { components: '~/components', utils: '~/utils', ui: '~/ui', lib: '~/lib', hooks: '~/hooks' };
+
+    expect(rewriteRegistryImports([
+      'import { Button } from "@/registry/new-york-v4/ui/button"',
+      'import { useMobile } from "@/registry/new-york-v4/hooks/use-mobile"',
+      'import { cn } from "@/lib/utils"',
+      "import { cn } from '$lib/utils.js'",
+      "import { Input } from '$lib/registry/ui/input/index.js'"
+    ].join('\n'), aliases)).toBe([
+      'import { Button } from "~/ui/button"',
+      'import { useMobile } from "~/hooks/use-mobile"',
+      'import { cn } from "~/utils"',
+      "import { cn } from '~/utils.js'",
+      "import { Input } from '~/ui/input/index.js'"
+    ].join('\n'));
+  });
+
+  it('should ignore formatting differences and the "use client" directive when normalizing', () => {
+    const aliases = { components: '@/components', utils: '@/lib/utils', ui: '@/components/ui', lib: '@/lib', hooks: '@/hooks' };
+
+    expect(normalizeSource('"use client"\r\n\r\nexport {}  \r\n', aliases)).toBe(normalizeSource('export {}', aliases));
+  });
+});
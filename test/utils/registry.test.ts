@@ -0,0 +1,150 @@
+/**
+ * Registry Abstraction Tests
+ * Runs the registry client and the registry-aware tools against a local HTTP stand-in
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  RegistryClient,
+  getRegistryClient,
+  parseRegistryReference,
+  formatRegistryItemSource
+} from '../../src/utils/registry.js';
+import { getConfigurationManager } from '../../src/utils/storage-integration.js';
+import { handleGetComponent } from '../../src/tools/components/get-component.js';
+import { handleGetComponentDemo } from '../../src/tools/components/get-component-demo.js';
+import { handleListComponents } from '../../src/tools/components/list-components.js';
+import { handleListBlocks } from '../../src/tools/blocks/list-blocks.js';
+import { handleResolveDependencies } from '../../src/tools/components/resolve-dependencies.js';
+
+const items: Record<string, object> = {
+  button: {
+    name: 'button',
+    type: 'registry:ui',
+    description: 'Acme button',
+    dependencies: ['@radix-ui/react-slot'],
+    files: [{ path: 'ui/button.tsx', type: 'registry:ui', content: 'export function Button() {}' }]
+  },
+  'button-demo': {
+    name: 'button-demo',
+    type: 'registry:example',
+    registryDependencies: ['@acme/button'],
+    files: [{ path: 'examples/button-demo.tsx', type: 'registry:example', content: 'export default function ButtonDemo() {}' }]
+  },
+  'login-01': {
+    name: 'login-01',
+    type: 'registry:block',
+    description: 'Login form',
+    categories: ['authentication'],
+    registryDependencies: ['@acme/button', '@acme/missing', 'https://example.com/r/logo.json'],
+    files: [
+      { path: 'blocks/login-01/page.tsx', type: 'registry:page', target: 'app/login/page.tsx', content: 'page' },
+      { path: 'blocks/login-01/login-form.tsx', type: 'registry:component', content: 'form' }
+    ]
+  },
+  broken: { name: 'broken', files: [] }
+};
+
+const registryIndex = {
+  name: 'acme',
+  homepage: 'https://acme.test',
+  items: Object.values(items).filter(item => item !== items.broken)
+};
+
+describe('Registry abstraction', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let lastRequest: http.IncomingMessage | undefined;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      lastRequest = req;
+      const name = new URL(req.url ?? '/', 'http://localhost').pathname.replace(/^\/r\//, '').replace(/\.json$/, '');
+      const body = name === 'registry' ? registryIndex : items[name];
+      res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' });
+      res.end(body ? JSON.stringify(body) : '{"error":"Not found"}');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    process.env.SHADCN_MCP_REGISTRIES = JSON.stringify({ '@acme': `${baseUrl}/r/{name}.json` });
+    await getConfigurationManager().load();
+  });
+
+  afterAll(async () => {
+    delete process.env.SHADCN_MCP_REGISTRIES;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('RegistryClient', () => {
+    it('should expand env vars into headers and query params', async () => {
+      process.env.ACME_TOKEN = 'secret';
+      const client = new RegistryClient('@private', {
+        url: `${baseUrl}/r/{name}.json`,
+        headers: { Authorization: 'Bearer ${ACME_TOKEN}' },
+        params: { version: 'latest' }
+      });
+
+      expect(client.buildUrl('button')).toBe(`${baseUrl}/r/button.json?version=latest`);
+      await client.getItem('button');
+      expect(lastRequest?.headers.authorization).toBe('Bearer secret');
+      delete process.env.ACME_TOKEN;
+    });
+
+    it('should reject missing and malformed items', async () => {
+      const client = new RegistryClient('@acme', `${baseUrl}/r/{name}.json`);
+
+      await expect(client.getItem('missing')).rejects.toThrow('Item "@acme/missing" not found');
+      await expect(client.getItem('broken')).rejects.toThrow('is not a valid registry item: type:');
+    });
+
+    it('should resolve configured and built-in registries by namespace', () => {
+      expect(getRegistryClient('acme').namespace).toBe('@acme');
+      expect(getRegistryClient('@shadcn').buildUrl('button')).toBe('https://ui.shadcn.com/r/styles/new-york-v4/button.json');
+      expect(() => getRegistryClient('@unknown')).toThrow('Unknown registry "@unknown"');
+    });
+  });
+
+  it('should parse namespaced references', () => {
+    expect(parseRegistryReference('@acme/button')).toEqual({ registry: '@acme', name: 'button' });
+    expect(parseRegistryReference('button')).toBeNull();
+    expect(parseRegistryReference('https://example.com/r/x.json')).toBeNull();
+  });
+
+  it('should label each file of multi-file items', () => {
+    const source = formatRegistryItemSource(items['login-01'] as any);
+
+    expect(source).toContain('// File: app/login/page.tsx\npage');
+    expect(source).toContain('// File: blocks/login-01/login-form.tsx\nform');
+  });
+
+  describe('tools', () => {
+    it('should read component source and demos from registry items', async () => {
+      const component = await handleGetComponent({ componentName: 'button', registry: '@acme' });
+      const demo = await handleGetComponentDemo({ componentName: 'button', registry: 'acme' });
+
+      expect(component.content[0].text).toBe('export function Button() {}');
+      expect(demo.content[0].text).toBe('export default function ButtonDemo() {}');
+    });
+
+    it('should list components and blocks from the registry index', async () => {
+      const components = JSON.parse((await handleListComponents({ registry: '@acme' })).content[0].text);
+      const blocks = JSON.parse((await handleListBlocks({ registry: '@acme', category: 'Authentication' })).content[0].text);
+
+      expect(components).toEqual({ registry: '@acme', components: ['button'], total: 1 });
+      expect(blocks.blocks).toEqual([{ name: 'login-01', description: 'Login form' }]);
+    });
+
+    it('should resolve namespaced registry dependencies', async () => {
+      const result = await handleResolveDependencies({ blocks: ['login-01'], registry: '@acme' });
+      const parsed = JSON.parse(result.content[0].text);
+
+      expect(parsed.installOrder.map((item: any) => item.name)).toEqual(['@acme/button', '@acme/login-01']);
+      expect(parsed.unresolved).toEqual([{ name: '@acme/missing', type: 'component', reason: expect.stringContaining('Item "@acme/missing" not found') }]);
+      expect(parsed.npmPackages).toEqual(['@radix-ui/react-slot']);
+      expect(parsed.command).toBe('npx shadcn@latest add @acme/button @acme/login-01 https://example.com/r/logo.json');
+    });
+  });
+});
@@ -82,6 +82,60 @@ describe('RequestDeduplicator', () => {
     });
   });
 
+  describe('cancellation', () => {
+    const slowFactory = vi.fn((signal: AbortSignal) => new Promise((resolve, reject) => {
+      const timer = setTimeout(() => resolve('result'), 50);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      });
+    }));
+
+    beforeEach(() => {
+      slowFactory.mockClear();
+    });
+
+    it('should keep the shared request running while another waiter remains', async () => {
+      const cancelled = new AbortController();
+      const first = deduplicator.deduplicate('key1', slowFactory, cancelled.signal);
+      const second = deduplicator.deduplicate('key1', slowFactory, new AbortController().signal);
+
+      cancelled.abort(new Error('Cancelled by client'));
+
+      await expect(first).rejects.toThrow('Cancelled by client');
+      await expect(second).resolves.toBe('result');
+      expect(slowFactory).toHaveBeenCalledOnce();
+      expect(slowFactory.mock.calls[0][0].aborted).toBe(false);
+    });
+
+    it('should abort the shared request once every waiter has cancelled', async () => {
+      const controllers = [new AbortController(), new AbortController()];
+      const waiters = controllers.map(controller => deduplicator.deduplicate('key1', slowFactory, controller.signal));
+
+      controllers.forEach(controller => controller.abort(new Error('Cancelled by client')));
+
+      await expect(Promise.all(waiters)).rejects.toThrow('Cancelled by client');
+      expect(slowFactory.mock.calls[0][0].aborted).toBe(true);
+      expect(deduplicator.getInFlightCount()).toBe(0);
+    });
+
+    it('should never abort a request that has a waiter without a signal', async () => {
+      const cancelled = new AbortController();
+      const first = deduplicator.deduplicate('key1', slowFactory, cancelled.signal);
+      const second = deduplicator.deduplicate('key1', slowFactory);
+
+      cancelled.abort();
+
+      await expect(first).rejects.toThrow();
+      await expect(second).resolves.toBe('result');
+    });
+
+    it('should reject already cancelled requests without running them', async () => {
+      await expect(deduplicator.deduplicate('key1', slowFactory, AbortSignal.abort())).rejects.toThrow();
+      expect(slowFactory).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getInFlightCount', () => {
     it('should report zero active requests initially', () => {
       expect(deduplicator.getInFlightCount()).toBe(0);
@@ -0,0 +1,59 @@
+/**
+ * Response Metadata Tests
+ * Tier, cache age, commit and degradation of the data behind a tool result
+ */
+
+import { vi, describe, it, expect } from 'vitest';
+
+const { axios } = vi.hoisted(() => ({
+  axios: {
+    resolveRef: vi.fn(async () => 'a'.repeat(40)),
+    getBlockCode: vi.fn(async (name: string) => ({ name, type: 'simple', files: {} }))
+  }
+}));
+
+vi.mock('../../src/utils/framework.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/framework.js')>(),
+  getAxiosImplementation: vi.fn(async () => axios)
+}));
+
+import { recordRead, reportDegradation, withResponseMeta } from '../../src/utils/response-meta.js';
+import { handleGetBlock } from '../../src/tools/blocks/get-block.js';
+
+const result = () => ({ content: [{ type: 'text', text: '{}' }] });
+
+describe('withResponseMeta', () => {
+  it('should report data fetched from GitHub by a tool call', async () => {
+    const response = await withResponseMeta(() => handleGetBlock({ blockName: 'login-01' }));
+
+    expect(response._meta).toEqual({ tier: 'github', cacheAgeSeconds: 0, githubSha: 'a'.repeat(40) });
+    expect(response.content).toHaveLength(1);
+  });
+
+  it('should report the oldest cached read and append a notice for degraded data', async () => {
+    const response = await withResponseMeta(async () => {
+      recordRead({ tier: 'memory', cachedAt: new Date(Date.now() - 60_000), value: { githubSha: 'abc' } });
+      recordRead({ tier: 'pglite', cachedAt: new Date(Date.now() - 7_200_000), degradation: 'serving-stale', value: { githubSha: 'abc' } });
+      reportDegradation('partial-data');
+      return result();
+    });
+
+    expect(response._meta).toEqual({
+      tier: 'mixed',
+      cacheAgeSeconds: 7200,
+      githubSha: 'abc',
+      degradation: ['serving-stale', 'partial-data']
+    });
+    expect(response.content[1].text).toBe(
+      'Notice: GitHub could not be reached, so this was served from an older cached copy; ' +
+      'part of this could not be fetched from GitHub, so it may be incomplete. Cached data is 2 h old.'
+    );
+  });
+
+  it('should leave results of calls that read nothing unchanged', async () => {
+    const unchanged = result();
+    reportDegradation('serving-stale');
+
+    expect(await withResponseMeta(async () => unchanged)).toBe(unchanged);
+  });
+});